@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate, useParams, useLocation } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate, useParams, useLocation, useSearchParams } from 'react-router-dom';
 import Connection from './pages/Connection';
 import Sidebar from './components/Sidebar';
 import Dashboard from './pages/Dashboard';
 import DatabaseView from './pages/DatabaseView';
 import CollectionView from './pages/CollectionView';
+import AggregationBuilder from './pages/AggregationBuilder';
 import ImportExport from './pages/ImportExport';
+import CurrentOps from './pages/CurrentOps';
+import Profiler from './pages/Profiler';
+import Security from './pages/Security';
+import Migration from './pages/Migration';
 import CommandPanel from './components/CommandPanel';
-import { getDatabases, connect } from './services/api';
+import { getDatabases, connect, disconnect, setSessionExpiredHandler } from './services/api';
 import { ConnectionConfig } from './types';
 import { Icons } from './components/Icon';
 
@@ -42,6 +47,19 @@ function App() {
     }
   }, []);
 
+  // The server drops idle sessions; reconnect with the remembered config or go back to login
+  useEffect(() => {
+    setSessionExpiredHandler(() => {
+      const saved = localStorage.getItem('mongodeck_saved_connection');
+      if (saved) {
+        connect(JSON.parse(saved)).catch(() => handleLogout());
+      } else {
+        handleLogout();
+      }
+    });
+    return () => setSessionExpiredHandler(null);
+  }, []);
+
   useEffect(() => {
     if (isConnected) {
       // Poll for DB list updates
@@ -83,6 +101,7 @@ function App() {
   };
 
   const handleLogout = () => {
+    disconnect().catch(console.error);
     setIsConnected(false);
     setDatabases([]);
     setSavedConfig(null);
@@ -131,14 +150,20 @@ function App() {
             <Routes>
               <Route path="/" element={<DashboardPage />} />
               <Route path="/import-export" element={<ImportExportPage />} />
+              <Route path="/current-ops" element={<CurrentOpsPage />} />
+              <Route path="/profiler/:dbName" element={<ProfilerPage />} />
+              <Route path="/security" element={<SecurityPage />} />
+              <Route path="/migration" element={<MigrationPage />} />
               <Route path="/db/:dbName" element={<DatabasePage />} />
               <Route path="/db/:dbName/:colName" element={<CollectionPage />} />
+              <Route path="/db/:dbName/:colName/aggregate" element={<AggregationPage />} />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
           </div>
         </main>
 
-        <CommandPanel
+        <CommandPanelWithRouting
+          databases={databases}
           isOpen={showCommandPanel}
           onClose={() => setShowCommandPanel(false)}
         />
@@ -177,6 +202,21 @@ const SidebarWithRouting: React.FC<SidebarWithRoutingProps> = ({ databases, onLo
     onClose();
   };
 
+  const handleNavigateCurrentOps = () => {
+    navigate('/current-ops');
+    onClose();
+  };
+
+  const handleNavigateSecurity = () => {
+    navigate('/security');
+    onClose();
+  };
+
+  const handleNavigateMigration = () => {
+    navigate('/migration');
+    onClose();
+  };
+
   const handleSelectDb = (dbName: string) => {
     navigate(`/db/${dbName}`);
     onClose();
@@ -193,6 +233,31 @@ const SidebarWithRouting: React.FC<SidebarWithRoutingProps> = ({ databases, onLo
       onClose={onClose}
       onOpenCommandPanel={onOpenCommandPanel}
       onOpenImportExport={handleNavigateImportExport}
+      onOpenCurrentOps={handleNavigateCurrentOps}
+      onOpenSecurity={handleNavigateSecurity}
+      onOpenMigration={handleNavigateMigration}
+    />
+  );
+};
+
+// Command Panel that follows the database of the current route
+interface CommandPanelWithRoutingProps {
+  databases: any[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CommandPanelWithRouting: React.FC<CommandPanelWithRoutingProps> = ({ databases, isOpen, onClose }) => {
+  const location = useLocation();
+  const match = location.pathname.match(/^\/db\/([^\/]+)/);
+  const routeDb = match ? decodeURIComponent(match[1]) : null;
+
+  return (
+    <CommandPanel
+      isOpen={isOpen}
+      onClose={onClose}
+      databases={databases.map(db => db.name)}
+      routeDb={routeDb}
     />
   );
 };
@@ -208,6 +273,21 @@ const ImportExportPage: React.FC = () => {
   return <ImportExport onBack={() => navigate('/')} />;
 };
 
+const CurrentOpsPage: React.FC = () => {
+  const navigate = useNavigate();
+  return <CurrentOps onBack={() => navigate('/')} />;
+};
+
+const SecurityPage: React.FC = () => {
+  const navigate = useNavigate();
+  return <Security onBack={() => navigate('/')} />;
+};
+
+const MigrationPage: React.FC = () => {
+  const navigate = useNavigate();
+  return <Migration onBack={() => navigate('/')} />;
+};
+
 const DatabasePage: React.FC = () => {
   const navigate = useNavigate();
   const { dbName } = useParams<{ dbName: string }>();
@@ -220,14 +300,52 @@ const DatabasePage: React.FC = () => {
     <DatabaseView
       dbName={dbName}
       onNavigateCollection={(db, col) => navigate(`/db/${db}/${col}`)}
+      onOpenProfiler={() => navigate(`/profiler/${dbName}`)}
+      onBack={() => navigate('/')}
+    />
+  );
+};
+
+const ProfilerPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { dbName } = useParams<{ dbName: string }>();
+
+  if (!dbName) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleExplain = (colName: string, filter: any, sort?: any) => {
+    const params = new URLSearchParams({ explain: JSON.stringify(filter) });
+    if (sort) params.set('sort', JSON.stringify(sort));
+    navigate(`/db/${dbName}/${encodeURIComponent(colName)}?${params}`);
+  };
+
+  return (
+    <Profiler
+      dbName={dbName}
       onBack={() => navigate('/')}
+      onBackToDatabase={() => navigate(`/db/${dbName}`)}
+      onExplain={handleExplain}
     />
   );
 };
 
+// ?explain=<filter>&sort=<sort> opens the collection with that query explained
+const parseExplainParams = (params: URLSearchParams): { filter: any; sort?: any } | undefined => {
+  const explain = params.get('explain');
+  if (!explain) return undefined;
+  try {
+    const sort = params.get('sort');
+    return { filter: JSON.parse(explain), sort: sort ? JSON.parse(sort) : undefined };
+  } catch {
+    return undefined;
+  }
+};
+
 const CollectionPage: React.FC = () => {
   const navigate = useNavigate();
   const { dbName, colName } = useParams<{ dbName: string; colName: string }>();
+  const [searchParams] = useSearchParams();
 
   if (!dbName || !colName) {
     return <Navigate to="/" replace />;
@@ -238,6 +356,25 @@ const CollectionPage: React.FC = () => {
       dbName={dbName}
       colName={colName}
       onBack={() => navigate(`/db/${dbName}`)}
+      onOpenAggregation={() => navigate(`/db/${dbName}/${colName}/aggregate`)}
+      initialExplain={parseExplainParams(searchParams)}
+    />
+  );
+};
+
+const AggregationPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { dbName, colName } = useParams<{ dbName: string; colName: string }>();
+
+  if (!dbName || !colName) {
+    return <Navigate to="/" replace />;
+  }
+
+  return (
+    <AggregationBuilder
+      dbName={dbName}
+      colName={colName}
+      onBack={() => navigate(`/db/${dbName}/${colName}`)}
     />
   );
 };
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { Icons } from './Icon';
+import JsonEditor from './JsonEditor';
+import { bulkDocuments, exportCollection } from '../services/api';
+import { idToString } from '../services/ejson';
+import { formatJobProgress } from '../services/format';
+import { BulkDocumentAction, BulkDocumentRequest, BulkDocumentResult, DocumentId, JobInfo } from '../types';
+
+interface BulkActionBarProps {
+  dbName: string;
+  colName: string;
+  selectedIds: DocumentId[];
+  // Every document matching `filter` is selected rather than `selectedIds`
+  allMatching: boolean;
+  matchingCount: number;
+  filter: any;
+  // The whole page is selected but more documents match the filter
+  canSelectAllMatching: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onChanged: () => void;
+}
+
+// The server resolves a bulk request in one batch and refuses more documents than this
+const BULK_MAX_DOCUMENTS = 10000;
+
+const ACTION_LABELS: Record<BulkDocumentAction, string> = {
+  delete: 'Deleted',
+  duplicate: 'Duplicated',
+  update: 'Updated'
+};
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  dbName,
+  colName,
+  selectedIds,
+  allMatching,
+  matchingCount,
+  filter,
+  canSelectAllMatching,
+  onSelectAllMatching,
+  onClear,
+  onChanged
+}) => {
+  const [busy, setBusy] = useState<BulkDocumentAction | 'export' | null>(null);
+  const [exportProgress, setExportProgress] = useState<JobInfo | null>(null);
+  const [showUpdate, setShowUpdate] = useState(false);
+  const [update, setUpdate] = useState<any>({ $set: {} });
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  const [result, setResult] = useState<BulkDocumentResult | null>(null);
+
+  const count = allMatching ? matchingCount : selectedIds.length;
+  const described = `${count.toLocaleString()} document${count !== 1 ? 's' : ''}`;
+  const target = allMatching ? { filter } : { ids: selectedIds };
+
+  const run = async (request: BulkDocumentRequest) => {
+    setBusy(request.action);
+    try {
+      const outcome = await bulkDocuments(dbName, colName, request);
+      setResult(outcome);
+      if (request.action === 'delete') onClear();
+      onChanged();
+      return true;
+    } catch (err) {
+      alert(`Bulk ${request.action} failed: ${(err as Error).message}`);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${described}? This cannot be undone.`)) return;
+    run({ action: 'delete', ...target });
+  };
+
+  const handleDuplicate = () => {
+    if (!confirm(`Insert a copy of ${described} with new _ids?`)) return;
+    run({ action: 'duplicate', ...target });
+  };
+
+  const handleUpdate = async () => {
+    setUpdateError(null);
+    const isPipeline = Array.isArray(update);
+    if (!update || (!isPipeline && (Object.keys(update).length === 0 || !Object.keys(update).every(key => key.startsWith('$'))))) {
+      setUpdateError('Use update operators such as { "$set": { "status": "archived" } }, or a pipeline');
+      return;
+    }
+    if (!confirm(`Apply this update to ${described}?`)) return;
+    if (await run({ action: 'update', update, ...target })) setShowUpdate(false);
+  };
+
+  const handleExport = async () => {
+    setBusy('export');
+    setExportProgress(null);
+    try {
+      await exportCollection({ dbName, colName, format: 'json', filter: allMatching ? filter : { _id: { $in: selectedIds } } }, setExportProgress);
+    } catch (err) {
+      console.error('Export failed:', err);
+      alert('Export failed: ' + (err as Error).message);
+    } finally {
+      setBusy(null);
+      setExportProgress(null);
+    }
+  };
+
+  const problems = result ? result.results.filter(entry => entry.status === 'failed' || entry.status === 'missing') : [];
+
+  return (
+    <>
+      <div className="mt-4 flex flex-wrap items-center gap-3 p-2 pl-3 bg-emerald-500/10 border border-emerald-500/20 rounded-lg text-sm">
+        <span className="text-emerald-300 font-medium">
+          {allMatching ? `All ${described} matching the filter` : `${described} selected`}
+        </span>
+        {canSelectAllMatching && !allMatching && (matchingCount <= BULK_MAX_DOCUMENTS ? (
+          <button onClick={onSelectAllMatching} className="text-emerald-400 hover:underline">
+            Select all {matchingCount.toLocaleString()} matching
+          </button>
+        ) : (
+          <span className="text-slate-500">
+            Bulk actions handle up to {BULK_MAX_DOCUMENTS.toLocaleString()} documents; narrow the filter, or use Modify for all {matchingCount.toLocaleString()}
+          </span>
+        ))}
+        <div className="ml-auto flex flex-wrap gap-2">
+          <button
+            onClick={() => { setUpdateError(null); setShowUpdate(true); }}
+            disabled={busy !== null}
+            className="px-3 py-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Icons.Edit2 className="w-3.5 h-3.5" />
+            Update
+          </button>
+          <button
+            onClick={handleDuplicate}
+            disabled={busy !== null}
+            className="px-3 py-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Icons.Copy className="w-3.5 h-3.5" />
+            {busy === 'duplicate' ? 'Duplicating...' : 'Duplicate'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={busy !== null}
+            className="px-3 py-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Icons.Download className="w-3.5 h-3.5" />
+            {busy === 'export' ? (exportProgress ? formatJobProgress(exportProgress) : 'Exporting...') : 'Export'}
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={busy !== null}
+            className="px-3 py-1 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Icons.Trash2 className="w-3.5 h-3.5" />
+            {busy === 'delete' ? 'Deleting...' : 'Delete'}
+          </button>
+          <button onClick={onClear} disabled={busy !== null} className="px-2 py-1 text-slate-400 hover:text-white disabled:opacity-50">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Update Modal */}
+      {showUpdate && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 w-full max-w-2xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-100">Update {described}</h3>
+              <button onClick={() => setShowUpdate(false)}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+            </div>
+            <div className="flex-1 p-4 overflow-hidden flex flex-col">
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Update Operators</label>
+              <JsonEditor initialValue={update} onChange={setUpdate} height="300px" />
+              {updateError && (
+                <div className="mt-3 text-xs text-red-400 flex items-center gap-1">
+                  <Icons.Close className="w-3 h-3" />
+                  {updateError}
+                </div>
+              )}
+            </div>
+            <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
+              <button onClick={() => setShowUpdate(false)} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+              <button
+                onClick={handleUpdate}
+                disabled={!update || busy !== null}
+                className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {busy === 'update' ? 'Updating...' : 'Update'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Result Modal */}
+      {result && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 w-full max-w-lg rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-100">
+                {ACTION_LABELS[result.action]} {result.succeeded.toLocaleString()} document{result.succeeded !== 1 ? 's' : ''}
+              </h3>
+              <button onClick={() => setResult(null)}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+            </div>
+            <div className="flex-1 p-4 overflow-y-auto space-y-3 text-sm">
+              {problems.length === 0 ? (
+                <p className="text-emerald-400">Every document was {ACTION_LABELS[result.action].toLowerCase()}.</p>
+              ) : (
+                <>
+                  <p className="text-amber-400">
+                    {result.failed > 0 && `${result.failed.toLocaleString()} failed`}
+                    {result.failed > 0 && result.missing > 0 && ', '}
+                    {result.missing > 0 && `${result.missing.toLocaleString()} no longer exist`}
+                  </p>
+                  <ul className="space-y-1 font-mono text-xs">
+                    {problems.map(entry => (
+                      <li key={idToString(entry._id)} className="flex gap-2">
+                        <span className="text-emerald-400">{idToString(entry._id)}</span>
+                        <span className={entry.status === 'failed' ? 'text-red-400' : 'text-slate-500'}>
+                          {entry.status === 'failed' ? entry.error : 'not found'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+            <div className="p-4 border-t border-slate-700 flex justify-end bg-slate-800/50 rounded-b-xl">
+              <button onClick={() => setResult(null)} className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 transition-colors">
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from './Icon';
+import { watchCollection } from '../services/api';
+import { formatValue, idToString, validateEJSON } from '../services/ejson';
+import { ChangeEvent } from '../types';
+
+interface ChangeStreamViewProps {
+  dbName: string;
+  colName: string;
+}
+
+type StreamStatus = 'connecting' | 'live' | 'paused' | 'reconnecting' | 'error';
+
+// Oldest events are dropped beyond this many
+const MAX_EVENTS = 500;
+const RECONNECT_DELAY_MS = 3000;
+
+const OPERATION_STYLES: Record<string, string> = {
+  insert: 'bg-emerald-500/15 text-emerald-400',
+  update: 'bg-blue-500/15 text-blue-400',
+  replace: 'bg-amber-500/15 text-amber-400',
+  delete: 'bg-red-500/15 text-red-400'
+};
+
+const DEFAULT_OPERATION_STYLE = 'bg-slate-500/15 text-slate-300';
+
+const STATUS_LABELS: Record<StreamStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting...', className: 'text-slate-400' },
+  live: { label: 'Live', className: 'text-emerald-400' },
+  paused: { label: 'Paused', className: 'text-amber-400' },
+  reconnecting: { label: 'Reconnecting...', className: 'text-amber-400' },
+  error: { label: 'Stopped', className: 'text-red-400' }
+};
+
+const formatEventTime = (event: ChangeEvent): string => {
+  const wallTime = event.wallTime?.$date ?? event.wallTime;
+  if (wallTime) return new Date(typeof wallTime === 'object' ? Number(wallTime.$numberLong) : wallTime).toLocaleTimeString();
+  if (event.clusterTime?.$timestamp) return new Date(event.clusterTime.$timestamp.t * 1000).toLocaleTimeString();
+  return '';
+};
+
+const ChangeStreamView: React.FC<ChangeStreamViewProps> = ({ dbName, colName }) => {
+  const [events, setEvents] = useState<ChangeEvent[]>([]);
+  const [status, setStatus] = useState<StreamStatus>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [matchText, setMatchText] = useState('');
+  const [activeMatch, setActiveMatch] = useState<any>({});
+  const [matchError, setMatchError] = useState<string | null>(null);
+  // Last resume token seen; reconnecting from it replays everything missed in between
+  const resumeTokenRef = useRef<any>(null);
+
+  useEffect(() => {
+    resumeTokenRef.current = null;
+    setEvents([]);
+  }, [dbName, colName]);
+
+  useEffect(() => {
+    if (paused) {
+      setStatus('paused');
+      return;
+    }
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async (retrying: boolean) => {
+      setStatus(retrying ? 'reconnecting' : 'connecting');
+      let opened = false;
+      let invalidated = false;
+      try {
+        await watchCollection(dbName, colName, { match: activeMatch, resumeAfter: resumeTokenRef.current || undefined }, {
+          onOpen: (token) => {
+            opened = true;
+            if (token) resumeTokenRef.current = token;
+            setStatus('live');
+            setError(null);
+          },
+          onChange: (event) => {
+            resumeTokenRef.current = event._id;
+            if (event.operationType === 'invalidate') invalidated = true;
+            setEvents(prev => [event, ...prev].slice(0, MAX_EVENTS));
+          }
+        }, controller.signal);
+        if (invalidated) {
+          // An invalidate event ends the stream for good (collection dropped or renamed)
+          resumeTokenRef.current = null;
+          setError('The change stream was invalidated because the collection was dropped or renamed.');
+          setStatus('error');
+          return;
+        }
+        throw new Error('The server closed the change stream');
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        setError((e as Error).message);
+        if (!opened && !retrying) {
+          // Opening failed outright (e.g. not a replica set); retrying would not help
+          setStatus('error');
+          return;
+        }
+        setStatus('reconnecting');
+        retryTimer = setTimeout(() => connect(true), RECONNECT_DELAY_MS);
+      }
+    };
+    connect(false);
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [dbName, colName, activeMatch, paused]);
+
+  const applyMatch = () => {
+    setMatchError(null);
+    let parsed: any = {};
+    if (matchText.trim()) {
+      try {
+        parsed = JSON.parse(matchText);
+        validateEJSON(parsed);
+      } catch (e) {
+        setMatchError(`Invalid filter: ${(e as Error).message}`);
+        return;
+      }
+    }
+    // A new filter starts a new stream rather than replaying with the old token
+    resumeTokenRef.current = null;
+    setActiveMatch(parsed);
+  };
+
+  const restart = () => {
+    setError(null);
+    setActiveMatch((prev: any) => ({ ...prev }));
+  };
+
+  const statusInfo = STATUS_LABELS[status];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Icons.Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            placeholder='$match on change events e.g. { "operationType": "insert" } or { "fullDocument.status": "failed" }'
+            className="w-full bg-slate-800 border border-slate-700 text-slate-200 pl-10 pr-4 py-2.5 rounded-lg focus:ring-1 focus:ring-emerald-500 outline-none placeholder:text-slate-600 text-sm font-mono"
+            value={matchText}
+            onChange={e => setMatchText(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && applyMatch()}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={applyMatch}
+            className="flex-1 md:flex-none justify-center px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors text-sm whitespace-nowrap"
+          >
+            <Icons.Search className="w-4 h-4" />
+            <span>Watch</span>
+          </button>
+          <button
+            onClick={() => setPaused(p => !p)}
+            className="flex-1 md:flex-none justify-center px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors text-sm whitespace-nowrap"
+            title={paused ? 'Reconnect from the last resume token' : 'Disconnect and keep the resume token'}
+          >
+            {paused ? <Icons.Play className="w-4 h-4" /> : <Icons.Pause className="w-4 h-4" />}
+            <span>{paused ? 'Resume' : 'Pause'}</span>
+          </button>
+          <button
+            onClick={() => setEvents([])}
+            className="flex-1 md:flex-none justify-center px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors text-sm whitespace-nowrap"
+          >
+            <Icons.Trash2 className="w-4 h-4" />
+            <span>Clear</span>
+          </button>
+        </div>
+      </div>
+
+      {matchError && <div className="text-xs text-red-400">{matchError}</div>}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className={`flex items-center gap-1.5 font-medium ${statusInfo.className}`}>
+          <Icons.Live className={`w-4 h-4 ${status === 'live' ? 'animate-pulse' : ''}`} />
+          {statusInfo.label}
+        </span>
+        <span className="text-slate-500">{events.length} event{events.length === 1 ? '' : 's'}</span>
+        {Object.keys(activeMatch).length > 0 && (
+          <span className="text-xs font-mono text-emerald-400 bg-emerald-500/10 px-2 py-1 rounded">
+            $match: {JSON.stringify(activeMatch)}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <span>{error}</span>
+          {status === 'error' && (
+            <button onClick={restart} className="text-xs text-slate-300 hover:text-white whitespace-nowrap">Try again</button>
+          )}
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-slate-500">
+          <Icons.Live className="w-12 h-12 mb-4 opacity-20" />
+          <p>Waiting for changes to {colName}...</p>
+        </div>
+      ) : (
+        <div className="space-y-2 font-mono text-sm">
+          {events.map(event => {
+            const documentId = event.documentKey?._id;
+            const update = event.updateDescription;
+            return (
+              <div key={JSON.stringify(event._id)} className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${OPERATION_STYLES[event.operationType] || DEFAULT_OPERATION_STYLE}`}>
+                    {event.operationType}
+                  </span>
+                  {documentId !== undefined && <span className="text-emerald-400 text-xs truncate">{idToString(documentId)}</span>}
+                  <span className="ml-auto text-xs text-slate-500">{formatEventTime(event)}</span>
+                </div>
+                {update && (
+                  <div className="mt-2 space-y-0.5 text-xs">
+                    {Object.entries(update.updatedFields).map(([field, value]) => (
+                      <div key={field} className="text-slate-300 break-all">
+                        <span className="text-blue-400">{field}</span>: {formatValue(value)}
+                      </div>
+                    ))}
+                    {update.removedFields.map(field => (
+                      <div key={field} className="text-red-400 line-through">{field}</div>
+                    ))}
+                    {update.truncatedArrays?.map(({ field, newSize }) => (
+                      <div key={field} className="text-amber-400">{field} truncated to {newSize}</div>
+                    ))}
+                  </div>
+                )}
+                {event.fullDocument && (
+                  <details className="mt-2" open={event.operationType !== 'update'}>
+                    <summary className="text-xs text-slate-500 cursor-pointer hover:text-slate-300">Full document</summary>
+                    <pre className="mt-1 text-xs text-slate-400 whitespace-pre-wrap break-all">
+                      {JSON.stringify(event.fullDocument, null, 2)}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeStreamView;
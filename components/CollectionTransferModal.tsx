@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from './Icon';
+import { getDatabases, renameCollection, copyCollection, cancelJob } from '../services/api';
+import { parseJsonOption } from '../services/ejson';
+import { formatJobProgress, getJobPercent } from '../services/format';
+import { JobInfo } from '../types';
+
+interface CollectionTransferModalProps {
+  mode: 'rename' | 'copy';
+  dbName: string;
+  colName: string;
+  onClose: () => void;
+  // Called with the database that now holds the renamed or copied collection
+  onDone: (toDb: string, toCollection: string) => void;
+}
+
+const CollectionTransferModal: React.FC<CollectionTransferModalProps> = ({ mode, dbName, colName, onClose, onDone }) => {
+  const isCopy = mode === 'copy';
+  const [databases, setDatabases] = useState<string[]>([dbName]);
+  const [toDb, setToDb] = useState(dbName);
+  const [toCollection, setToCollection] = useState(isCopy ? `${colName}_copy` : colName);
+  const [dropTarget, setDropTarget] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [includeIndexes, setIncludeIndexes] = useState(true);
+  const [includeValidator, setIncludeValidator] = useState(true);
+  const [includeOptions, setIncludeOptions] = useState(true);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<JobInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    getDatabases()
+      .then(list => setDatabases(list.map(db => db.name)))
+      .catch(console.error);
+  }, []);
+
+  const handleSubmit = async () => {
+    setError(null);
+    const target = toCollection.trim();
+    const targetDb = toDb.trim() || dbName;
+    if (!target) {
+      setError('Enter a collection name');
+      return;
+    }
+    if (dropTarget && !confirm(`Drop "${targetDb}.${target}" if it exists? This cannot be undone.`)) return;
+
+    setRunning(true);
+    try {
+      if (isCopy) {
+        const parsedFilter = parseJsonOption('Filter', filter);
+        await copyCollection(
+          dbName,
+          colName,
+          { toDb: targetDb, toCollection: target, dropTarget, filter: parsedFilter, includeIndexes, includeValidator, includeOptions },
+          setJobId,
+          setProgress
+        );
+      } else {
+        await renameCollection(dbName, colName, { toDb: targetDb, toCollection: target, dropTarget });
+      }
+      onDone(targetDb, target);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRunning(false);
+      setJobId(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (jobId && running) {
+      cancelJob(jobId).catch(err => alert('Failed to cancel the copy: ' + (err as Error).message));
+      return;
+    }
+    onClose();
+  };
+
+  const percent = progress ? getJobPercent(progress) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 w-full max-w-lg rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-100">{isCopy ? 'Copy' : 'Rename'} {colName}</h3>
+          <button onClick={onClose} disabled={running}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Database</label>
+              <input list="transfer-databases" value={toDb} onChange={e => setToDb(e.target.value)} disabled={running} className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none" />
+              <datalist id="transfer-databases">
+                {databases.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">{isCopy ? 'Target Collection' : 'New Name'}</label>
+              <input autoFocus value={toCollection} onChange={e => setToCollection(e.target.value)} disabled={running} className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none" />
+            </div>
+          </div>
+          {isCopy && toDb === dbName && (
+            <p className="text-xs text-slate-500">Copying within {dbName} clones the collection.</p>
+          )}
+
+          {isCopy && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Filter</label>
+                <textarea
+                  rows={3}
+                  value={filter}
+                  onChange={e => setFilter(e.target.value)}
+                  disabled={running}
+                  placeholder='Copy every document if empty, e.g. { "status": "active" }'
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                />
+              </div>
+              <div className="space-y-2">
+                {([
+                  ['Indexes', includeIndexes, setIncludeIndexes],
+                  ['Validator', includeValidator, setIncludeValidator],
+                  ['Options (capped, time series, clustered, collation)', includeOptions, setIncludeOptions]
+                ] as const).map(([label, checked, setChecked]) => (
+                  <label key={label} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={checked} onChange={e => setChecked(e.target.checked)} disabled={running} className="w-4 h-4" />
+                    Copy {label.toLowerCase()}
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={dropTarget} onChange={e => setDropTarget(e.target.checked)} disabled={running} className="w-4 h-4" />
+            Replace the target collection if it exists
+          </label>
+
+          {progress && (
+            <div>
+              <div className="h-2 rounded bg-slate-700 overflow-hidden">
+                <div
+                  className={`h-full bg-emerald-500 transition-all ${percent === null ? 'animate-pulse w-full' : ''}`}
+                  style={percent === null ? undefined : { width: `${percent}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-slate-400">
+                {progress.progress.phase === 'indexes' ? 'Building indexes...' : formatJobProgress(progress)}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-xs text-red-400 flex items-center gap-1">
+              <Icons.Close className="w-3 h-3" />
+              {error}
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
+          <button
+            onClick={handleCancel}
+            disabled={running && !jobId}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            {running && jobId ? 'Stop Copy' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={running}
+            className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {running ? (isCopy ? 'Copying...' : 'Renaming...') : isCopy ? 'Copy' : 'Rename'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionTransferModal;
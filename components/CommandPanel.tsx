@@ -6,11 +6,17 @@ import { CommandResult } from '../types';
 interface CommandPanelProps {
   isOpen: boolean;
   onClose: () => void;
+  databases: string[];
+  // Database of the current page, if any; the panel switches to it on navigation
+  routeDb: string | null;
 }
 
-const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
+const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose, databases, routeDb }) => {
   const [command, setCommand] = useState('');
+  // Empty means the connection's default database until the server names it
+  const [database, setDatabase] = useState(routeDb || '');
   const [result, setResult] = useState<CommandResult | null>(null);
+  const [executedCommand, setExecutedCommand] = useState('');
   const [loading, setLoading] = useState(false);
   const [history, setHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
@@ -27,13 +33,20 @@ const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
     'db.adminCommand({ ping: 1 })',
     'db.serverStatus()',
     'db.stats()',
-    'db.listDatabases()',
-    'db.listCollections()',
-    'db.collectionName.find().limit(10)',
-    'db.collectionName.findOne()',
-    'db.collectionName.countDocuments()',
+    'show dbs',
+    'show collections',
+    'use admin',
+    'db.collectionName.find({ field: "value" }).sort({ _id: -1 }).limit(10)',
+    'db.collectionName.find({ name: /^a/i }, { name: 1 })',
+    "db.collectionName.findOne({ _id: ObjectId('000000000000000000000000') })",
+    'db.collectionName.countDocuments({ createdAt: { $gte: ISODate("2024-01-01") } })',
+    'db.collectionName.distinct("field")',
     'db.collectionName.aggregate([{ $group: { _id: null, count: { $sum: 1 } } }])',
+    'db.collectionName.insertOne({ field: "value" })',
+    'db.collectionName.updateMany({ field: "value" }, { $set: { updated: true } })',
+    'db.collectionName.deleteOne({ field: "value" })',
     'db.collectionName.createIndex({ field: 1 })',
+    'db.collectionName.getIndexes()',
     'db.collectionName.drop()',
     'db.runCommand({ collStats: "collectionName" })',
   ];
@@ -44,6 +57,10 @@ const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (routeDb) setDatabase(routeDb);
+  }, [routeDb]);
+
   useEffect(() => {
     if (mode === 'big') {
       setSize({ width: 600, height: 500 });
@@ -57,11 +74,13 @@ const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
     
     setLoading(true);
     setResult(null);
+    setExecutedCommand(command);
     
     try {
       const startTime = performance.now();
-      const res = await executeCommand(command);
+      const res = await executeCommand(command, database);
       const endTime = performance.now();
+      if (res.database) setDatabase(res.database);
       
       setResult({
         ...res,
@@ -138,6 +157,13 @@ const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
     return result.error || 'No data returned';
   };
 
+  // The line of the last command that failed to parse, with a caret under the offending column
+  const errorPointer = () => {
+    if (!result?.position) return null;
+    const line = executedCommand.split('\n')[result.position.line - 1] ?? '';
+    return `${line}\n${' '.repeat(result.position.column - 1)}^`;
+  };
+
   // Drag handlers
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.target === dragRef.current || e.target === panelRef.current) {
@@ -220,10 +246,17 @@ const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
       <div className="flex flex-col h-full overflow-hidden">
         {/* Command Input */}
         <div className="p-3 border-b border-slate-700 bg-slate-900/30">
-          <div className="flex items-center justify-between mb-2">
-            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
-              Command
-            </label>
+          <div className="flex items-center justify-between mb-2 gap-2">
+            <select
+              value={database}
+              onChange={(e) => setDatabase(e.target.value)}
+              title="Database the commands run against"
+              className="min-w-0 max-w-[50%] bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-xs text-slate-300 font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+            >
+              {!database && <option value="">Default database</option>}
+              {database && !databases.includes(database) && <option value={database}>{database}</option>}
+              {databases.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
             <div className="flex gap-2">
               <button
                 onClick={() => setShowSuggestions(!showSuggestions)}
@@ -242,14 +275,17 @@ const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
             </div>
           </div>
           
-          <div className="relative">
+          <div className="relative flex gap-2">
+            <span className="pt-2 font-mono text-xs text-emerald-400 whitespace-nowrap select-none">
+              {database || 'db'}&gt;
+            </span>
             <textarea
               ref={inputRef}
               value={command}
               onChange={(e) => setCommand(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Enter MongoDB command (e.g., db.collectionName.find())"
-              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-slate-200 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500 outline-none transition-all font-mono text-xs leading-relaxed resize-none"
+              placeholder="Enter a mongosh command (e.g., db.collectionName.find({ field: 1 }).limit(5))"
+              className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg p-2 text-slate-200 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500 outline-none transition-all font-mono text-xs leading-relaxed resize-none"
               rows={mode === 'big' ? 6 : 3}
             />
             <div className="absolute bottom-1 right-2 text-[10px] text-slate-500">
@@ -314,6 +350,9 @@ const CommandPanel: React.FC<CommandPanelProps> = ({ isOpen, onClose }) => {
                 <span className={result.success ? 'text-emerald-400' : 'text-red-400'}>
                   {formatResult()}
                 </span>
+                {result.position && (
+                  <span className="block mt-2 text-slate-400 whitespace-pre break-normal">{errorPointer()}</span>
+                )}
               </pre>
             ) : (
                 <div className="text-slate-500 text-[11px] italic">
@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { Icons } from './Icon';
+import { createCollection } from '../services/api';
+import { parseJsonOption } from '../services/ejson';
+import { CollectionKind, CreateCollectionOptions, ValidationAction, ValidationLevel } from '../types';
+
+interface CreateCollectionModalProps {
+  dbName: string;
+  // Existing collections, offered as view sources
+  collectionNames: string[];
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const KINDS: { value: CollectionKind; label: string; description: string }[] = [
+  { value: 'collection', label: 'Collection', description: 'A regular collection' },
+  { value: 'capped', label: 'Capped', description: 'Fixed size; the oldest documents are overwritten' },
+  { value: 'timeseries', label: 'Time Series', description: 'Measurements stored in buckets by time' },
+  { value: 'clustered', label: 'Clustered', description: 'Documents stored in _id order' },
+  { value: 'view', label: 'View', description: 'Read-only result of a pipeline on a source' }
+];
+
+const GRANULARITIES = ['seconds', 'minutes', 'hours'] as const;
+
+const EMPTY_FORM = {
+  name: '',
+  size: '',
+  max: '',
+  timeField: '',
+  metaField: '',
+  granularity: '' as '' | typeof GRANULARITIES[number],
+  expireAfterSeconds: '',
+  viewOn: '',
+  pipeline: '[]',
+  collation: '',
+  validator: '',
+  validationLevel: 'strict' as ValidationLevel,
+  validationAction: 'error' as ValidationAction,
+  prePostImages: false
+};
+
+const parseCount = (label: string, text: string, required: boolean): number | undefined => {
+  if (!text.trim()) {
+    if (required) throw new Error(`${label} is required`);
+    return undefined;
+  }
+  const value = Number(text);
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`${label} must be a positive whole number`);
+  return value;
+};
+
+const CreateCollectionModal: React.FC<CreateCollectionModalProps> = ({ dbName, collectionNames, onClose, onCreated }) => {
+  const [kind, setKind] = useState<CollectionKind>('collection');
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isView = kind === 'view';
+
+  const buildOptions = (): CreateCollectionOptions => {
+    const collation = parseJsonOption('Collation', form.collation);
+    if (isView) {
+      if (!form.viewOn.trim()) throw new Error('Choose the source collection of the view');
+      const pipeline = parseJsonOption('Pipeline', form.pipeline) ?? [];
+      if (!Array.isArray(pipeline)) throw new Error('Pipeline must be an array of stages');
+      return { viewOn: form.viewOn.trim(), pipeline, collation };
+    }
+
+    const options: CreateCollectionOptions = { collation };
+    if (kind === 'capped') {
+      options.capped = true;
+      options.size = parseCount('Size', form.size, true);
+      options.max = parseCount('Max documents', form.max, false);
+    }
+    if (kind === 'timeseries') {
+      if (!form.timeField.trim()) throw new Error('Time field is required');
+      options.timeseries = { timeField: form.timeField.trim() };
+      if (form.metaField.trim()) options.timeseries.metaField = form.metaField.trim();
+      if (form.granularity) options.timeseries.granularity = form.granularity;
+    }
+    if (kind === 'clustered') {
+      options.clusteredIndex = { key: { _id: 1 }, unique: true };
+    }
+    if ((kind === 'timeseries' || kind === 'clustered') && form.expireAfterSeconds.trim()) {
+      options.expireAfterSeconds = parseCount('Expire after', form.expireAfterSeconds, false);
+    }
+
+    const validator = parseJsonOption('Validator', form.validator);
+    if (validator) {
+      options.validator = validator;
+      options.validationLevel = form.validationLevel;
+      options.validationAction = form.validationAction;
+    }
+    // Time series collections do not support pre- and post-images
+    if (form.prePostImages && kind !== 'timeseries') {
+      options.changeStreamPreAndPostImages = { enabled: true };
+    }
+    return options;
+  };
+
+  const handleCreate = async () => {
+    setFormError(null);
+    try {
+      const name = form.name.trim();
+      if (!name) throw new Error(`Enter a ${isView ? 'view' : 'collection'} name`);
+      const options = buildOptions();
+      setSaving(true);
+      await createCollection(dbName, name, options);
+      onCreated();
+    } catch (err) {
+      setFormError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 w-full max-w-2xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-100">{isView ? 'Create View' : 'Create Collection'}</h3>
+          <button onClick={onClose}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto space-y-5">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Type</label>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {KINDS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setKind(option.value)}
+                  className={`text-left p-2 rounded-lg border transition-colors ${kind === option.value ? 'border-emerald-500 bg-emerald-500/10' : 'border-slate-700 hover:border-slate-500'}`}
+                >
+                  <div className={`text-sm font-medium ${kind === option.value ? 'text-emerald-400' : 'text-slate-200'}`}>{option.label}</div>
+                  <div className="text-xs text-slate-500">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Name</label>
+            <input
+              autoFocus
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              placeholder={isView ? 'View name' : 'Collection name'}
+              className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+
+          {kind === 'capped' && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Size (bytes)</label>
+                <input type="number" min="1" value={form.size} onChange={e => setForm({ ...form, size: e.target.value })} placeholder="e.g. 10485760" className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Max Documents</label>
+                <input type="number" min="1" value={form.max} onChange={e => setForm({ ...form, max: e.target.value })} placeholder="No limit if empty" className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none" />
+              </div>
+            </div>
+          )}
+
+          {kind === 'timeseries' && (
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Time Field</label>
+                <input value={form.timeField} onChange={e => setForm({ ...form, timeField: e.target.value })} placeholder="timestamp" className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none font-mono" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Meta Field</label>
+                <input value={form.metaField} onChange={e => setForm({ ...form, metaField: e.target.value })} placeholder="Optional, e.g. sensor" className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none font-mono" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Granularity</label>
+                <select
+                  value={form.granularity}
+                  onChange={e => setForm({ ...form, granularity: e.target.value as typeof form.granularity })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                >
+                  <option value="">Default (seconds)</option>
+                  {GRANULARITIES.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {(kind === 'timeseries' || kind === 'clustered') && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Expire After (seconds)</label>
+              <input
+                type="number"
+                min="1"
+                value={form.expireAfterSeconds}
+                onChange={e => setForm({ ...form, expireAfterSeconds: e.target.value })}
+                placeholder={kind === 'timeseries' ? 'Delete measurements older than this' : 'Delete documents whose _id date is older than this'}
+                className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+          )}
+
+          {isView && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Source</label>
+                <input
+                  list="view-sources"
+                  value={form.viewOn}
+                  onChange={e => setForm({ ...form, viewOn: e.target.value })}
+                  placeholder="Collection or view to read from"
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+                <datalist id="view-sources">
+                  {collectionNames.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Pipeline</label>
+                <textarea
+                  rows={6}
+                  value={form.pipeline}
+                  onChange={e => setForm({ ...form, pipeline: e.target.value })}
+                  placeholder='[{ "$match": { "status": "active" } }, { "$project": { "password": 0 } }]'
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Default Collation</label>
+              <textarea
+                rows={isView ? 2 : 5}
+                value={form.collation}
+                onChange={e => setForm({ ...form, collation: e.target.value })}
+                placeholder='{ "locale": "en", "strength": 2 }'
+                className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+              />
+            </div>
+            {!isView && (
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Validator</label>
+                <textarea
+                  rows={5}
+                  value={form.validator}
+                  onChange={e => setForm({ ...form, validator: e.target.value })}
+                  placeholder='{ "$jsonSchema": { "required": ["name"] } }'
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                />
+              </div>
+            )}
+          </div>
+
+          {!isView && form.validator.trim() && (
+            <div className="flex flex-wrap gap-6 text-sm text-slate-300">
+              <label className="flex items-center gap-2">
+                Level
+                <select
+                  value={form.validationLevel}
+                  onChange={e => setForm({ ...form, validationLevel: e.target.value as ValidationLevel })}
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                >
+                  <option value="strict">strict</option>
+                  <option value="moderate">moderate</option>
+                  <option value="off">off</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Action
+                <select
+                  value={form.validationAction}
+                  onChange={e => setForm({ ...form, validationAction: e.target.value as ValidationAction })}
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                >
+                  <option value="error">error</option>
+                  <option value="warn">warn</option>
+                </select>
+              </label>
+            </div>
+          )}
+
+          {!isView && kind !== 'timeseries' && (
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={form.prePostImages}
+                onChange={e => setForm({ ...form, prePostImages: e.target.checked })}
+                className="w-4 h-4"
+              />
+              Record change stream pre- and post-images
+            </label>
+          )}
+
+          {formError && (
+            <div className="text-xs text-red-400 flex items-center gap-1">
+              <Icons.Close className="w-3 h-3" />
+              {formError}
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
+          <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+          <button
+            onClick={handleCreate}
+            disabled={saving}
+            className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? 'Creating...' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreateCollectionModal;
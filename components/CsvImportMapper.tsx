@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { CsvColumn, CsvFieldType, CsvImportOptions } from '../types';
+import { DELIMITERS, CSV_FIELD_TYPES, parseCsv, detectDelimiter, buildColumns } from '../services/csv';
+
+interface CsvImportMapperProps {
+  file: File;
+  onChange: (options: CsvImportOptions) => void;
+}
+
+// Only the start of the file is read for the preview and type inference
+const PREVIEW_BYTES = 256 * 1024;
+const PREVIEW_ROWS = 20;
+const INFERENCE_ROWS = 200;
+
+const DATE_FORMAT_PRESETS = ['iso', 'epoch_ms', 'epoch_s', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD/MM/YYYY HH:mm:ss', 'YYYY-MM-DD HH:mm:ss'];
+
+const CsvImportMapper: React.FC<CsvImportMapperProps> = ({ file, onChange }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [delimiter, setDelimiter] = useState(',');
+  const [customDelimiter, setCustomDelimiter] = useState('');
+  const [header, setHeader] = useState(true);
+  const [ignoreBlanks, setIgnoreBlanks] = useState(true);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<CsvColumn[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeDelimiter = delimiter === 'custom' ? customDelimiter : delimiter;
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    file.slice(0, PREVIEW_BYTES).text()
+      .then(content => {
+        if (cancelled) return;
+        setText(content);
+        setTruncated(file.size > PREVIEW_BYTES);
+        setDelimiter(detectDelimiter(content, file.name));
+      })
+      .catch(e => !cancelled && setError((e as Error).message));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Re-parse and re-infer whenever the parsing settings change
+  useEffect(() => {
+    if (text === null || activeDelimiter.length !== 1) return;
+    const parsed = parseCsv(text, activeDelimiter, truncated).slice(0, INFERENCE_ROWS + 1);
+    setRows(parsed);
+    setColumns(buildColumns(parsed, header));
+  }, [text, truncated, activeDelimiter, header]);
+
+  useEffect(() => {
+    if (activeDelimiter.length !== 1) return;
+    onChange({ delimiter: activeDelimiter, header, ignoreBlanks, columns });
+  }, [activeDelimiter, header, ignoreBlanks, columns]);
+
+  const updateColumn = (index: number, changes: Partial<CsvColumn>) => {
+    setColumns(prev => prev.map(col => col.index === index ? { ...col, ...changes } : col));
+  };
+
+  const previewRows = (header ? rows.slice(1) : rows).slice(0, PREVIEW_ROWS);
+
+  if (error) return <div className="text-sm text-red-400">Could not read file: {error}</div>;
+  if (text === null) return <div className="text-sm text-slate-500 animate-pulse">Reading preview...</div>;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Delimiter</label>
+          <div className="flex gap-2">
+            <select
+              value={delimiter}
+              onChange={e => setDelimiter(e.target.value)}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-lg p-3 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+            >
+              {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              <option value="custom">Custom</option>
+            </select>
+            {delimiter === 'custom' && (
+              <input
+                type="text"
+                maxLength={1}
+                value={customDelimiter}
+                onChange={e => setCustomDelimiter(e.target.value)}
+                className="w-14 bg-slate-950 border border-slate-800 rounded-lg p-3 text-slate-200 text-center font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+              />
+            )}
+          </div>
+        </div>
+        <label className="flex items-center gap-3 cursor-pointer md:pt-6">
+          <input
+            type="checkbox"
+            checked={header}
+            onChange={e => setHeader(e.target.checked)}
+            className="w-5 h-5 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-500"
+          />
+          <span className="text-slate-300">First row is a header</span>
+        </label>
+        <label className="flex items-center gap-3 cursor-pointer md:pt-6">
+          <input
+            type="checkbox"
+            checked={ignoreBlanks}
+            onChange={e => setIgnoreBlanks(e.target.checked)}
+            className="w-5 h-5 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-500"
+          />
+          <span className="text-slate-300">Leave out empty cells</span>
+        </label>
+      </div>
+
+      {columns.length === 0 ? (
+        <div className="text-center text-slate-500 py-6">No rows found in the file preview</div>
+      ) : (
+        <div className="overflow-x-auto border border-slate-700 rounded-lg">
+          <table className="text-sm text-slate-400">
+            <thead className="bg-slate-900/80">
+              <tr>
+                {columns.map(col => (
+                  <th key={col.index} className="p-2 align-top min-w-[180px] border-r border-slate-800 last:border-r-0">
+                    <input
+                      type="text"
+                      value={col.field}
+                      onChange={e => updateColumn(col.index, { field: e.target.value })}
+                      disabled={col.type === 'skip'}
+                      placeholder="field.path"
+                      className="w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-slate-200 font-mono text-xs focus:ring-1 focus:ring-emerald-500 outline-none disabled:opacity-40"
+                    />
+                    <select
+                      value={col.type}
+                      onChange={e => {
+                        const type = e.target.value as CsvFieldType;
+                        updateColumn(col.index, { type, dateFormat: type === 'date' ? col.dateFormat || 'iso' : undefined });
+                      }}
+                      className="mt-1 w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-slate-200 text-xs focus:ring-1 focus:ring-emerald-500 outline-none"
+                    >
+                      {CSV_FIELD_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </select>
+                    {col.type === 'date' && (
+                      <input
+                        type="text"
+                        list="csv-date-formats"
+                        value={col.dateFormat || ''}
+                        onChange={e => updateColumn(col.index, { dateFormat: e.target.value })}
+                        placeholder="iso or DD/MM/YYYY"
+                        className="mt-1 w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-slate-200 font-mono text-xs focus:ring-1 focus:ring-emerald-500 outline-none"
+                      />
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800 font-mono text-xs">
+              {previewRows.map((row, i) => (
+                <tr key={i}>
+                  {columns.map(col => (
+                    <td
+                      key={col.index}
+                      className={`px-2 py-1.5 max-w-[240px] truncate border-r border-slate-800 last:border-r-0 ${col.type === 'skip' ? 'opacity-30' : 'text-slate-300'}`}
+                    >
+                      {row[col.index] ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="csv-date-formats">
+            {DATE_FORMAT_PRESETS.map(format => <option key={format} value={format} />)}
+          </datalist>
+        </div>
+      )}
+      <p className="text-xs text-slate-500">
+        Types are suggested from the first {Math.min(INFERENCE_ROWS, Math.max(0, rows.length - (header ? 1 : 0)))} rows.
+        Date patterns use YYYY, MM, DD, HH, mm, ss and SSS and are read as UTC.
+      </p>
+    </div>
+  );
+};
+
+export default CsvImportMapper;
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { Icons } from './Icon';
+import DocumentDiffView from './DocumentDiffView';
+import { diffDocuments, mergeDocuments } from '../services/diff';
+import { formatValue } from '../services/ejson';
+import { Document } from '../types';
+
+interface DocumentConflictViewProps {
+  // The document as the editor loaded it, the edited version and the stored one now
+  base: Document;
+  mine: Document;
+  theirs: Document;
+  // Discard the edit and continue from the stored document
+  onReload: () => void;
+  onMerge: (merged: Document) => void;
+}
+
+const renderSide = (value: any) => (value === undefined ? <span className="italic text-slate-500">removed</span> : formatValue(value));
+
+// Shown when saving an edit finds that someone else changed the document after it was
+// loaded: lists their changes and merges them with the edit, asking which side wins
+// for fields both changed.
+const DocumentConflictView: React.FC<DocumentConflictViewProps> = ({ base, mine, theirs, onReload, onMerge }) => {
+  const [resolutions, setResolutions] = useState<Record<string, 'mine' | 'theirs'>>({});
+  const theirChanges = useMemo(() => diffDocuments(base, theirs).changes, [base, theirs]);
+  const { merged, conflicts } = useMemo(() => mergeDocuments(base, mine, theirs, resolutions), [base, mine, theirs, resolutions]);
+
+  const resolve = (path: string, side: 'mine' | 'theirs') => setResolutions(prev => ({ ...prev, [path]: side }));
+
+  return (
+    <div className="space-y-5">
+      <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-400 text-sm flex items-start gap-2">
+        <Icons.Warning className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>This document was changed by someone else after you opened it. Merge your edit into their version, or reload it and discard your edit.</span>
+      </div>
+
+      <div>
+        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Their Changes</label>
+        <DocumentDiffView changes={theirChanges} />
+      </div>
+
+      {conflicts.length > 0 && (
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Conflicts ({conflicts.length})</label>
+          <ul className="space-y-2 font-mono text-xs">
+            {conflicts.map(conflict => {
+              const side = resolutions[conflict.path] ?? 'mine';
+              return (
+                <li key={conflict.path} className="border border-slate-700 rounded-lg px-3 py-2 space-y-1.5">
+                  <div className="text-slate-200 font-semibold break-all">{conflict.path}</div>
+                  {(['mine', 'theirs'] as const).map(option => (
+                    <label key={option} className="flex items-start gap-2 cursor-pointer break-all">
+                      <input
+                        type="radio"
+                        name={`conflict-${conflict.path}`}
+                        checked={side === option}
+                        onChange={() => resolve(conflict.path, option)}
+                        className="mt-0.5"
+                      />
+                      <span className="text-slate-500 w-12 flex-shrink-0">{option === 'mine' ? 'Mine' : 'Theirs'}</span>
+                      <span className={option === 'mine' ? 'text-emerald-400' : 'text-sky-400'}>{renderSide(conflict[option])}</span>
+                    </label>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onReload}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <Icons.Refresh className="w-4 h-4" />
+          Reload Their Version
+        </button>
+        <button
+          onClick={() => onMerge(merged)}
+          className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 transition-colors"
+        >
+          Merge and Review
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentConflictView;
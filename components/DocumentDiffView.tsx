@@ -0,0 +1,56 @@
+import React from 'react';
+import { formatValue, getTypeName } from '../services/ejson';
+import { DocumentFieldChange } from '../types';
+
+interface DocumentDiffViewProps {
+  changes: DocumentFieldChange[];
+}
+
+const MAX_VALUE_LENGTH = 200;
+
+const renderValue = (value: any): string => {
+  const text = formatValue(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text;
+};
+
+const KIND_STYLES: Record<DocumentFieldChange['kind'], { marker: string; className: string }> = {
+  added: { marker: '+', className: 'border-emerald-500/30 bg-emerald-500/5' },
+  removed: { marker: '-', className: 'border-red-500/30 bg-red-500/5' },
+  changed: { marker: '~', className: 'border-amber-500/30 bg-amber-500/5' }
+};
+
+// Field-by-field review of an edited document before it is saved
+const DocumentDiffView: React.FC<DocumentDiffViewProps> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-slate-500">No fields were changed.</p>;
+  }
+
+  return (
+    <ul className="space-y-2 font-mono text-xs">
+      {changes.map(change => {
+        const style = KIND_STYLES[change.kind];
+        const beforeType = change.kind === 'changed' ? getTypeName(change.before) : null;
+        const afterType = change.kind === 'changed' ? getTypeName(change.after) : null;
+        return (
+          <li key={change.path} className={`border rounded-lg px-3 py-2 ${style.className}`}>
+            <div className="flex items-center gap-2">
+              <span className="text-slate-500 w-3">{style.marker}</span>
+              <span className="text-slate-200 font-semibold break-all">{change.path}</span>
+              {beforeType !== afterType && (
+                <span className="ml-auto text-[10px] uppercase tracking-wider text-amber-400">{beforeType} → {afterType}</span>
+              )}
+            </div>
+            <div className="mt-1 pl-5 space-y-0.5 break-all">
+              {change.kind !== 'added' && (
+                <div className={change.kind === 'removed' ? 'text-red-400 line-through' : 'text-red-400/80'}>{renderValue(change.before)}</div>
+              )}
+              {change.kind !== 'removed' && <div className="text-emerald-400">{renderValue(change.after)}</div>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default DocumentDiffView;
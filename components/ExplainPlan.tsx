@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Icons } from './Icon';
+import { ExplainResult, PlanNode } from '../types';
+import { summarizeExplain } from '../services/explain';
+
+interface ExplainPlanProps {
+  explain: ExplainResult;
+}
+
+const STAGE_COLORS: Record<string, string> = {
+  COLLSCAN: 'bg-red-500/10 text-red-400 border-red-500/30',
+  SORT: 'bg-amber-500/10 text-amber-400 border-amber-500/30',
+  IXSCAN: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  EXPRESS_IXSCAN: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  IDHACK: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  FETCH: 'bg-blue-500/10 text-blue-400 border-blue-500/30'
+};
+
+const DEFAULT_STAGE_COLOR = 'bg-slate-700/50 text-slate-300 border-slate-600';
+
+const formatMetric = (value?: number): string => value === undefined ? '—' : value.toLocaleString();
+
+const StageNode: React.FC<{ node: PlanNode; showStats: boolean }> = ({ node, showStats }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasDetails = Object.keys(node.details).length > 0;
+
+  return (
+    <div className="relative">
+      <div className={`rounded-lg border p-3 ${node.warning ? 'border-amber-500/40 bg-amber-500/5' : 'border-slate-700 bg-slate-900/50'}`}>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`text-xs font-bold font-mono px-2 py-0.5 rounded border ${STAGE_COLORS[node.stage] || DEFAULT_STAGE_COLOR}`}>
+            {node.stage}
+          </span>
+          {node.details.indexName && <span className="text-xs font-mono text-slate-400">{node.details.indexName}</span>}
+          {node.details.shardName && <span className="text-xs font-mono text-slate-400">{node.details.shardName}</span>}
+          {hasDetails && (
+            <button onClick={() => setExpanded(!expanded)} className="ml-auto text-xs text-slate-500 hover:text-white flex items-center gap-1">
+              {expanded ? <Icons.ChevronDown className="w-3 h-3" /> : <Icons.ChevronRight className="w-3 h-3" />}
+              Details
+            </button>
+          )}
+        </div>
+        {showStats && (
+          <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+            <div><span className="text-slate-500">Returned</span> <span className="text-slate-200 font-mono">{formatMetric(node.nReturned)}</span></div>
+            <div><span className="text-slate-500">Keys</span> <span className="text-slate-200 font-mono">{formatMetric(node.keysExamined)}</span></div>
+            <div><span className="text-slate-500">Docs</span> <span className="text-slate-200 font-mono">{formatMetric(node.docsExamined)}</span></div>
+            <div><span className="text-slate-500">Time</span> <span className="text-slate-200 font-mono">{node.executionTimeMillis === undefined ? '—' : `${node.executionTimeMillis} ms`}</span></div>
+          </div>
+        )}
+        {node.warning && (
+          <div className="mt-2 text-xs text-amber-400 flex items-center gap-1">
+            <Icons.Warning className="w-3 h-3 flex-shrink-0" />
+            {node.warning}
+          </div>
+        )}
+        {expanded && (
+          <pre className="mt-2 text-xs font-mono text-slate-400 bg-slate-950 rounded p-2 overflow-auto max-h-48">
+            {JSON.stringify(node.details, null, 2)}
+          </pre>
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <div className="ml-4 pl-4 border-l border-slate-700 mt-2 space-y-2">
+          {node.children.map((child, i) => <StageNode key={i} node={child} showStats={showStats} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ExplainPlan: React.FC<ExplainPlanProps> = ({ explain }) => {
+  const [showRejected, setShowRejected] = useState(false);
+  const [showRaw, setShowRaw] = useState(false);
+  const summary = summarizeExplain(explain);
+
+  const stats = [
+    { label: 'Returned', value: formatMetric(summary.nReturned) },
+    { label: 'Keys Examined', value: formatMetric(summary.totalKeysExamined) },
+    { label: 'Docs Examined', value: formatMetric(summary.totalDocsExamined) },
+    { label: 'Execution Time', value: summary.executionTimeMillis === undefined ? '—' : `${summary.executionTimeMillis} ms` }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+            <div className="text-xs text-slate-500 uppercase tracking-wider">{stat.label}</div>
+            <div className="text-lg font-bold text-slate-100 font-mono">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {summary.warnings.length > 0 && (
+        <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 space-y-1">
+          {summary.warnings.map(warning => (
+            <div key={warning} className="text-xs text-amber-400 flex items-start gap-2">
+              <Icons.Warning className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>{warning}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold text-slate-300 mb-2">Winning Plan</h4>
+        {!summary.hasStageStats && (
+          <p className="text-xs text-slate-500 mb-2">Per-stage statistics are not available for this query engine; showing the plan shape only.</p>
+        )}
+        {summary.winningPlan
+          ? <StageNode node={summary.winningPlan} showStats={summary.hasStageStats} />
+          : <p className="text-sm text-slate-500">No plan information returned.</p>}
+      </div>
+
+      {summary.rejectedPlans.length > 0 && (
+        <div>
+          <button onClick={() => setShowRejected(!showRejected)} className="text-sm font-semibold text-slate-300 hover:text-white flex items-center gap-1">
+            {showRejected ? <Icons.ChevronDown className="w-4 h-4" /> : <Icons.ChevronRight className="w-4 h-4" />}
+            Rejected Plans ({summary.rejectedPlans.length})
+          </button>
+          {showRejected && (
+            <div className="mt-2 space-y-3">
+              {summary.rejectedPlans.map((plan, i) => <StageNode key={i} node={plan} showStats={false} />)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <button onClick={() => setShowRaw(!showRaw)} className="text-sm font-semibold text-slate-300 hover:text-white flex items-center gap-1">
+          {showRaw ? <Icons.ChevronDown className="w-4 h-4" /> : <Icons.ChevronRight className="w-4 h-4" />}
+          Raw Output
+        </button>
+        {showRaw && (
+          <pre className="mt-2 text-xs font-mono text-slate-400 bg-slate-950 rounded-lg p-3 overflow-auto max-h-80">
+            {JSON.stringify(explain, null, 2)}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExplainPlan;
@@ -24,7 +24,22 @@ import {
   Upload,
   Download,
   Link,
-  ChevronDown
+  ChevronDown,
+  ArrowUp,
+  ArrowDown,
+  Save,
+  Eye,
+  EyeOff,
+  Layers,
+  Activity,
+  AlertTriangle,
+  ListTree,
+  Pause,
+  Radio,
+  Gauge,
+  Shield,
+  Copy,
+  ArrowRightLeft
 } from 'lucide-react';
 
 export const Icons = {
@@ -53,5 +68,20 @@ export const Icons = {
   Download,
   Upload,
   Link,
-  ChevronDown
+  ChevronDown,
+  ArrowUp,
+  ArrowDown,
+  Save,
+  Eye,
+  EyeOff,
+  Layers,
+  Activity,
+  Warning: AlertTriangle,
+  Schema: ListTree,
+  Pause,
+  Live: Radio,
+  Profiler: Gauge,
+  Security: Shield,
+  Copy,
+  Migration: ArrowRightLeft
 };
@@ -0,0 +1,395 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Icons } from './Icon';
+import { getIndexes, createIndex, dropIndex, setIndexHidden } from '../services/api';
+import { parseJsonOption } from '../services/ejson';
+import { formatBytes } from '../services/format';
+import { IndexInfo, IndexKeyType, IndexOptions } from '../types';
+
+interface IndexManagerProps {
+  dbName: string;
+  colName: string;
+}
+
+interface KeyRow {
+  field: string;
+  type: IndexKeyType | 'wildcard';
+}
+
+const KEY_TYPES: { value: KeyRow['type']; label: string }[] = [
+  { value: 1, label: 'Ascending (1)' },
+  { value: -1, label: 'Descending (-1)' },
+  { value: 'text', label: 'Text' },
+  { value: '2dsphere', label: '2dsphere' },
+  { value: '2d', label: '2d' },
+  { value: 'hashed', label: 'Hashed' },
+  { value: 'wildcard', label: 'Wildcard ($**)' }
+];
+
+const EMPTY_FORM = {
+  name: '',
+  unique: false,
+  sparse: false,
+  hidden: false,
+  ttl: '',
+  partialFilter: '',
+  collation: '',
+  wildcardProjection: ''
+};
+
+const formatKeys = (key: IndexInfo['key']): string =>
+  '{ ' + Object.entries(key).map(([field, type]) => `${field}: ${JSON.stringify(type)}`).join(', ') + ' }';
+
+const IndexManager: React.FC<IndexManagerProps> = ({ dbName, colName }) => {
+  const [indexes, setIndexes] = useState<IndexInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [keyRows, setKeyRows] = useState<KeyRow[]>([{ field: '', type: 1 }]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchIndexes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setIndexes(await getIndexes(dbName, colName));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [dbName, colName]);
+
+  useEffect(() => {
+    fetchIndexes();
+  }, [fetchIndexes]);
+
+  const openCreate = () => {
+    setKeyRows([{ field: '', type: 1 }]);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowCreate(true);
+  };
+
+  const updateKeyRow = (index: number, patch: Partial<KeyRow>) => {
+    setKeyRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleCreate = async () => {
+    setFormError(null);
+    try {
+      const keys: { [field: string]: IndexKeyType } = {};
+      for (const row of keyRows) {
+        if (row.type === 'wildcard') {
+          // Wildcard indexes are keyed on "$**" or "path.$**"
+          const field = row.field.trim();
+          keys[field ? `${field.replace(/\.\$\*\*$/, '')}.$**` : '$**'] = 1;
+        } else if (row.field.trim()) {
+          keys[row.field.trim()] = row.type;
+        }
+      }
+      if (Object.keys(keys).length === 0) throw new Error('Add at least one key field');
+
+      const options: IndexOptions = {
+        name: form.name.trim() || undefined,
+        unique: form.unique || undefined,
+        sparse: form.sparse || undefined,
+        hidden: form.hidden || undefined,
+        partialFilterExpression: parseJsonOption('Partial filter', form.partialFilter),
+        collation: parseJsonOption('Collation', form.collation),
+        wildcardProjection: parseJsonOption('Wildcard projection', form.wildcardProjection)
+      };
+      if (form.ttl.trim()) {
+        const ttl = Number(form.ttl);
+        if (!Number.isInteger(ttl) || ttl < 0) throw new Error('TTL must be a non-negative number of seconds');
+        options.expireAfterSeconds = ttl;
+      }
+
+      setSaving(true);
+      await createIndex(dbName, colName, keys, options);
+      setShowCreate(false);
+      fetchIndexes();
+    } catch (err) {
+      setFormError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleHidden = async (index: IndexInfo) => {
+    try {
+      await setIndexHidden(dbName, colName, index.name, !index.hidden);
+      fetchIndexes();
+    } catch (err) {
+      alert('Failed to update index: ' + (err as Error).message);
+    }
+  };
+
+  const handleDrop = async (index: IndexInfo) => {
+    if (!confirm(`Drop index "${index.name}"? This cannot be undone.`)) return;
+    try {
+      await dropIndex(dbName, colName, index.name);
+      fetchIndexes();
+    } catch (err) {
+      alert('Failed to drop index: ' + (err as Error).message);
+    }
+  };
+
+  const renderBadges = (index: IndexInfo) => {
+    const badges: { label: string; className: string }[] = [];
+    const keyTypes = Object.values(index.key);
+    if (index.unique) badges.push({ label: 'UNIQUE', className: 'bg-blue-500/10 text-blue-400' });
+    if (index.sparse) badges.push({ label: 'SPARSE', className: 'bg-slate-500/20 text-slate-300' });
+    if (index.expireAfterSeconds !== undefined) badges.push({ label: `TTL ${index.expireAfterSeconds}s`, className: 'bg-orange-500/10 text-orange-400' });
+    if (index.partialFilterExpression) badges.push({ label: 'PARTIAL', className: 'bg-purple-500/10 text-purple-400' });
+    if (index.collation) badges.push({ label: `COLLATION ${index.collation.locale}`, className: 'bg-teal-500/10 text-teal-400' });
+    if (keyTypes.includes('text')) badges.push({ label: 'TEXT', className: 'bg-yellow-500/10 text-yellow-400' });
+    if (keyTypes.includes('2dsphere') || keyTypes.includes('2d')) badges.push({ label: 'GEO', className: 'bg-emerald-500/10 text-emerald-400' });
+    if (keyTypes.includes('hashed')) badges.push({ label: 'HASHED', className: 'bg-slate-500/20 text-slate-300' });
+    if (Object.keys(index.key).some(field => field.endsWith('$**'))) badges.push({ label: 'WILDCARD', className: 'bg-pink-500/10 text-pink-400' });
+    if (index.hidden) badges.push({ label: 'HIDDEN', className: 'bg-red-500/10 text-red-400' });
+    return badges.map(badge => (
+      <span key={badge.label} className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${badge.className}`}>{badge.label}</span>
+    ));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        <Icons.Refresh className="w-6 h-6 animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">{indexes.length} index{indexes.length !== 1 && 'es'}</p>
+        <div className="flex gap-2">
+          <button
+            onClick={fetchIndexes}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <Icons.Refresh className="w-4 h-4" />
+            Refresh
+          </button>
+          <button
+            onClick={openCreate}
+            className="px-3 py-2 bg-emerald-500 hover:bg-emerald-400 text-slate-900 text-sm font-bold rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <Icons.Plus className="w-4 h-4" />
+            Create Index
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+      )}
+
+      <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-400 min-w-[700px]">
+            <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+              <tr>
+                <th className="px-4 py-3 font-medium">Name &amp; Keys</th>
+                <th className="px-4 py-3 font-medium">Properties</th>
+                <th className="px-4 py-3 font-medium text-right">Size</th>
+                <th className="px-4 py-3 font-medium text-right">Usage</th>
+                <th className="px-4 py-3 text-right w-24">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {indexes.map(index => (
+                <tr key={index.name} className={`hover:bg-slate-700/30 ${index.hidden ? 'opacity-60' : ''}`}>
+                  <td className="px-4 py-3 align-top">
+                    <div className="text-slate-200 font-medium">{index.name}</div>
+                    <div className="font-mono text-xs text-emerald-400 mt-1">{formatKeys(index.key)}</div>
+                    {index.partialFilterExpression && (
+                      <div className="font-mono text-[11px] text-slate-500 mt-1 break-all">
+                        partial: {JSON.stringify(index.partialFilterExpression)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 align-top">
+                    <div className="flex flex-wrap gap-1">{renderBadges(index)}</div>
+                  </td>
+                  <td className="px-4 py-3 align-top text-right font-mono text-xs">
+                    {index.size === null ? '—' : formatBytes(index.size)}
+                  </td>
+                  <td className="px-4 py-3 align-top text-right text-xs">
+                    {index.usage ? (
+                      <>
+                        <div className="font-mono text-slate-200">{index.usage.ops.toLocaleString()} ops</div>
+                        <div className="text-slate-500">since {new Date(index.usage.since.$date).toLocaleString()}</div>
+                      </>
+                    ) : '—'}
+                  </td>
+                  <td className="px-4 py-3 align-top text-right">
+                    {index.name !== '_id_' && (
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleToggleHidden(index)}
+                          className="text-xs text-slate-400 hover:text-emerald-400"
+                          title={index.hidden ? 'Unhide index' : 'Hide index from the query planner'}
+                        >
+                          {index.hidden ? 'Unhide' : 'Hide'}
+                        </button>
+                        <button onClick={() => handleDrop(index)} className="text-slate-400 hover:text-red-400" title="Drop index">
+                          <Icons.Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Create Index Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 w-full max-w-2xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-100">Create Index</h3>
+              <button onClick={() => setShowCreate(false)}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+            </div>
+            <div className="flex-1 p-4 overflow-y-auto space-y-5">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Keys</label>
+                <div className="space-y-2">
+                  {keyRows.map((row, i) => (
+                    <div key={i} className="flex gap-2">
+                      <input
+                        value={row.field}
+                        onChange={e => updateKeyRow(i, { field: e.target.value })}
+                        placeholder={row.type === 'wildcard' ? 'Path (empty for all fields)' : 'Field path, e.g. address.city'}
+                        className="flex-1 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+                      />
+                      <select
+                        value={String(row.type)}
+                        onChange={e => {
+                          const value = e.target.value;
+                          updateKeyRow(i, { type: value === '1' || value === '-1' ? Number(value) as 1 | -1 : value as KeyRow['type'] });
+                        }}
+                        className="bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                      >
+                        {KEY_TYPES.map(type => <option key={String(type.value)} value={String(type.value)}>{type.label}</option>)}
+                      </select>
+                      <button
+                        onClick={() => setKeyRows(prev => prev.filter((_, idx) => idx !== i))}
+                        disabled={keyRows.length === 1}
+                        className="p-2 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                      >
+                        <Icons.Close className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setKeyRows(prev => [...prev, { field: '', type: 1 }])}
+                  className="mt-2 text-xs text-emerald-400 hover:text-emerald-300 flex items-center gap-1"
+                >
+                  <Icons.Plus className="w-3 h-3" /> Add field
+                </button>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Name</label>
+                  <input
+                    value={form.name}
+                    onChange={e => setForm({ ...form, name: e.target.value })}
+                    placeholder="Generated if empty"
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">TTL (expireAfterSeconds)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.ttl}
+                    onChange={e => setForm({ ...form, ttl: e.target.value })}
+                    placeholder="Only for date fields"
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                {(['unique', 'sparse', 'hidden'] as const).map(option => (
+                  <label key={option} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer capitalize">
+                    <input
+                      type="checkbox"
+                      checked={form[option]}
+                      onChange={e => setForm({ ...form, [option]: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Partial Filter Expression</label>
+                <textarea
+                  rows={2}
+                  value={form.partialFilter}
+                  onChange={e => setForm({ ...form, partialFilter: e.target.value })}
+                  placeholder='{ "status": { "$eq": "active" } }'
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Collation</label>
+                  <textarea
+                    rows={2}
+                    value={form.collation}
+                    onChange={e => setForm({ ...form, collation: e.target.value })}
+                    placeholder='{ "locale": "en", "strength": 2 }'
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Wildcard Projection</label>
+                  <textarea
+                    rows={2}
+                    value={form.wildcardProjection}
+                    onChange={e => setForm({ ...form, wildcardProjection: e.target.value })}
+                    placeholder='{ "secret": 0 }'
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                  />
+                </div>
+              </div>
+
+              {formError && (
+                <div className="text-xs text-red-400 flex items-center gap-1">
+                  <Icons.Close className="w-3 h-3" />
+                  {formError}
+                </div>
+              )}
+            </div>
+            <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
+              <button onClick={() => setShowCreate(false)} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+              <button
+                onClick={handleCreate}
+                disabled={saving}
+                className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Creating...' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndexManager;
@@ -1,4 +1,5 @@
   import React, { useState, useEffect } from 'react';
+import { validateEJSON, countWrapperTypes } from '../services/ejson';
 
 interface JsonEditorProps {
   initialValue: object;
@@ -9,22 +10,35 @@ interface JsonEditorProps {
 const JsonEditor: React.FC<JsonEditorProps> = ({ initialValue, onChange, height = '300px' }) => {
   const [text, setText] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [typeCounts, setTypeCounts] = useState<Record<string, number>>({});
 
   useEffect(() => {
     setText(JSON.stringify(initialValue, null, 2));
+    setTypeCounts(countWrapperTypes(initialValue));
   }, [initialValue]);
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newVal = e.target.value;
     setText(newVal);
+    let parsed: any;
     try {
-      const parsed = JSON.parse(newVal);
-      setError(null);
-      onChange(parsed);
+      parsed = JSON.parse(newVal);
     } catch (err) {
-      setError((err as Error).message);
+      setError(`Syntax Error: ${(err as Error).message}`);
       onChange(null); // Signal invalid JSON
+      return;
     }
+    try {
+      // Reject malformed Extended JSON wrappers such as { "$oid": "xyz" }
+      validateEJSON(parsed);
+    } catch (err) {
+      setError(`Invalid Extended JSON: ${(err as Error).message}`);
+      onChange(null);
+      return;
+    }
+    setError(null);
+    setTypeCounts(countWrapperTypes(parsed));
+    onChange(parsed);
   };
 
   return (
@@ -38,7 +52,16 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ initialValue, onChange, height
       />
       {error && (
         <div className="mt-2 text-xs text-red-400 font-mono">
-          Syntax Error: {error}
+          {error}
+        </div>
+      )}
+      {!error && Object.keys(typeCounts).length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1.5 text-[10px] font-mono">
+          {Object.entries(typeCounts).map(([type, count]) => (
+            <span key={type} className="px-1.5 py-0.5 rounded bg-slate-700/60 text-slate-400">
+              {type} × {count}
+            </span>
+          ))}
         </div>
       )}
     </div>
@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, AreaChart, Area, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Icons } from './Icon';
+import { getServerMetrics } from '../services/api';
+import { formatBytes } from '../services/format';
+import { ServerMetricsSample } from '../types';
+
+const SAMPLE_INTERVALS = [
+  { value: 1000, label: '1s' },
+  { value: 2000, label: '2s' },
+  { value: 5000, label: '5s' },
+  { value: 10000, label: '10s' }
+];
+
+const TIME_WINDOWS = [
+  { value: 60 * 1000, label: '1 min' },
+  { value: 5 * 60 * 1000, label: '5 min' },
+  { value: 15 * 60 * 1000, label: '15 min' },
+  { value: 60 * 60 * 1000, label: '1 hour' }
+];
+
+// Samples older than the largest window are dropped
+const MAX_HISTORY_MS = TIME_WINDOWS[TIME_WINDOWS.length - 1].value;
+
+const COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#a855f7', '#06b6d4'];
+
+interface MetricsPoint {
+  time: number;
+  [series: string]: number;
+}
+
+// Per-second rate of a cumulative counter between two samples; counters reset when
+// the server restarts, which would otherwise show up as a negative spike
+const rate = (current: number, previous: number, seconds: number): number => {
+  if (seconds <= 0 || current < previous) return 0;
+  return (current - previous) / seconds;
+};
+
+// Turns consecutive samples into chart points: rates for counters, values for gauges
+const toPoints = (samples: ServerMetricsSample[]): MetricsPoint[] => {
+  const points: MetricsPoint[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const cur = samples[i];
+    const prev = samples[i - 1];
+    const seconds = (cur.time - prev.time) / 1000;
+    points.push({
+      time: cur.time,
+      insert: rate(cur.opcounters.insert, prev.opcounters.insert, seconds),
+      query: rate(cur.opcounters.query, prev.opcounters.query, seconds),
+      update: rate(cur.opcounters.update, prev.opcounters.update, seconds),
+      delete: rate(cur.opcounters.delete, prev.opcounters.delete, seconds),
+      getmore: rate(cur.opcounters.getmore, prev.opcounters.getmore, seconds),
+      command: rate(cur.opcounters.command, prev.opcounters.command, seconds),
+      bytesIn: rate(cur.network.bytesIn, prev.network.bytesIn, seconds),
+      bytesOut: rate(cur.network.bytesOut, prev.network.bytesOut, seconds),
+      current: cur.connections.current,
+      active: cur.connections.active,
+      cacheUsed: cur.cache ? cur.cache.usedBytes : 0,
+      cacheDirty: cur.cache ? cur.cache.dirtyBytes : 0,
+      inserted: rate(cur.document.inserted, prev.document.inserted, seconds),
+      returned: rate(cur.document.returned, prev.document.returned, seconds),
+      updated: rate(cur.document.updated, prev.document.updated, seconds),
+      deleted: rate(cur.document.deleted, prev.document.deleted, seconds),
+      scanned: rate(cur.queryExecutor.scanned, prev.queryExecutor.scanned, seconds),
+      scannedObjects: rate(cur.queryExecutor.scannedObjects, prev.queryExecutor.scannedObjects, seconds)
+    });
+  }
+  return points;
+};
+
+const formatTime = (time: number): string => new Date(time).toLocaleTimeString();
+
+const formatRate = (value: number): string => (value >= 100 ? Math.round(value).toLocaleString() : parseFloat(value.toFixed(1)).toString());
+
+const formatByteValue = (value: number): string => formatBytes(Math.round(value));
+
+interface MetricsChartProps {
+  title: string;
+  unit: string;
+  points: MetricsPoint[];
+  series: { key: string; label: string }[];
+  format: (value: number) => string;
+  area?: boolean;
+  maxValue?: number;
+}
+
+const MetricsChart: React.FC<MetricsChartProps> = ({ title, unit, points, series, format, area, maxValue }) => {
+  const latest = points[points.length - 1];
+  const Chart = area ? AreaChart : LineChart;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4">
+      <div className="flex items-baseline justify-between mb-3 gap-2">
+        <h3 className="text-sm font-semibold text-slate-200">{title}</h3>
+        <span className="text-xs text-slate-500">{unit}</span>
+      </div>
+      {latest && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-xs">
+          {series.map((s, i) => (
+            <span key={s.key} className="text-slate-400">
+              <span style={{ color: COLORS[i % COLORS.length] }}>●</span> {s.label}{' '}
+              <span className="font-mono text-slate-200">{format(latest[s.key])}</span>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="h-44">
+        <ResponsiveContainer width="100%" height="100%">
+          <Chart data={points} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+            <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} stroke="#64748b" fontSize={10} minTickGap={40} />
+            <YAxis tickFormatter={format} stroke="#64748b" fontSize={10} width={60} />
+            <Tooltip
+              labelFormatter={value => formatTime(Number(value))}
+              formatter={(value: number, name: string) => [format(value), series.find(s => s.key === name)?.label || name]}
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9', fontSize: 12 }}
+            />
+            <Legend formatter={(name: string) => series.find(s => s.key === name)?.label || name} wrapperStyle={{ fontSize: 11 }} />
+            {maxValue !== undefined && <ReferenceLine y={maxValue} stroke="#ef4444" strokeDasharray="4 4" ifOverflow="extendDomain" />}
+            {series.map((s, i) => area ? (
+              <Area key={s.key} type="monotone" dataKey={s.key} stroke={COLORS[i % COLORS.length]} fill={COLORS[i % COLORS.length]} fillOpacity={0.15} isAnimationActive={false} dot={false} />
+            ) : (
+              <Line key={s.key} type="monotone" dataKey={s.key} stroke={COLORS[i % COLORS.length]} isAnimationActive={false} dot={false} strokeWidth={1.5} />
+            ))}
+          </Chart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+const MetricsPanel: React.FC = () => {
+  const [samples, setSamples] = useState<ServerMetricsSample[]>([]);
+  const [interval, setSampleInterval] = useState(SAMPLE_INTERVALS[1].value);
+  const [timeWindow, setTimeWindow] = useState(TIME_WINDOWS[1].value);
+  const [paused, setPaused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (paused) return;
+    let cancelled = false;
+    const sample = async () => {
+      try {
+        const next = await getServerMetrics();
+        if (cancelled) return;
+        setError(null);
+        setSamples(prev => {
+          const last = prev[prev.length - 1];
+          // A sample with the same server time adds nothing to a rate
+          if (last && last.time >= next.time) return prev;
+          return [...prev.filter(s => s.time >= next.time - MAX_HISTORY_MS), next];
+        });
+      } catch (e) {
+        if (!cancelled) setError((e as Error).message);
+      }
+    };
+    sample();
+    const timer = setInterval(sample, interval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [interval, paused]);
+
+  const points = useMemo(() => {
+    const latest = samples[samples.length - 1];
+    if (!latest) return [];
+    // One sample before the window is kept so the first rate inside it can be computed
+    const start = samples.findIndex(s => s.time >= latest.time - timeWindow);
+    return toPoints(samples.slice(Math.max(0, start - 1)));
+  }, [samples, timeWindow]);
+
+  const latest = samples[samples.length - 1];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-100">Server Metrics</h2>
+          <p className="text-xs text-slate-500">
+            Sampled from serverStatus; counters are shown as per-second rates
+            {latest?.cache && <> · WiredTiger cache {formatBytes(latest.cache.usedBytes)} of {formatBytes(latest.cache.maxBytes)}</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-slate-400">
+          <span>Every</span>
+          <select
+            value={interval}
+            onChange={e => setSampleInterval(Number(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            {SAMPLE_INTERVALS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+          <span>Window</span>
+          <select
+            value={timeWindow}
+            onChange={e => setTimeWindow(Number(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            {TIME_WINDOWS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+          <button
+            onClick={() => setPaused(p => !p)}
+            className="p-2 text-slate-400 hover:text-white bg-slate-800 border border-slate-700 rounded"
+            title={paused ? 'Resume sampling' : 'Pause sampling'}
+          >
+            {paused ? <Icons.Play className="w-4 h-4" /> : <Icons.Pause className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-400">Could not sample serverStatus: {error}</div>}
+
+      {points.length === 0 ? (
+        <div className="flex items-center justify-center py-12 text-slate-500 bg-slate-800/50 rounded-xl border border-slate-700">
+          <Icons.Activity className="w-5 h-5 mr-2 animate-pulse" />
+          Collecting samples...
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <MetricsChart
+            title="Operations"
+            unit="ops/s"
+            points={points}
+            format={formatRate}
+            series={[
+              { key: 'insert', label: 'insert' },
+              { key: 'query', label: 'query' },
+              { key: 'update', label: 'update' },
+              { key: 'delete', label: 'delete' },
+              { key: 'getmore', label: 'getmore' },
+              { key: 'command', label: 'command' }
+            ]}
+          />
+          <MetricsChart
+            title="Network"
+            unit="bytes/s"
+            points={points}
+            format={formatByteValue}
+            area
+            series={[
+              { key: 'bytesIn', label: 'in' },
+              { key: 'bytesOut', label: 'out' }
+            ]}
+          />
+          <MetricsChart
+            title="Connections"
+            unit="current"
+            points={points}
+            format={formatRate}
+            series={[
+              { key: 'current', label: 'current' },
+              { key: 'active', label: 'active' }
+            ]}
+          />
+          {latest?.cache ? (
+            <MetricsChart
+              title="WiredTiger Cache"
+              unit={`max ${formatBytes(latest.cache.maxBytes)}`}
+              points={points}
+              format={formatByteValue}
+              area
+              maxValue={latest.cache.maxBytes}
+              series={[
+                { key: 'cacheUsed', label: 'used' },
+                { key: 'cacheDirty', label: 'dirty' }
+              ]}
+            />
+          ) : (
+            <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 flex items-center justify-center text-sm text-slate-500">
+              WiredTiger cache statistics are not reported by this server
+            </div>
+          )}
+          <MetricsChart
+            title="Document Operations"
+            unit="docs/s"
+            points={points}
+            format={formatRate}
+            series={[
+              { key: 'inserted', label: 'inserted' },
+              { key: 'returned', label: 'returned' },
+              { key: 'updated', label: 'updated' },
+              { key: 'deleted', label: 'deleted' }
+            ]}
+          />
+          <MetricsChart
+            title="Query Executor"
+            unit="scanned/s"
+            points={points}
+            format={formatRate}
+            series={[
+              { key: 'scanned', label: 'index keys' },
+              { key: 'scannedObjects', label: 'documents' }
+            ]}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from './Icon';
+import JsonEditor from './JsonEditor';
+import { previewUpdateMany, updateMany, previewDeleteMany, deleteMany, DocumentValidationError } from '../services/api';
+import { idToString, parseJsonOption } from '../services/ejson';
+import { describeValidationFailure } from '../services/validation';
+import { DeleteManyPreview, UpdateManyPreview } from '../types';
+
+interface ModifyMatchingModalProps {
+  mode: 'update' | 'delete';
+  dbName: string;
+  colName: string;
+  filter: any;
+  onClose: () => void;
+  // Called after the write so the document list can refresh
+  onApplied: () => void;
+}
+
+const describeError = (err: unknown): string => {
+  if (err instanceof DocumentValidationError) {
+    const rules = describeValidationFailure(err.details);
+    return rules.length ? `${err.message}: ${rules.join('; ')}` : err.message;
+  }
+  return (err as Error).message;
+};
+
+const pluralize = (count: number) => `${count.toLocaleString()} document${count !== 1 ? 's' : ''}`;
+
+const ModifyMatchingModal: React.FC<ModifyMatchingModalProps> = ({ mode, dbName, colName, filter, onClose, onApplied }) => {
+  const isDelete = mode === 'delete';
+  const [update, setUpdate] = useState<any>({ $set: {} });
+  const [arrayFilters, setArrayFilters] = useState('');
+  const [upsert, setUpsert] = useState(false);
+  const [updatePreview, setUpdatePreview] = useState<UpdateManyPreview | null>(null);
+  const [deletePreview, setDeletePreview] = useState<DeleteManyPreview | null>(null);
+  const [typedCount, setTypedCount] = useState('');
+  const [busy, setBusy] = useState<'preview' | 'apply' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<string | null>(null);
+
+  const hasFilter = filter && Object.keys(filter).length > 0;
+
+  const parseArrayFilters = (): any[] | undefined => {
+    const parsed = parseJsonOption('Array filters', arrayFilters);
+    if (parsed === undefined) return undefined;
+    if (!Array.isArray(parsed)) throw new Error('Array filters must be an array, e.g. [{ "item.qty": { "$lt": 5 } }]');
+    return parsed;
+  };
+
+  const runPreview = async (scratch = false) => {
+    setBusy('preview');
+    setError(null);
+    try {
+      if (isDelete) {
+        setDeletePreview(await previewDeleteMany(dbName, colName, filter));
+      } else {
+        setUpdatePreview(await previewUpdateMany(dbName, colName, filter, update, { upsert, arrayFilters: parseArrayFilters() }, scratch));
+      }
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Deletes have nothing to edit, so their count is shown right away
+  useEffect(() => {
+    if (isDelete) runPreview();
+  }, []);
+
+  // A preview of other inputs would not describe what Apply does
+  const invalidatePreview = () => setUpdatePreview(null);
+
+  const handleApply = async () => {
+    setError(null);
+    try {
+      if (isDelete) {
+        setBusy('apply');
+        const deleted = await deleteMany(dbName, colName, filter);
+        setOutcome(`Deleted ${pluralize(deleted)}.`);
+      } else {
+        if (!updatePreview) return;
+        if (!confirm(`Update ${pluralize(updatePreview.matched)} in "${colName}"?${updatePreview.matched === 0 && upsert ? ' Nothing matches, so one document will be inserted.' : ''}`)) return;
+        setBusy('apply');
+        const result = await updateMany(dbName, colName, filter, update, { upsert, arrayFilters: parseArrayFilters() });
+        setOutcome(result.upsertedCount
+          ? `Inserted document ${idToString(result.upsertedId!)}.`
+          : `Matched ${pluralize(result.matchedCount)}, modified ${result.modifiedCount.toLocaleString()}.`);
+      }
+      onApplied();
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const deleteConfirmed = deletePreview !== null && deletePreview.matched > 0 && typedCount.trim() === String(deletePreview.matched);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 w-full max-w-4xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-100">{isDelete ? 'Delete Matching Documents' : 'Modify Matching Documents'}</h3>
+            <p className="text-xs font-mono text-slate-500">{hasFilter ? JSON.stringify(filter) : 'No filter: every document in the collection'}</p>
+          </div>
+          <button onClick={onClose}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto space-y-5">
+          {!isDelete && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Update (operators or pipeline)</label>
+                <JsonEditor initialValue={update} onChange={value => { setUpdate(value); invalidatePreview(); }} height="220px" />
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Array Filters</label>
+                  <textarea
+                    rows={2}
+                    value={arrayFilters}
+                    onChange={e => { setArrayFilters(e.target.value); invalidatePreview(); }}
+                    placeholder='[{ "elem.grade": { "$gte": 85 } }]'
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-xs text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer self-center">
+                  <input type="checkbox" checked={upsert} onChange={e => { setUpsert(e.target.checked); invalidatePreview(); }} className="w-4 h-4" />
+                  Upsert: insert a document when nothing matches
+                </label>
+              </div>
+              <p className="text-xs text-slate-500">
+                A dry run writes nothing: pipelines are run as an aggregation, operator updates in a transaction that is rolled back. Standalone servers have no transactions, so there it only shows the matching documents.
+              </p>
+            </>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+          )}
+
+          {outcome && (
+            <div className="p-3 bg-emerald-500/10 border border-emerald-500/20 rounded-lg text-emerald-400 text-sm">{outcome}</div>
+          )}
+
+          {busy === 'preview' && <div className="text-slate-500 animate-pulse">{isDelete ? 'Counting matching documents...' : 'Running dry run...'}</div>}
+
+          {updatePreview && !outcome && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-slate-200">
+                  {pluralize(updatePreview.matched)} match{updatePreview.matched === 1 ? 'es' : ''}
+                  {updatePreview.sample.length > 0 && updatePreview.sample.length < updatePreview.matched && (
+                    <span className="font-normal text-slate-500">, showing the first {updatePreview.sample.length}</span>
+                  )}
+                </h4>
+                <span className="text-xs text-slate-500">{updatePreview.executionTime} ms</span>
+              </div>
+              {updatePreview.upserted && (
+                <div>
+                  <div className="text-xs text-slate-500 mb-1">Nothing matches; the upsert would insert:</div>
+                  <pre className="bg-slate-900/50 border border-emerald-500/30 rounded-lg p-3 text-xs text-emerald-300 whitespace-pre-wrap break-all">{JSON.stringify(updatePreview.upserted, null, 2)}</pre>
+                </div>
+              )}
+              {updatePreview.simulatedWith === null && (
+                <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs flex items-center justify-between gap-3">
+                  <span>
+                    This server has no transactions, so the dry run cannot show the result of the update without writing. A scratch copy inserts the sample into a temporary collection of the <span className="font-mono">mongodeck_scratch</span> database, updates it there and drops it; it needs write access to that database.
+                  </span>
+                  <button
+                    onClick={() => runPreview(true)}
+                    disabled={busy !== null}
+                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-md whitespace-nowrap disabled:opacity-50"
+                  >
+                    Use a Scratch Copy
+                  </button>
+                </div>
+              )}
+              {updatePreview.sample.map(({ before, after }) => (
+                <div key={idToString(before._id)} className={`grid gap-2 ${updatePreview.simulatedWith ? 'md:grid-cols-2' : ''}`}>
+                  <div>
+                    <div className="text-xs text-slate-500 mb-1">Before</div>
+                    <pre className="bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-xs text-slate-400 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">{JSON.stringify(before, null, 2)}</pre>
+                  </div>
+                  {updatePreview.simulatedWith && (
+                    <div>
+                      <div className="text-xs text-slate-500 mb-1">After</div>
+                      <pre className="bg-slate-900/50 border border-emerald-500/30 rounded-lg p-3 text-xs text-slate-300 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">{after ? JSON.stringify(after, null, 2) : 'Not updated'}</pre>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {deletePreview && !outcome && (
+            <div className="space-y-3">
+              <h4 className={`text-sm font-semibold ${deletePreview.matched ? 'text-red-400' : 'text-slate-400'}`}>
+                {deletePreview.matched ? `${pluralize(deletePreview.matched)} will be deleted` : 'No documents match the filter'}
+              </h4>
+              {deletePreview.sample.map(doc => (
+                <details key={idToString(doc._id)} className="bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2">
+                  <summary className="text-xs font-mono text-emerald-400 cursor-pointer">{idToString(doc._id)}</summary>
+                  <pre className="mt-2 text-xs text-slate-400 whitespace-pre-wrap break-all">{JSON.stringify(doc, null, 2)}</pre>
+                </details>
+              ))}
+              {deletePreview.matched > 0 && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">
+                    Type {deletePreview.matched} to confirm
+                  </label>
+                  <input
+                    value={typedCount}
+                    onChange={e => setTypedCount(e.target.value)}
+                    className="w-48 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 font-mono focus:ring-1 focus:ring-red-500 outline-none"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
+          <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">{outcome ? 'Close' : 'Cancel'}</button>
+          {!outcome && !isDelete && (
+            <button
+              onClick={() => runPreview()}
+              disabled={busy !== null || !update}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <Icons.Eye className="w-4 h-4" />
+              Dry Run
+            </button>
+          )}
+          {!outcome && (
+            <button
+              onClick={handleApply}
+              disabled={busy !== null || (isDelete ? !deleteConfirmed : !updatePreview)}
+              title={!isDelete && !updatePreview ? 'Run a dry run first' : undefined}
+              className={`px-6 py-2 font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${isDelete ? 'bg-red-500 text-white hover:bg-red-400' : 'bg-emerald-500 text-slate-900 hover:bg-emerald-400'}`}
+            >
+              {busy === 'apply' ? (isDelete ? 'Deleting...' : 'Updating...') : isDelete ? 'Delete' : 'Update'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModifyMatchingModal;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Icons } from './Icon';
+import { Privilege } from '../types';
+
+interface PrivilegeEditorProps {
+  value: Privilege[];
+  onChange: (privileges: Privilege[]) => void;
+  defaultDb: string;
+}
+
+// Frequently used privilege actions; any other action can be typed in
+const ACTION_GROUPS: { label: string; actions: string[] }[] = [
+  { label: 'Query and write', actions: ['find', 'insert', 'update', 'remove', 'bypassDocumentValidation', 'changeStream'] },
+  {
+    label: 'Database management',
+    actions: ['listCollections', 'listIndexes', 'createCollection', 'dropCollection', 'createIndex', 'dropIndex', 'collMod', 'renameCollectionSameDB', 'convertToCapped', 'dropDatabase', 'enableProfiler']
+  },
+  { label: 'Diagnostics', actions: ['dbStats', 'collStats', 'indexStats', 'dbHash', 'serverStatus', 'top', 'inprog', 'killop', 'listDatabases'] },
+  {
+    label: 'User management',
+    actions: ['viewUser', 'createUser', 'dropUser', 'changePassword', 'changeOwnPassword', 'grantRole', 'revokeRole', 'viewRole', 'createRole', 'dropRole']
+  },
+  { label: 'Replication and sharding', actions: ['replSetGetStatus', 'replSetGetConfig', 'listShards', 'flushRouterConfig'] }
+];
+
+const emptyPrivilege = (db: string): Privilege => ({ resource: { db, collection: '' }, actions: [] });
+
+const PrivilegeEditor: React.FC<PrivilegeEditorProps> = ({ value, onChange, defaultDb }) => {
+  const [customActions, setCustomActions] = useState<string[]>([]);
+
+  const update = (index: number, patch: Partial<Privilege>) => {
+    onChange(value.map((privilege, i) => (i === index ? { ...privilege, ...patch } : privilege)));
+  };
+
+  const addAction = (index: number, action: string) => {
+    const name = action.trim();
+    if (!name || value[index].actions.includes(name)) return;
+    update(index, { actions: [...value[index].actions, name] });
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && <div className="text-xs text-slate-500 italic">No privileges; the role only grants what it inherits.</div>}
+      {value.map((privilege, index) => {
+        const resourceType = privilege.resource.cluster ? 'cluster' : privilege.resource.anyResource ? 'anyResource' : 'namespace';
+        return (
+          <div key={index} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={resourceType}
+                onChange={e => update(index, {
+                  resource: e.target.value === 'cluster' ? { cluster: true }
+                    : e.target.value === 'anyResource' ? { anyResource: true }
+                    : { db: defaultDb, collection: '' }
+                })}
+                className="bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+              >
+                <option value="namespace">Database / collection</option>
+                <option value="cluster">Cluster</option>
+                <option value="anyResource">Any resource</option>
+              </select>
+              {resourceType === 'namespace' && (
+                <>
+                  <input
+                    value={privilege.resource.db ?? ''}
+                    onChange={e => update(index, { resource: { ...privilege.resource, db: e.target.value } })}
+                    placeholder="Any database"
+                    className="w-36 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+                  />
+                  <span className="text-slate-500">.</span>
+                  <input
+                    value={privilege.resource.collection ?? ''}
+                    onChange={e => update(index, { resource: { ...privilege.resource, collection: e.target.value } })}
+                    placeholder="Any collection"
+                    className="flex-1 min-w-[120px] bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+                  />
+                </>
+              )}
+              <button
+                onClick={() => {
+                  onChange(value.filter((_, i) => i !== index));
+                  setCustomActions([]);
+                }}
+                className="ml-auto p-2 text-slate-500 hover:text-red-400"
+                title="Remove privilege"
+              >
+                <Icons.Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              {privilege.actions.length === 0 && <span className="text-xs text-red-400 py-1">Pick at least one action</span>}
+              {privilege.actions.map(action => (
+                <span key={action} className="flex items-center gap-1 text-xs font-mono bg-blue-500/10 text-blue-400 pl-2 pr-1 py-1 rounded">
+                  {action}
+                  <button
+                    onClick={() => update(index, { actions: privilege.actions.filter(a => a !== action) })}
+                    className="text-blue-400/60 hover:text-red-400"
+                  >
+                    <Icons.Close className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <select
+                value=""
+                onChange={e => addAction(index, e.target.value)}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+              >
+                <option value="">Add an action...</option>
+                {ACTION_GROUPS.map(group => (
+                  <optgroup key={group.label} label={group.label}>
+                    {group.actions.filter(action => !privilege.actions.includes(action)).map(action => (
+                      <option key={action} value={action}>{action}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <input
+                value={customActions[index] ?? ''}
+                onChange={e => setCustomActions(prev => Object.assign([...prev], { [index]: e.target.value }))}
+                onKeyDown={e => {
+                  if (e.key !== 'Enter') return;
+                  addAction(index, customActions[index] ?? '');
+                  setCustomActions(prev => Object.assign([...prev], { [index]: '' }));
+                }}
+                placeholder="Other action + Enter"
+                className="w-44 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+          </div>
+        );
+      })}
+      <button
+        onClick={() => onChange([...value, emptyPrivilege(defaultDb)])}
+        className="text-xs text-emerald-400 hover:text-emerald-300 flex items-center gap-1"
+      >
+        <Icons.Plus className="w-3 h-3" /> Add privilege
+      </button>
+    </div>
+  );
+};
+
+export default PrivilegeEditor;
@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Icons } from './Icon';
+import RolePicker from './RolePicker';
+import PrivilegeEditor from './PrivilegeEditor';
+import { getRoles, createRole, updateRole, dropRole } from '../services/api';
+import { formatRole } from '../services/format';
+import { DbRole, Privilege, PrivilegeResource, RoleRef } from '../types';
+
+interface RoleManagerProps {
+  dbName: string;
+}
+
+const formatResource = (resource: PrivilegeResource): string => {
+  if (resource.cluster) return 'cluster';
+  if (resource.anyResource) return 'any resource';
+  return `${resource.db || '*'}.${resource.collection || '*'}`;
+};
+
+const RoleManager: React.FC<RoleManagerProps> = ({ dbName }) => {
+  const [roles, setRoles] = useState<DbRole[]>([]);
+  const [showBuiltin, setShowBuiltin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null: closed, undefined role: creating a new role
+  const [editing, setEditing] = useState<{ role?: DbRole } | null>(null);
+  const [roleName, setRoleName] = useState('');
+  const [privileges, setPrivileges] = useState<Privilege[]>([]);
+  const [inherited, setInherited] = useState<RoleRef[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRoles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      // Built-in roles are always loaded for the inherited role picker
+      setRoles(await getRoles(dbName, true));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [dbName]);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  const openEditor = (role?: DbRole) => {
+    setRoleName(role?.role ?? '');
+    setPrivileges(role?.privileges ?? []);
+    setInherited(role?.roles ?? []);
+    setFormError(null);
+    setEditing({ role });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setFormError(null);
+    try {
+      const name = editing.role ? editing.role.role : roleName.trim();
+      if (!name) throw new Error('Enter a role name');
+      if (privileges.some(p => p.actions.length === 0)) throw new Error('Every privilege needs at least one action');
+      if (privileges.length === 0 && inherited.length === 0) throw new Error('Add a privilege or an inherited role');
+
+      const summary = `${privileges.length} privilege${privileges.length !== 1 ? 's' : ''} and ${inherited.length} inherited role${inherited.length !== 1 ? 's' : ''}`;
+      if (editing.role) {
+        if (!confirm(`Replace the privileges of role "${name}" with ${summary}? Users holding the role are affected immediately.`)) return;
+        setSaving(true);
+        await updateRole(dbName, name, privileges, inherited);
+      } else {
+        if (!confirm(`Create role "${name}" on "${dbName}" with ${summary}?`)) return;
+        setSaving(true);
+        await createRole(dbName, name, privileges, inherited);
+      }
+      setEditing(null);
+      fetchRoles();
+    } catch (err) {
+      setFormError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDrop = async (role: DbRole) => {
+    if (!confirm(`Drop role "${role.role}"? Users holding it lose its privileges. This cannot be undone.`)) return;
+    try {
+      await dropRole(dbName, role.role);
+      fetchRoles();
+    } catch (err) {
+      alert('Failed to drop role: ' + (err as Error).message);
+    }
+  };
+
+  const visibleRoles = showBuiltin ? roles : roles.filter(role => !role.isBuiltin);
+  const availableRoles = roles.map(({ role, db }) => ({ role, db }));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-slate-500">
+        <Icons.Refresh className="w-6 h-6 animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={showBuiltin} onChange={e => setShowBuiltin(e.target.checked)} className="w-4 h-4" />
+          Show built-in roles
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={fetchRoles}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <Icons.Refresh className="w-4 h-4" />
+            Refresh
+          </button>
+          <button
+            onClick={() => openEditor()}
+            className="px-3 py-2 bg-emerald-500 hover:bg-emerald-400 text-slate-900 text-sm font-bold rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <Icons.Plus className="w-4 h-4" />
+            Create Role
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+      )}
+
+      {visibleRoles.length === 0 && !error ? (
+        <div className="text-center py-12 text-slate-500">No custom roles are defined on this database.</div>
+      ) : (
+        <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-400 min-w-[700px]">
+              <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Role</th>
+                  <th className="px-4 py-3 font-medium">Privileges</th>
+                  <th className="px-4 py-3 font-medium">Inherits</th>
+                  <th className="px-4 py-3 text-right w-28">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {visibleRoles.map(role => (
+                  <tr key={formatRole(role)} className="hover:bg-slate-700/30">
+                    <td className="px-4 py-3 align-top">
+                      <div className="text-slate-200 font-medium">{role.role}</div>
+                      {role.isBuiltin && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-500/20 text-slate-300">BUILT-IN</span>}
+                    </td>
+                    <td className="px-4 py-3 align-top text-xs space-y-1">
+                      {(role.privileges ?? []).length === 0 && <span className="text-slate-600">none</span>}
+                      {(role.privileges ?? []).map((privilege, i) => (
+                        <div key={i}>
+                          <span className="font-mono text-slate-300">{formatResource(privilege.resource)}</span>
+                          <span className="text-slate-500">: {privilege.actions.join(', ')}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      <div className="flex flex-wrap gap-1">
+                        {role.roles.length === 0 && <span className="text-xs text-slate-600">none</span>}
+                        {role.roles.map(parent => (
+                          <span key={formatRole(parent)} className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400">
+                            {formatRole(parent)}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 align-top text-right">
+                      {!role.isBuiltin && (
+                        <div className="flex justify-end gap-3">
+                          <button onClick={() => openEditor(role)} className="text-slate-400 hover:text-emerald-400" title="Edit role">
+                            <Icons.Edit2 className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDrop(role)} className="text-slate-400 hover:text-red-400" title="Drop role">
+                            <Icons.Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Role Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 w-full max-w-3xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-100">{editing.role ? `Edit Role ${editing.role.role}` : 'Create Role'}</h3>
+              <button onClick={() => setEditing(null)}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+            </div>
+            <div className="flex-1 p-4 overflow-y-auto space-y-5">
+              {!editing.role && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Role Name</label>
+                  <input
+                    autoFocus
+                    value={roleName}
+                    onChange={e => setRoleName(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Privileges</label>
+                <PrivilegeEditor value={privileges} onChange={setPrivileges} defaultDb={dbName} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Inherited Roles</label>
+                <RolePicker value={inherited} onChange={setInherited} availableRoles={availableRoles} defaultDb={dbName} />
+              </div>
+
+              {formError && (
+                <div className="text-xs text-red-400 flex items-center gap-1">
+                  <Icons.Close className="w-3 h-3" />
+                  {formError}
+                </div>
+              )}
+            </div>
+            <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
+              <button onClick={() => setEditing(null)} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : editing.role ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoleManager;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Icons } from './Icon';
+import { RoleRef } from '../types';
+import { formatRole, sameRole } from '../services/format';
+
+interface RolePickerProps {
+  value: RoleRef[];
+  onChange: (roles: RoleRef[]) => void;
+  // Roles offered as suggestions, e.g. the built-in and custom roles of the database
+  availableRoles: RoleRef[];
+  defaultDb: string;
+}
+
+const RolePicker: React.FC<RolePickerProps> = ({ value, onChange, availableRoles, defaultDb }) => {
+  const [roleName, setRoleName] = useState('');
+  const [roleDb, setRoleDb] = useState(defaultDb);
+  const listId = `roles-${defaultDb}`;
+
+  const addRole = () => {
+    const role = { role: roleName.trim(), db: roleDb.trim() || defaultDb };
+    if (!role.role || value.some(r => sameRole(r, role))) return;
+    onChange([...value, role]);
+    setRoleName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5 min-h-[28px]">
+        {value.length === 0 && <span className="text-xs text-slate-500 italic py-1">No roles</span>}
+        {value.map(role => (
+          <span key={formatRole(role)} className="flex items-center gap-1 text-xs font-mono bg-emerald-500/10 text-emerald-400 pl-2 pr-1 py-1 rounded">
+            {formatRole(role)}
+            <button onClick={() => onChange(value.filter(r => !sameRole(r, role)))} className="text-emerald-400/60 hover:text-red-400">
+              <Icons.Close className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          list={listId}
+          value={roleName}
+          onChange={e => {
+            setRoleName(e.target.value);
+            // Picking a suggestion also picks the database it is defined on
+            const match = availableRoles.find(r => r.role === e.target.value);
+            if (match) setRoleDb(match.db);
+          }}
+          onKeyDown={e => e.key === 'Enter' && addRole()}
+          placeholder="Role, e.g. readWrite"
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+        />
+        <datalist id={listId}>
+          {availableRoles.map(role => <option key={formatRole(role)} value={role.role}>{formatRole(role)}</option>)}
+        </datalist>
+        <input
+          value={roleDb}
+          onChange={e => setRoleDb(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && addRole()}
+          placeholder="Database"
+          className="w-32 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+        />
+        <button
+          onClick={addRole}
+          disabled={!roleName.trim()}
+          className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-md flex items-center gap-1 disabled:opacity-50"
+        >
+          <Icons.Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RolePicker;
@@ -0,0 +1,172 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Icons } from './Icon';
+import { analyzeSchema } from '../services/api';
+import { formatValue } from '../services/ejson';
+import { SchemaAnalysis } from '../types';
+
+interface SchemaViewProps {
+  dbName: string;
+  colName: string;
+  filter: any;
+}
+
+const SAMPLE_SIZES = [100, 1000, 5000, 10000];
+
+const TYPE_COLORS: Record<string, string> = {
+  String: 'bg-emerald-500',
+  Int32: 'bg-blue-500',
+  Double: 'bg-sky-500',
+  Long: 'bg-indigo-500',
+  Decimal128: 'bg-violet-500',
+  ObjectId: 'bg-amber-500',
+  Date: 'bg-pink-500',
+  Boolean: 'bg-orange-500',
+  Object: 'bg-teal-500',
+  Array: 'bg-cyan-500',
+  Null: 'bg-slate-500',
+  Binary: 'bg-rose-500',
+  UUID: 'bg-fuchsia-500'
+};
+
+const DEFAULT_TYPE_COLOR = 'bg-slate-400';
+
+const formatPercent = (ratio: number): string => {
+  const percent = ratio * 100;
+  return `${percent >= 10 || percent === 0 ? percent.toFixed(0) : percent.toFixed(1)}%`;
+};
+
+// Nesting depth of a path, counting both embedded fields and array levels
+const getDepth = (path: string): number => (path.match(/\.|\[\]/g) || []).length;
+
+const getFieldName = (path: string): string => {
+  const match = path.match(/([^.]*)$/);
+  return match ? match[1] : path;
+};
+
+const SchemaView: React.FC<SchemaViewProps> = ({ dbName, colName, filter }) => {
+  const [sampleSize, setSampleSize] = useState(1000);
+  const [analysis, setAnalysis] = useState<SchemaAnalysis | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchema = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setAnalysis(await analyzeSchema(dbName, colName, filter, sampleSize));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [dbName, colName, filter, sampleSize]);
+
+  useEffect(() => {
+    fetchSchema();
+  }, [fetchSchema]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-slate-400">
+          {analysis && !loading && (
+            <>
+              Sampled <span className="text-slate-200 font-mono">{analysis.sampled.toLocaleString()}</span> of ~
+              <span className="text-slate-200 font-mono">{analysis.totalDocuments.toLocaleString()}</span> documents
+              {' '}in {analysis.executionTime} ms
+              {Object.keys(filter).length > 0 && <span className="text-emerald-400"> (filtered)</span>}
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-sm text-slate-400">
+          <span>Sample</span>
+          <select
+            value={sampleSize}
+            onChange={e => setSampleSize(Number(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            {SAMPLE_SIZES.map(size => <option key={size} value={size}>{size.toLocaleString()}</option>)}
+          </select>
+          <button onClick={fetchSchema} className="p-2 text-slate-400 hover:text-white bg-slate-800 border border-slate-700 rounded" title="Resample">
+            <Icons.Refresh className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {loading && !analysis && (
+        <div className="flex items-center justify-center py-12 text-slate-500">
+          <Icons.Refresh className="w-6 h-6 animate-spin text-emerald-500 mr-2" />
+          Analyzing sample...
+        </div>
+      )}
+
+      {analysis && analysis.fields.length === 0 && !loading && (
+        <div className="text-center py-12 text-slate-500">No documents to analyze.</div>
+      )}
+
+      {analysis && analysis.fields.length > 0 && (
+        <div className={`bg-slate-800 rounded-lg border border-slate-700 overflow-hidden ${loading ? 'opacity-50' : ''}`}>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-400 min-w-[800px]">
+              <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Field</th>
+                  <th className="px-4 py-3 font-medium w-72">Types</th>
+                  <th className="px-4 py-3 font-medium w-40">Presence</th>
+                  <th className="px-4 py-3 font-medium w-28">Cardinality</th>
+                  <th className="px-4 py-3 font-medium">Examples</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {analysis.fields.map(field => (
+                  <tr key={field.path} className="hover:bg-slate-700/30">
+                    <td className="px-4 py-3 align-top font-mono" title={field.path}>
+                      <span style={{ paddingLeft: `${getDepth(field.path) * 16}px` }} className="text-slate-200">
+                        {getFieldName(field.path)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      <div className="flex h-2 rounded overflow-hidden bg-slate-700">
+                        {field.types.map(t => (
+                          <div key={t.type} className={TYPE_COLORS[t.type] || DEFAULT_TYPE_COLOR} style={{ width: `${t.percentage * 100}%` }} />
+                        ))}
+                      </div>
+                      <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                        {field.types.map(t => (
+                          <span key={t.type} className="flex items-center gap-1">
+                            <span className={`w-2 h-2 rounded-full ${TYPE_COLORS[t.type] || DEFAULT_TYPE_COLOR}`} />
+                            {t.type} <span className="text-slate-500">{formatPercent(t.percentage)}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      <div className="h-2 rounded bg-slate-700 overflow-hidden">
+                        <div className="h-full bg-emerald-500" style={{ width: `${field.presence * 100}%` }} />
+                      </div>
+                      <div className="mt-1 text-xs">{formatPercent(field.presence)} <span className="text-slate-500">({field.count.toLocaleString()})</span></div>
+                    </td>
+                    <td className="px-4 py-3 align-top font-mono text-xs text-slate-300">
+                      {field.cardinality === 0 ? '—' : `${field.cardinalityCapped ? '≥ ' : ''}${field.cardinality.toLocaleString()}`}
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      <div className="flex flex-col gap-1 font-mono text-xs text-slate-300">
+                        {field.examples.map((example, i) => (
+                          <span key={i} className="truncate max-w-xs">{formatValue(example)}</span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaView;
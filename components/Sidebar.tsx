@@ -13,9 +13,12 @@ interface SidebarProps {
   onClose: () => void;
   onOpenCommandPanel: () => void;
   onOpenImportExport: () => void;
+  onOpenCurrentOps: () => void;
+  onOpenSecurity: () => void;
+  onOpenMigration: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ databases, currentDb, onSelectDb, onLogout, navigate, isOpen, onClose, onOpenCommandPanel, onOpenImportExport }) => {
+const Sidebar: React.FC<SidebarProps> = ({ databases, currentDb, onSelectDb, onLogout, navigate, isOpen, onClose, onOpenCommandPanel, onOpenImportExport, onOpenCurrentOps, onOpenSecurity, onOpenMigration }) => {
   const [savedConnections, setSavedConnections] = useState<SavedConnection[]>([]);
   const [showSavedConnections, setShowSavedConnections] = useState(false);
 
@@ -95,6 +98,27 @@ const Sidebar: React.FC<SidebarProps> = ({ databases, currentDb, onSelectDb, onL
             <Icons.Download className="w-4 h-4" />
             <span>Import/Export</span>
           </button>
+          <button
+            onClick={() => { onOpenCurrentOps(); onClose(); }}
+            className="w-full px-4 py-2 text-left text-slate-400 hover:text-emerald-400 hover:bg-slate-800/50 flex items-center gap-3 transition-colors"
+          >
+            <Icons.Activity className="w-4 h-4" />
+            <span>Current Ops</span>
+          </button>
+          <button
+            onClick={() => { onOpenSecurity(); onClose(); }}
+            className="w-full px-4 py-2 text-left text-slate-400 hover:text-emerald-400 hover:bg-slate-800/50 flex items-center gap-3 transition-colors"
+          >
+            <Icons.Security className="w-4 h-4" />
+            <span>Security</span>
+          </button>
+          <button
+            onClick={() => { onOpenMigration(); onClose(); }}
+            className="w-full px-4 py-2 text-left text-slate-400 hover:text-emerald-400 hover:bg-slate-800/50 flex items-center gap-3 transition-colors"
+          >
+            <Icons.Migration className="w-4 h-4" />
+            <span>Migration</span>
+          </button>
 
           <div className="px-4 mt-6 mb-2 flex items-center justify-between text-xs font-semibold text-slate-500 uppercase tracking-wider">
             <span>Databases</span>
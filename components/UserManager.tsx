@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Icons } from './Icon';
+import RolePicker from './RolePicker';
+import { getUsers, getRoles, createUser, changeUserPassword, updateUserRoles, dropUser } from '../services/api';
+import { formatRole, sameRole } from '../services/format';
+import { DbUser, RoleRef } from '../types';
+
+interface UserManagerProps {
+  dbName: string;
+}
+
+type UserDialog =
+  | { kind: 'create' }
+  | { kind: 'roles'; user: DbUser }
+  | { kind: 'password'; user: DbUser };
+
+const UserManager: React.FC<UserManagerProps> = ({ dbName }) => {
+  const [users, setUsers] = useState<DbUser[]>([]);
+  const [availableRoles, setAvailableRoles] = useState<RoleRef[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<UserDialog | null>(null);
+  const [userName, setUserName] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordRepeat, setPasswordRepeat] = useState('');
+  const [roles, setRoles] = useState<RoleRef[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [list, roleList] = await Promise.all([getUsers(dbName), getRoles(dbName, true)]);
+      setUsers(list);
+      setAvailableRoles(roleList.map(({ role, db }) => ({ role, db })));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [dbName]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const openDialog = (next: UserDialog) => {
+    setUserName('');
+    setPassword('');
+    setPasswordRepeat('');
+    setRoles(next.kind === 'roles' ? next.user.roles : []);
+    setFormError(null);
+    setDialog(next);
+  };
+
+  const checkPassword = () => {
+    if (!password) throw new Error('Enter a password');
+    if (password !== passwordRepeat) throw new Error('The passwords do not match');
+  };
+
+  const handleSave = async () => {
+    if (!dialog) return;
+    setFormError(null);
+    try {
+      if (dialog.kind === 'create') {
+        if (!userName.trim()) throw new Error('Enter a user name');
+        checkPassword();
+        const roleList = roles.length ? roles.map(formatRole).join(', ') : 'no roles';
+        if (!confirm(`Create user "${userName.trim()}" on "${dbName}" with ${roleList}?`)) return;
+        setSaving(true);
+        await createUser(dbName, userName.trim(), password, roles);
+      } else if (dialog.kind === 'password') {
+        checkPassword();
+        if (!confirm(`Change the password of "${dialog.user.user}"? Clients using the old password will fail to authenticate.`)) return;
+        setSaving(true);
+        await changeUserPassword(dbName, dialog.user.user, password);
+      } else {
+        const grant = roles.filter(role => !dialog.user.roles.some(r => sameRole(r, role)));
+        const revoke = dialog.user.roles.filter(role => !roles.some(r => sameRole(r, role)));
+        if (grant.length === 0 && revoke.length === 0) {
+          setDialog(null);
+          return;
+        }
+        const changes = [
+          grant.length ? `grant ${grant.map(formatRole).join(', ')}` : '',
+          revoke.length ? `revoke ${revoke.map(formatRole).join(', ')}` : ''
+        ].filter(Boolean).join(' and ');
+        if (!confirm(`For user "${dialog.user.user}": ${changes}?`)) return;
+        setSaving(true);
+        await updateUserRoles(dbName, dialog.user.user, grant, revoke);
+      }
+      setDialog(null);
+      fetchUsers();
+    } catch (err) {
+      setFormError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDrop = async (user: DbUser) => {
+    if (!confirm(`Drop user "${user.user}" from "${dbName}"? This cannot be undone.`)) return;
+    try {
+      await dropUser(dbName, user.user);
+      fetchUsers();
+    } catch (err) {
+      alert('Failed to drop user: ' + (err as Error).message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-slate-500">
+        <Icons.Refresh className="w-6 h-6 animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">{users.length} user{users.length !== 1 && 's'} on {dbName}</p>
+        <div className="flex gap-2">
+          <button
+            onClick={fetchUsers}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <Icons.Refresh className="w-4 h-4" />
+            Refresh
+          </button>
+          <button
+            onClick={() => openDialog({ kind: 'create' })}
+            className="px-3 py-2 bg-emerald-500 hover:bg-emerald-400 text-slate-900 text-sm font-bold rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <Icons.Plus className="w-4 h-4" />
+            Create User
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+      )}
+
+      {users.length === 0 && !error ? (
+        <div className="text-center py-12 text-slate-500">No users are defined on this database.</div>
+      ) : (
+        <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-400 min-w-[700px]">
+              <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+                <tr>
+                  <th className="px-4 py-3 font-medium">User</th>
+                  <th className="px-4 py-3 font-medium">Roles</th>
+                  <th className="px-4 py-3 font-medium">Mechanisms</th>
+                  <th className="px-4 py-3 text-right w-48">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {users.map(user => (
+                  <tr key={user._id} className="hover:bg-slate-700/30">
+                    <td className="px-4 py-3 align-top text-slate-200 font-medium">{user.user}</td>
+                    <td className="px-4 py-3 align-top">
+                      <div className="flex flex-wrap gap-1">
+                        {user.roles.length === 0 && <span className="text-xs text-slate-600">none</span>}
+                        {user.roles.map(role => (
+                          <span key={formatRole(role)} className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400">
+                            {formatRole(role)}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 align-top text-xs font-mono">{user.mechanisms?.join(', ') || '—'}</td>
+                    <td className="px-4 py-3 align-top text-right">
+                      <div className="flex justify-end gap-3">
+                        <button onClick={() => openDialog({ kind: 'roles', user })} className="text-xs text-slate-400 hover:text-emerald-400">
+                          Roles
+                        </button>
+                        <button onClick={() => openDialog({ kind: 'password', user })} className="text-xs text-slate-400 hover:text-emerald-400">
+                          Password
+                        </button>
+                        <button onClick={() => handleDrop(user)} className="text-slate-400 hover:text-red-400" title="Drop user">
+                          <Icons.Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* User Modal */}
+      {dialog && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 w-full max-w-xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-100">
+                {dialog.kind === 'create' ? 'Create User' : dialog.kind === 'roles' ? `Roles of ${dialog.user.user}` : `Change Password of ${dialog.user.user}`}
+              </h3>
+              <button onClick={() => setDialog(null)}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+            </div>
+            <div className="flex-1 p-4 overflow-y-auto space-y-5">
+              {dialog.kind === 'create' && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">User Name</label>
+                  <input
+                    autoFocus
+                    value={userName}
+                    onChange={e => setUserName(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+              )}
+              {dialog.kind !== 'roles' && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Password</label>
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      value={password}
+                      onChange={e => setPassword(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Repeat Password</label>
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      value={passwordRepeat}
+                      onChange={e => setPasswordRepeat(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                    />
+                  </div>
+                </div>
+              )}
+              {dialog.kind !== 'password' && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Roles</label>
+                  <RolePicker value={roles} onChange={setRoles} availableRoles={availableRoles} defaultDb={dbName} />
+                </div>
+              )}
+
+              {formError && (
+                <div className="text-xs text-red-400 flex items-center gap-1">
+                  <Icons.Close className="w-3 h-3" />
+                  {formError}
+                </div>
+              )}
+            </div>
+            <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
+              <button onClick={() => setDialog(null)} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : dialog.kind === 'create' ? 'Create' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManager;
@@ -0,0 +1,247 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Icons } from './Icon';
+import JsonEditor from './JsonEditor';
+import { getValidation, setValidation, testValidator, generateValidator } from '../services/api';
+import { idToString } from '../services/ejson';
+import { ValidationAction, ValidationLevel, ValidationRules, ValidationTestResult } from '../types';
+
+interface ValidationEditorProps {
+  dbName: string;
+  colName: string;
+}
+
+const LEVELS: { value: ValidationLevel; label: string; description: string }[] = [
+  { value: 'strict', label: 'Strict', description: 'Every insert and update is validated' },
+  { value: 'moderate', label: 'Moderate', description: 'Documents that already fail are not checked on update' },
+  { value: 'off', label: 'Off', description: 'The validator is kept but not applied' }
+];
+
+const ACTIONS: { value: ValidationAction; label: string; description: string }[] = [
+  { value: 'error', label: 'Error', description: 'Reject invalid writes' },
+  { value: 'warn', label: 'Warn', description: 'Accept them and log a warning' }
+];
+
+const SAMPLE_SIZES = [100, 1000, 5000];
+
+const ValidationEditor: React.FC<ValidationEditorProps> = ({ dbName, colName }) => {
+  const [current, setCurrent] = useState<ValidationRules | null>(null);
+  // Changes identity only when the editor should be reset (load, generate)
+  const [editorValue, setEditorValue] = useState<object>({});
+  const [validator, setValidator] = useState<object | null>({});
+  const [level, setLevel] = useState<ValidationLevel>('strict');
+  const [action, setAction] = useState<ValidationAction>('error');
+  const [sampleSize, setSampleSize] = useState(SAMPLE_SIZES[1]);
+  const [testResult, setTestResult] = useState<ValidationTestResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<'generate' | 'test' | 'apply' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const rules = await getValidation(dbName, colName);
+      setCurrent(rules);
+      setEditorValue(rules.validator);
+      setValidator(rules.validator);
+      setLevel(rules.validationLevel);
+      setAction(rules.validationAction);
+      setTestResult(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [dbName, colName]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleValidatorChange = (value: object | null) => {
+    setValidator(value);
+    // A result for a different validator would be misleading
+    setTestResult(null);
+  };
+
+  const handleGenerate = async () => {
+    if (validator && Object.keys(validator).length > 0 && !confirm('Replace the validator in the editor with one generated from sampled documents?')) return;
+    setBusy('generate');
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await generateValidator(dbName, colName, sampleSize);
+      setEditorValue(result.validator);
+      setValidator(result.validator);
+      setTestResult(null);
+      setNotice(`Generated from ${result.sampled} sampled document${result.sampled !== 1 ? 's' : ''}. Review it before applying: fields seen in every sample are marked required.`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!validator) return;
+    setBusy('test');
+    setError(null);
+    try {
+      setTestResult(await testValidator(dbName, colName, validator));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!validator) return;
+    const failing = testResult ? ` ${testResult.failing} existing document${testResult.failing !== 1 ? 's' : ''} fail it and will not be changed.` : ' Run a test first to see how many existing documents fail it.';
+    const removing = Object.keys(validator).length === 0;
+    if (!confirm(removing
+      ? `Remove the validator of "${colName}"?`
+      : `Apply this validator to "${colName}" (${level}, ${action})?${failing}`)) return;
+    setBusy('apply');
+    setError(null);
+    setNotice(null);
+    try {
+      await setValidation(dbName, colName, { validator, validationLevel: level, validationAction: action });
+      await fetchRules();
+      setNotice(removing ? 'Validator removed.' : 'Validation rules applied.');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        <Icons.Refresh className="w-6 h-6 animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  const hasValidator = current && Object.keys(current.validator).length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-400">
+          {hasValidator
+            ? <>Validator active: <span className="text-slate-200">{current!.validationLevel}</span>, action <span className="text-slate-200">{current!.validationAction}</span></>
+            : 'This collection has no validator; any document can be written.'}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={sampleSize}
+            onChange={e => setSampleSize(Number(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-300 focus:ring-1 focus:ring-emerald-500 outline-none"
+            title="Documents sampled to generate a schema"
+          >
+            {SAMPLE_SIZES.map(size => <option key={size} value={size}>{size} docs</option>)}
+          </select>
+          <button
+            onClick={handleGenerate}
+            disabled={busy !== null}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Icons.Sparkles className="w-4 h-4" />
+            {busy === 'generate' ? 'Sampling...' : 'Generate from Sample'}
+          </button>
+          <button
+            onClick={handleTest}
+            disabled={busy !== null || !validator}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Icons.Play className="w-4 h-4" />
+            {busy === 'test' ? 'Testing...' : 'Test'}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={busy !== null || !validator}
+            className="px-3 py-2 bg-emerald-500 hover:bg-emerald-400 text-slate-900 text-sm font-bold rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Icons.Save className="w-4 h-4" />
+            {busy === 'apply' ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+      )}
+      {notice && (
+        <div className="p-3 bg-emerald-500/10 border border-emerald-500/20 rounded-lg text-emerald-400 text-sm">{notice}</div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="lg:col-span-2 bg-slate-800/50 rounded-xl border border-slate-700 p-4 flex flex-col">
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Validator</label>
+          <JsonEditor initialValue={editorValue} onChange={handleValidatorChange} height="420px" />
+        </div>
+        <div className="space-y-4">
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4">
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Validation Level</label>
+            <div className="space-y-2">
+              {LEVELS.map(option => (
+                <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                  <input type="radio" name="validation-level" checked={level === option.value} onChange={() => setLevel(option.value)} className="mt-1" />
+                  <div>
+                    <div className="text-sm text-slate-200">{option.label}</div>
+                    <div className="text-xs text-slate-500">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4">
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Validation Action</label>
+            <div className="space-y-2">
+              {ACTIONS.map(option => (
+                <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                  <input type="radio" name="validation-action" checked={action === option.value} onChange={() => setAction(option.value)} className="mt-1" />
+                  <div>
+                    <div className="text-sm text-slate-200">{option.label}</div>
+                    <div className="text-xs text-slate-500">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {testResult && (
+        <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className={`text-sm font-semibold ${testResult.failing ? 'text-amber-400' : 'text-emerald-400'}`}>
+              {testResult.failing === 0
+                ? 'All existing documents pass this validator'
+                : `${testResult.failing.toLocaleString()} of ~${testResult.total.toLocaleString()} documents fail this validator`}
+            </h3>
+            <span className="text-xs text-slate-500">{testResult.executionTime} ms</span>
+          </div>
+          {testResult.docs.length > 0 && (
+            <div className="space-y-2">
+              {testResult.docs.length < testResult.failing && (
+                <p className="text-xs text-slate-500">Showing the first {testResult.docs.length}.</p>
+              )}
+              {testResult.docs.map((doc, i) => (
+                <details key={i} className="bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2">
+                  <summary className="text-xs font-mono text-emerald-400 cursor-pointer">{idToString(doc._id)}</summary>
+                  <pre className="mt-2 text-xs text-slate-400 whitespace-pre-wrap break-all">{JSON.stringify(doc, null, 2)}</pre>
+                </details>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationEditor;
@@ -0,0 +1,395 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { aggregate, previewPipelineStages } from '../services/api';
+import { loadSavedPipelines, savePipeline, deleteSavedPipeline } from '../services/pipelines';
+import { validateEJSON } from '../services/ejson';
+import { Icons } from '../components/Icon';
+import { AggregateOptions, AggregateResult, PipelineStage, SavedPipeline, StagePreview } from '../types';
+
+interface AggregationBuilderProps {
+  dbName: string;
+  colName: string;
+  onBack: () => void;
+}
+
+const STAGE_OPERATORS = [
+  '$match', '$project', '$group', '$sort', '$limit', '$skip', '$unwind', '$lookup',
+  '$addFields', '$set', '$unset', '$count', '$facet', '$bucket', '$bucketAuto',
+  '$sortByCount', '$replaceRoot', '$replaceWith', '$sample', '$unionWith',
+  '$graphLookup', '$geoNear', '$redact', '$densify', '$fill', '$setWindowFields',
+  '$out', '$merge'
+];
+
+// Starting body for a newly added stage of each kind
+const STAGE_TEMPLATES: Record<string, string> = {
+  $match: '{\n  \n}',
+  $project: '{\n  "_id": 1\n}',
+  $group: '{\n  "_id": "$field",\n  "count": { "$sum": 1 }\n}',
+  $sort: '{\n  "_id": -1\n}',
+  $limit: '10',
+  $skip: '0',
+  $unwind: '"$field"',
+  $lookup: '{\n  "from": "collection",\n  "localField": "field",\n  "foreignField": "_id",\n  "as": "joined"\n}',
+  $count: '"count"',
+  $sortByCount: '"$field"',
+  $replaceRoot: '{\n  "newRoot": "$field"\n}',
+  $sample: '{\n  "size": 10\n}',
+  $out: '"output_collection"',
+  $merge: '{\n  "into": "output_collection"\n}'
+};
+
+const PREVIEW_LIMITS = [5, 10, 20, 50];
+const PREVIEW_DEBOUNCE_MS = 800;
+
+const newStage = (operator = '$match'): PipelineStage => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  operator,
+  body: STAGE_TEMPLATES[operator] ?? '{\n  \n}',
+  enabled: true
+});
+
+// Parses a stage body, returning the error message instead of throwing
+const parseStageBody = (stage: PipelineStage): { value?: any; error?: string } => {
+  try {
+    const value = JSON.parse(stage.body);
+    validateEJSON(value);
+    return { value };
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+};
+
+const AggregationBuilder: React.FC<AggregationBuilderProps> = ({ dbName, colName, onBack }) => {
+  const [stages, setStages] = useState<PipelineStage[]>([newStage()]);
+  const [options, setOptions] = useState<AggregateOptions>({ allowDiskUse: false, maxTimeMS: undefined, previewLimit: 10 });
+  const [previews, setPreviews] = useState<Record<string, StagePreview>>({});
+  const [previewing, setPreviewing] = useState(false);
+  const [result, setResult] = useState<AggregateResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [savedPipelines, setSavedPipelines] = useState<SavedPipeline[]>([]);
+  const [pipelineName, setPipelineName] = useState('');
+  const previewRequest = useRef(0);
+
+  useEffect(() => {
+    setSavedPipelines(loadSavedPipelines(dbName, colName));
+  }, [dbName, colName]);
+
+  const enabledStages = stages.filter(stage => stage.enabled);
+  const parseErrors = Object.fromEntries(
+    stages.map(stage => [stage.id, parseStageBody(stage).error])
+  ) as Record<string, string | undefined>;
+  const hasParseErrors = enabledStages.some(stage => parseErrors[stage.id]);
+
+  const buildPipeline = useCallback(
+    () => stages.filter(stage => stage.enabled).map(stage => ({ [stage.operator]: parseStageBody(stage).value })),
+    [stages]
+  );
+
+  // Refresh per-stage previews shortly after the pipeline stops changing
+  useEffect(() => {
+    if (hasParseErrors || enabledStages.length === 0) return;
+    const requestId = ++previewRequest.current;
+    const timer = setTimeout(async () => {
+      setPreviewing(true);
+      try {
+        const results = await previewPipelineStages(dbName, colName, buildPipeline(), options);
+        if (requestId !== previewRequest.current) return;
+        const byStage: Record<string, StagePreview> = {};
+        results.forEach((preview, i) => {
+          byStage[enabledStages[i].id] = preview;
+        });
+        setPreviews(byStage);
+      } catch (err) {
+        if (requestId === previewRequest.current) setRunError((err as Error).message);
+      } finally {
+        if (requestId === previewRequest.current) setPreviewing(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [stages, options, dbName, colName]);
+
+  const updateStage = (id: string, patch: Partial<PipelineStage>) => {
+    setStages(prev => prev.map(stage => (stage.id === id ? { ...stage, ...patch } : stage)));
+  };
+
+  const changeOperator = (stage: PipelineStage, operator: string) => {
+    // Only swap in the template if the body was still the previous template
+    const untouched = stage.body === (STAGE_TEMPLATES[stage.operator] ?? '{\n  \n}');
+    updateStage(stage.id, { operator, body: untouched ? newStage(operator).body : stage.body });
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setStages(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const insertStageAfter = (index: number) => {
+    setStages(prev => [...prev.slice(0, index + 1), newStage(), ...prev.slice(index + 1)]);
+  };
+
+  const removeStage = (id: string) => {
+    setStages(prev => prev.filter(stage => stage.id !== id));
+  };
+
+  const handleRun = async () => {
+    if (hasParseErrors) return;
+    setRunning(true);
+    setRunError(null);
+    setResult(null);
+    try {
+      setResult(await aggregate(dbName, colName, buildPipeline(), options));
+    } catch (err) {
+      setRunError((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSave = () => {
+    const name = pipelineName.trim() || prompt('Pipeline name')?.trim();
+    if (!name) return;
+    setPipelineName(name);
+    setSavedPipelines(savePipeline(dbName, colName, {
+      name,
+      stages,
+      options,
+      updatedAt: new Date().toISOString()
+    }));
+  };
+
+  const handleLoad = (name: string) => {
+    const saved = savedPipelines.find(p => p.name === name);
+    if (!saved) return;
+    setPipelineName(saved.name);
+    setStages(saved.stages.length > 0 ? saved.stages : [newStage()]);
+    setOptions(saved.options);
+    setPreviews({});
+    setResult(null);
+  };
+
+  const handleDeleteSaved = () => {
+    if (!pipelineName || !confirm(`Delete saved pipeline "${pipelineName}"?`)) return;
+    setSavedPipelines(deleteSavedPipeline(dbName, colName, pipelineName));
+    setPipelineName('');
+  };
+
+  const copyAsShell = () => {
+    const text = `db.getCollection(${JSON.stringify(colName)}).aggregate(${JSON.stringify(buildPipeline(), null, 2)})`;
+    navigator.clipboard?.writeText(text);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900">
+      {/* Header */}
+      <div className="p-4 md:p-6 border-b border-slate-800 bg-slate-900 sticky top-0 z-10 space-y-4">
+        <div className="flex items-center gap-2 text-sm text-slate-400 overflow-hidden whitespace-nowrap">
+          <span className="truncate">{dbName}</span>
+          <Icons.ChevronRight className="w-3 h-3 flex-shrink-0" />
+          <span onClick={onBack} className="cursor-pointer hover:text-emerald-400 truncate">{colName}</span>
+          <Icons.ChevronRight className="w-3 h-3 flex-shrink-0" />
+          <span className="text-slate-100 font-medium">Aggregation</span>
+        </div>
+
+        <div className="flex flex-col lg:flex-row justify-between gap-4">
+          <h1 className="text-xl md:text-2xl font-bold text-slate-100 flex items-center gap-2">
+            <Icons.Layers className="text-emerald-500 w-6 h-6" />
+            Pipeline Builder
+            {previewing && <Icons.Refresh className="w-4 h-4 animate-spin text-slate-500" />}
+          </h1>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={pipelineName}
+              onChange={e => handleLoad(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-300 focus:ring-1 focus:ring-emerald-500 outline-none"
+            >
+              <option value="">{savedPipelines.length > 0 ? 'Load saved pipeline…' : 'No saved pipelines'}</option>
+              {savedPipelines.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            <button
+              onClick={handleSave}
+              className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg flex items-center gap-2 transition-colors"
+            >
+              <Icons.Save className="w-4 h-4" />
+              Save
+            </button>
+            {pipelineName && (
+              <button onClick={handleDeleteSaved} className="p-2 text-slate-500 hover:text-red-400" title="Delete saved pipeline">
+                <Icons.Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={copyAsShell}
+              className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg flex items-center gap-2 transition-colors"
+            >
+              <Icons.Code className="w-4 h-4" />
+              Copy
+            </button>
+            <button
+              onClick={handleRun}
+              disabled={running || hasParseErrors || enabledStages.length === 0}
+              className="px-4 py-2 bg-emerald-500 hover:bg-emerald-400 text-slate-900 text-sm font-bold rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              {running ? <Icons.Refresh className="w-4 h-4 animate-spin" /> : <Icons.Play className="w-4 h-4 fill-current" />}
+              Run
+            </button>
+          </div>
+        </div>
+
+        {/* Options */}
+        <div className="flex flex-wrap items-center gap-6 text-sm text-slate-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!options.allowDiskUse}
+              onChange={e => setOptions({ ...options, allowDiskUse: e.target.checked })}
+              className="w-4 h-4"
+            />
+            allowDiskUse
+          </label>
+          <label className="flex items-center gap-2">
+            maxTimeMS
+            <input
+              type="number"
+              min="0"
+              value={options.maxTimeMS ?? ''}
+              onChange={e => setOptions({ ...options, maxTimeMS: e.target.value ? Number(e.target.value) : undefined })}
+              placeholder="none"
+              className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Preview
+            <select
+              value={options.previewLimit}
+              onChange={e => setOptions({ ...options, previewLimit: Number(e.target.value) })}
+              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+            >
+              {PREVIEW_LIMITS.map(limit => <option key={limit} value={limit}>{limit} docs</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {/* Stages */}
+      <div className="flex-1 overflow-auto p-4 md:p-6 space-y-4">
+        {stages.map((stage, index) => {
+          const preview = previews[stage.id];
+          const parseError = parseErrors[stage.id];
+          return (
+            <div
+              key={stage.id}
+              className={`bg-slate-800/50 border rounded-lg overflow-hidden ${parseError ? 'border-red-500/50' : 'border-slate-700'} ${stage.enabled ? '' : 'opacity-50'}`}
+            >
+              <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-slate-700 bg-slate-900/40">
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-mono text-slate-500 w-6">{index + 1}</span>
+                  <select
+                    value={stage.operator}
+                    onChange={e => changeOperator(stage, e.target.value)}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm font-mono text-emerald-400 focus:ring-1 focus:ring-emerald-500 outline-none"
+                  >
+                    {STAGE_OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+                  </select>
+                  {stage.enabled && preview?.docs && (
+                    <span className="text-xs text-slate-500">
+                      {preview.docs.length} sample doc{preview.docs.length !== 1 && 's'}
+                      {preview.executionTime !== undefined && ` · ${preview.executionTime}ms`}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => updateStage(stage.id, { enabled: !stage.enabled })} className="p-1.5 text-slate-400 hover:text-emerald-400" title={stage.enabled ? 'Disable stage' : 'Enable stage'}>
+                    {stage.enabled ? <Icons.Eye className="w-4 h-4" /> : <Icons.EyeOff className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="p-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-30" title="Move up">
+                    <Icons.ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} className="p-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-30" title="Move down">
+                    <Icons.ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => insertStageAfter(index)} className="p-1.5 text-slate-400 hover:text-emerald-400" title="Add stage below">
+                    <Icons.Plus className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => removeStage(stage.id)} className="p-1.5 text-slate-400 hover:text-red-400" title="Remove stage">
+                    <Icons.Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid lg:grid-cols-2">
+                <div className="p-3 lg:border-r border-slate-700">
+                  <textarea
+                    value={stage.body}
+                    onChange={e => updateStage(stage.id, { body: e.target.value })}
+                    spellCheck={false}
+                    rows={Math.min(Math.max(stage.body.split('\n').length, 3), 14)}
+                    className="w-full bg-slate-950 border border-slate-700 rounded-md p-2 font-mono text-xs text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none resize-y"
+                  />
+                  {parseError && <div className="mt-1 text-xs text-red-400 font-mono">{parseError}</div>}
+                </div>
+                <div className="p-3 max-h-72 overflow-auto">
+                  {!stage.enabled ? (
+                    <p className="text-xs text-slate-500 italic">Stage disabled</p>
+                  ) : !preview ? (
+                    <p className="text-xs text-slate-500 italic">{parseError ? 'Fix the stage to see a preview' : 'Waiting for preview…'}</p>
+                  ) : preview.error ? (
+                    <p className="text-xs text-red-400 font-mono">{preview.error}</p>
+                  ) : preview.skipped ? (
+                    <p className="text-xs text-slate-500 italic">{preview.skipped}</p>
+                  ) : preview.docs && preview.docs.length === 0 ? (
+                    <p className="text-xs text-slate-500 italic">No documents</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {preview.docs?.map((doc, i) => (
+                        <pre key={i} className="text-[11px] font-mono text-slate-300 bg-slate-950/60 border border-slate-800 rounded p-2 whitespace-pre-wrap break-all">
+                          {JSON.stringify(doc, null, 2)}
+                        </pre>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <button
+          onClick={() => setStages(prev => [...prev, newStage()])}
+          className="w-full py-3 border-2 border-dashed border-slate-700 hover:border-emerald-500/50 text-slate-400 hover:text-emerald-400 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+        >
+          <Icons.Plus className="w-4 h-4" />
+          Add Stage
+        </button>
+
+        {/* Full Run Result */}
+        {(result || runError) && (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-bold text-slate-200 uppercase tracking-wider">Result</h2>
+              {result && (
+                <span className="text-xs text-slate-500">
+                  {result.wroteOutput ? 'Output written' : `${result.docs.length} doc${result.docs.length !== 1 ? 's' : ''}`} · {result.executionTime}ms
+                </span>
+              )}
+            </div>
+            {runError ? (
+              <p className="text-sm text-red-400 font-mono">{runError}</p>
+            ) : (
+              <pre className="text-xs font-mono text-slate-300 whitespace-pre-wrap break-all max-h-96 overflow-auto">
+                {JSON.stringify(result?.docs, null, 2)}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AggregationBuilder;
@@ -1,22 +1,47 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { getDocuments, insertDocument, updateDocument, deleteDocument, exportCollection } from '../services/api';
+import { getDocuments, getDocument, insertDocument, updateDocument, deleteDocument, exportCollection, explainQuery, DocumentValidationError, DocumentConflictError } from '../services/api';
 import { Icons } from '../components/Icon';
 import JsonEditor from '../components/JsonEditor';
-import { ViewMode, Document } from '../types';
+import IndexManager from '../components/IndexManager';
+import ExplainPlan from '../components/ExplainPlan';
+import SchemaView from '../components/SchemaView';
+import ChangeStreamView from '../components/ChangeStreamView';
+import ValidationEditor from '../components/ValidationEditor';
+import BulkActionBar from '../components/BulkActionBar';
+import ModifyMatchingModal from '../components/ModifyMatchingModal';
+import DocumentDiffView from '../components/DocumentDiffView';
+import DocumentConflictView from '../components/DocumentConflictView';
+import { ViewMode, Document, DocumentDiff, DocumentId, ExplainResult, JobInfo, VersionedDocument } from '../types';
+import { idToString, validateEJSON } from '../services/ejson';
+import { formatJobProgress } from '../services/format';
+import { describeValidationFailure } from '../services/validation';
+import { diffDocuments } from '../services/diff';
 
 interface CollectionViewProps {
   dbName: string;
   colName: string;
   onBack: () => void;
+  onOpenAggregation: () => void;
+  // Query to load and explain on open, e.g. a slow query picked in the profiler
+  initialExplain?: { filter: any; sort?: any };
 }
 
 const LIMIT_OPTIONS = [10, 20, 50, 100];
 
-const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack }) => {
+type CollectionTab = 'documents' | 'indexes' | 'validation';
+
+const TABS: { id: CollectionTab; label: string }[] = [
+  { id: 'documents', label: 'Documents' },
+  { id: 'indexes', label: 'Indexes' },
+  { id: 'validation', label: 'Validation' }
+];
+
+const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack, onOpenAggregation, initialExplain }) => {
   const [docs, setDocs] = useState<Document[]>([]);
   const [totalDocs, setTotalDocs] = useState(0);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.JSON);
+  const [activeTab, setActiveTab] = useState<CollectionTab>('documents');
   
   // Query State
   const [searchQuery, setSearchQuery] = useState('');
@@ -30,8 +55,29 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
 
   const [showDocModal, setShowDocModal] = useState(false);
   const [editingDoc, setEditingDoc] = useState<Document | null>(null);
+  // Version token of editingDoc; saving checks the stored document still has it
+  const [editVersion, setEditVersion] = useState<string | null>(null);
   const [editorContent, setEditorContent] = useState<any>(null);
+  const [saveError, setSaveError] = useState<{ message: string; rules: string[] } | null>(null);
+  // Edits are reviewed as a field diff before saving, unless the whole document is replaced
+  const [editReview, setEditReview] = useState<DocumentDiff | null>(null);
+  const [replaceWhole, setReplaceWhole] = useState(false);
+  // Stored version of the document when saving found it changed since it was loaded
+  const [editConflict, setEditConflict] = useState<VersionedDocument | null>(null);
+
+  // Selection, keyed by the JSON of the _id; allMatching stands for every document
+  // matching the active filter, including those on other pages
+  const [selected, setSelected] = useState<Record<string, DocumentId>>({});
+  const [allMatching, setAllMatching] = useState(false);
+  const [modifyMatching, setModifyMatching] = useState<'update' | 'delete' | null>(null);
+
+  // Explain
+  const [showExplain, setShowExplain] = useState(false);
+  const [explainResult, setExplainResult] = useState<ExplainResult | null>(null);
+  const [explainError, setExplainError] = useState<string | null>(null);
+  const [explaining, setExplaining] = useState(false);
     const [exporting, setExporting] = useState(false);
+    const [exportProgress, setExportProgress] = useState<JobInfo | null>(null);
 
   const fetchDocs = useCallback(async () => {
     setLoading(true);
@@ -50,6 +96,53 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
     fetchDocs();
   }, [fetchDocs]);
 
+  const clearSelection = () => {
+    setSelected({});
+    setAllMatching(false);
+  };
+
+  // A selection made under another filter or collection would act on the wrong documents
+  useEffect(() => {
+    clearSelection();
+  }, [dbName, colName, activeFilter]);
+
+  const isSelected = (doc: Document) => allMatching || JSON.stringify(doc._id) in selected;
+
+  const toggleSelect = (doc: Document) => {
+    const key = JSON.stringify(doc._id);
+    if (allMatching) {
+      // Unticking one document narrows "all matching" down to the rest of the page
+      const page: Record<string, DocumentId> = {};
+      docs.forEach(d => { page[JSON.stringify(d._id)] = d._id; });
+      delete page[key];
+      setAllMatching(false);
+      setSelected(page);
+      return;
+    }
+    setSelected(prev => {
+      const next = { ...prev };
+      if (key in next) delete next[key];
+      else next[key] = doc._id;
+      return next;
+    });
+  };
+
+  const pageSelected = docs.length > 0 && docs.every(isSelected);
+
+  const togglePage = () => {
+    if (pageSelected) {
+      clearSelection();
+      return;
+    }
+    setSelected(prev => {
+      const next = { ...prev };
+      docs.forEach(d => { next[JSON.stringify(d._id)] = d._id; });
+      return next;
+    });
+  };
+
+  const selectedCount = allMatching ? totalDocs : Object.keys(selected).length;
+
   const handleSearch = async () => {
     setPage(1); // Reset to page 1 on search
     setQueryError(null);
@@ -59,64 +152,156 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
         return;
     }
     
+    let parsed: any;
     try {
-        const parsed = JSON.parse(searchQuery);
-        setActiveFilter(parsed);
+        parsed = JSON.parse(searchQuery);
     } catch (e) {
         setQueryError("Invalid JSON format. Please enter a valid MongoDB query object.");
+        return;
+    }
+    try {
+        validateEJSON(parsed);
+        setActiveFilter(parsed);
+    } catch (e) {
+        setQueryError(`Invalid Extended JSON value: ${(e as Error).message}`);
+    }
+  };
+
+  const runExplain = async (filter: any, sortSpec: any, skip: number) => {
+    setShowExplain(true);
+    setExplaining(true);
+    setExplainResult(null);
+    setExplainError(null);
+    try {
+        const result = await explainQuery(dbName, colName, filter, { limit, skip, sort: sortSpec });
+        setExplainResult(result);
+    } catch (e) {
+        setExplainError((e as Error).message);
+    } finally {
+        setExplaining(false);
     }
   };
 
+  // Explains the query currently shown in the table (active filter, sort and page)
+  const handleExplain = () => runExplain(activeFilter, sort, (page - 1) * limit);
+
+  useEffect(() => {
+    if (!initialExplain) return;
+    setSearchQuery(JSON.stringify(initialExplain.filter));
+    try {
+        validateEJSON(initialExplain.filter);
+    } catch (e) {
+        setQueryError(`Invalid Extended JSON value: ${(e as Error).message}`);
+        return;
+    }
+    setActiveFilter(initialExplain.filter);
+    if (initialExplain.sort) setSort(initialExplain.sort);
+    setPage(1);
+    runExplain(initialExplain.filter, initialExplain.sort || sort, 0);
+    // Only when the page opens; later renders rebuild the same query from the URL
+  }, [dbName, colName]);
+
+  const handleReviewDoc = () => {
+      if (!editingDoc || !editorContent) return;
+      setSaveError(null);
+      try {
+          setEditReview(diffDocuments(editingDoc, editorContent));
+      } catch (e) {
+          setSaveError({ message: (e as Error).message, rules: [] });
+      }
+  };
+
   const handleSaveDoc = async () => {
       if(!editorContent) return;
       
-      if (editingDoc) {
-          await updateDocument(dbName, colName, editingDoc._id, editorContent);
-      } else {
-          await insertDocument(dbName, colName, editorContent);
+      setSaveError(null);
+      try {
+          if (editingDoc && editReview) {
+              await updateDocument(dbName, colName, editingDoc._id, replaceWhole
+                  ? { replacement: editorContent }
+                  : { set: editReview.set, unset: editReview.unset }, editVersion ?? undefined);
+          } else {
+              await insertDocument(dbName, colName, editorContent);
+          }
+      } catch (e) {
+          if (e instanceof DocumentConflictError) {
+              setEditConflict(e.current);
+              return;
+          }
+          setSaveError(e instanceof DocumentValidationError
+              ? { message: e.message, rules: describeValidationFailure(e.details) }
+              : { message: (e as Error).message, rules: [] });
+          return;
       }
       setShowDocModal(false);
       setEditingDoc(null);
       setEditorContent(null);
+      setEditReview(null);
       fetchDocs();
   };
 
-  const handleDelete = async (id: string) => {
+  // Continues editing from the stored version, with the merged edit or none at all
+  const resolveConflict = (content: Document) => {
+      if (!editConflict) return;
+      setEditingDoc(editConflict.document);
+      setEditVersion(editConflict.version);
+      setEditorContent(content);
+      setEditReview(content === editConflict.document ? null : diffDocuments(editConflict.document, content));
+      setEditConflict(null);
+  };
+
+  const handleDelete = async (id: DocumentId) => {
       if(confirm('Delete this document?')) {
           await deleteDocument(dbName, colName, id);
+          setSelected(prev => {
+              const { [JSON.stringify(id)]: _removed, ...rest } = prev;
+              return rest;
+          });
           fetchDocs();
       }
   };
 
-  const openEdit = (doc: Document) => {
-      setEditingDoc(doc);
-      setEditorContent(doc);
+  // The document is loaded again with its version token, so the edit starts from what is
+  // stored now and a concurrent change is detected when saving
+  const openEdit = async (doc: Document) => {
+      let loaded: VersionedDocument;
+      try {
+          loaded = await getDocument(dbName, colName, doc._id);
+      } catch (e) {
+          alert('Failed to load the document: ' + (e as Error).message);
+          return;
+      }
+      setEditingDoc(loaded.document);
+      setEditVersion(loaded.version);
+      setEditorContent(loaded.document);
+      setSaveError(null);
+      setEditReview(null);
+      setReplaceWhole(false);
+      setEditConflict(null);
       setShowDocModal(true);
   };
 
   const openCreate = () => {
       setEditingDoc(null);
+      setEditVersion(null);
       setEditorContent({});
+      setSaveError(null);
+      setEditReview(null);
+      setEditConflict(null);
       setShowDocModal(true);
   };
 
     const handleExportCollection = async () => {
         setExporting(true);
+        setExportProgress(null);
         try {
-            const blob = await exportCollection({ dbName, colName, format: 'json' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `${dbName}_${colName}_${Date.now()}.json`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            await exportCollection({ dbName, colName, format: 'json' }, setExportProgress);
         } catch (error) {
             console.error('Export failed:', error);
             alert('Export failed: ' + (error as Error).message);
         } finally {
             setExporting(false);
+            setExportProgress(null);
         }
     };
 
@@ -140,6 +325,13 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
             </h1>
             
                   <div className="flex items-center gap-2">
+                      <button
+                          onClick={onOpenAggregation}
+                          className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium rounded-lg flex items-center gap-2 transition-colors"
+                      >
+                          <Icons.Layers className="w-4 h-4" />
+                          Aggregate
+                      </button>
                       <button
                           onClick={handleExportCollection}
                           disabled={exporting}
@@ -148,7 +340,7 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                           {exporting ? (
                               <>
                                   <Icons.Refresh className="w-4 h-4 animate-spin" />
-                                  Exporting...
+                                  {exportProgress ? formatJobProgress(exportProgress) : 'Exporting...'}
                               </>
                           ) : (
                               <>
@@ -157,6 +349,7 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                               </>
                           )}
                       </button>
+                      {activeTab === 'documents' && (
                       <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg border border-slate-700">
                           <button
                               onClick={() => setViewMode(ViewMode.JSON)}
@@ -176,17 +369,47 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                           >
                               <Icons.Grid className="w-4 h-4" />
                           </button>
+                          <button
+                              onClick={() => setViewMode(ViewMode.SCHEMA)}
+                              className={`p-2 rounded-md transition-colors ${viewMode === ViewMode.SCHEMA ? 'bg-emerald-500/20 text-emerald-400' : 'text-slate-400 hover:text-slate-200'}`}
+                              title="Schema"
+                          >
+                              <Icons.Schema className="w-4 h-4" />
+                          </button>
+                          <button
+                              onClick={() => setViewMode(ViewMode.LIVE)}
+                              className={`p-2 rounded-md transition-colors ${viewMode === ViewMode.LIVE ? 'bg-emerald-500/20 text-emerald-400' : 'text-slate-400 hover:text-slate-200'}`}
+                              title="Live changes"
+                          >
+                              <Icons.Live className="w-4 h-4" />
+                          </button>
                       </div>
+                      )}
             </div>
         </div>
 
+        {/* Tabs */}
+        <div className="mt-4 flex gap-1 border-b border-slate-800">
+            {TABS.map(tab => (
+                <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`px-4 py-2 text-sm font-medium -mb-px border-b-2 transition-colors ${activeTab === tab.id ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-500 hover:text-slate-300'}`}
+                >
+                    {tab.label}
+                </button>
+            ))}
+        </div>
+
+        {activeTab === 'documents' && viewMode !== ViewMode.LIVE && (
+        <>
         {/* Search Bar */}
         <div className="mt-6 flex flex-col md:flex-row gap-2">
             <div className="relative flex-1">
                 <Icons.Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
                 <input 
                     type="text" 
-                    placeholder='Filter Query e.g. { "status": "active" }'
+                    placeholder='Filter Query e.g. { "status": "active" } or { "_id": { "$oid": "..." } }'
                     className="w-full bg-slate-800 border border-slate-700 text-slate-200 pl-10 pr-4 py-2.5 rounded-lg focus:ring-1 focus:ring-emerald-500 outline-none placeholder:text-slate-600 text-sm font-mono"
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
@@ -200,6 +423,29 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                 >
                     <Icons.Search className="w-4 h-4" />
                     <span>Run</span>
+                </button>
+                <button 
+                    onClick={handleExplain}
+                    className="flex-1 md:flex-none justify-center px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors text-sm whitespace-nowrap"
+                    title="Explain the current query"
+                >
+                    <Icons.Activity className="w-4 h-4" />
+                    <span>Explain</span>
+                </button>
+                <button
+                    onClick={() => setModifyMatching('update')}
+                    className="flex-1 md:flex-none justify-center px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors text-sm whitespace-nowrap"
+                    title="updateMany on the documents matching the filter"
+                >
+                    <Icons.Edit2 className="w-4 h-4" />
+                    <span>Modify</span>
+                </button>
+                <button
+                    onClick={() => setModifyMatching('delete')}
+                    className="flex-1 md:flex-none justify-center px-3 py-2 bg-slate-700 hover:bg-red-500/80 text-white rounded-lg font-medium flex items-center gap-2 transition-colors text-sm whitespace-nowrap"
+                    title="deleteMany on the documents matching the filter"
+                >
+                    <Icons.Trash2 className="w-4 h-4" />
                 </button>
                  <button 
                     onClick={openCreate}
@@ -228,11 +474,43 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                 </button>
             </div>
         )}
+
+        {viewMode !== ViewMode.SCHEMA && docs.length > 0 && (viewMode !== ViewMode.TABLE || selectedCount > 0) && (
+            selectedCount > 0 ? (
+                <BulkActionBar
+                    dbName={dbName}
+                    colName={colName}
+                    selectedIds={Object.values(selected)}
+                    allMatching={allMatching}
+                    matchingCount={totalDocs}
+                    filter={activeFilter}
+                    canSelectAllMatching={pageSelected && totalDocs > selectedCount}
+                    onSelectAllMatching={() => setAllMatching(true)}
+                    onClear={clearSelection}
+                    onChanged={fetchDocs}
+                />
+            ) : (
+                <label className="mt-4 inline-flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                    <input type="checkbox" checked={false} onChange={togglePage} className="w-4 h-4" />
+                    Select this page
+                </label>
+            )
+        )}
+        </>
+        )}
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-auto p-4 md:p-6">
-        {loading ? (
+        {activeTab === 'indexes' ? (
+            <IndexManager dbName={dbName} colName={colName} />
+        ) : activeTab === 'validation' ? (
+            <ValidationEditor dbName={dbName} colName={colName} />
+        ) : viewMode === ViewMode.SCHEMA ? (
+            <SchemaView dbName={dbName} colName={colName} filter={activeFilter} />
+        ) : viewMode === ViewMode.LIVE ? (
+            <ChangeStreamView dbName={dbName} colName={colName} />
+        ) : loading ? (
             <div className="flex items-center justify-center h-full text-slate-500">
                 <div className="flex flex-col items-center gap-2">
                     <Icons.Refresh className="w-8 h-8 animate-spin text-emerald-500" />
@@ -252,7 +530,13 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                 {viewMode === ViewMode.JSON && (
                     <div className="space-y-4 font-mono text-sm">
                         {docs.map(doc => (
-                             <div key={doc._id} className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 group relative hover:border-emerald-500/30 transition-colors">
+                             <div key={idToString(doc._id)} className={`bg-slate-800/50 border rounded-lg p-4 pl-11 group relative hover:border-emerald-500/30 transition-colors ${isSelected(doc) ? 'border-emerald-500/50' : 'border-slate-700'}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={isSelected(doc)}
+                                    onChange={() => toggleSelect(doc)}
+                                    className="absolute left-4 top-5 w-4 h-4"
+                                />
                                 <div className="absolute right-4 top-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                                     <button onClick={() => openEdit(doc)} className="p-1.5 bg-slate-700 text-slate-300 rounded hover:bg-emerald-500 hover:text-white"><Icons.Edit2 className="w-3 h-3" /></button>
                                     <button onClick={() => handleDelete(doc._id)} className="p-1.5 bg-slate-700 text-slate-300 rounded hover:bg-red-500 hover:text-white"><Icons.Trash2 className="w-3 h-3" /></button>
@@ -271,6 +555,9 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                             <table className="w-full text-left text-sm text-slate-400 min-w-[600px]">
                                 <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
                                     <tr>
+                                        <th className="pl-6 py-3 w-10">
+                                            <input type="checkbox" checked={pageSelected} onChange={togglePage} className="w-4 h-4" title="Select this page" />
+                                        </th>
                                         <th className="px-6 py-3 font-medium w-32">_id</th>
                                         <th className="px-6 py-3 font-medium">Document Preview</th>
                                         <th className="px-6 py-3 text-right w-24">Actions</th>
@@ -278,8 +565,11 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                                 </thead>
                                 <tbody className="divide-y divide-slate-700">
                                     {docs.map(doc => (
-                                        <tr key={doc._id} className="hover:bg-slate-700/30">
-                                            <td className="px-6 py-4 font-mono text-emerald-400 align-top">{doc._id}</td>
+                                        <tr key={idToString(doc._id)} className={`hover:bg-slate-700/30 ${isSelected(doc) ? 'bg-emerald-500/5' : ''}`}>
+                                            <td className="pl-6 py-4 align-top">
+                                                <input type="checkbox" checked={isSelected(doc)} onChange={() => toggleSelect(doc)} className="w-4 h-4" />
+                                            </td>
+                                            <td className="px-6 py-4 font-mono text-emerald-400 align-top">{idToString(doc._id)}</td>
                                             <td className="px-6 py-4 align-top">
                                                 <div className="truncate max-w-xs md:max-w-xl text-slate-300">
                                                     {JSON.stringify(doc)}
@@ -302,9 +592,12 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
                 {viewMode === ViewMode.CARD && (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                         {docs.map(doc => (
-                            <div key={doc._id} className="bg-slate-800 border border-slate-700 p-4 rounded-lg flex flex-col hover:shadow-lg hover:shadow-black/20 transition-all">
+                            <div key={idToString(doc._id)} className={`bg-slate-800 border p-4 rounded-lg flex flex-col hover:shadow-lg hover:shadow-black/20 transition-all ${isSelected(doc) ? 'border-emerald-500/50' : 'border-slate-700'}`}>
                                 <div className="flex justify-between items-start mb-2">
-                                    <span className="font-mono text-xs text-emerald-500 bg-emerald-500/10 px-2 py-0.5 rounded truncate max-w-[150px]">{doc._id}</span>
+                                    <label className="flex items-center gap-2 min-w-0 cursor-pointer">
+                                        <input type="checkbox" checked={isSelected(doc)} onChange={() => toggleSelect(doc)} className="w-4 h-4 flex-shrink-0" />
+                                        <span className="font-mono text-xs text-emerald-500 bg-emerald-500/10 px-2 py-0.5 rounded truncate max-w-[150px]">{idToString(doc._id)}</span>
+                                    </label>
                                     <div className="flex gap-2">
                                         <button onClick={() => openEdit(doc)}><Icons.Edit2 className="w-3 h-3 text-slate-500 hover:text-emerald-400" /></button>
                                         <button onClick={() => handleDelete(doc._id)}><Icons.Trash2 className="w-3 h-3 text-slate-500 hover:text-red-400" /></button>
@@ -324,6 +617,7 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
       </div>
       
       {/* Pagination Footer */}
+      {activeTab === 'documents' && viewMode !== ViewMode.SCHEMA && viewMode !== ViewMode.LIVE && (
       <div className="p-4 border-t border-slate-800 bg-slate-900 flex justify-between items-center sticky bottom-0">
         <div className="flex items-center gap-2 text-sm text-slate-400">
             <span className="hidden md:inline">Show</span>
@@ -357,31 +651,107 @@ const CollectionView: React.FC<CollectionViewProps> = ({ dbName, colName, onBack
             </button>
         </div>
       </div>
+      )}
+
+      {/* Modify / Delete Matching Modal */}
+      {modifyMatching && (
+        <ModifyMatchingModal
+          mode={modifyMatching}
+          dbName={dbName}
+          colName={colName}
+          filter={activeFilter}
+          onClose={() => setModifyMatching(null)}
+          onApplied={() => { clearSelection(); fetchDocs(); }}
+        />
+      )}
+
+      {/* Explain Modal */}
+      {showExplain && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 w-full max-w-4xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-100">Explain Plan</h3>
+                    <p className="text-xs font-mono text-slate-500">{JSON.stringify(activeFilter)}</p>
+                </div>
+                <button onClick={() => setShowExplain(false)}><Icons.Close className="text-slate-400 hover:text-white" /></button>
+            </div>
+            <div className="flex-1 p-4 overflow-auto">
+                {explaining && <div className="text-slate-500 animate-pulse">Running explain...</div>}
+                {explainError && <div className="text-sm text-red-400">{explainError}</div>}
+                {explainResult && <ExplainPlan explain={explainResult} />}
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* Edit/Create Modal */}
       {showDocModal && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
           <div className="bg-slate-800 w-full max-w-2xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
             <div className="p-4 border-b border-slate-700 flex justify-between items-center">
-                <h3 className="text-lg font-bold text-slate-100">{editingDoc ? 'Edit Document' : 'Insert Document'}</h3>
+                <h3 className="text-lg font-bold text-slate-100">{editConflict ? 'Edit Conflict' : editReview ? 'Review Changes' : editingDoc ? 'Edit Document' : 'Insert Document'}</h3>
                 <button onClick={() => setShowDocModal(false)}><Icons.Close className="text-slate-400 hover:text-white" /></button>
             </div>
-            <div className="flex-1 p-4 overflow-hidden flex flex-col">
-                <JsonEditor 
-                    initialValue={editorContent || {}} 
-                    onChange={setEditorContent} 
-                    height="400px"
-                />
+            <div className={`flex-1 p-4 flex flex-col ${editReview || editConflict ? 'overflow-y-auto' : 'overflow-hidden'}`}>
+                {editConflict && editingDoc ? (
+                    <DocumentConflictView
+                        base={editingDoc}
+                        mine={editorContent}
+                        theirs={editConflict.document}
+                        onReload={() => resolveConflict(editConflict.document)}
+                        onMerge={resolveConflict}
+                    />
+                ) : editReview ? (
+                    <div className="space-y-4">
+                        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                            <input type="checkbox" checked={replaceWhole} onChange={e => setReplaceWhole(e.target.checked)} className="w-4 h-4" />
+                            Replace whole document
+                        </label>
+                        {replaceWhole ? (
+                            <p className="text-xs text-slate-500">The stored document is replaced by the edited one with replaceOne, including its field order.</p>
+                        ) : !editReview.pathSafe ? (
+                            <p className="text-xs text-amber-400">A changed field name contains "." or starts with "$", so this edit can only be saved by replacing the whole document.</p>
+                        ) : (
+                            <p className="text-xs text-slate-500">
+                                Only these fields are written: {Object.keys(editReview.set).length} set, {editReview.unset.length} unset.
+                            </p>
+                        )}
+                        <DocumentDiffView changes={editReview.changes} />
+                    </div>
+                ) : (
+                    <JsonEditor 
+                        initialValue={editorContent || {}} 
+                        onChange={setEditorContent} 
+                        height="400px"
+                    />
+                )}
+                {saveError && (
+                    <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400 max-h-40 overflow-y-auto">
+                        <div className="font-medium">{saveError.message}</div>
+                        {saveError.rules.length > 0 && (
+                            <ul className="mt-1 space-y-0.5 text-xs font-mono list-disc list-inside">
+                                {saveError.rules.map((rule, i) => <li key={i}>{rule}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                )}
             </div>
             <div className="p-4 border-t border-slate-700 flex justify-end gap-3 bg-slate-800/50 rounded-b-xl">
-                <button onClick={() => setShowDocModal(false)} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
-                <button 
-                    onClick={handleSaveDoc} 
-                    disabled={!editorContent}
-                    className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                    {editingDoc ? 'Update' : 'Insert'}
-                </button>
+                {editReview && !editConflict ? (
+                    <button onClick={() => { setEditReview(null); setSaveError(null); }} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Back to Editor</button>
+                ) : (
+                    <button onClick={() => setShowDocModal(false)} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+                )}
+                {!editConflict && (
+                    <button 
+                        onClick={editingDoc && !editReview ? handleReviewDoc : handleSaveDoc} 
+                        disabled={!editorContent || (editReview !== null && !replaceWhole && (editReview.changes.length === 0 || !editReview.pathSafe))}
+                        className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {!editingDoc ? 'Insert' : editReview ? (replaceWhole ? 'Replace' : 'Update') : 'Review Changes'}
+                    </button>
+                )}
             </div>
           </div>
         </div>
@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { getCurrentOps, killOp } from '../services/api';
+import { CurrentOperation, CurrentOpFilter } from '../types';
+import { Icons } from '../components/Icon';
+
+interface CurrentOpsProps {
+  onBack: () => void;
+}
+
+const OP_TYPES = ['query', 'getmore', 'insert', 'update', 'remove', 'command', 'killcursors'];
+
+const REFRESH_INTERVALS = [
+  { value: 0, label: 'Off' },
+  { value: 2000, label: '2s' },
+  { value: 5000, label: '5s' },
+  { value: 10000, label: '10s' }
+];
+
+const OP_STYLES: Record<string, string> = {
+  query: 'bg-emerald-500/15 text-emerald-400',
+  getmore: 'bg-teal-500/15 text-teal-400',
+  insert: 'bg-blue-500/15 text-blue-400',
+  update: 'bg-amber-500/15 text-amber-400',
+  remove: 'bg-red-500/15 text-red-400',
+  command: 'bg-purple-500/15 text-purple-400'
+};
+
+const DEFAULT_OP_STYLE = 'bg-slate-500/15 text-slate-300';
+
+// Running time with millisecond precision for short operations
+const formatRunningTime = (op: CurrentOperation): string => {
+  if (op.microsecs_running !== undefined) {
+    const ms = op.microsecs_running / 1000;
+    if (ms < 1000) return `${Math.round(ms)} ms`;
+    const seconds = ms / 1000;
+    return seconds < 60 ? `${seconds.toFixed(1)} s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+  }
+  return op.secs_running !== undefined ? `${op.secs_running} s` : '-';
+};
+
+const CurrentOps: React.FC<CurrentOpsProps> = ({ onBack }) => {
+  const [operations, setOperations] = useState<CurrentOperation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [minSeconds, setMinSeconds] = useState('');
+  const [namespace, setNamespace] = useState('');
+  const [opType, setOpType] = useState('');
+  const [includeIdle, setIncludeIdle] = useState(false);
+  const [refreshInterval, setRefreshInterval] = useState(5000);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [killing, setKilling] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const fetchOps = useCallback(async () => {
+    const filter: CurrentOpFilter = {
+      minSeconds: Number(minSeconds) || undefined,
+      ns: namespace.trim() || undefined,
+      op: opType || undefined,
+      includeIdle
+    };
+    try {
+      const { operations: ops } = await getCurrentOps(filter);
+      setOperations(ops);
+      setError(null);
+      setLastUpdated(new Date());
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [minSeconds, namespace, opType, includeIdle]);
+
+  useEffect(() => {
+    fetchOps();
+    if (!refreshInterval) return;
+    const timer = setInterval(fetchOps, refreshInterval);
+    return () => clearInterval(timer);
+  }, [fetchOps, refreshInterval]);
+
+  const handleKill = async (op: CurrentOperation) => {
+    if (op.opid === undefined) return;
+    const description = [op.op, op.ns].filter(Boolean).join(' on ');
+    if (!confirm(`Kill operation ${op.opid}${description ? ` (${description})` : ''}? The client will receive an interrupted error.`)) return;
+    setKilling(String(op.opid));
+    try {
+      await killOp(op.opid);
+      await fetchOps();
+    } catch (e) {
+      alert('Kill failed: ' + (e as Error).message);
+    } finally {
+      setKilling(null);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-8 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-100 flex items-center gap-3">
+            <Icons.Activity className="text-emerald-500" />
+            Current Operations
+          </h1>
+          <p className="text-slate-400 mt-1">Operations running on the server, from $currentOp</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white text-sm font-medium flex items-center gap-2"
+        >
+          <Icons.ChevronRight className="w-4 h-4 rotate-180" />
+          Back
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3 bg-slate-800/50 rounded-xl border border-slate-700 p-4">
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Running longer than</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              value={minSeconds}
+              onChange={e => setMinSeconds(e.target.value)}
+              placeholder="0"
+              className="w-24 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+            <span className="text-sm text-slate-400">s</span>
+          </div>
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Namespace</label>
+          <input
+            type="text"
+            value={namespace}
+            onChange={e => setNamespace(e.target.value)}
+            placeholder="db or db.collection"
+            className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 text-sm font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Operation</label>
+          <select
+            value={opType}
+            onChange={e => setOpType(e.target.value)}
+            className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            <option value="">All</option>
+            {OP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer pb-2">
+          <input
+            type="checkbox"
+            checked={includeIdle}
+            onChange={e => setIncludeIdle(e.target.checked)}
+            className="w-4 h-4 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-500"
+          />
+          <span className="text-sm text-slate-300">Include idle</span>
+        </label>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Auto-refresh</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={refreshInterval}
+              onChange={e => setRefreshInterval(Number(e.target.value))}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+            >
+              {REFRESH_INTERVALS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+            </select>
+            <button onClick={fetchOps} className="p-2 text-slate-400 hover:text-white bg-slate-950 border border-slate-800 rounded-lg" title="Refresh now">
+              <Icons.Refresh className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-slate-500">
+        <span>{operations.length} operation{operations.length === 1 ? '' : 's'}</span>
+        {lastUpdated && <span>Updated {lastUpdated.toLocaleTimeString()}</span>}
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12 text-slate-500">
+          <Icons.Refresh className="w-6 h-6 animate-spin text-emerald-500 mr-2" />
+          Loading operations...
+        </div>
+      ) : operations.length === 0 ? (
+        <div className="text-center py-12 text-slate-500">No operations match the filters.</div>
+      ) : (
+        <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-400 min-w-[900px]">
+              <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Op</th>
+                  <th className="px-4 py-3 font-medium">Namespace</th>
+                  <th className="px-4 py-3 font-medium">Running</th>
+                  <th className="px-4 py-3 font-medium">Client</th>
+                  <th className="px-4 py-3 font-medium">Plan</th>
+                  <th className="px-4 py-3 text-right w-28">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {operations.map((op, index) => {
+                  // Idle connections have no operation id
+                  const id = op.opid !== undefined ? String(op.opid) : `conn${op.connectionId ?? index}`;
+                  const isExpanded = expanded === id;
+                  return (
+                    <React.Fragment key={id}>
+                      <tr className="hover:bg-slate-700/30 align-top">
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${OP_STYLES[op.op || ''] || DEFAULT_OP_STYLE}`}>
+                              {op.op || op.type || 'op'}
+                            </span>
+                            {op.waitingForLock && <span className="text-xs text-amber-400" title="Waiting for a lock">lock</span>}
+                            {op.killPending && <span className="text-xs text-red-400">killing</span>}
+                          </div>
+                          {op.opid !== undefined && <div className="mt-1 text-xs font-mono text-slate-500">#{id}</div>}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-slate-300 break-all">
+                          {op.ns || <span className="text-slate-600">-</span>}
+                          {op.desc && <div className="text-xs text-slate-500 font-sans">{op.desc}</div>}
+                        </td>
+                        <td className={`px-4 py-3 font-mono whitespace-nowrap ${(op.secs_running || 0) >= 10 ? 'text-red-400' : 'text-slate-300'}`}>
+                          {op.active === false ? <span className="text-slate-600">idle</span> : formatRunningTime(op)}
+                        </td>
+                        <td className="px-4 py-3 text-xs">
+                          <div className="font-mono text-slate-300">{op.client || op.client_s || '-'}</div>
+                          {op.appName && <div className="text-slate-500">{op.appName}</div>}
+                          {op.effectiveUsers?.[0] && <div className="text-slate-500">{op.effectiveUsers[0].user}@{op.effectiveUsers[0].db}</div>}
+                        </td>
+                        <td className={`px-4 py-3 text-xs font-mono break-all ${op.planSummary?.startsWith('COLLSCAN') ? 'text-red-400' : 'text-slate-300'}`}>
+                          {op.planSummary || '-'}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => setExpanded(isExpanded ? null : id)}
+                              className="text-slate-400 hover:text-emerald-400"
+                              title="Show the command document"
+                            >
+                              <Icons.Code className="w-4 h-4" />
+                            </button>
+                            {op.opid !== undefined && (
+                              <button
+                                onClick={() => handleKill(op)}
+                                disabled={killing === id}
+                                className="px-2 py-0.5 text-xs font-medium rounded bg-red-500/10 text-red-400 hover:bg-red-500 hover:text-white disabled:opacity-50"
+                              >
+                                {killing === id ? 'Killing...' : 'Kill'}
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={6} className="px-4 pb-4">
+                            <pre className="bg-slate-950 border border-slate-700 rounded-lg p-3 text-xs text-slate-300 font-mono whitespace-pre-wrap break-all max-h-80 overflow-auto">
+                              {JSON.stringify(op.command ?? op, null, 2)}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurrentOps;
@@ -1,7 +1,9 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { getServerStatus, getDatabases, exportDatabase, exportCollection, importCollection } from '../services/api';
-import { ServerStatus, Database, DbExportConfig, CollectionExportConfig } from '../types';
+import { getServerStatus, getDatabases, exportDatabase, exportCollection, importFile } from '../services/api';
+import { ServerStatus, Database, DbExportConfig, CollectionExportConfig, CollectionExportFormat, JobInfo } from '../types';
 import { Icons } from '../components/Icon';
+import MetricsPanel from '../components/MetricsPanel';
+import { formatJobProgress, getJobPercent } from '../services/format';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
 
 interface DashboardProps {
@@ -16,7 +18,9 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateDb }) => {
   const [showExportModal, setShowExportModal] = useState(false);
   const [selectedDb, setSelectedDb] = useState<string>('');
   const [selectedCol, setSelectedCol] = useState<string>('');
-  const [exportFormat, setExportFormat] = useState<'json' | 'csv' | 'bson'>('json');
+  const [exportFormat, setExportFormat] = useState<CollectionExportFormat | 'bson'>('json');
+  const [exportGzip, setExportGzip] = useState(false);
+  const [exportProgress, setExportProgress] = useState<JobInfo | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -34,48 +38,45 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateDb }) => {
 
   const handleExportDb = async (dbName: string) => {
     setExporting(true);
+    setExportProgress(null);
     try {
-      const blob = await exportDatabase({ dbName, format: exportFormat });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${dbName}_${Date.now()}.${exportFormat}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const format = exportFormat === 'bson' ? 'bson' : 'json';
+      await exportDatabase({ dbName, format, packaging: 'archive', includeIndexes: true, gzip: exportGzip }, setExportProgress);
     } catch (error) {
       console.error('Export failed:', error);
       alert('Export failed: ' + (error as Error).message);
     } finally {
       setExporting(false);
+      setExportProgress(null);
     }
   };
 
   const handleExportCollection = async (dbName: string, colName: string) => {
     setExporting(true);
+    setExportProgress(null);
     try {
-      const blob = await exportCollection({ dbName, colName, format: exportFormat as 'json' | 'csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${dbName}_${colName}_${Date.now()}.${exportFormat}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      if (exportFormat === 'bson') {
+        // A single collection is exported as a dump holding just that collection
+        await exportDatabase(
+          { dbName, collections: [colName], format: 'bson', packaging: 'archive', includeIndexes: true, gzip: exportGzip },
+          setExportProgress
+        );
+      } else {
+        await exportCollection({ dbName, colName, format: exportFormat, gzip: exportGzip }, setExportProgress);
+      }
     } catch (error) {
       console.error('Export failed:', error);
       alert('Export failed: ' + (error as Error).message);
     } finally {
       setExporting(false);
+      setExportProgress(null);
     }
   };
 
   const handleImportCollection = async (dbName: string, colName: string, file: File) => {
     setExporting(true);
     try {
-      await importCollection(dbName, colName, file);
+      await importFile({ dbName, colName }, file, { layout: 'documents' });
       alert('Import successful!');
       // Refresh databases
       const updatedDbs = await getDatabases();
@@ -161,6 +162,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateDb }) => {
         </div>
       </div>
 
+      <MetricsPanel />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Database List */}
         <div className="lg:col-span-2 bg-slate-800/50 rounded-xl border border-slate-700 overflow-hidden">
@@ -243,10 +246,26 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateDb }) => {
                   className="w-full bg-slate-950 border border-slate-800 rounded-lg p-2 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
                 >
                   <option value="json">JSON</option>
-                  {!selectedCol && <option value="bson">BSON</option>}
+                  {selectedCol && <option value="ndjson">NDJSON</option>}
                   {selectedCol && <option value="csv">CSV</option>}
+                  <option value="bson">BSON (mongodump archive)</option>
                 </select>
+                <label className="mt-3 flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={exportGzip} onChange={e => setExportGzip(e.target.checked)} />
+                  Compress with gzip
+                </label>
               </div>
+              {exportProgress && (
+                <div>
+                  <div className="h-2 rounded bg-slate-700 overflow-hidden">
+                    <div
+                      className={`h-full bg-emerald-500 transition-all ${getJobPercent(exportProgress) === null ? 'animate-pulse w-full' : ''}`}
+                      style={getJobPercent(exportProgress) === null ? undefined : { width: `${getJobPercent(exportProgress)}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-slate-400">{formatJobProgress(exportProgress)}</p>
+                </div>
+              )}
               <div className="flex gap-2 pt-2">
                 <button
                   onClick={() => setShowExportModal(false)}
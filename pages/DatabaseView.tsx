@@ -1,30 +1,56 @@
 import React, { useEffect, useState, useMemo, useRef } from 'react';
 import {
   getCollections,
-  createCollection,
   dropDatabase,
   bulkCollectionsAction,
-  exportCollection
+  exportCollection,
+  getProfilingSettings,
+  setProfilingSettings
 } from '../services/api';
 import { Icons } from '../components/Icon';
+import CreateCollectionModal from '../components/CreateCollectionModal';
+import CollectionTransferModal from '../components/CollectionTransferModal';
+import { CollectionKind, ProfilingLevel } from '../types';
 
 interface DatabaseViewProps {
   dbName: string;
   onNavigateCollection: (db: string, col: string) => void;
+  onOpenProfiler: () => void;
   onBack: () => void;
 }
 
+const PROFILING_LEVELS: { value: ProfilingLevel; label: string; description: string }[] = [
+  { value: 0, label: 'Off', description: 'Nothing is recorded in system.profile' },
+  { value: 1, label: 'Slow', description: 'Operations slower than slowms' },
+  { value: 2, label: 'All', description: 'Every operation; adds load on busy servers' }
+];
+
+// Badges for collections that are not plain collections
+const KIND_BADGES: Partial<Record<CollectionKind, { label: string; className: string }>> = {
+  view: { label: 'VIEW', className: 'bg-sky-500/20 text-sky-300' },
+  capped: { label: 'CAPPED', className: 'bg-amber-500/20 text-amber-300' },
+  timeseries: { label: 'TIME SERIES', className: 'bg-violet-500/20 text-violet-300' },
+  clustered: { label: 'CLUSTERED', className: 'bg-emerald-500/20 text-emerald-300' }
+};
+
 const DatabaseView: React.FC<DatabaseViewProps> = ({
   dbName,
   onNavigateCollection,
+  onOpenProfiler,
   onBack
 }) => {
   const [collections, setCollections] = useState<any[]>([]);
   const [selected, setSelected] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [newColName, setNewColName] = useState('');
+  const [transfer, setTransfer] = useState<{ mode: 'rename' | 'copy'; colName: string } | null>(null);
   const [exporting, setExporting] = useState(false);
+  const [showProfilingModal, setShowProfilingModal] = useState(false);
+  const [profilingLevel, setProfilingLevel] = useState<ProfilingLevel>(0);
+  const [slowms, setSlowms] = useState('100');
+  const [sampleRate, setSampleRate] = useState('1');
+  const [profilingError, setProfilingError] = useState<string | null>(null);
+  const [savingProfiling, setSavingProfiling] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const allSelected = selected.length === collections.length && collections.length > 0;
@@ -53,32 +79,62 @@ const DatabaseView: React.FC<DatabaseViewProps> = ({
     );
   };
 
-  const handleCreate = async () => {
-    if (!newColName.trim()) return;
-    await createCollection(dbName, newColName.trim());
-    setNewColName('');
+  const handleCreated = () => {
     setShowCreateModal(false);
     fetchCols();
   };
 
+  const handleTransferDone = () => {
+    setTransfer(null);
+    fetchCols();
+  };
+
   const handleDropDb = async () => {
     if (!confirm(`Drop database "${dbName}"? This cannot be undone.`)) return;
     await dropDatabase(dbName);
     onBack();
   };
 
+  const openProfilingSettings = async () => {
+    setProfilingError(null);
+    setShowProfilingModal(true);
+    try {
+      const settings = await getProfilingSettings(dbName);
+      setProfilingLevel(settings.level);
+      setSlowms(String(settings.slowms));
+      setSampleRate(String(settings.sampleRate));
+    } catch (e) {
+      setProfilingError((e as Error).message);
+    }
+  };
+
+  const handleSaveProfiling = async () => {
+    const slow = Number(slowms);
+    const rate = Number(sampleRate);
+    if (!Number.isInteger(slow) || slow < 0) {
+      setProfilingError('slowms must be a whole number of milliseconds');
+      return;
+    }
+    if (!(rate >= 0 && rate <= 1)) {
+      setProfilingError('Sample rate must be between 0 and 1');
+      return;
+    }
+    setSavingProfiling(true);
+    setProfilingError(null);
+    try {
+      await setProfilingSettings(dbName, { level: profilingLevel, slowms: slow, sampleRate: rate });
+      setShowProfilingModal(false);
+    } catch (e) {
+      setProfilingError((e as Error).message);
+    } finally {
+      setSavingProfiling(false);
+    }
+  };
+
   const handleExportCollection = async (colName: string) => {
     setExporting(true);
     try {
-      const blob = await exportCollection({ dbName, colName, format: 'json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${dbName}_${colName}_${Date.now()}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await exportCollection({ dbName, colName, format: 'json' });
     } catch (error) {
       console.error('Export failed:', error);
       alert('Export failed: ' + (error as Error).message);
@@ -159,6 +215,14 @@ const DatabaseView: React.FC<DatabaseViewProps> = ({
             </div>
           )}
 
+          <button
+            onClick={openProfilingSettings}
+            className="px-4 py-2 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium flex items-center gap-2"
+          >
+            <Icons.Profiler className="w-4 h-4" />
+            Profiler
+          </button>
+
           <button
             onClick={handleDropDb}
             className="px-4 py-2 rounded-md bg-red-500/10 text-red-400 hover:bg-red-500/20 text-sm font-medium flex items-center gap-2"
@@ -188,6 +252,7 @@ const DatabaseView: React.FC<DatabaseViewProps> = ({
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {collections.map(col => {
           const isSelected = selected.includes(col.name);
+          const badge = KIND_BADGES[col.kind as CollectionKind];
 
           return (
             <div
@@ -207,6 +272,26 @@ const DatabaseView: React.FC<DatabaseViewProps> = ({
                 className="absolute left-4 top-4 w-4 h-4"
               />
 
+              {/* Collection actions; views can be neither renamed nor copied */}
+              {col.kind !== 'view' && (
+                <div className="absolute right-4 bottom-4 flex gap-3">
+                  <button
+                    onClick={() => setTransfer({ mode: 'rename', colName: col.name })}
+                    className="text-slate-500 hover:text-emerald-400"
+                    title="Rename or move"
+                  >
+                    <Icons.Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setTransfer({ mode: 'copy', colName: col.name })}
+                    className="text-slate-500 hover:text-emerald-400"
+                    title="Clone or copy"
+                  >
+                    <Icons.Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+
               {/* Clickable content */}
               <button
                 onClick={() => onNavigateCollection(dbName, col.name)}
@@ -214,13 +299,14 @@ const DatabaseView: React.FC<DatabaseViewProps> = ({
               >
                 <div className="flex justify-between mb-4">
                   <div className="p-2 bg-slate-700/50 rounded-lg text-slate-400">
-                    <Icons.Table className="w-6 h-6" />
+                    {col.kind === 'view' ? <Icons.Eye className="w-6 h-6" /> : <Icons.Table className="w-6 h-6" />}
                   </div>
                   <Icons.ChevronRight className="w-5 h-5 text-slate-600" />
                 </div>
 
-                <h3 className="text-lg font-bold text-slate-200 mb-1">
+                <h3 className="text-lg font-bold text-slate-200 mb-1 flex items-center gap-2">
                   {col.name}
+                  {badge && <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${badge.className}`}>{badge.label}</span>}
                 </h3>
 
                 <div className="flex gap-4 text-xs text-slate-500 mt-4">
@@ -239,39 +325,112 @@ const DatabaseView: React.FC<DatabaseViewProps> = ({
         })}
       </div>
 
-      {/* Create Modal */}
-      {showCreateModal && (
+      {/* Profiling Modal */}
+      {showProfilingModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-          <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 w-full max-w-sm">
+          <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 w-full max-w-md">
             <h3 className="text-lg font-bold text-slate-100 mb-4">
-              Create Collection
+              Database Profiler
             </h3>
 
-            <input
-              autoFocus
-              value={newColName}
-              onChange={e => setNewColName(e.target.value)}
-              placeholder="Collection name"
-              className="w-full bg-slate-900 border border-slate-700 rounded-md p-3 text-slate-200 mb-6 focus:ring-1 focus:ring-emerald-500"
-            />
+            <div className="space-y-2 mb-4">
+              {PROFILING_LEVELS.map(level => (
+                <label
+                  key={level.value}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${profilingLevel === level.value ? 'border-emerald-500/50 bg-emerald-500/5' : 'border-slate-700 hover:border-slate-600'}`}
+                >
+                  <input
+                    type="radio"
+                    name="profiling-level"
+                    checked={profilingLevel === level.value}
+                    onChange={() => setProfilingLevel(level.value)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-slate-200">Level {level.value}: {level.label}</div>
+                    <div className="text-xs text-slate-500">{level.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
 
-            <div className="flex justify-end gap-3">
-              <button
-                onClick={() => setShowCreateModal(false)}
-                className="text-slate-400 hover:text-white"
-              >
-                Cancel
-              </button>
+            <div className="grid grid-cols-2 gap-3 mb-2">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">slowms</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={slowms}
+                  onChange={e => setSlowms(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-slate-200 text-sm focus:ring-1 focus:ring-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Sample rate</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={sampleRate}
+                  onChange={e => setSampleRate(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-slate-200 text-sm focus:ring-1 focus:ring-emerald-500"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 mb-4">
+              slowms and the sample rate are server-wide and also decide which operations are written to the log.
+            </p>
+
+            {profilingError && <div className="text-sm text-red-400 mb-4">{profilingError}</div>}
+
+            <div className="flex items-center justify-between gap-3">
               <button
-                onClick={handleCreate}
-                className="px-4 py-2 bg-emerald-500 text-slate-900 font-bold rounded-md hover:bg-emerald-400"
+                onClick={onOpenProfiler}
+                className="text-sm text-emerald-400 hover:text-emerald-300"
               >
-                Create
+                View slow queries
               </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setShowProfilingModal(false)}
+                  className="text-slate-400 hover:text-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveProfiling}
+                  disabled={savingProfiling}
+                  className="px-4 py-2 bg-emerald-500 text-slate-900 font-bold rounded-md hover:bg-emerald-400 disabled:opacity-50"
+                >
+                  Apply
+                </button>
+              </div>
             </div>
           </div>
         </div>
       )}
+
+      {/* Rename / Copy Modal */}
+      {transfer && (
+        <CollectionTransferModal
+          mode={transfer.mode}
+          dbName={dbName}
+          colName={transfer.colName}
+          onClose={() => setTransfer(null)}
+          onDone={handleTransferDone}
+        />
+      )}
+
+      {/* Create Modal */}
+      {showCreateModal && (
+        <CreateCollectionModal
+          dbName={dbName}
+          collectionNames={collections.map(c => c.name)}
+          onClose={() => setShowCreateModal(false)}
+          onCreated={handleCreated}
+        />
+      )}
     </div>
   );
 };
@@ -1,8 +1,11 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { getDatabases, getCollections, exportDatabase, exportCollection, importCollection } from '../services/api';
-import { Database } from '../types';
+import { getDatabases, getCollections, exportDatabase, exportCollection, importFile, JobError } from '../services/api';
+import { Database, CollectionExportFormat, DumpPackaging, JobInfo, ImportLayout, CsvImportOptions } from '../types';
 import { Icons } from '../components/Icon';
-import { ArrowLeft, Info, AlertCircle, CheckCircle2, XCircle, Upload, Download, Database as DbIcon, Table, FileText, Settings, RefreshCw } from 'lucide-react';
+import CsvImportMapper from '../components/CsvImportMapper';
+import { formatJobProgress, formatImportCounts, getJobPercent } from '../services/format';
+import { idToString } from '../services/ejson';
+import { ArrowLeft, Info, AlertCircle, CheckCircle2, XCircle, Upload, Download, Database as DbIcon, Table, FileText, FileSpreadsheet, Settings, RefreshCw } from 'lucide-react';
 
 interface ImportExportProps {
   onBack: () => void;
@@ -13,6 +16,7 @@ interface ImportOptions {
   targetCol: string;
   importMode: 'same-name' | 'new-name' | 'overwrite' | 'skip-duplicates';
   batchSize: number;
+  ordered: boolean;
   continueOnError: boolean;
 }
 
@@ -30,16 +34,21 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
   const [selectedDb, setSelectedDb] = useState<string>('');
   const [collections, setCollections] = useState<any[]>([]);
   const [selectedCols, setSelectedCols] = useState<string[]>([]);
-  const [exportFormat, setExportFormat] = useState<'json' | 'csv' | 'bson'>('json');
+  const [exportFormat, setExportFormat] = useState<CollectionExportFormat | 'bson'>('json');
+  const [dumpPackaging, setDumpPackaging] = useState<DumpPackaging>('tar');
+  const [includeIndexes, setIncludeIndexes] = useState(true);
+  const [exportGzip, setExportGzip] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [importing, setImporting] = useState(false);
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
-  const [importMode, setImportMode] = useState<'collection' | 'database' | 'mongodump'>('collection');
+  const [importMode, setImportMode] = useState<'collection' | 'csv' | 'database' | 'mongodump'>('collection');
+  const [csvOptions, setCsvOptions] = useState<CsvImportOptions | null>(null);
   const [importOptions, setImportOptions] = useState<ImportOptions>({
     targetDb: '',
     targetCol: '',
     importMode: 'same-name',
     batchSize: 1000,
+    ordered: true,
     continueOnError: false
   });
   const [progress, setProgress] = useState<ImportProgress | null>(null);
@@ -103,6 +112,7 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
   };
 
   const handleFileSelect = (file: File | null) => {
+    setCsvOptions(null);
     if (file) {
       setSelectedFile(file);
       setFileInfo({
@@ -122,31 +132,33 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
     setProgress(null);
   };
 
+  // Maps export job progress onto the shared progress bar
+  const showExportProgress = (label: string, job: JobInfo) => {
+    const percent = getJobPercent(job);
+    setProgress({
+      current: percent === null ? 0 : percent,
+      total: 100,
+      message: `${label}: ${formatJobProgress(job)}`,
+      collection: job.progress.collection
+    });
+  };
+
   const handleExportDatabase = async () => {
     if (!selectedDb) return;
     setExporting(true);
-    setProgress({ current: 0, total: 100, message: 'Starting export...' });
     clearLogs();
+    setProgress({ current: 0, total: 100, message: 'Starting export...' });
 
     try {
-      // Database export only supports JSON and BSON formats
-      const format = exportFormat === 'csv' ? 'json' : exportFormat;
-
-      setProgress({ current: 20, total: 100, message: 'Fetching database data...' });
-      const blob = await exportDatabase({ dbName: selectedDb, format: format as 'json' | 'bson' });
-
-      setProgress({ current: 80, total: 100, message: 'Preparing download...' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${selectedDb}_${Date.now()}.${format}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Database exports are a single JSON document or a BSON dump
+      const format = exportFormat === 'bson' ? 'bson' : 'json';
+      const job = await exportDatabase(
+        { dbName: selectedDb, format, packaging: dumpPackaging, includeIndexes, gzip: exportGzip },
+        job => showExportProgress(`Exporting ${selectedDb}`, job)
+      );
 
       setProgress({ current: 100, total: 100, message: 'Export completed successfully!' });
-      setSuccessLog([`Database "${selectedDb}" exported successfully as ${format.toUpperCase()}`]);
+      setSuccessLog([`Database "${selectedDb}" exported: ${formatJobProgress(job)}`]);
     } catch (error) {
       console.error('Export failed:', error);
       setErrorLog([`Export failed: ${(error as Error).message}`]);
@@ -161,32 +173,43 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
     setExporting(true);
     clearLogs();
 
+    // Selected collections go into one dump rather than a file each
+    if (exportFormat === 'bson') {
+      try {
+        const job = await exportDatabase(
+          { dbName: selectedDb, collections: selectedCols, format: 'bson', packaging: dumpPackaging, includeIndexes, gzip: exportGzip },
+          job => showExportProgress(`Exporting ${selectedCols.length} collection(s)`, job)
+        );
+        setProgress({ current: 100, total: 100, message: 'Export completed successfully!' });
+        setSuccessLog([`Exported ${selectedCols.length} collection(s) from "${selectedDb}": ${formatJobProgress(job)}`]);
+      } catch (error) {
+        console.error('Export failed:', error);
+        setErrorLog([`Export failed: ${(error as Error).message}`]);
+        setProgress(null);
+      } finally {
+        setExporting(false);
+      }
+      return;
+    }
+
     const totalCols = selectedCols.length;
     let completed = 0;
 
     try {
       for (const colName of selectedCols) {
         setProgress({
-          current: (completed / totalCols) * 100,
+          current: 0,
           total: 100,
           message: `Exporting ${colName} (${completed + 1}/${totalCols})...`
         });
 
-        const blob = await exportCollection({ dbName: selectedDb, colName, format: exportFormat as 'json' | 'csv' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${selectedDb}_${colName}_${Date.now()}.${exportFormat}`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-
-        setSuccessLog(prev => [...prev, `Exported ${colName}`]);
-        completed++;
+        const job = await exportCollection(
+          { dbName: selectedDb, colName, format: exportFormat as CollectionExportFormat, gzip: exportGzip },
+          job => showExportProgress(`Exporting ${colName} (${completed + 1}/${totalCols})`, job)
+        );
 
-        // Small delay between downloads
-        await new Promise(resolve => setTimeout(resolve, 300));
+        setSuccessLog(prev => [...prev, `Exported ${colName}: ${formatJobProgress(job)}`]);
+        completed++;
       }
 
       setProgress({ current: 100, total: 100, message: `Exported ${totalCols} collection(s) successfully!` });
@@ -199,6 +222,28 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
     }
   };
 
+  const showImportProgress = (job: JobInfo) => {
+    const percent = getJobPercent(job);
+    setProgress({
+      current: percent === null ? 0 : percent,
+      total: 100,
+      message: `Importing: ${formatJobProgress(job)} (${formatImportCounts(job)})`,
+      collection: job.progress.collection || undefined
+    });
+  };
+
+  const showImportErrors = (job: JobInfo) => {
+    const errors: any[] = job.progress.errors || [];
+    const lines = errors.map(err =>
+      `Document #${err.index + 1}${err.collection ? ` in ${err.collection}` : ''}${err._id !== undefined ? ` (_id ${idToString(err._id)})` : ''}: ${err.message}`
+    );
+    if (job.progress.failed > errors.length) {
+      lines.push(`...and ${job.progress.failed - errors.length} more failed document(s)`);
+    }
+    lines.push(...(job.progress.warnings || []));
+    setErrorLog(prev => [...prev, ...lines]);
+  };
+
   const handleImport = async () => {
     if (!selectedFile) {
       setErrorLog(['Please select a file to import']);
@@ -210,50 +255,50 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
       return;
     }
 
-    if (importMode === 'collection' && !importOptions.targetCol) {
+    const singleCollection = importMode === 'collection' || importMode === 'csv';
+    if (singleCollection && !importOptions.targetCol) {
       setErrorLog(['Please select a target collection']);
       return;
     }
 
+    if (importMode === 'csv' && (!csvOptions || csvOptions.columns.every(col => col.type === 'skip'))) {
+      setErrorLog(['Please map at least one CSV column']);
+      return;
+    }
+
     setImporting(true);
     clearLogs();
+    setProgress({ current: 0, total: 100, message: 'Uploading file...' });
+
+    // The server scans the uploaded file incrementally; the layout tells it where the documents are.
+    // Mongodump mode takes BSON dumps as well as JSON keyed by collection name.
+    const isJsonFile = /\.json(\.gz)?$/i.test(selectedFile.name);
+    let layout: ImportLayout = 'documents';
+    if (importMode === 'csv') layout = 'csv';
+    else if (importMode === 'database') layout = 'database';
+    else if (importMode === 'mongodump') layout = isJsonFile ? 'collections' : 'dump';
+    const mode = importOptions.importMode === 'overwrite' || importOptions.importMode === 'skip-duplicates'
+      ? importOptions.importMode
+      : 'insert';
 
     try {
-      setProgress({ current: 10, total: 100, message: 'Reading file...', collection: '', batch: 0, totalBatches: 0 });
-
-      // Read file content
-      const text = await selectedFile.text();
-      let data: any;
-
-      try {
-        data = JSON.parse(text);
-      } catch (e) {
-        throw new Error('Invalid JSON file format');
-      }
-
-      // Handle different import modes
-      if (importMode === 'database') {
-        // Import entire database (multiple collections)
-        if (typeof data !== 'object' || !data.database || !Array.isArray(data.collections)) {
-          throw new Error('Invalid database dump format. Expected { database: string, collections: [...] }');
-        }
-
-        await importDatabase(data, importTargetDb);
-      } else if (importMode === 'mongodump') {
-        // Import mongodump format (multiple collections)
-        if (typeof data !== 'object') {
-          throw new Error('Invalid mongodump format');
-        }
-
-        await importMongodump(data, importTargetDb);
-      } else {
-      // Import single collection
-        if (!Array.isArray(data)) {
-          throw new Error('File must contain an array of documents');
-        }
-
-        await importSingleCollection(data, importTargetDb, importOptions.targetCol);
-      }
+      const job = await importFile(
+        { dbName: importTargetDb, colName: singleCollection ? importOptions.targetCol : undefined },
+        selectedFile,
+        {
+          layout,
+          csv: importMode === 'csv' ? csvOptions! : undefined,
+          mode,
+          batchSize: importOptions.batchSize,
+          ordered: importOptions.ordered,
+          continueOnError: importOptions.continueOnError
+        },
+        showImportProgress
+      );
+
+      setProgress({ current: 100, total: 100, message: 'Import completed!' });
+      setSuccessLog([`${selectedFile.name}: ${formatImportCounts(job)}`]);
+      showImportErrors(job);
 
       // Refresh databases list
       const updatedDbs = await getDatabases();
@@ -268,177 +313,16 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
     } catch (error) {
       console.error('Import failed:', error);
       setErrorLog([`Import failed: ${(error as Error).message}`]);
+      if (error instanceof JobError) {
+        setSuccessLog([`${selectedFile.name}: ${formatImportCounts(error.job)} before stopping`]);
+        showImportErrors(error.job);
+      }
       setProgress(null);
     } finally {
       setImporting(false);
     }
   };
 
-  const importSingleCollection = async (data: any[], dbName: string, colName: string) => {
-    const batchSize = importOptions.batchSize;
-    let insertedCount = 0;
-    let errorCount = 0;
-    const totalBatches = Math.ceil(data.length / batchSize);
-
-    for (let i = 0; i < data.length; i += batchSize) {
-      const batch = data.slice(i, i + batchSize);
-      const progressPercent = Math.min((i / data.length) * 100, 90);
-
-      setProgress({ 
-        current: progressPercent,
-        total: 100, 
-        message: `Importing ${colName} - Batch ${Math.floor(i / batchSize) + 1}/${totalBatches}`,
-        collection: colName,
-        batch: Math.floor(i / batchSize) + 1,
-        totalBatches
-      });
-
-      try {
-        await importCollection(dbName, colName, batch);
-        insertedCount += batch.length;
-        setSuccessLog(prev => [...prev, `${colName}: Imported batch ${Math.floor(i / batchSize) + 1} (${batch.length} docs)`]);
-      } catch (error) {
-        errorCount += batch.length;
-        setErrorLog(prev => [...prev, `${colName}: Batch ${Math.floor(i / batchSize) + 1} failed: ${(error as Error).message}`]);
-
-        if (!importOptions.continueOnError) {
-          throw error;
-        }
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
-
-    setProgress({ current: 100, total: 100, message: `Imported ${colName} completed!`, collection: colName });
-
-    if (errorCount > 0) {
-      setErrorLog(prev => [...prev, `${colName}: Completed with ${errorCount} errors`]);
-    }
-
-    setSuccessLog(prev => [...prev, `${colName}: Successfully imported ${insertedCount} documents`]);
-  };
-
-  const importDatabase = async (data: any, targetDbName: string) => {
-    const collections = data.collections;
-    const totalCollections = collections.length;
-
-    setProgress({
-      current: 0,
-      total: 100,
-      message: `Importing database with ${totalCollections} collections...`,
-      collection: '',
-      batch: 0,
-      totalBatches: totalCollections
-    });
-
-    let totalInserted = 0;
-    let totalErrors = 0;
-
-    for (let colIndex = 0; colIndex < collections.length; colIndex++) {
-      const collectionData = collections[colIndex];
-      const colName = collectionData.name;
-      const documents = collectionData.documents || collectionData.docs || [];
-
-      setProgress({
-        current: (colIndex / totalCollections) * 100,
-        total: 100,
-        message: `Importing collection ${colIndex + 1}/${totalCollections}: ${colName}`,
-        collection: colName,
-        batch: colIndex + 1,
-        totalBatches: totalCollections
-      });
-
-      try {
-        await importSingleCollection(documents, targetDbName, colName);
-        totalInserted += documents.length;
-      } catch (error) {
-        totalErrors += documents.length;
-        if (!importOptions.continueOnError) {
-          throw error;
-        }
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-
-    setProgress({ current: 100, total: 100, message: `Database import completed!`, collection: '', batch: totalCollections, totalBatches: totalCollections });
-
-    if (totalErrors > 0) {
-      setErrorLog(prev => [...prev, `Database import completed with ${totalErrors} errors`]);
-    }
-
-    setSuccessLog(prev => [...prev, `Database import: Successfully imported ${totalInserted} documents across ${totalCollections} collections`]);
-  };
-
-  const importMongodump = async (data: any, targetDbName: string) => {
-    // Mongodump format can vary, but typically it's an object with collection names as keys
-    const collections: { name: string; documents: any[] }[] = [];
-
-    for (const key in data) {
-      if (Array.isArray(data[key])) {
-        collections.push({ name: key, documents: data[key] });
-      } else if (typeof data[key] === 'object' && data[key] !== null) {
-        // Check if it has a documents array
-        if (Array.isArray(data[key].documents)) {
-          collections.push({ name: key, documents: data[key].documents });
-        }
-      }
-    }
-
-    if (collections.length === 0) {
-      throw new Error('No collections found in mongodump format');
-    }
-
-    const totalCollections = collections.length;
-
-    setProgress({
-      current: 0,
-      total: 100,
-      message: `Importing mongodump with ${totalCollections} collections...`,
-      collection: '',
-      batch: 0,
-      totalBatches: totalCollections
-    });
-
-    let totalInserted = 0;
-    let totalErrors = 0;
-
-    for (let colIndex = 0; colIndex < collections.length; colIndex++) {
-      const collectionData = collections[colIndex];
-      const colName = collectionData.name;
-      const documents = collectionData.documents;
-
-      setProgress({
-        current: (colIndex / totalCollections) * 100,
-        total: 100,
-        message: `Importing collection ${colIndex + 1}/${totalCollections}: ${colName}`,
-        collection: colName,
-        batch: colIndex + 1,
-        totalBatches: totalCollections
-      });
-
-      try {
-        await importSingleCollection(documents, targetDbName, colName);
-        totalInserted += documents.length;
-      } catch (error) {
-        totalErrors += documents.length;
-        if (!importOptions.continueOnError) {
-          throw error;
-        }
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-
-    setProgress({ current: 100, total: 100, message: `Mongodump import completed!`, collection: '', batch: totalCollections, totalBatches: totalCollections });
-
-    if (totalErrors > 0) {
-      setErrorLog(prev => [...prev, `Mongodump import completed with ${totalErrors} errors`]);
-    }
-
-    setSuccessLog(prev => [...prev, `Mongodump import: Successfully imported ${totalInserted} documents across ${totalCollections} collections`]);
-  };
-
   const allColsSelected = selectedCols.length === collections.length && collections.length > 0;
   const partiallySelected = selectedCols.length > 0 && !allColsSelected;
 
@@ -630,11 +514,47 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
                     className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
                   >
                     <option value="json">JSON (all export types)</option>
+                    <option value="ndjson">NDJSON (collections only)</option>
                     <option value="csv">CSV (collections only)</option>
-                    <option value="bson">BSON (database only)</option>
+                    <option value="bson">BSON dump (mongodump compatible)</option>
                   </select>
                 </div>
 
+                {exportFormat === 'bson' && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Package</label>
+                      <select
+                        value={dumpPackaging}
+                        onChange={e => setDumpPackaging(e.target.value as DumpPackaging)}
+                        className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                      >
+                        <option value="tar">Tar of a dump directory (.bson + .metadata.json per collection)</option>
+                        <option value="archive">Mongodump archive (mongorestore --archive)</option>
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={includeIndexes}
+                        onChange={(e) => setIncludeIndexes(e.target.checked)}
+                        className="w-5 h-5 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-500"
+                      />
+                      <span className="text-slate-300">Include index definitions</span>
+                    </label>
+                  </>
+                )}
+
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={exportGzip}
+                    onChange={(e) => setExportGzip(e.target.checked)}
+                    className="w-5 h-5 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-500"
+                  />
+                  <span className="text-slate-300">Compress with gzip (.gz)</span>
+                </label>
+
                 <div className="flex gap-3 pt-2">
                   <button
                     onClick={handleExportDatabase}
@@ -687,7 +607,7 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
               <Upload className="w-5 h-5 text-emerald-400" />
               Import Type
             </h2>
-            <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-4 md:grid-cols-4">
               <button
                 onClick={() => setImportMode('collection')}
                 className={`p-4 rounded-lg border-2 transition-all ${importMode === 'collection'
@@ -699,6 +619,17 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
                 <div className="font-bold text-slate-200">Single Collection</div>
                 <div className="text-xs text-slate-500 mt-1">Import one collection</div>
               </button>
+              <button
+                onClick={() => setImportMode('csv')}
+                className={`p-4 rounded-lg border-2 transition-all ${importMode === 'csv'
+                  ? 'border-emerald-500 bg-emerald-500/10'
+                  : 'border-slate-700 hover:border-slate-600'
+                  }`}
+              >
+                <FileSpreadsheet className="w-6 h-6 mx-auto mb-2 text-emerald-400" />
+                <div className="font-bold text-slate-200">CSV / TSV</div>
+                <div className="text-xs text-slate-500 mt-1">Map columns to fields</div>
+              </button>
               <button
                 onClick={() => setImportMode('database')}
                 className={`p-4 rounded-lg border-2 transition-all ${importMode === 'database'
@@ -719,7 +650,7 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
               >
                 <FileText className="w-6 h-6 mx-auto mb-2 text-emerald-400" />
                 <div className="font-bold text-slate-200">Mongodump</div>
-                <div className="text-xs text-slate-500 mt-1">Import mongodump JSON</div>
+                <div className="text-xs text-slate-500 mt-1">Restore a BSON dump or archive</div>
               </button>
             </div>
           </div>
@@ -744,7 +675,7 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
                   ))}
                 </select>
               </div>
-              {importMode === 'collection' && (
+              {(importMode === 'collection' || importMode === 'csv') && (
                 <div>
                   <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Target Collection</label>
                   <input
@@ -790,6 +721,17 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
                   className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
                 />
               </div>
+              <div className="md:col-span-2">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={importOptions.ordered}
+                    onChange={(e) => setImportOptions(prev => ({ ...prev, ordered: e.target.checked }))}
+                    className="w-5 h-5 rounded border-slate-700 bg-slate-950 text-emerald-500 focus:ring-emerald-500"
+                  />
+                  <span className="text-slate-300">Ordered inserts (keep file order; each batch stops at its first failing document)</span>
+                </label>
+              </div>
               <div className="md:col-span-2">
                 <label className="flex items-center gap-3 cursor-pointer">
                   <input
@@ -814,7 +756,9 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".json"
+                accept={importMode === 'csv'
+                  ? '.csv,.tsv,.txt'
+                  : importMode === 'mongodump' ? '.tar,.tgz,.zip,.archive,.gz,.json' : '.json,.ndjson,.jsonl,.gz'}
                 onChange={(e) => {
                   const file = e.target.files?.[0];
                   handleFileSelect(file);
@@ -828,9 +772,10 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
                 <div>
                   <p className="text-slate-300 font-medium">Drop your file here or click to browse</p>
                   <p className="text-slate-500 text-sm mt-1">
-                    {importMode === 'collection' && 'Format: JSON array of documents'}
+                    {importMode === 'collection' && 'Format: JSON array of documents or NDJSON (optionally gzipped)'}
+                    {importMode === 'csv' && 'Format: CSV or TSV, with or without a header row'}
                     {importMode === 'database' && 'Format: Database dump { database: string, collections: [...] }'}
-                    {importMode === 'mongodump' && 'Format: Mongodump JSON (collection names as keys)'}
+                    {importMode === 'mongodump' && 'Format: tar or zip of a mongodump directory, mongodump --archive file (optionally gzipped), or JSON with collection names as keys'}
                   </p>
                 </div>
                 <button
@@ -865,13 +810,21 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
                 </div>
               </div>
             )}
+
+            {/* CSV Column Mapping */}
+            {importMode === 'csv' && selectedFile && (
+              <div className="mt-4">
+                <h4 className="text-sm font-semibold text-slate-300 mb-3">Column Mapping</h4>
+                <CsvImportMapper file={selectedFile} onChange={setCsvOptions} />
+              </div>
+            )}
           </div>
 
           {/* Import Button */}
           <div className="flex gap-3">
             <button
               onClick={handleImport}
-              disabled={importing || !selectedFile || !importTargetDb || (importMode === 'collection' && !importOptions.targetCol)}
+              disabled={importing || !selectedFile || !importTargetDb || ((importMode === 'collection' || importMode === 'csv') && !importOptions.targetCol)}
               className="flex-1 px-6 py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-lg disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
             >
               {importing ? (
@@ -882,7 +835,7 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
               ) : (
                 <>
                   <Download className="w-5 h-5" />
-                    Import {importMode === 'collection' ? 'Collection' : importMode === 'database' ? 'Database' : 'Mongodump'}
+                    Import {importMode === 'collection' ? 'Collection' : importMode === 'csv' ? 'CSV' : importMode === 'database' ? 'Database' : 'Mongodump'}
                 </>
               )}
             </button>
@@ -905,8 +858,9 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
                 <span className="text-emerald-400">•</span>
                 <span>
                   {importMode === 'collection' && 'Single collection import - inserts documents into the specified collection'}
+                  {importMode === 'csv' && 'CSV / TSV import - each row becomes a document built from the column mapping below the file'}
                   {importMode === 'database' && 'Database dump - imports all collections from a database backup'}
-                  {importMode === 'mongodump' && 'Mongodump - imports from mongodump JSON format'}
+                  {importMode === 'mongodump' && 'Mongodump - restores collections with their options and indexes into the target database'}
                 </span>
               </li>
               <li className="flex items-start gap-2">
@@ -915,7 +869,7 @@ const ImportExport: React.FC<ImportExportProps> = ({ onBack }) => {
               </li>
               <li className="flex items-start gap-2">
                 <span className="text-emerald-400">•</span>
-                <span>Large imports are processed in batches with live progress updates</span>
+                <span>Files are streamed to the server and inserted in batches with live progress updates, so large dumps are never loaded into memory</span>
               </li>
               <li className="flex items-start gap-2">
                 <span className="text-emerald-400">•</span>
@@ -0,0 +1,498 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { openSession, closeSession, getSessionDatabases, startMigration, waitForJob, cancelJob } from '../services/api';
+import { loadEncryptedConnections } from '../services/encryption';
+import { loadSavedMigration, saveMigration, clearSavedMigration, isResumable } from '../services/migration';
+import { parseJsonOption } from '../services/ejson';
+import { Icons } from '../components/Icon';
+import { Database, JobInfo, MigrationConflictPolicy, MigrationItem, MigrationLogEntry, SavedConnection, SavedMigration } from '../types';
+
+interface MigrationProps {
+  onBack: () => void;
+}
+
+type Step = 'connections' | 'collections' | 'run';
+
+// Target name and filter of a selected collection, keyed by "db.collection"
+interface Selection {
+  toCollection: string;
+  filter: string;
+}
+
+const CONFLICT_POLICIES: { value: MigrationConflictPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep documents whose _id already exists in the target' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace them with the source document' },
+  { value: 'fail', label: 'Fail', description: 'Stop the migration at the first existing _id' }
+];
+
+const STATUS_STYLES: Record<MigrationLogEntry['status'], string> = {
+  pending: 'bg-slate-500/20 text-slate-300',
+  running: 'bg-sky-500/20 text-sky-300',
+  completed: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300'
+};
+
+const isUserCollection = (name: string) => !name.startsWith('system.');
+
+const Migration: React.FC<MigrationProps> = ({ onBack }) => {
+  const [connections, setConnections] = useState<SavedConnection[]>([]);
+  const [sourceName, setSourceName] = useState('');
+  const [targetName, setTargetName] = useState('');
+  const [sessions, setSessions] = useState<{ source: string; target: string } | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [step, setStep] = useState<Step>('connections');
+  const [databases, setDatabases] = useState<Database[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [targetDbs, setTargetDbs] = useState<Record<string, string>>({});
+  const [selection, setSelection] = useState<Record<string, Selection>>({});
+  const [conflict, setConflict] = useState<MigrationConflictPolicy>('fail');
+  const [includeIndexes, setIncludeIndexes] = useState(true);
+  const [saved, setSaved] = useState<SavedMigration | null>(null);
+  const [job, setJob] = useState<JobInfo | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Closed on unmount unless a migration still uses them
+  const sessionsRef = useRef(sessions);
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    try {
+      setConnections(loadEncryptedConnections());
+    } catch (e) {
+      console.error('Failed to load encrypted connections', e);
+    }
+    setSaved(loadSavedMigration());
+  }, []);
+
+  useEffect(() => {
+    sessionsRef.current = sessions;
+  }, [sessions]);
+
+  useEffect(() => () => {
+    const open = sessionsRef.current;
+    if (open && !runningRef.current) {
+      closeSession(open.source).catch(() => {});
+      closeSession(open.target).catch(() => {});
+    }
+  }, []);
+
+  const handleConnect = async (resume?: SavedMigration) => {
+    const source = connections.find(c => c.name === (resume?.source ?? sourceName));
+    const target = connections.find(c => c.name === (resume?.target ?? targetName));
+    if (!source || !target) {
+      setError(resume ? 'The saved connections of this migration no longer exist' : 'Choose a source and a target connection');
+      return;
+    }
+    setConnecting(true);
+    setError(null);
+    try {
+      if (sessions) {
+        await closeSession(sessions.source).catch(() => {});
+        await closeSession(sessions.target).catch(() => {});
+      }
+      const sourceSession = await openSession(source.config);
+      const targetSession = await openSession(target.config).catch(async err => {
+        await closeSession(sourceSession).catch(() => {});
+        throw err;
+      });
+      setSessions({ source: sourceSession, target: targetSession });
+      setSourceName(source.name);
+      setTargetName(target.name);
+      if (resume) {
+        setConflict(resume.conflict);
+        setIncludeIndexes(resume.includeIndexes);
+        setStep('run');
+      } else {
+        const list = await getSessionDatabases(sourceSession);
+        setDatabases(list.filter(db => !['admin', 'local', 'config'].includes(db.name)));
+        setStep('collections');
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const toggleCollection = (dbName: string, colName: string) => {
+    const ns = `${dbName}.${colName}`;
+    setSelection(prev => {
+      const next = { ...prev };
+      if (next[ns]) delete next[ns];
+      else next[ns] = { toCollection: colName, filter: '' };
+      return next;
+    });
+  };
+
+  const toggleDatabase = (db: Database) => {
+    const names = db.collections.map(c => c.name).filter(isUserCollection);
+    const allSelected = names.every(name => selection[`${db.name}.${name}`]);
+    setSelection(prev => {
+      const next = { ...prev };
+      for (const name of names) {
+        const ns = `${db.name}.${name}`;
+        if (allSelected) delete next[ns];
+        else if (!next[ns]) next[ns] = { toCollection: name, filter: '' };
+      }
+      return next;
+    });
+  };
+
+  const updateSelection = (ns: string, changes: Partial<Selection>) => {
+    setSelection(prev => ({ ...prev, [ns]: { ...prev[ns], ...changes } }));
+  };
+
+  const buildItems = (): MigrationItem[] =>
+    databases.flatMap(db => db.collections
+      .filter(c => selection[`${db.name}.${c.name}`])
+      .map(c => {
+        const { toCollection, filter } = selection[`${db.name}.${c.name}`];
+        const parsedFilter = parseJsonOption(`The filter of ${db.name}.${c.name}`, filter);
+        return {
+          db: db.name,
+          collection: c.name,
+          toDb: targetDbs[db.name]?.trim() || db.name,
+          toCollection: toCollection.trim() || c.name,
+          filter: parsedFilter
+        };
+      }));
+
+  const run = async (start: { items?: MigrationItem[]; log?: MigrationLogEntry[] }) => {
+    if (!sessions) return;
+    setError(null);
+    setStep('run');
+    runningRef.current = true;
+    const remember = (info: JobInfo) => {
+      setJob(info);
+      const migration = { source: sourceName, target: targetName, conflict, includeIndexes, log: info.progress.log, updatedAt: new Date().toISOString() };
+      saveMigration(migration);
+      setSaved(migration);
+    };
+    try {
+      const id = await startMigration({ sourceSession: sessions.source, targetSession: sessions.target, conflict, includeIndexes, ...start });
+      setJobId(id);
+      await waitForJob(id, remember);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      runningRef.current = false;
+      setJobId(null);
+    }
+  };
+
+  const handleStart = () => {
+    let items: MigrationItem[];
+    try {
+      items = buildItems();
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+    if (items.length === 0) {
+      setError('Choose at least one collection');
+      return;
+    }
+    const policy = CONFLICT_POLICIES.find(p => p.value === conflict)!.label.toLowerCase();
+    if (!confirm(`Copy ${items.length} collection${items.length !== 1 ? 's' : ''} from "${sourceName}" to "${targetName}"? Existing documents are handled with the "${policy}" policy.`)) return;
+    run({ items });
+  };
+
+  const handleResume = () => {
+    if (!saved) return;
+    run({ log: saved.log });
+  };
+
+  const handleStop = () => {
+    if (jobId) cancelJob(jobId).catch(err => alert('Failed to stop the migration: ' + (err as Error).message));
+  };
+
+  const handleDiscard = () => {
+    if (!confirm('Forget the log of the last migration? It can no longer be resumed.')) return;
+    clearSavedMigration();
+    setSaved(null);
+    setJob(null);
+  };
+
+  const log: MigrationLogEntry[] = job?.progress.log ?? saved?.log ?? [];
+  const selectedCount = Object.keys(selection).length;
+  const running = jobId !== null;
+
+  return (
+    <div className="p-4 sm:p-8 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-100 flex items-center gap-3">
+            <Icons.Migration className="text-emerald-500" />
+            Migration
+          </h1>
+          <p className="text-slate-400 mt-1">Copy collections between two saved connections, server to server</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white text-sm font-medium flex items-center gap-2"
+        >
+          <Icons.ChevronRight className="w-4 h-4 rotate-180" />
+          Back
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+      )}
+
+      {step === 'connections' && (
+        <div className="space-y-4">
+          {isResumable(saved) && (
+            <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-amber-300">
+                The migration from "{saved!.source}" to "{saved!.target}" did not finish
+                ({saved!.log.filter(entry => entry.status === 'completed').length} of {saved!.log.length} collections copied).
+              </p>
+              <div className="flex gap-2">
+                <button onClick={handleDiscard} className="px-3 py-2 text-sm text-slate-400 hover:text-white">Discard</button>
+                <button
+                  onClick={() => handleConnect(saved!)}
+                  disabled={connecting}
+                  className="px-3 py-2 bg-amber-500 hover:bg-amber-400 text-slate-900 text-sm font-bold rounded-lg disabled:opacity-50"
+                >
+                  Reconnect and Review
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-6 space-y-5">
+            {connections.length < 2 && (
+              <p className="text-sm text-slate-400">Save at least two connections on the connection page to migrate between them.</p>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Source</label>
+                <select value={sourceName} onChange={e => setSourceName(e.target.value)} className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none">
+                  <option value="">Choose a connection</option>
+                  {connections.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Target</label>
+                <select value={targetName} onChange={e => setTargetName(e.target.value)} className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none">
+                  <option value="">Choose a connection</option>
+                  {connections.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={() => handleConnect()}
+                disabled={connecting || !sourceName || !targetName}
+                className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {connecting ? 'Connecting...' : 'Connect'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 'collections' && (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-400">
+            From <span className="text-slate-200">{sourceName}</span> to <span className="text-slate-200">{targetName}</span>.
+            Choose the collections to copy; target names and filters are optional.
+          </p>
+
+          <div className="bg-slate-800 rounded-lg border border-slate-700 divide-y divide-slate-700">
+            {databases.length === 0 && <div className="p-6 text-center text-slate-500">The source has no user databases.</div>}
+            {databases.map(db => {
+              const names = db.collections.map(c => c.name).filter(isUserCollection);
+              const count = names.filter(name => selection[`${db.name}.${name}`]).length;
+              return (
+                <div key={db.name}>
+                  <div className="flex flex-wrap items-center gap-3 px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={count > 0 && count === names.length}
+                      ref={el => {
+                        if (el) el.indeterminate = count > 0 && count < names.length;
+                      }}
+                      onChange={() => toggleDatabase(db)}
+                      className="w-4 h-4"
+                    />
+                    <button onClick={() => setExpanded(expanded === db.name ? null : db.name)} className="flex items-center gap-2 text-slate-200 font-medium">
+                      <Icons.ChevronRight className={`w-4 h-4 text-slate-500 transition-transform ${expanded === db.name ? 'rotate-90' : ''}`} />
+                      {db.name}
+                    </button>
+                    <span className="text-xs text-slate-500">{count} of {names.length} selected</span>
+                    <label className="ml-auto flex items-center gap-2 text-xs text-slate-500">
+                      Target database
+                      <input
+                        value={targetDbs[db.name] ?? db.name}
+                        onChange={e => setTargetDbs({ ...targetDbs, [db.name]: e.target.value })}
+                        className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                      />
+                    </label>
+                  </div>
+                  {expanded === db.name && (
+                    <div className="px-4 pb-3 space-y-2">
+                      {names.map(name => {
+                        const ns = `${db.name}.${name}`;
+                        const selected = selection[ns];
+                        return (
+                          <div key={ns} className="flex flex-wrap items-center gap-3 pl-7">
+                            <label className="flex items-center gap-2 w-56 text-sm text-slate-300 cursor-pointer truncate">
+                              <input type="checkbox" checked={!!selected} onChange={() => toggleCollection(db.name, name)} className="w-4 h-4" />
+                              {name}
+                            </label>
+                            {selected && (
+                              <>
+                                <input
+                                  value={selected.toCollection}
+                                  onChange={e => updateSelection(ns, { toCollection: e.target.value })}
+                                  placeholder="Target collection"
+                                  title="Target collection"
+                                  className="w-48 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                                />
+                                <input
+                                  value={selected.filter}
+                                  onChange={e => updateSelection(ns, { filter: e.target.value })}
+                                  placeholder='Filter, e.g. { "status": "active" }'
+                                  className="flex-1 min-w-[200px] bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+                                />
+                              </>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Existing Documents</label>
+              <div className="grid gap-2 sm:grid-cols-3">
+                {CONFLICT_POLICIES.map(option => (
+                  <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                    <input type="radio" name="conflict-policy" checked={conflict === option.value} onChange={() => setConflict(option.value)} className="mt-1" />
+                    <div>
+                      <div className="text-sm text-slate-200">{option.label}</div>
+                      <div className="text-xs text-slate-500">{option.description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={includeIndexes} onChange={e => setIncludeIndexes(e.target.checked)} className="w-4 h-4" />
+              Copy indexes
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setStep('connections')} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Back</button>
+            <button
+              onClick={handleStart}
+              disabled={selectedCount === 0}
+              className="px-6 py-2 bg-emerald-500 text-slate-900 font-bold rounded-lg hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Migrate {selectedCount} Collection{selectedCount !== 1 ? 's' : ''}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'run' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-slate-400">
+              From <span className="text-slate-200">{sourceName}</span> to <span className="text-slate-200">{targetName}</span>
+              {job && <>, {job.status}</>}
+            </p>
+            <div className="flex gap-2">
+              {running ? (
+                <button onClick={handleStop} className="px-3 py-2 bg-red-500/10 text-red-400 hover:bg-red-500/20 text-sm rounded-lg">
+                  Stop
+                </button>
+              ) : (
+                <>
+                  {isResumable(saved) && (
+                    <button
+                      onClick={handleResume}
+                      className="px-3 py-2 bg-emerald-500 hover:bg-emerald-400 text-slate-900 text-sm font-bold rounded-lg flex items-center gap-2"
+                    >
+                      <Icons.Play className="w-4 h-4" />
+                      Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setStep('connections')}
+                    className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg"
+                  >
+                    New Migration
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {!running && isResumable(saved) && (
+            <div className="grid gap-2 sm:grid-cols-3">
+              {CONFLICT_POLICIES.map(option => (
+                <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                  <input type="radio" name="resume-conflict-policy" checked={conflict === option.value} onChange={() => setConflict(option.value)} className="mt-1" />
+                  <div>
+                    <div className="text-sm text-slate-200">{option.label}</div>
+                    <div className="text-xs text-slate-500">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm text-slate-400 min-w-[700px]">
+                <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Source</th>
+                    <th className="px-4 py-3 font-medium">Target</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium text-right">Copied</th>
+                    <th className="px-4 py-3 font-medium text-right">Skipped</th>
+                    <th className="px-4 py-3 font-medium text-right">Indexes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {log.map(entry => (
+                    <tr key={`${entry.db}.${entry.collection}>${entry.toDb}.${entry.toCollection}`} className="align-top">
+                      <td className="px-4 py-3 font-mono text-slate-300">
+                        {entry.db}.{entry.collection}
+                        {entry.filter && <div className="text-xs text-slate-500 truncate max-w-xs">{JSON.stringify(entry.filter)}</div>}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-slate-300">{entry.toDb}.{entry.toCollection}</td>
+                      <td className="px-4 py-3">
+                        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                        {entry.error && <div className="mt-1 text-xs text-red-400">{entry.error}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {entry.copied.toLocaleString()}
+                        {entry.total !== null && <span className="text-slate-500"> / {entry.total.toLocaleString()}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-right">{entry.skipped.toLocaleString()}</td>
+                      <td className="px-4 py-3 text-right">{entry.indexes ?? '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Migration;
@@ -0,0 +1,296 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { getProfilingSettings, getProfileSummary, clearProfile } from '../services/api';
+import { ProfileGroup, ProfileSummary, ProfilingSettings } from '../types';
+import { Icons } from '../components/Icon';
+
+interface ProfilerProps {
+  dbName: string;
+  onBack: () => void;
+  onBackToDatabase: () => void;
+  onExplain: (colName: string, filter: any, sort?: any) => void;
+}
+
+// Operation types as written to system.profile
+const OP_TYPES = ['query', 'getmore', 'insert', 'update', 'remove', 'command'];
+
+// Operations whose filter the explain visualizer (a find explain) can reproduce
+const EXPLAINABLE_OPS = ['query', 'getmore', 'update', 'remove'];
+
+const LEVEL_LABELS: Record<number, string> = {
+  0: 'Off',
+  1: 'Slow operations',
+  2: 'All operations'
+};
+
+const formatMillis = (ms: number): string => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`);
+
+// Documents examined per document returned; a high ratio points at a missing or unselective index
+const examinedRatio = (group: ProfileGroup): number | null => {
+  if (!group.docsExamined) return null;
+  return group.docsExamined / Math.max(group.nreturned, 1);
+};
+
+const formatTimestamp = (value: any): string => {
+  const date = value?.$date ?? value;
+  if (!date) return '';
+  return new Date(typeof date === 'object' ? Number(date.$numberLong) : date).toLocaleString();
+};
+
+const formatShape = (shape: ProfileGroup['shape']): string => {
+  if (shape.pipeline) return JSON.stringify(shape.pipeline);
+  if (!shape.filter && !shape.sort) return '';
+  return JSON.stringify(shape.filter ?? {}) + (shape.sort ? ` sort ${JSON.stringify(shape.sort)}` : '');
+};
+
+const Profiler: React.FC<ProfilerProps> = ({ dbName, onBack, onBackToDatabase, onExplain }) => {
+  const [settings, setSettings] = useState<ProfilingSettings | null>(null);
+  const [summary, setSummary] = useState<ProfileSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [collection, setCollection] = useState('');
+  const [opType, setOpType] = useState('');
+  const [minMillis, setMinMillis] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const fetchProfile = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [current, result] = await Promise.all([
+        getProfilingSettings(dbName),
+        getProfileSummary(dbName, {
+          ns: collection.trim() ? `${dbName}.${collection.trim()}` : undefined,
+          op: opType || undefined,
+          minMillis: Number(minMillis) || undefined
+        })
+      ]);
+      setSettings(current);
+      setSummary(result);
+      setExpanded(null);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [dbName, collection, opType, minMillis]);
+
+  useEffect(() => {
+    fetchProfile();
+    // Filters apply on Refresh / Enter; only the database triggers a reload by itself
+  }, [dbName]);
+
+  const handleClear = async () => {
+    if (!confirm(`Clear all profiler entries of "${dbName}"?`)) return;
+    try {
+      await clearProfile(dbName);
+      fetchProfile();
+    } catch (e) {
+      alert('Clear failed: ' + (e as Error).message);
+    }
+  };
+
+  const groups = summary?.groups || [];
+
+  return (
+    <div className="p-4 sm:p-8 max-w-7xl mx-auto space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <button onClick={onBack} className="hover:text-emerald-400">
+          Dashboard
+        </button>
+        <Icons.ChevronRight className="w-3 h-3" />
+        <button onClick={onBackToDatabase} className="hover:text-emerald-400">
+          {dbName}
+        </button>
+        <Icons.ChevronRight className="w-3 h-3" />
+        <span className="text-slate-100 font-medium">Profiler</span>
+      </div>
+
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-100 flex items-center gap-3">
+            <Icons.Profiler className="text-emerald-500" />
+            Slow Queries
+          </h1>
+          <p className="text-slate-400 mt-1">
+            {settings ? (
+              <>
+                Profiling: <span className={settings.level ? 'text-emerald-400' : 'text-amber-400'}>{LEVEL_LABELS[settings.level]}</span>
+                {' '}· slowms {settings.slowms} · sample rate {settings.sampleRate}
+              </>
+            ) : 'Operations recorded in system.profile, grouped by query shape'}
+          </p>
+        </div>
+        <button
+          onClick={handleClear}
+          className="px-4 py-2 rounded-md bg-red-500/10 text-red-400 hover:bg-red-500/20 text-sm font-medium flex items-center gap-2 self-start"
+        >
+          <Icons.Trash2 className="w-4 h-4" />
+          Clear Profile
+        </button>
+      </div>
+
+      {settings?.level === 0 && (
+        <div className="flex items-center gap-2 text-sm text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2">
+          <Icons.Warning className="w-4 h-4 shrink-0" />
+          Profiling is off for this database, so no new operations are recorded. Turn it on from the database page.
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3 bg-slate-800/50 rounded-xl border border-slate-700 p-4">
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Collection</label>
+          <input
+            type="text"
+            value={collection}
+            onChange={e => setCollection(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && fetchProfile()}
+            placeholder="All collections"
+            className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 text-sm font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Operation</label>
+          <select
+            value={opType}
+            onChange={e => setOpType(e.target.value)}
+            className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            <option value="">All</option>
+            {OP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Slower than</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              value={minMillis}
+              onChange={e => setMinMillis(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && fetchProfile()}
+              placeholder="0"
+              className="w-24 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+            <span className="text-sm text-slate-400">ms</span>
+          </div>
+        </div>
+        <button
+          onClick={fetchProfile}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors text-sm"
+        >
+          <Icons.Refresh className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {summary && (
+        <div className="text-sm text-slate-500">
+          {summary.entries} entr{summary.entries === 1 ? 'y' : 'ies'} in {groups.length} shape{groups.length === 1 ? '' : 's'}
+          {summary.truncated && <span className="text-amber-400"> · only the most recent {summary.entries} entries were read</span>}
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {loading && !summary ? (
+        <div className="flex items-center justify-center py-12 text-slate-500">
+          <Icons.Refresh className="w-6 h-6 animate-spin text-emerald-500 mr-2" />
+          Reading system.profile...
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="text-center py-12 text-slate-500">No profiled operations match the filters.</div>
+      ) : (
+        <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-400 min-w-[1000px]">
+              <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Query Shape</th>
+                  <th className="px-4 py-3 font-medium text-right">Count</th>
+                  <th className="px-4 py-3 font-medium text-right">Total</th>
+                  <th className="px-4 py-3 font-medium text-right">Avg</th>
+                  <th className="px-4 py-3 font-medium text-right">Max</th>
+                  <th className="px-4 py-3 font-medium text-right">Examined / Returned</th>
+                  <th className="px-4 py-3 font-medium">Plan</th>
+                  <th className="px-4 py-3 text-right w-28">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {groups.map((group, index) => {
+                  const colName = group.ns.startsWith(`${dbName}.`) ? group.ns.slice(dbName.length + 1) : group.ns;
+                  const ratio = examinedRatio(group);
+                  const canExplain = EXPLAINABLE_OPS.includes(group.op) && group.slowest?.filter !== undefined;
+                  const isExpanded = expanded === index;
+                  return (
+                    <React.Fragment key={index}>
+                      <tr className="hover:bg-slate-700/30 align-top">
+                        <td className="px-4 py-3 max-w-md">
+                          <div className="flex items-center gap-2">
+                            <span className="px-2 py-0.5 rounded text-xs font-bold uppercase bg-slate-500/15 text-slate-300">{group.op}</span>
+                            <span className="font-mono text-slate-300 truncate">{colName}</span>
+                          </div>
+                          <div className="mt-1 text-xs font-mono text-slate-500 break-all">{formatShape(group.shape)}</div>
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-slate-300">{group.count}</td>
+                        <td className="px-4 py-3 text-right font-mono text-slate-300 whitespace-nowrap">{formatMillis(group.totalMillis)}</td>
+                        <td className="px-4 py-3 text-right font-mono text-slate-300 whitespace-nowrap">{formatMillis(group.avgMillis)}</td>
+                        <td className="px-4 py-3 text-right font-mono text-slate-300 whitespace-nowrap">{formatMillis(group.maxMillis)}</td>
+                        <td className={`px-4 py-3 text-right font-mono whitespace-nowrap ${ratio !== null && ratio >= 100 ? 'text-red-400' : 'text-slate-300'}`}>
+                          {group.docsExamined.toLocaleString()} / {group.nreturned.toLocaleString()}
+                          {group.keysExamined > 0 && <div className="text-xs text-slate-500">{group.keysExamined.toLocaleString()} keys</div>}
+                        </td>
+                        <td className="px-4 py-3 text-xs font-mono break-all">
+                          {group.planSummaries.length === 0 ? '-' : group.planSummaries.map(plan => (
+                            <div key={plan} className={plan.startsWith('COLLSCAN') ? 'text-red-400' : 'text-slate-300'}>{plan}</div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => setExpanded(isExpanded ? null : index)}
+                              className="text-slate-400 hover:text-emerald-400"
+                              title="Show the slowest entry"
+                            >
+                              <Icons.Code className="w-4 h-4" />
+                            </button>
+                            {canExplain && (
+                              <button
+                                onClick={() => onExplain(colName, group.slowest!.filter, group.slowest!.sort)}
+                                className="px-2 py-0.5 text-xs font-medium rounded bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500 hover:text-slate-900"
+                                title="Explain the slowest query of this shape"
+                              >
+                                Explain
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {isExpanded && group.slowest && (
+                        <tr>
+                          <td colSpan={8} className="px-4 pb-4">
+                            <div className="text-xs text-slate-500 mb-1">
+                              Slowest run: {formatMillis(group.slowest.millis)}
+                              {group.slowest.ts && ` at ${formatTimestamp(group.slowest.ts)}`}
+                            </div>
+                            <pre className="bg-slate-950 border border-slate-700 rounded-lg p-3 text-xs text-slate-300 font-mono whitespace-pre-wrap break-all max-h-80 overflow-auto">
+                              {JSON.stringify(group.slowest.command ?? group.slowest, null, 2)}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Profiler;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { getDatabases } from '../services/api';
+import { Icons } from '../components/Icon';
+import UserManager from '../components/UserManager';
+import RoleManager from '../components/RoleManager';
+
+interface SecurityProps {
+  onBack: () => void;
+}
+
+type SecurityTab = 'users' | 'roles';
+
+const TABS: { id: SecurityTab; label: string }[] = [
+  { id: 'users', label: 'Users' },
+  { id: 'roles', label: 'Roles' }
+];
+
+// Users are usually defined on admin, which listDatabases may leave out for lack of data
+const DEFAULT_DATABASE = 'admin';
+
+const Security: React.FC<SecurityProps> = ({ onBack }) => {
+  const [databases, setDatabases] = useState<string[]>([DEFAULT_DATABASE]);
+  const [dbName, setDbName] = useState(DEFAULT_DATABASE);
+  const [activeTab, setActiveTab] = useState<SecurityTab>('users');
+
+  useEffect(() => {
+    getDatabases()
+      .then(list => {
+        const names = list.map(db => db.name);
+        setDatabases(names.includes(DEFAULT_DATABASE) ? names : [DEFAULT_DATABASE, ...names]);
+      })
+      .catch(console.error);
+  }, []);
+
+  return (
+    <div className="p-4 sm:p-8 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-100 flex items-center gap-3">
+            <Icons.Security className="text-emerald-500" />
+            Security
+          </h1>
+          <p className="text-slate-400 mt-1">Users and roles defined on a database</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white text-sm font-medium flex items-center gap-2"
+        >
+          <Icons.ChevronRight className="w-4 h-4 rotate-180" />
+          Back
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-4 border-b border-slate-800">
+        <div className="flex gap-1">
+          {TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 text-sm font-medium -mb-px border-b-2 transition-colors ${activeTab === tab.id ? 'border-emerald-500 text-emerald-400' : 'border-transparent text-slate-500 hover:text-slate-300'}`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-400 pb-2">
+          Database
+          <select
+            value={dbName}
+            onChange={e => setDbName(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            {databases.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {activeTab === 'users' ? <UserManager key={dbName} dbName={dbName} /> : <RoleManager key={dbName} dbName={dbName} />}
+    </div>
+  );
+};
+
+export default Security;
@@ -1,9 +1,34 @@
 import express from 'express';
 import { MongoClient, ObjectId } from 'mongodb';
+import { BSON, EJSON } from 'bson';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import multer from 'multer';
+import { randomUUID } from 'crypto';
+import { Readable, Transform, pipeline } from 'stream';
+import { createGzip, createGunzip } from 'zlib';
+import { scanJsonValues, JsonScanError } from './server/jsonStream.js';
+import { parseCsvRows, csvRowToDocument } from './server/csv.js';
+import { parseShellCommand, ShellSyntaxError } from './server/shell.js';
+import { groupProfileEntries } from './server/profile.js';
+import { buildJsonSchema } from './server/validation.js';
+import { readVersionedDocument, writeIfVersion } from './server/documentVersion.js';
+import { afterIdFilter } from './server/migration.js';
+import { createConfirmations } from './server/confirmations.js';
+import {
+    readDump,
+    DumpFormatError,
+    buildMetadata,
+    escapeCollectionName,
+    createCrc64,
+    archivePrelude,
+    archiveNamespaceHeader,
+    ARCHIVE_TERMINATOR,
+    tarHeader,
+    tarPadding,
+    tarFileChunks,
+    TAR_END
+} from './server/dump.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -11,57 +36,134 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const port = 3001;
 
-const upload = multer({ storage: multer.memoryStorage() });
-
 app.use(cors());
 app.use(express.json());
 
-// Connection Cache
-// Key: URI, Value: MongoClient instance
-const clients = {};
+// Sessions
+// The browser sends the connection URI once to /api/connect and gets back an opaque
+// session ID; every later request only carries that ID in the x-session-id header.
+// Key: session ID, Value: { client, lastUsed }
+const sessions = new Map();
+
+const SESSION_IDLE_TIMEOUT_MS = Number(process.env.MONGODECK_SESSION_IDLE_MS) || 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
 
-const getClient = async (uri) => {
-  if (!clients[uri]) {
+const createSession = async (uri) => {
     const client = new MongoClient(uri);
     await client.connect();
-    clients[uri] = client;
-    
+
+    const sessionId = randomUUID();
+    sessions.set(sessionId, { client, lastUsed: Date.now(), confirmations: createConfirmations() });
+
     // Handle disconnects
     client.on('close', () => {
-        delete clients[uri];
+        sessions.delete(sessionId);
     });
-  }
-  return clients[uri];
+    return sessionId;
 };
 
-// Middleware to extract URI and get client
-const withMongo = async (req, res, next) => {
-  const uri = req.headers['x-mongo-uri'];
-  if (!uri) {
-    return res.status(400).json({ error: 'Missing MongoDB URI header' });
-  }
+const closeSession = async (sessionId) => {
+    const session = sessions.get(sessionId);
+    if (!session) return false;
+    sessions.delete(sessionId);
+    await session.client.close().catch(() => {});
+    return true;
+};
+
+// Close clients that have been idle for longer than the timeout
+setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions) {
+        if (now - session.lastUsed > SESSION_IDLE_TIMEOUT_MS) {
+            closeSession(sessionId);
+        }
+    }
+}, SESSION_SWEEP_INTERVAL_MS).unref();
+
+// Middleware to resolve the session and attach its client
+const withMongo = (req, res, next) => {
+    const sessionId = req.headers['x-session-id'];
+    if (!sessionId) {
+        return res.status(401).json({ error: 'Missing session ID header' });
+    }
+
+    const session = sessions.get(sessionId);
+    if (!session) {
+        return res.status(401).json({ error: 'Session expired or not found' });
+    }
 
-  try {
-    const client = await getClient(uri);
-    req.dbClient = client;
+    session.lastUsed = Date.now();
+    req.sessionId = sessionId;
+    req.dbClient = session.client;
     next();
-  } catch (error) {
-    console.error("Connection Error:", error);
-    res.status(500).json({ error: 'Failed to connect to MongoDB instance' });
-  }
 };
 
 const hexIdRegex = /^[0-9a-fA-F]{24}$/;
 
-// Helper to convert string IDs to ObjectId in filters
+// --- Extended JSON ---
+// Everything that carries documents (filters, documents, updates, command results,
+// exports and imports) travels as MongoDB Extended JSON so that ObjectId, Date,
+// Decimal128, Long, Binary, UUID etc. survive the trip through the browser.
+
+// Read documents without promoting Int32/Long/Double to JS numbers so their
+// BSON type is still known when they are serialized.
+const BSON_READ_OPTIONS = { promoteValues: false };
+
+const isBsonValue = (value) => value !== null && typeof value === 'object' && typeof value._bsontype === 'string';
+
+// Relaxed EJSON as defined by the spec collapses Long and integral Double values into
+// plain numbers, which silently changes their type on the way back in. Only values
+// that can be restored unambiguously are relaxed; everything else stays canonical.
+const toRelaxedEJSON = (value) => {
+    if (Array.isArray(value)) return value.map(toRelaxedEJSON);
+    if (value === null || typeof value !== 'object') {
+        return typeof value === 'number' ? EJSON.serialize(value, { relaxed: true }) : value;
+    }
+    if (value instanceof Date) return EJSON.serialize(value, { relaxed: true });
+    if (isBsonValue(value)) {
+        if (value._bsontype === 'Int32') return value.value;
+        if (value._bsontype === 'Double' && Number.isFinite(value.value) && !Number.isInteger(value.value)) {
+            return value.value;
+        }
+        return EJSON.serialize(value, { relaxed: false });
+    }
+
+    const out = {};
+    for (const key of Object.keys(value)) {
+        if (value[key] !== undefined) out[key] = toRelaxedEJSON(value[key]);
+    }
+    return out;
+};
+
+// Convert a value coming from the driver into its EJSON representation
+const toEJSON = (value, mode = 'relaxed') => {
+    return mode === 'canonical' ? EJSON.serialize(value, { relaxed: false }) : toRelaxedEJSON(value);
+};
+
+// Convert an EJSON value coming from the client into BSON values for the driver
+const fromEJSON = (value) => {
+    if (value === null || value === undefined) return value;
+    return EJSON.deserialize(value, { relaxed: false });
+};
+
+const parseEJSON = (text) => EJSON.parse(text, { relaxed: false });
+
+// Clients may ask for canonical output with the x-ejson-mode header
+const getEJSONMode = (req) => req.headers['x-ejson-mode'] === 'canonical' ? 'canonical' : 'relaxed';
+
+const sendEJSON = (req, res, payload) => {
+    res.json(toEJSON(payload, getEJSONMode(req)));
+};
+
+// Helper to deserialize EJSON filters and convert plain 24-hex _id strings to ObjectId
 const normalizeFilter = (filter) => {
     if (!filter) return {};
-    const newFilter = JSON.parse(JSON.stringify(filter));
+    const newFilter = fromEJSON(filter);
     const process = (obj) => {
         for (const key in obj) {
             if (key === '_id' && typeof obj[key] === 'string' && hexIdRegex.test(obj[key])) {
                 obj[key] = new ObjectId(obj[key]);
-            } else if (typeof obj[key] === 'object' && obj[key] !== null) {
+            } else if (typeof obj[key] === 'object' && obj[key] !== null && !isBsonValue(obj[key]) && !(obj[key] instanceof Date)) {
                 process(obj[key]);
             }
         }
@@ -70,12 +172,52 @@ const normalizeFilter = (filter) => {
     return newFilter;
 };
 
+// Scalar BSON values are written the way mongoexport does (ObjectId as hex, dates as
+// ISO strings); nested documents and arrays are written as relaxed EJSON.
+const toCsvCell = (value) => {
+    if (value === null || value === undefined) return '';
+    let text;
+    if (value instanceof Date) {
+        text = value.toISOString();
+    } else if (isBsonValue(value)) {
+        if (value._bsontype === 'ObjectId') text = value.toHexString();
+        else if (['Int32', 'Double', 'Long', 'Decimal128'].includes(value._bsontype)) text = value.toString();
+        else text = JSON.stringify(toEJSON(value));
+    } else if (typeof value === 'object') {
+        text = JSON.stringify(toEJSON(value));
+    } else {
+        text = String(value);
+    }
+    return `"${text.replace(/"/g, '""')}"`;
+};
+
+// Document ids arrive in the URL either as EJSON (e.g. {"$oid":"..."}) or as a bare
+// string; bare 24-hex strings are treated as ObjectIds for backwards compatibility.
+const parseDocumentId = (raw) => {
+    if (hexIdRegex.test(raw)) return new ObjectId(raw);
+    try {
+        return parseEJSON(raw);
+    } catch {
+        return raw;
+    }
+};
+
 // --- API Routes ---
 
 app.post('/api/connect', async (req, res) => {
     const { uri } = req.body;
+    if (!uri) return res.status(400).json({ error: 'Connection URI is required' });
+    try {
+        const sessionId = await createSession(uri);
+        res.json({ success: true, sessionId, idleTimeoutMs: SESSION_IDLE_TIMEOUT_MS });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.post('/api/disconnect', withMongo, async (req, res) => {
     try {
-        await getClient(uri);
+        await closeSession(req.sessionId);
         res.json({ success: true });
     } catch (e) {
         res.status(500).json({ error: e.message });
@@ -140,16 +282,80 @@ app.get('/api/status', withMongo, async (req, res) => {
     }
 });
 
+// One sample of the cumulative serverStatus counters for the metrics charts. Rates are
+// derived on the client from consecutive samples, using the server's own clock.
+app.get('/api/status/metrics', withMongo, async (req, res) => {
+    try {
+        const info = await req.dbClient.db().admin().serverStatus();
+        const num = (value) => Number(value ?? 0);
+        const { opcounters = {}, network = {}, connections = {}, mem = {} } = info;
+        const cache = info.wiredTiger?.cache;
+        const document = info.metrics?.document || {};
+        const queryExecutor = info.metrics?.queryExecutor || {};
+
+        res.json({
+            time: info.localTime instanceof Date ? info.localTime.getTime() : Date.now(),
+            uptime: num(info.uptime),
+            opcounters: {
+                insert: num(opcounters.insert),
+                query: num(opcounters.query),
+                update: num(opcounters.update),
+                delete: num(opcounters.delete),
+                getmore: num(opcounters.getmore),
+                command: num(opcounters.command)
+            },
+            network: {
+                bytesIn: num(network.bytesIn),
+                bytesOut: num(network.bytesOut),
+                numRequests: num(network.numRequests)
+            },
+            connections: {
+                current: num(connections.current),
+                available: num(connections.available),
+                active: num(connections.active)
+            },
+            // Only reported by the WiredTiger storage engine
+            cache: cache ? {
+                usedBytes: num(cache['bytes currently in the cache']),
+                dirtyBytes: num(cache['tracked dirty bytes in the cache']),
+                maxBytes: num(cache['maximum bytes configured'])
+            } : null,
+            document: {
+                inserted: num(document.inserted),
+                returned: num(document.returned),
+                updated: num(document.updated),
+                deleted: num(document.deleted)
+            },
+            queryExecutor: {
+                scanned: num(queryExecutor.scanned),
+                scannedObjects: num(queryExecutor.scannedObjects)
+            },
+            memory: {
+                residentMb: num(mem.resident),
+                virtualMb: num(mem.virtual)
+            }
+        });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 app.get('/api/collections/:dbName', withMongo, async (req, res) => {
     try {
         const db = req.dbClient.db(req.params.dbName);
         const cols = await db.listCollections().toArray();
         const detailedCols = await Promise.all(cols.map(async c => {
+            // Kind of collection for the badges on the database page
+            const kind = c.type === 'view' ? 'view'
+                : c.type === 'timeseries' ? 'timeseries'
+                : c.options?.capped ? 'capped'
+                : c.options?.clusteredIndex ? 'clustered'
+                : 'collection';
             try {
                 const count = await db.collection(c.name).estimatedDocumentCount();
-                return { name: c.name, docs: Array(count).fill(null) };
+                return { name: c.name, kind, docs: Array(count).fill(null) };
             } catch {
-                return { name: c.name, docs: [] };
+                return { name: c.name, kind, docs: [] };
             }
         }));
         res.json(detailedCols);
@@ -158,10 +364,49 @@ app.get('/api/collections/:dbName', withMongo, async (req, res) => {
     }
 });
 
+// createCollection options accepted from the client, named as in the create command
+const CREATE_COLLECTION_OPTION_KEYS = [
+    'capped', 'size', 'max', 'timeseries', 'expireAfterSeconds', 'clusteredIndex', 'collation',
+    'validator', 'validationLevel', 'validationAction', 'changeStreamPreAndPostImages', 'viewOn', 'pipeline'
+];
+
+// Checks option combinations the server would reject with a less helpful message
+const checkCreateCollectionOptions = (options) => {
+    if (options.capped && !(Number(options.size) > 0)) return 'Capped collections need a size in bytes';
+    if (options.timeseries && !options.timeseries.timeField) return 'Time series collections need a timeField';
+    if (options.capped && (options.timeseries || options.clusteredIndex)) return 'Capped collections cannot be time series or clustered';
+    if (options.timeseries && options.clusteredIndex) return 'Time series collections are already clustered by time';
+    if (options.viewOn !== undefined) {
+        const allowed = ['viewOn', 'pipeline', 'collation'];
+        const extra = Object.keys(options).filter(key => !allowed.includes(key));
+        if (extra.length) return `Views do not support ${extra.join(', ')}`;
+        if (!Array.isArray(options.pipeline)) return 'A view pipeline must be an array of stages';
+    }
+    if (options.expireAfterSeconds !== undefined && !options.timeseries && !options.clusteredIndex) {
+        return 'expireAfterSeconds needs a time series or clustered collection';
+    }
+    return null;
+};
+
+// Create a collection or a view: { collectionName, options }
 app.post('/api/collection/:dbName', withMongo, async (req, res) => {
     try {
-        const { collectionName } = req.body;
-        await req.dbClient.db(req.params.dbName).createCollection(collectionName);
+        const { collectionName, options = {} } = req.body;
+        if (!collectionName) return res.status(400).json({ error: 'Collection name is required' });
+
+        const createOptions = {};
+        for (const key of CREATE_COLLECTION_OPTION_KEYS) {
+            if (options[key] !== undefined && options[key] !== null && options[key] !== '') {
+                createOptions[key] = options[key];
+            }
+        }
+        if (createOptions.validator) createOptions.validator = fromEJSON(createOptions.validator);
+        if (createOptions.pipeline) createOptions.pipeline = fromEJSON(createOptions.pipeline);
+        if (createOptions.viewOn && !createOptions.pipeline) createOptions.pipeline = [];
+        const invalid = checkCreateCollectionOptions(createOptions);
+        if (invalid) return res.status(400).json({ error: invalid });
+
+        await req.dbClient.db(req.params.dbName).createCollection(collectionName, createOptions);
         res.json({ success: true });
     } catch (e) {
         res.status(500).json({ error: e.message });
@@ -182,9 +427,56 @@ app.post('/api/documents/:dbName/:colName', withMongo, async (req, res) => {
         const { filter = {}, sort = { _id: -1 }, limit = 20, skip = 0 } = req.body;
         const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
         const safeFilter = normalizeFilter(filter);
-        const docs = await col.find(safeFilter).sort(sort).skip(skip).limit(limit).toArray();
+        const docs = await col.find(safeFilter, BSON_READ_OPTIONS).sort(sort).skip(skip).limit(limit).toArray();
         const total = await col.countDocuments(safeFilter);
-        res.json({ docs, total });
+        sendEJSON(req, res, { docs, total });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Explain a find query with executionStats: { filter, sort, skip, limit }
+app.post('/api/explain/:dbName/:colName', withMongo, async (req, res) => {
+    try {
+        const { filter = {}, sort = { _id: -1 }, limit = 20, skip = 0 } = req.body;
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const explain = await col.find(normalizeFilter(filter)).sort(sort).skip(skip).limit(limit).explain('executionStats');
+        sendEJSON(req, res, explain);
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Server error code of a write rejected by the collection's validator
+const DOCUMENT_VALIDATION_FAILURE = 121;
+
+// A validation failure is the user's to fix, so it comes back as 400 with the server's
+// explanation (errInfo) of which rules the document broke instead of a bare 500
+const sendWriteError = (res, e) => {
+    if (e.code === DOCUMENT_VALIDATION_FAILURE) {
+        return res.status(400).json({ error: 'Document failed validation', validation: toEJSON(e.errInfo ?? null, 'relaxed') });
+    }
+    res.status(500).json({ error: e.message });
+};
+
+// The edited document changed since the editor loaded it: answer with the stored
+// version and its token so the edit can be merged into it or reloaded
+const sendDocumentConflict = (req, res, stored) => {
+    res.status(409).json({
+        error: 'The document was changed by someone else after it was loaded',
+        current: toEJSON(stored.document, getEJSONMode(req)),
+        version: stored.version
+    });
+};
+
+// One document with the version token an edit of it sends back
+app.get('/api/document/:dbName/:colName/:id', withMongo, async (req, res) => {
+    try {
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const raw = await col.findOne({ _id: parseDocumentId(req.params.id) }, { raw: true });
+        if (!raw) return res.status(404).json({ error: 'Document not found; it may have been deleted' });
+        const { document, version } = readVersionedDocument(raw, BSON_READ_OPTIONS);
+        sendEJSON(req, res, { document, version });
     } catch (e) {
         res.status(500).json({ error: e.message });
     }
@@ -194,25 +486,59 @@ app.post('/api/document/:dbName/:colName', withMongo, async (req, res) => {
     try {
         const { doc } = req.body;
         const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
-        const result = await col.insertOne(doc);
-        res.json(result);
+        const result = await col.insertOne(fromEJSON(doc));
+        sendEJSON(req, res, result);
     } catch (e) {
-        res.status(500).json({ error: e.message });
+        sendWriteError(res, e);
     }
 });
 
+// The editor sends the fields it changed as { set, unset } keyed by dotted path, or the
+// whole edited document as { replacement }, which replaceOne writes as is.
+// With `version` (the token GET /api/document returned) the write only applies while the
+// stored document still has that token; otherwise it answers 409 with the current
+// version so the edit can be merged or reloaded instead of overwriting.
 app.put('/api/document/:dbName/:colName/:id', withMongo, async (req, res) => {
     try {
-        const { update } = req.body;
+        const { set = {}, unset = [], replacement, version } = req.body;
         const { id } = req.params;
         const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
-        let queryId = id;
-        if (hexIdRegex.test(id)) queryId = new ObjectId(id);
-        const { _id, ...cleanUpdate } = update;
-        const result = await col.updateOne({ _id: queryId }, { $set: cleanUpdate });
-        res.json(result);
+        const queryId = parseDocumentId(id);
+        if (version !== undefined && typeof version !== 'string') {
+            return res.status(400).json({ error: 'version must be a string' });
+        }
+
+        let write;
+        if (replacement !== undefined) {
+            if (!replacement || typeof replacement !== 'object' || Array.isArray(replacement)) {
+                return res.status(400).json({ error: 'replacement must be a document' });
+            }
+            const { _id, ...cleanReplacement } = fromEJSON(replacement);
+            write = (match) => col.replaceOne(match, cleanReplacement);
+        } else {
+            if (!set || typeof set !== 'object' || Array.isArray(set)) {
+                return res.status(400).json({ error: 'set must be a document of paths and values' });
+            }
+            if (!Array.isArray(unset) || unset.some(path => typeof path !== 'string')) {
+                return res.status(400).json({ error: 'unset must be an array of paths' });
+            }
+            const paths = [...Object.keys(set), ...unset];
+            if (paths.length === 0) return res.status(400).json({ error: 'No changes to save' });
+            if (paths.some(path => path === '_id' || path.startsWith('_id.'))) {
+                return res.status(400).json({ error: 'The _id of a document cannot be changed' });
+            }
+            const update = {};
+            if (Object.keys(set).length > 0) update.$set = fromEJSON(set);
+            if (unset.length > 0) update.$unset = Object.fromEntries(unset.map(path => [path, '']));
+            write = (match) => col.updateOne(match, update);
+        }
+
+        const outcome = await writeIfVersion(col, queryId, version, write, BSON_READ_OPTIONS);
+        if (outcome.status === 'missing') return res.status(404).json({ error: 'Document not found; it may have been deleted' });
+        if (outcome.status === 'conflict') return sendDocumentConflict(req, res, outcome.stored);
+        sendEJSON(req, res, outcome.result);
     } catch (e) {
-        res.status(500).json({ error: e.message });
+        sendWriteError(res, e);
     }
 });
 
@@ -220,15 +546,284 @@ app.delete('/api/document/:dbName/:colName/:id', withMongo, async (req, res) =>
     try {
         const { id } = req.params;
         const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
-        let queryId = id;
-        if (hexIdRegex.test(id)) queryId = new ObjectId(id);
-        await col.deleteOne({ _id: queryId });
+        await col.deleteOne({ _id: parseDocumentId(id) });
         res.json({ success: true });
     } catch (e) {
         res.status(500).json({ error: e.message });
     }
 });
 
+// --- Bulk Document Operations ---
+// Documents are picked by _id (a selection) or by a filter ("select all matching"). The
+// route resolves them first so every requested document gets its own result, then
+// writes them with one unordered bulkWrite.
+
+const BULK_DOCUMENT_ACTIONS = ['delete', 'duplicate', 'update'];
+const BULK_MAX_DOCUMENTS = 10000;
+
+// Canonical EJSON keeps Int32 5 and Double 5.0 apart, like the server does
+const documentIdKey = (id) => EJSON.stringify(id, { relaxed: false });
+
+const isUpdateOperatorDocument = (update) => Array.isArray(update) || (
+    update !== null && typeof update === 'object' && !isBsonValue(update) &&
+    Object.keys(update).length > 0 && Object.keys(update).every(key => key.startsWith('$'))
+);
+
+// { action: 'delete' | 'duplicate' | 'update', ids | filter, update }
+app.post('/api/documents/:dbName/:colName/bulk', withMongo, async (req, res) => {
+    try {
+        const { action, ids, filter, update } = req.body;
+        if (!BULK_DOCUMENT_ACTIONS.includes(action)) {
+            return res.status(400).json({ error: 'Unsupported action. Use "delete", "duplicate" or "update"' });
+        }
+        if (!Array.isArray(ids) && !filter) return res.status(400).json({ error: 'Pass the _ids of the documents or a filter' });
+        if (Array.isArray(ids) && ids.length > BULK_MAX_DOCUMENTS) {
+            return res.status(400).json({ error: `Bulk actions are limited to ${BULK_MAX_DOCUMENTS} documents` });
+        }
+        const updateDoc = action === 'update' ? fromEJSON(update) : null;
+        if (action === 'update' && !isUpdateOperatorDocument(updateDoc)) {
+            return res.status(400).json({ error: 'The update must use update operators, e.g. { "$set": { "status": "archived" } }, or be a pipeline' });
+        }
+
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const requested = Array.isArray(ids) ? fromEJSON(ids) : null;
+        const query = requested ? { _id: { $in: requested } } : normalizeFilter(filter);
+        // Duplicates need whole documents, the other actions only the _id
+        const found = await col.find(query, { ...BSON_READ_OPTIONS, projection: action === 'duplicate' ? undefined : { _id: 1 } })
+            .limit(BULK_MAX_DOCUMENTS + 1)
+            .toArray();
+        if (found.length > BULK_MAX_DOCUMENTS) {
+            return res.status(400).json({ error: `More than ${BULK_MAX_DOCUMENTS} documents match; narrow the filter` });
+        }
+
+        const results = [];
+        if (requested) {
+            const foundKeys = new Set(found.map(doc => documentIdKey(doc._id)));
+            for (const id of requested) {
+                if (!foundKeys.has(documentIdKey(id))) results.push({ _id: id, status: 'missing' });
+            }
+        }
+
+        // Copies get their _id here so each result can name it
+        const insertedIds = found.map(() => (action === 'duplicate' ? new ObjectId() : null));
+        const operations = found.map((doc, i) => {
+            if (action === 'delete') return { deleteOne: { filter: { _id: doc._id } } };
+            if (action === 'update') return { updateOne: { filter: { _id: doc._id }, update: updateDoc } };
+            const { _id, ...fields } = doc;
+            return { insertOne: { document: { _id: insertedIds[i], ...fields } } };
+        });
+
+        const failures = new Map();
+        if (operations.length > 0) {
+            try {
+                await col.bulkWrite(operations, { ordered: false });
+            } catch (e) {
+                if (!Array.isArray(e.writeErrors) || e.writeErrors.length === 0) throw e;
+                for (const writeError of e.writeErrors) {
+                    failures.set(writeError.index, writeError.code === DOCUMENT_VALIDATION_FAILURE ? 'Document failed validation' : writeError.errmsg);
+                }
+            }
+        }
+
+        const succeededStatus = { delete: 'deleted', update: 'updated', duplicate: 'duplicated' }[action];
+        found.forEach((doc, i) => {
+            if (failures.has(i)) {
+                results.push({ _id: doc._id, status: 'failed', error: failures.get(i) });
+            } else {
+                results.push(action === 'duplicate'
+                    ? { _id: doc._id, status: succeededStatus, insertedId: insertedIds[i] }
+                    : { _id: doc._id, status: succeededStatus });
+            }
+        });
+
+        sendEJSON(req, res, {
+            action,
+            results,
+            succeeded: found.length - failures.size,
+            failed: failures.size,
+            missing: results.filter(result => result.status === 'missing').length
+        });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Modify Matching ---
+// updateMany and deleteMany on the documents matching a filter. With dryRun nothing is
+// written: the route counts the matches and returns a sample. For updates the "after"
+// side is computed by the server itself, so it reflects exactly what any operator,
+// pipeline or arrayFilters would do: pipelines run as an aggregation on the sample,
+// operator updates run in a transaction that is always aborted. Standalone servers have
+// no transactions; there the dry run only shows the current documents unless the user
+// opts in to updating copies of the sample in a scratch collection.
+
+const MODIFY_PREVIEW_DEFAULT_SAMPLE = 5;
+const MODIFY_PREVIEW_MAX_SAMPLE = 20;
+
+// Scratch collections of opted-in dry runs live in their own database. Nothing else is
+// stored there; it can be dropped at any time no dry run is in progress.
+const PREVIEW_SCRATCH_DB = 'mongodeck_scratch';
+
+// IndexNotFound ($text) and NoQueryExecutionPlans ($near) when the scratch copy lacks
+// the index such a filter needs
+const INDEX_REQUIRED_ERRORS = new Set([27, 291]);
+
+const previewSampleSize = (value) => Math.max(1, Math.min(Number(value) || MODIFY_PREVIEW_DEFAULT_SAMPLE, MODIFY_PREVIEW_MAX_SAMPLE));
+
+// Transactions need a replica set member or a mongos
+const supportsTransactions = async (client) => {
+    const hello = await client.db('admin').command({ hello: 1 });
+    return hello.setName !== undefined || hello.msg === 'isdbgrid';
+};
+
+// Each helper below returns { after, upserted }: the sample as the update leaves it, and
+// the document an upsert would insert when nothing matches
+
+const previewPipelineUpdate = async (col, pipeline, before) => ({
+    after: await col.aggregate([{ $match: { _id: { $in: before.map(doc => doc._id) } } }, ...pipeline], BSON_READ_OPTIONS).toArray(),
+    upserted: null
+});
+
+const previewInAbortedTransaction = async (client, col, filter, update, options, before) => {
+    const session = client.startSession();
+    try {
+        session.startTransaction();
+        const readOptions = { ...BSON_READ_OPTIONS, session };
+        if (before.length > 0) {
+            // Only the sample is updated, however many documents match
+            const ids = before.map(doc => doc._id);
+            await col.updateMany({ $and: [filter, { _id: { $in: ids } }] }, update, { ...options, session });
+            return { after: await col.find({ _id: { $in: ids } }, readOptions).toArray(), upserted: null };
+        }
+        if (!options.upsert) return { after: [], upserted: null };
+        const result = await col.updateOne(filter, update, { ...options, session });
+        return {
+            after: [],
+            upserted: result.upsertedId === null ? null : await col.findOne({ _id: result.upsertedId }, readOptions)
+        };
+    } finally {
+        if (session.inTransaction()) await session.abortTransaction().catch(() => {});
+        await session.endSession();
+    }
+};
+
+const previewInScratchCollection = async (client, db, col, filter, update, options, before) => {
+    // The source's collation, validator and indexes make matching, string comparisons,
+    // validation and unique key failures come out as they would on the real collection
+    const info = await db.listCollections({ name: col.collectionName }).next();
+    const scratch = await client.db(PREVIEW_SCRATCH_DB).createCollection(
+        `preview_${randomUUID()}`,
+        pickOptions(info?.options ?? {}, ['collation', ...COPY_VALIDATOR_KEYS])
+    );
+    try {
+        await copyIndexes(col, scratch);
+        let upserted = null;
+        if (before.length > 0) {
+            // The sample is stored already; documents from before the validator may not pass it
+            await scratch.insertMany(before.map(doc => ({ ...doc })), { bypassDocumentValidation: true });
+            // If a $text or $near filter still finds no index, matching by _id previews
+            // everything but the positional $ operator
+            await scratch.updateMany(filter, update, options).catch(e => {
+                if (!INDEX_REQUIRED_ERRORS.has(e.code)) throw e;
+                return scratch.updateMany({ _id: { $in: before.map(doc => doc._id) } }, update, options);
+            });
+        } else if (options.upsert) {
+            // What the upsert would insert: the update applied to the filter's equality fields
+            const result = await scratch.updateOne(filter, update, options);
+            if (result.upsertedId !== null) upserted = await scratch.findOne({ _id: result.upsertedId }, BSON_READ_OPTIONS);
+        }
+        return { after: await scratch.find({}, BSON_READ_OPTIONS).toArray(), upserted };
+    } finally {
+        await scratch.drop().catch(() => {});
+    }
+};
+
+// `simulatedWith` names how the after side was computed, or is null when it was not
+const previewUpdate = async (client, db, col, filter, update, options, sampleSize, scratch) => {
+    const matched = await col.countDocuments(filter);
+    const before = await col.find(filter, BSON_READ_OPTIONS).limit(sampleSize).toArray();
+
+    let simulatedWith = null;
+    let simulated = null;
+    if (Array.isArray(update) && (before.length > 0 || !options.upsert)) {
+        simulatedWith = 'pipeline';
+        simulated = await previewPipelineUpdate(col, update, before);
+    } else if (scratch) {
+        simulatedWith = 'scratch';
+        simulated = await previewInScratchCollection(client, db, col, filter, update, options, before);
+    } else if (await supportsTransactions(client)) {
+        simulatedWith = 'transaction';
+        simulated = await previewInAbortedTransaction(client, col, filter, update, options, before);
+    }
+
+    const afterById = new Map((simulated?.after ?? []).map(doc => [documentIdKey(doc._id), doc]));
+    return {
+        matched,
+        sample: before.map(doc => ({ before: doc, after: afterById.get(documentIdKey(doc._id)) ?? null })),
+        upserted: simulated?.upserted ?? null,
+        simulatedWith
+    };
+};
+
+// { filter, update, upsert, arrayFilters, dryRun, scratch, sampleSize }
+app.post('/api/documents/:dbName/:colName/update-many', withMongo, async (req, res) => {
+    try {
+        const { filter, update, upsert = false, arrayFilters, dryRun = false, scratch = false, sampleSize } = req.body;
+        const updateDoc = fromEJSON(update);
+        if (!isUpdateOperatorDocument(updateDoc)) {
+            return res.status(400).json({ error: 'The update must use update operators, e.g. { "$set": { "status": "archived" } }, or be a pipeline' });
+        }
+        if (arrayFilters !== undefined && arrayFilters !== null && !Array.isArray(arrayFilters)) {
+            return res.status(400).json({ error: 'arrayFilters must be an array of filter documents' });
+        }
+        if (Array.isArray(updateDoc) && Array.isArray(arrayFilters) && arrayFilters.length > 0) {
+            return res.status(400).json({ error: 'arrayFilters cannot be used with a pipeline update' });
+        }
+
+        const db = req.dbClient.db(req.params.dbName);
+        const col = db.collection(req.params.colName);
+        const query = normalizeFilter(filter);
+        const options = { upsert: !!upsert };
+        if (Array.isArray(arrayFilters) && arrayFilters.length > 0) options.arrayFilters = fromEJSON(arrayFilters);
+
+        const start = Date.now();
+        if (dryRun) {
+            const preview = await previewUpdate(req.dbClient, db, col, query, updateDoc, options, previewSampleSize(sampleSize), !!scratch);
+            return sendEJSON(req, res, { ...preview, executionTime: Date.now() - start });
+        }
+        const result = await col.updateMany(query, updateDoc, options);
+        sendEJSON(req, res, {
+            matchedCount: result.matchedCount,
+            modifiedCount: result.modifiedCount,
+            upsertedCount: result.upsertedCount,
+            upsertedId: result.upsertedId,
+            executionTime: Date.now() - start
+        });
+    } catch (e) {
+        sendWriteError(res, e);
+    }
+});
+
+// { filter, dryRun, sampleSize }
+app.post('/api/documents/:dbName/:colName/delete-many', withMongo, async (req, res) => {
+    try {
+        const { filter, dryRun = false, sampleSize } = req.body;
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const query = normalizeFilter(filter);
+
+        const start = Date.now();
+        if (dryRun) {
+            const matched = await col.countDocuments(query);
+            const sample = await col.find(query, BSON_READ_OPTIONS).limit(previewSampleSize(sampleSize)).toArray();
+            return sendEJSON(req, res, { matched, sample, executionTime: Date.now() - start });
+        }
+        const result = await col.deleteMany(query);
+        sendEJSON(req, res, { deletedCount: result.deletedCount, executionTime: Date.now() - start });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // Drop a collection
 app.delete('/api/collection/:dbName/:colName', withMongo, async (req, res) => {
     try {
@@ -256,6 +851,26 @@ app.post('/api/collection/:dbName/:colName/truncate', withMongo, async (req, res
     }
 });
 
+// Rename a collection, possibly into another database: { toDb, toCollection, dropTarget }
+app.post('/api/collection/:dbName/:colName/rename', withMongo, async (req, res) => {
+    try {
+        const { dbName, colName } = req.params;
+        const { toDb = dbName, toCollection, dropTarget = false } = req.body;
+        if (!toCollection) return res.status(400).json({ error: 'New collection name is required' });
+        if (toDb === dbName && toCollection === colName) return res.status(400).json({ error: 'The new name is the current name' });
+
+        // The driver's rename stays within one database; the admin command does not
+        await req.dbClient.db('admin').command({
+            renameCollection: `${dbName}.${colName}`,
+            to: `${toDb}.${toCollection}`,
+            dropTarget: !!dropTarget
+        });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // Bulk action on collections: { action: 'drop'|'truncate', collections: string[] }
 app.post('/api/collections/:dbName/bulk', withMongo, async (req, res) => {
     try {
@@ -289,329 +904,2098 @@ app.post('/api/collections/:dbName/bulk', withMongo, async (req, res) => {
     }
 });
 
-// Execute MongoDB command
-app.post('/api/command', withMongo, async (req, res) => {
-    try {
-        const { command } = req.body;
-        if (!command) return res.status(400).json({ error: 'Command is required' });
+// --- Indexes ---
 
-        const startTime = Date.now();
-        const db = req.dbClient.db();
+// Options accepted by the create index route; anything else is rejected by omission
+const INDEX_OPTION_KEYS = [
+    'name', 'unique', 'sparse', 'hidden', 'expireAfterSeconds', 'partialFilterExpression',
+    'collation', 'wildcardProjection', 'weights', 'default_language', 'language_override',
+    '2dsphereIndexVersion'
+];
 
-        // Try to parse as JSON command object first
-        let result;
-        try {
-            const cmdObj = JSON.parse(command);
-            result = await db.command(cmdObj);
-        } catch (parseError) {
-            // If JSON parsing fails, try to execute as a simple command string
-            // Common MongoDB commands that work without eval
-            const trimmed = command.trim();
-
-            // Handle db.method() style commands (mongosh syntax)
-            if (trimmed.match(/^db\./i)) {
-                const dbMethod = trimmed.substring(3).trim(); // Remove "db."
-
-                // Handle collection methods with collection name (e.g., db.collection.find())
-                if (dbMethod.match(/^[\w]+\./)) {
-                    const match = dbMethod.match(/^([\w]+)\.([\w]+)(.*)$/i);
-                    if (match) {
-                        const colName = match[1];
-                        const method = match[2].toLowerCase();
-                        const args = match[3];
-
-                        const col = db.collection(colName);
-
-                        if (method === 'find') {
-                            // Parse filter and options from args
-                            let filter = {};
-                            let limit = 10;
-
-                            // Try to extract filter from find(...)
-                            const filterMatch = args.match(/find\(([^)]*)\)/i);
-                            if (filterMatch && filterMatch[1].trim()) {
-                                try {
-                                    filter = JSON.parse(filterMatch[1]);
-                                } catch (e) {
-                                    // If filter can't be parsed, use empty filter
-                                }
-                            }
-
-                            // Try to extract limit from .limit(...)
-                            const limitMatch = args.match(/limit\((\d+)\)/i);
-                            if (limitMatch) {
-                                limit = parseInt(limitMatch[1]);
-                            }
-
-                            result = await col.find(filter).limit(limit).toArray();
-                        } else if (method === 'findone') {
-                            let filter = {};
-                            const filterMatch = args.match(/findOne\(([^)]*)\)/i);
-                            if (filterMatch && filterMatch[1].trim()) {
-                                try {
-                                    filter = JSON.parse(filterMatch[1]);
-                                } catch (e) { }
-                            }
-                            result = await col.findOne(filter);
-                        } else if (method === 'countdocuments') {
-                            let filter = {};
-                            const filterMatch = args.match(/countDocuments\(([^)]*)\)/i);
-                            if (filterMatch && filterMatch[1].trim()) {
-                                try {
-                                    filter = JSON.parse(filterMatch[1]);
-                                } catch (e) { }
-                            }
-                            result = await col.countDocuments(filter);
-                        } else if (method === 'aggregate') {
-                            let pipeline = [];
-                            const pipelineMatch = args.match(/aggregate\(([^)]*)\)/i);
-                            if (pipelineMatch && pipelineMatch[1].trim()) {
-                                try {
-                                    pipeline = JSON.parse(pipelineMatch[1]);
-                                } catch (e) { }
-                            }
-                            result = await col.aggregate(pipeline).toArray();
-                        } else if (method === 'createindex') {
-                            let indexSpec = {};
-                            const indexMatch = args.match(/createIndex\(([^)]*)\)/i);
-                            if (indexMatch && indexMatch[1].trim()) {
-                                try {
-                                    indexSpec = JSON.parse(indexMatch[1]);
-                                } catch (e) { }
-                            }
-                            result = await col.createIndex(indexSpec);
-                        } else if (method === 'drop') {
-                            result = await col.drop();
-                        } else {
-                            throw new Error(`Unsupported collection method: ${method}. Try: find(), findOne(), countDocuments(), aggregate(), createIndex(), drop()`);
-                        }
-                    } else {
-                        throw new Error(`Invalid collection method syntax. Use: db.collectionName.method()`);
-                    }
-                } else if (dbMethod.match(/^adminCommand\(/i)) {
-                    const match = dbMethod.match(/adminCommand\(([^)]*)\)/i);
-                    if (match) {
-                        try {
-                            const cmdObj = JSON.parse(match[1]);
-                            const adminDb = req.dbClient.db().admin();
-                            result = await adminDb.command(cmdObj);
-                        } catch (e) {
-                            throw new Error('Invalid adminCommand syntax. Use: db.adminCommand({ command: "value" })');
-                        }
-                    } else {
-                        throw new Error('Invalid adminCommand syntax. Use: db.adminCommand({ command: "value" })');
-                    }
-                } else if (dbMethod.match(/^runCommand\(/i)) {
-                    const match = dbMethod.match(/runCommand\(([^)]*)\)/i);
-                    if (match) {
-                        try {
-                            const cmdObj = JSON.parse(match[1]);
-                            result = await db.command(cmdObj);
-                        } catch (e) {
-                            throw new Error('Invalid runCommand syntax. Use: db.runCommand({ command: "value" })');
-                        }
-                    } else {
-                        throw new Error('Invalid runCommand syntax. Use: db.runCommand({ command: "value" })');
-                    }
-                } else if (dbMethod.match(/^listDatabases\(\)/i)) {
-                    const adminDb = req.dbClient.db().admin();
-                    result = await adminDb.listDatabases();
-                } else if (dbMethod.match(/^listCollections\(\)/i)) {
-                    result = await db.listCollections().toArray();
-                } else if (dbMethod.match(/^stats\(\)/i)) {
-                    result = await db.stats();
-                } else if (dbMethod.match(/^serverStatus\(\)/i)) {
-                    const adminDb = req.dbClient.db().admin();
-                    result = await adminDb.serverStatus();
-                } else if (dbMethod.match(/^dropDatabase\(\)/i)) {
-                    result = await db.dropDatabase();
-                } else if (dbMethod.match(/^createCollection\(/i)) {
-                    const match = dbMethod.match(/createCollection\(['"](\w+)['"]\)/i);
-                    if (match) {
-                        result = await db.createCollection(match[1]);
-                    } else {
-                        throw new Error('Invalid createCollection syntax. Use: db.createCollection("name")');
-                    }
-                } else if (dbMethod.match(/^dropCollection\(/i)) {
-                    const match = dbMethod.match(/dropCollection\(['"](\w+)['"]\)/i);
-                    if (match) {
-                        result = await db.collection(match[1]).drop();
-                    } else {
-                        throw new Error('Invalid dropCollection syntax. Use: db.dropCollection("name")');
-                    }
-                } else {
-                    throw new Error(`Unsupported db method: ${dbMethod}. Try: db.listDatabases(), db.listCollections(), db.stats(), db.serverStatus(), db.dropDatabase(), db.createCollection("name"), db.dropCollection("name"), db.collectionName.find(), db.collectionName.findOne(), db.collectionName.countDocuments(), db.collectionName.aggregate(), db.collectionName.createIndex(), db.collectionName.drop()`);
-                }
-            } else {
-                // Handle simple commands without db. prefix
-                const lowerTrimmed = trimmed.toLowerCase();
-
-                if (lowerTrimmed === 'stats' || lowerTrimmed === 'dbstats') {
-                    result = await db.stats();
-                } else if (lowerTrimmed === 'serverstatus') {
-                    const adminDb = req.dbClient.db().admin();
-                    result = await adminDb.serverStatus();
-                } else if (lowerTrimmed.startsWith('listdatabases')) {
-                    const adminDb = req.dbClient.db().admin();
-                    result = await adminDb.listDatabases();
-                } else if (lowerTrimmed.startsWith('listcollections')) {
-                    result = await db.listCollections().toArray();
-                } else if (lowerTrimmed.startsWith('dropdatabase')) {
-                    result = await db.dropDatabase();
-                } else if (lowerTrimmed.startsWith('createcollection')) {
-                    const match = lowerTrimmed.match(/createcollection\s+(\w+)/);
-                    if (match) {
-                        result = await db.createCollection(match[1]);
-                    } else {
-                        throw new Error('Invalid createCollection syntax. Use: createCollection <name>');
-                    }
-                } else if (lowerTrimmed.startsWith('dropcollection')) {
-                    const match = lowerTrimmed.match(/dropcollection\s+(\w+)/);
-                    if (match) {
-                        result = await db.collection(match[1]).drop();
-                    } else {
-                        throw new Error('Invalid dropCollection syntax. Use: dropCollection <name>');
-                    }
-                } else {
-                    throw new Error(`Unsupported command: ${command}. Try using mongosh syntax: db.collectionName.find(), db.listDatabases(), db.stats(), etc.`);
-                }
+// List indexes with their $indexStats usage counters and on-disk sizes
+app.get('/api/indexes/:dbName/:colName', withMongo, async (req, res) => {
+    try {
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const [indexes, usageStats, storageStats] = await Promise.all([
+            col.listIndexes().toArray(),
+            // Both stages need extra privileges; missing stats should not hide the index list
+            col.aggregate([{ $indexStats: {} }]).toArray().catch(() => []),
+            col.aggregate([{ $collStats: { storageStats: {} } }]).toArray().catch(() => [])
+        ]);
+
+        // Sharded clusters report one entry per shard/host, so sum them up
+        const usage = {};
+        for (const stat of usageStats) {
+            const current = usage[stat.name] || { ops: 0, since: stat.accesses.since };
+            current.ops += Number(stat.accesses.ops);
+            if (stat.accesses.since < current.since) current.since = stat.accesses.since;
+            usage[stat.name] = current;
+        }
+        const sizes = {};
+        for (const stat of storageStats) {
+            for (const [name, size] of Object.entries(stat.storageStats?.indexSizes || {})) {
+                sizes[name] = (sizes[name] || 0) + Number(size);
             }
         }
 
-        res.json({
-            success: true,
-            result: result,
-            executionTime: Date.now() - startTime
-        });
+        sendEJSON(req, res, indexes.map(index => ({
+            ...index,
+            size: sizes[index.name] ?? null,
+            usage: usage[index.name] ?? null
+        })));
     } catch (e) {
-        res.status(500).json({
-            success: false,
-            error: e.message
-        });
+        res.status(500).json({ error: e.message });
     }
 });
 
-// Export database as JSON
-app.post('/api/export/database', withMongo, async (req, res) => {
+// Create an index: { keys: { field: 1 }, options: { unique, partialFilterExpression, ... } }
+app.post('/api/indexes/:dbName/:colName', withMongo, async (req, res) => {
     try {
-        const { dbName, format = 'json' } = req.body;
-        if (!dbName) return res.status(400).json({ error: 'Database name is required' });
-
-        const db = req.dbClient.db(dbName);
-        const collections = await db.listCollections().toArray();
-
-        const exportData = {
-            database: dbName,
-            exportedAt: new Date().toISOString(),
-            collections: []
-        };
-
-        for (const colInfo of collections) {
-            const col = db.collection(colInfo.name);
-            const docs = await col.find({}).toArray();
-            exportData.collections.push({
-                name: colInfo.name,
-                documents: docs
-            });
+        const { keys, options = {} } = req.body;
+        if (!keys || typeof keys !== 'object' || Object.keys(keys).length === 0) {
+            return res.status(400).json({ error: 'Index keys are required' });
         }
 
-        if (format === 'json') {
-            res.setHeader('Content-Type', 'application/json');
-            res.setHeader('Content-Disposition', `attachment; filename="${dbName}_${Date.now()}.json"`);
-            res.send(JSON.stringify(exportData, null, 2));
-        } else {
-            res.status(400).json({ error: 'Unsupported format. Use "json"' });
+        const indexOptions = {};
+        for (const key of INDEX_OPTION_KEYS) {
+            if (options[key] !== undefined && options[key] !== null && options[key] !== '') {
+                indexOptions[key] = options[key];
+            }
         }
+        if (indexOptions.partialFilterExpression) {
+            indexOptions.partialFilterExpression = normalizeFilter(indexOptions.partialFilterExpression);
+        }
+
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const name = await col.createIndex(keys, indexOptions);
+        res.json({ success: true, name });
     } catch (e) {
         res.status(500).json({ error: e.message });
     }
 });
 
-// Export collection
-app.post('/api/export/collection', withMongo, async (req, res) => {
+// Hide or unhide an index from the query planner: { hidden: boolean }
+app.patch('/api/indexes/:dbName/:colName/:indexName', withMongo, async (req, res) => {
     try {
-        const { dbName, colName, format = 'json', filter = {} } = req.body;
-        if (!dbName || !colName) return res.status(400).json({ error: 'Database and collection names are required' });
-
-        const db = req.dbClient.db(dbName);
-        const col = db.collection(colName);
-
-        const docs = await col.find(filter).toArray();
-
-        if (format === 'json') {
-            res.setHeader('Content-Type', 'application/json');
-            res.setHeader('Content-Disposition', `attachment; filename="${dbName}_${colName}_${Date.now()}.json"`);
-            res.send(JSON.stringify(docs, null, 2));
-        } else if (format === 'csv') {
-            // Convert to CSV
-            if (docs.length === 0) {
-                res.setHeader('Content-Type', 'text/csv');
-                res.send('');
-                return;
-            }
+        const { dbName, colName, indexName } = req.params;
+        const { hidden } = req.body;
+        if (typeof hidden !== 'boolean') return res.status(400).json({ error: 'hidden must be a boolean' });
 
-            const headers = Object.keys(docs[0]);
-            const csvRows = [headers.join(',')];
-
-            for (const doc of docs) {
-                const row = headers.map(header => {
-                    const value = doc[header];
-                    if (value === null || value === undefined) return '';
-                    if (typeof value === 'object') return `"${JSON.stringify(value).replace(/"/g, '""')}"`;
-                    return `"${String(value).replace(/"/g, '""')}"`;
-                });
-                csvRows.push(row.join(','));
-            }
-
-            res.setHeader('Content-Type', 'text/csv');
-            res.setHeader('Content-Disposition', `attachment; filename="${dbName}_${colName}_${Date.now()}.csv"`);
-            res.send(csvRows.join('\n'));
-        } else {
-            res.status(400).json({ error: 'Unsupported format. Use "json" or "csv"' });
-        }
+        const result = await req.dbClient.db(dbName).command({
+            collMod: colName,
+            index: { name: indexName, hidden }
+        });
+        sendEJSON(req, res, { success: true, result });
     } catch (e) {
         res.status(500).json({ error: e.message });
     }
 });
 
-// Import collection from file or JSON data
-app.post('/api/import/collection/:dbName/:colName', upload.single('file'), withMongo, async (req, res) => {
+app.delete('/api/indexes/:dbName/:colName/:indexName', withMongo, async (req, res) => {
     try {
-        const { dbName, colName } = req.params;
+        const { dbName, colName, indexName } = req.params;
+        if (indexName === '_id_') return res.status(400).json({ error: 'The _id index cannot be dropped' });
+        await req.dbClient.db(dbName).collection(colName).dropIndex(indexName);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
 
-        // Get the file or data from the request
-        if (!req.file && !req.body.data) {
-            return res.status(400).json({ error: 'No file or data provided' });
-        }
+// --- Aggregation ---
 
-        const db = req.dbClient.db(dbName);
-        const col = db.collection(colName);
+// Stages that write their output somewhere; they must be last and are never previewed
+const WRITE_STAGES = ['$out', '$merge'];
 
-        let data;
-        if (req.file) {
-            // Handle multipart form data
-            const fileContent = req.file.buffer.toString('utf-8');
-            data = JSON.parse(fileContent);
-        } else {
-            // Handle JSON body
-            data = req.body.data;
-        }
+const getStageOperator = (stage) => Object.keys(stage || {})[0];
 
-        // Validate data format
-        if (!Array.isArray(data)) {
-            return res.status(400).json({ error: 'Data must be an array of documents' });
+// Run a pipeline: { pipeline, allowDiskUse, maxTimeMS, previewLimit, previewStages }
+// With previewStages every stage prefix is run separately (limited to previewLimit docs)
+// so the builder can show what each stage outputs.
+app.post('/api/aggregate/:dbName/:colName', withMongo, async (req, res) => {
+    try {
+        const { pipeline, allowDiskUse = false, maxTimeMS, previewLimit = 20, previewStages = false } = req.body;
+        if (!Array.isArray(pipeline)) return res.status(400).json({ error: 'Pipeline must be an array of stages' });
+
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const stages = fromEJSON(pipeline);
+        const options = { ...BSON_READ_OPTIONS, allowDiskUse: !!allowDiskUse };
+        if (maxTimeMS) options.maxTimeMS = Number(maxTimeMS);
+        const limit = Math.max(1, Math.min(Number(previewLimit) || 20, 1000));
+
+        if (previewStages) {
+            const previews = [];
+            let failed = false;
+            for (let i = 0; i < stages.length; i++) {
+                const operator = getStageOperator(stages[i]);
+                if (failed) {
+                    previews.push({ stage: i, operator, skipped: 'A previous stage failed' });
+                } else if (WRITE_STAGES.includes(operator)) {
+                    previews.push({ stage: i, operator, skipped: `${operator} writes data and is not previewed` });
+                } else {
+                    const startTime = Date.now();
+                    try {
+                        const docs = await col.aggregate([...stages.slice(0, i + 1), { $limit: limit }], options).toArray();
+                        previews.push({ stage: i, operator, docs, executionTime: Date.now() - startTime });
+                    } catch (e) {
+                        failed = true;
+                        previews.push({ stage: i, operator, error: e.message });
+                    }
+                }
+            }
+            return sendEJSON(req, res, { previews });
+        }
+
+        const startTime = Date.now();
+        const writes = WRITE_STAGES.includes(getStageOperator(stages[stages.length - 1]));
+        // A write stage has to stay last, so the preview limit only applies to read pipelines
+        const docs = await col.aggregate(writes ? stages : [...stages, { $limit: limit }], options).toArray();
+        sendEJSON(req, res, { docs, executionTime: Date.now() - startTime, wroteOutput: writes });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Schema Analysis ---
+
+const SCHEMA_DEFAULT_SAMPLE = 1000;
+const SCHEMA_MAX_SAMPLE = 10000;
+// Distinct values tracked per field; beyond this the cardinality is reported as a lower bound
+const SCHEMA_CARDINALITY_CAP = 1000;
+const SCHEMA_EXAMPLE_COUNT = 3;
+
+const BSON_TYPE_NAMES = {
+    ObjectId: 'ObjectId',
+    Int32: 'Int32',
+    Double: 'Double',
+    Long: 'Long',
+    Decimal128: 'Decimal128',
+    Timestamp: 'Timestamp',
+    BSONRegExp: 'RegExp',
+    BSONSymbol: 'Symbol',
+    Code: 'Code',
+    DBRef: 'DBRef',
+    MinKey: 'MinKey',
+    MaxKey: 'MaxKey'
+};
+
+// BSON type name of a value read with BSON_READ_OPTIONS; names match the client's type badges
+const getBsonTypeName = (value) => {
+    if (value === null) return 'Null';
+    if (value === undefined) return 'Undefined';
+    if (Array.isArray(value)) return 'Array';
+    if (value instanceof Date) return 'Date';
+    if (isBsonValue(value)) {
+        if (value._bsontype === 'Binary') return value.sub_type === 4 ? 'UUID' : 'Binary';
+        return BSON_TYPE_NAMES[value._bsontype] || value._bsontype;
+    }
+    if (typeof value === 'string') return 'String';
+    if (typeof value === 'boolean') return 'Boolean';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'Int32' : 'Double';
+    return 'Object';
+};
+
+const isScalarType = (type) => !['Array', 'Object'].includes(type);
+
+// Walks sampled documents and accumulates per-path statistics. Array elements are
+// reported under "<path>[]" and fields of embedded documents inside arrays under
+// "<path>[].<field>", so every nesting level gets its own entry.
+const createSchemaAnalyzer = () => {
+    const fields = new Map();
+
+    const getField = (path) => {
+        let field = fields.get(path);
+        if (!field) {
+            field = { path, docCount: 0, occurrences: 0, types: {}, values: new Map(), capped: false, lastDoc: -1 };
+            fields.set(path, field);
+        }
+        return field;
+    };
+
+    const record = (path, value, docIndex) => {
+        const field = getField(path);
+        const type = getBsonTypeName(value);
+        field.occurrences++;
+        field.types[type] = (field.types[type] || 0) + 1;
+        if (field.lastDoc !== docIndex) {
+            field.lastDoc = docIndex;
+            field.docCount++;
+        }
+
+        if (isScalarType(type)) {
+            const key = `${type}:${JSON.stringify(toEJSON(value, 'canonical'))}`;
+            if (field.values.has(key)) return;
+            if (field.values.size < SCHEMA_CARDINALITY_CAP) field.values.set(key, value);
+            else field.capped = true;
+        } else if (type === 'Array') {
+            value.forEach(item => record(`${path}[]`, item, docIndex));
+        } else {
+            walk(value, `${path}.`, docIndex);
+        }
+    };
+
+    const walk = (doc, prefix, docIndex) => {
+        for (const key of Object.keys(doc)) {
+            record(`${prefix}${key}`, doc[key], docIndex);
+        }
+    };
+
+    let sampled = 0;
+    return {
+        add(doc) {
+            walk(doc, '', sampled++);
+        },
+        result() {
+            return Array.from(fields.values())
+                .sort((a, b) => a.path.localeCompare(b.path))
+                .map(field => ({
+                    path: field.path,
+                    count: field.docCount,
+                    presence: sampled ? field.docCount / sampled : 0,
+                    types: Object.entries(field.types)
+                        .map(([type, count]) => ({ type, count, percentage: count / field.occurrences }))
+                        .sort((a, b) => b.count - a.count),
+                    cardinality: field.values.size,
+                    cardinalityCapped: field.capped,
+                    examples: Array.from(field.values.values()).slice(0, SCHEMA_EXAMPLE_COUNT)
+                }));
+        },
+        get sampled() {
+            return sampled;
+        }
+    };
+};
+
+// Infer the schema of a collection from a random sample: { filter, sampleSize }
+app.post('/api/schema/:dbName/:colName', withMongo, async (req, res) => {
+    try {
+        const { filter = {}, sampleSize = SCHEMA_DEFAULT_SAMPLE } = req.body;
+        const size = Math.max(1, Math.min(Number(sampleSize) || SCHEMA_DEFAULT_SAMPLE, SCHEMA_MAX_SAMPLE));
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+
+        const startTime = Date.now();
+        const match = normalizeFilter(filter);
+        const pipeline = Object.keys(match).length > 0
+            ? [{ $match: match }, { $sample: { size } }]
+            : [{ $sample: { size } }];
+
+        const analyzer = createSchemaAnalyzer();
+        for await (const doc of col.aggregate(pipeline, { ...BSON_READ_OPTIONS, allowDiskUse: true })) {
+            analyzer.add(doc);
+        }
+        const totalDocuments = await col.estimatedDocumentCount();
+
+        sendEJSON(req, res, {
+            sampleSize: size,
+            sampled: analyzer.sampled,
+            totalDocuments,
+            fields: analyzer.result(),
+            executionTime: Date.now() - startTime
+        });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Validation ---
+
+const VALIDATION_LEVELS = ['off', 'strict', 'moderate'];
+const VALIDATION_ACTIONS = ['error', 'warn'];
+// Failing documents returned by a validator test
+const VALIDATION_TEST_LIMIT = 20;
+
+// The collection's validator, validationLevel and validationAction
+app.get('/api/validation/:dbName/:colName', withMongo, async (req, res) => {
+    try {
+        const [info] = await req.dbClient.db(req.params.dbName)
+            .listCollections({ name: req.params.colName }, { nameOnly: false })
+            .toArray();
+        if (!info) return res.status(404).json({ error: 'Collection not found' });
+        if (info.type === 'view') return res.status(400).json({ error: 'Views cannot have validators' });
+        const { validator = {}, validationLevel = 'strict', validationAction = 'error' } = info.options || {};
+        sendEJSON(req, res, { validator, validationLevel, validationAction });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Apply validation rules with collMod: { validator, validationLevel, validationAction }.
+// Existing documents are not checked; the test route below reports the ones that fail.
+app.put('/api/validation/:dbName/:colName', withMongo, async (req, res) => {
+    try {
+        const { validator = {}, validationLevel, validationAction } = req.body;
+        if (validationLevel !== undefined && !VALIDATION_LEVELS.includes(validationLevel)) {
+            return res.status(400).json({ error: 'Validation level must be "off", "strict" or "moderate"' });
+        }
+        if (validationAction !== undefined && !VALIDATION_ACTIONS.includes(validationAction)) {
+            return res.status(400).json({ error: 'Validation action must be "error" or "warn"' });
+        }
+        const command = { collMod: req.params.colName, validator: fromEJSON(validator) };
+        if (validationLevel) command.validationLevel = validationLevel;
+        if (validationAction) command.validationAction = validationAction;
+        await req.dbClient.db(req.params.dbName).command(command);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Count and list existing documents that fail a proposed validator: { validator, limit }
+app.post('/api/validation/:dbName/:colName/test', withMongo, async (req, res) => {
+    try {
+        const { validator = {}, limit = VALIDATION_TEST_LIMIT } = req.body;
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const startTime = Date.now();
+        // A validator is a query filter, so the documents it rejects are the ones $nor matches
+        const failingFilter = { $nor: [fromEJSON(validator)] };
+        const [failing, total, docs] = await Promise.all([
+            col.countDocuments(failingFilter),
+            col.estimatedDocumentCount(),
+            col.find(failingFilter, BSON_READ_OPTIONS).limit(Math.max(1, Math.min(Number(limit) || VALIDATION_TEST_LIMIT, 100))).toArray()
+        ]);
+        sendEJSON(req, res, { failing, total, docs, executionTime: Date.now() - startTime });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// A starting $jsonSchema validator inferred from a sample of the collection: { sampleSize }
+app.post('/api/validation/:dbName/:colName/generate', withMongo, async (req, res) => {
+    try {
+        const size = Math.max(1, Math.min(Number(req.body.sampleSize) || SCHEMA_DEFAULT_SAMPLE, SCHEMA_MAX_SAMPLE));
+        const col = req.dbClient.db(req.params.dbName).collection(req.params.colName);
+        const analyzer = createSchemaAnalyzer();
+        for await (const doc of col.aggregate([{ $sample: { size } }], { ...BSON_READ_OPTIONS, allowDiskUse: true })) {
+            analyzer.add(doc);
+        }
+        if (analyzer.sampled === 0) return res.status(400).json({ error: 'The collection is empty; there is nothing to infer a schema from' });
+        res.json({ validator: buildJsonSchema(analyzer.result(), analyzer.sampled), sampled: analyzer.sampled });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Current Operations ---
+
+// Tags our own $currentOp aggregation so it can be left out of the list
+const CURRENT_OP_COMMENT = 'mongodeck currentOp';
+
+// List operations from $currentOp: { minSeconds, ns, op, includeIdle }. `ns` matches a
+// namespace prefix, so a database name lists the operations on all of its collections.
+app.post('/api/currentop', withMongo, async (req, res) => {
+    try {
+        const { minSeconds, ns, op, includeIdle = false } = req.body;
+        const match = { 'command.comment': { $ne: CURRENT_OP_COMMENT } };
+        if (!includeIdle) match.active = true;
+        if (Number(minSeconds) > 0) match.secs_running = { $gte: Number(minSeconds) };
+        if (ns) match.ns = { $regex: `^${String(ns).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` };
+        if (op) match.op = op;
+
+        const startTime = Date.now();
+        const operations = await req.dbClient.db('admin').aggregate([
+            { $currentOp: { allUsers: true, idleConnections: !!includeIdle } },
+            { $match: match },
+            { $sort: { secs_running: -1, microsecs_running: -1 } }
+        ], { comment: CURRENT_OP_COMMENT }).toArray();
+
+        sendEJSON(req, res, { operations, executionTime: Date.now() - startTime });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Kill an operation: { opid }. Operations on mongos have string ids such as "shard01:1234".
+app.post('/api/currentop/kill', withMongo, async (req, res) => {
+    try {
+        const { opid } = req.body;
+        if (opid === undefined || opid === null || opid === '') return res.status(400).json({ error: 'Operation id is required' });
+        const result = await req.dbClient.db('admin').command({ killOp: 1, op: opid });
+        res.json({ success: true, info: result.info });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Profiler ---
+
+const PROFILE_LEVELS = [0, 1, 2];
+
+// Most recent system.profile entries read for grouping
+const PROFILE_ENTRY_LIMIT = 5000;
+
+const readProfileSettings = async (db) => {
+    const { was, slowms, sampleRate, filter } = await db.command({ profile: -1 });
+    return { level: was, slowms, sampleRate, filter };
+};
+
+app.get('/api/profile/:dbName', withMongo, async (req, res) => {
+    try {
+        res.json(await readProfileSettings(req.dbClient.db(req.params.dbName)));
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Set the profiling level: { level, slowms, sampleRate }. slowms and sampleRate also
+// decide which slow operations are written to the server log at level 0.
+app.put('/api/profile/:dbName', withMongo, async (req, res) => {
+    try {
+        const { level, slowms, sampleRate } = req.body;
+        if (!PROFILE_LEVELS.includes(level)) return res.status(400).json({ error: 'Profiling level must be 0, 1 or 2' });
+        if (sampleRate !== undefined && !(sampleRate >= 0 && sampleRate <= 1)) {
+            return res.status(400).json({ error: 'Sample rate must be between 0 and 1' });
+        }
+        const command = { profile: level };
+        if (slowms !== undefined) command.slowms = Number(slowms);
+        if (sampleRate !== undefined) command.sampleRate = Number(sampleRate);
+        const db = req.dbClient.db(req.params.dbName);
+        await db.command(command);
+        res.json(await readProfileSettings(db));
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Profiled operations grouped by query shape: { ns, op, minMillis, since }
+app.post('/api/profile/:dbName/entries', withMongo, async (req, res) => {
+    try {
+        const { ns, op, minMillis, since } = req.body;
+        const filter = {};
+        if (ns) filter.ns = ns;
+        if (op) filter.op = op;
+        if (Number(minMillis) > 0) filter.millis = { $gte: Number(minMillis) };
+        if (since) filter.ts = { $gte: new Date(since) };
+
+        const startTime = Date.now();
+        const entries = await req.dbClient.db(req.params.dbName).collection('system.profile')
+            .find(filter)
+            .sort({ $natural: -1 })
+            .limit(PROFILE_ENTRY_LIMIT)
+            .toArray();
+
+        sendEJSON(req, res, {
+            groups: groupProfileEntries(entries),
+            entries: entries.length,
+            truncated: entries.length === PROFILE_ENTRY_LIMIT,
+            executionTime: Date.now() - startTime
+        });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Clear the profile. system.profile can only be dropped while profiling is off, so the
+// level is switched off for the drop and restored afterwards.
+app.delete('/api/profile/:dbName/entries', withMongo, async (req, res) => {
+    try {
+        const db = req.dbClient.db(req.params.dbName);
+        const settings = await readProfileSettings(db);
+        if (settings.level !== 0) await db.command({ profile: 0 });
+        try {
+            await db.collection('system.profile').drop().catch(e => {
+                if (e.codeName !== 'NamespaceNotFound') throw e;
+            });
+        } finally {
+            if (settings.level !== 0) await db.command({ profile: settings.level });
+        }
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Users and Roles ---
+// Every change to users and roles goes through these routes and must carry a
+// `confirmation` token, which the client requests for that exact method and path once
+// the user has confirmed the change (see server/confirmations.js). Without a fresh token
+// the request is answered 428 Precondition Required, so a replayed or hand-written
+// request cannot change access control by accident.
+
+// { method, path } of the request to confirm
+app.post('/api/confirmations', withMongo, (req, res) => {
+    const { method, path: target } = req.body;
+    if (typeof method !== 'string' || typeof target !== 'string') {
+        return res.status(400).json({ error: 'Name the method and path of the request to confirm' });
+    }
+    const token = sessions.get(req.sessionId).confirmations.issue(`${method.toUpperCase()} ${target}`);
+    res.json({ token });
+});
+
+const requireConfirmation = (req, res, next) => {
+    const { confirmations } = sessions.get(req.sessionId);
+    if (!confirmations.consume(req.body?.confirmation, `${req.method} ${req.path}`)) {
+        return res.status(428).json({ error: 'This action changes access control and must be confirmed', confirmationRequired: true });
+    }
+    next();
+};
+
+// Roles as { role, db } documents; a bare name refers to a role of the target database
+const parseRoleList = (roles, dbName) => {
+    if (!Array.isArray(roles)) return null;
+    const parsed = [];
+    for (const role of roles) {
+        if (typeof role === 'string' && role) parsed.push({ role, db: dbName });
+        else if (role && typeof role.role === 'string' && role.role) parsed.push({ role: role.role, db: String(role.db || dbName) });
+        else return null;
+    }
+    return parsed;
+};
+
+// Privileges as { resource: { db, collection } | { cluster: true } | { anyResource: true }, actions: [...] }
+const parsePrivileges = (privileges) => {
+    if (!Array.isArray(privileges)) return null;
+    const parsed = [];
+    for (const privilege of privileges) {
+        if (!privilege || typeof privilege !== 'object' || Array.isArray(privilege)) return null;
+        const { resource, actions } = privilege;
+        if (!resource || typeof resource !== 'object') return null;
+        if (!Array.isArray(actions) || actions.length === 0 || !actions.every(action => typeof action === 'string' && action)) return null;
+        parsed.push({
+            resource: resource.cluster === true ? { cluster: true }
+                : resource.anyResource === true ? { anyResource: true }
+                : { db: String(resource.db ?? ''), collection: String(resource.collection ?? '') },
+            actions
+        });
+    }
+    return parsed;
+};
+
+app.get('/api/users/:dbName', withMongo, async (req, res) => {
+    try {
+        const { users } = await req.dbClient.db(req.params.dbName).command({ usersInfo: 1 });
+        res.json(users.map(({ _id, user, db, roles, mechanisms, customData }) => ({ _id, user, db, roles, mechanisms, customData })));
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Roles defined on a database with their privileges; ?builtin=true adds the built-in roles
+app.get('/api/roles/:dbName', withMongo, async (req, res) => {
+    try {
+        const { roles } = await req.dbClient.db(req.params.dbName).command({
+            rolesInfo: 1,
+            showPrivileges: true,
+            showBuiltinRoles: req.query.builtin === 'true'
+        });
+        res.json(roles);
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Create a user: { user, pwd, roles, customData }
+app.post('/api/users/:dbName', withMongo, requireConfirmation, async (req, res) => {
+    try {
+        const { user, pwd, customData } = req.body;
+        if (!user || typeof user !== 'string') return res.status(400).json({ error: 'User name is required' });
+        if (!pwd || typeof pwd !== 'string') return res.status(400).json({ error: 'Password is required' });
+        const roles = parseRoleList(req.body.roles ?? [], req.params.dbName);
+        if (!roles) return res.status(400).json({ error: 'Roles must be role names or { role, db } documents' });
+
+        const command = { createUser: user, pwd, roles };
+        if (customData && typeof customData === 'object') command.customData = customData;
+        await req.dbClient.db(req.params.dbName).command(command);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Change a user's password: { pwd }
+app.put('/api/users/:dbName/:user/password', withMongo, requireConfirmation, async (req, res) => {
+    try {
+        const { pwd } = req.body;
+        if (!pwd || typeof pwd !== 'string') return res.status(400).json({ error: 'Password is required' });
+        await req.dbClient.db(req.params.dbName).command({ updateUser: req.params.user, pwd });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Grant and revoke roles in one request: { grant, revoke }
+app.post('/api/users/:dbName/:user/roles', withMongo, requireConfirmation, async (req, res) => {
+    try {
+        const grant = parseRoleList(req.body.grant ?? [], req.params.dbName);
+        const revoke = parseRoleList(req.body.revoke ?? [], req.params.dbName);
+        if (!grant || !revoke) return res.status(400).json({ error: 'Roles must be role names or { role, db } documents' });
+
+        const db = req.dbClient.db(req.params.dbName);
+        if (grant.length) await db.command({ grantRolesToUser: req.params.user, roles: grant });
+        if (revoke.length) await db.command({ revokeRolesFromUser: req.params.user, roles: revoke });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.delete('/api/users/:dbName/:user', withMongo, requireConfirmation, async (req, res) => {
+    try {
+        await req.dbClient.db(req.params.dbName).command({ dropUser: req.params.user });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Create a custom role: { role, privileges, roles }
+app.post('/api/roles/:dbName', withMongo, requireConfirmation, async (req, res) => {
+    try {
+        const { role } = req.body;
+        if (!role || typeof role !== 'string') return res.status(400).json({ error: 'Role name is required' });
+        const privileges = parsePrivileges(req.body.privileges ?? []);
+        if (!privileges) return res.status(400).json({ error: 'Every privilege needs a resource and at least one action' });
+        const roles = parseRoleList(req.body.roles ?? [], req.params.dbName);
+        if (!roles) return res.status(400).json({ error: 'Roles must be role names or { role, db } documents' });
+
+        await req.dbClient.db(req.params.dbName).command({ createRole: role, privileges, roles });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Replace a custom role's privileges and inherited roles: { privileges, roles }
+app.put('/api/roles/:dbName/:role', withMongo, requireConfirmation, async (req, res) => {
+    try {
+        const privileges = parsePrivileges(req.body.privileges ?? []);
+        if (!privileges) return res.status(400).json({ error: 'Every privilege needs a resource and at least one action' });
+        const roles = parseRoleList(req.body.roles ?? [], req.params.dbName);
+        if (!roles) return res.status(400).json({ error: 'Roles must be role names or { role, db } documents' });
+
+        await req.dbClient.db(req.params.dbName).command({ updateRole: req.params.role, privileges, roles });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.delete('/api/roles/:dbName/:role', withMongo, requireConfirmation, async (req, res) => {
+    try {
+        await req.dbClient.db(req.params.dbName).command({ dropRole: req.params.role });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Change Streams ---
+// A collection's change stream is tailed over one long-lived response in the
+// server-sent events format. The client reads it with fetch because EventSource cannot
+// send the session header. Every "change" event carries one EJSON change event whose
+// _id is the resume token; the client passes the last one back as resumeAfter when it
+// reconnects, so no events are lost between connections.
+
+// Comment lines keep proxies from closing an idle stream and keep the session alive
+const CHANGE_STREAM_HEARTBEAT_MS = 15 * 1000;
+
+const writeServerSentEvent = (res, event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Tail changes: { match, resumeAfter }. Full documents are looked up for updates.
+app.post('/api/watch/:dbName/:colName', withMongo, async (req, res) => {
+    const { dbName, colName } = req.params;
+    const { match, resumeAfter } = req.body;
+    const mode = getEJSONMode(req);
+    const session = sessions.get(req.sessionId);
+
+    let changeStream;
+    let first;
+    let startToken;
+    try {
+        const filter = normalizeFilter(match);
+        const pipeline = Object.keys(filter).length > 0 ? [{ $match: filter }] : [];
+        const options = { ...BSON_READ_OPTIONS, fullDocument: 'updateLookup' };
+        if (resumeAfter) options.resumeAfter = fromEJSON(resumeAfter);
+
+        changeStream = req.dbClient.db(dbName).collection(colName).watch(pipeline, options);
+        // Where the stream starts (resumeAfter, or none for a new stream); once tryNext()
+        // returns a change the stream's token already points past it
+        startToken = changeStream.resumeToken;
+        // Opening the stream fails on standalone servers or with an expired resume token;
+        // report that as a normal error response before switching to event streaming.
+        first = await changeStream.tryNext();
+    } catch (e) {
+        if (changeStream) await changeStream.close().catch(() => {});
+        return res.status(500).json({ error: e.message });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    // The open token never skips the first change: a new stream that opened with a change
+    // reports none, and the client resumes from that change's own _id instead
+    const openToken = first ? startToken : changeStream.resumeToken;
+    writeServerSentEvent(res, 'open', { resumeToken: openToken ? toEJSON(openToken, mode) : null });
+
+    let closed = false;
+    const heartbeat = setInterval(() => {
+        if (session) session.lastUsed = Date.now();
+        res.write(': heartbeat\n\n');
+    }, CHANGE_STREAM_HEARTBEAT_MS);
+    res.on('close', () => {
+        closed = true;
+        changeStream.close().catch(() => {});
+    });
+
+    try {
+        if (first) writeServerSentEvent(res, 'change', toEJSON(first, mode));
+        for await (const change of changeStream) {
+            if (session) session.lastUsed = Date.now();
+            writeServerSentEvent(res, 'change', toEJSON(change, mode));
+        }
+    } catch (e) {
+        if (!closed) writeServerSentEvent(res, 'error', { error: e.message });
+    } finally {
+        clearInterval(heartbeat);
+        await changeStream.close().catch(() => {});
+        res.end();
+    }
+});
+
+// --- Shell Commands ---
+// The command panel accepts mongosh syntax. server/shell.js parses it into a command
+// description naming whitelisted methods only; the functions below map those onto the driver.
+
+// Documents returned by find() when no limit() is given, like one mongosh batch
+const SHELL_DEFAULT_LIMIT = 20;
+
+// Driver results that are classes are reduced to the fields mongosh prints
+const summarizeBulkWriteResult = (result) => ({
+    acknowledged: result.isOk(),
+    insertedCount: result.insertedCount,
+    matchedCount: result.matchedCount,
+    modifiedCount: result.modifiedCount,
+    deletedCount: result.deletedCount,
+    upsertedCount: result.upsertedCount,
+    insertedIds: result.insertedIds,
+    upsertedIds: result.upsertedIds
+});
+
+const runShowHelper = async (client, db, target) => {
+    switch (target) {
+        case 'dbs':
+        case 'databases':
+            return (await client.db().admin().listDatabases()).databases;
+        case 'collections':
+        case 'tables':
+            return (await db.listCollections({}, { nameOnly: true }).toArray()).map(c => c.name).sort();
+        case 'users':
+            return (await db.command({ usersInfo: 1 })).users;
+        case 'roles':
+            return (await db.command({ rolesInfo: 1, showBuiltinRoles: true })).roles;
+        case 'profile':
+            return db.collection('system.profile').find({}, BSON_READ_OPTIONS).sort({ ts: -1 }).limit(5).toArray();
+        default:
+            throw new Error(`Unknown show target: ${target}`);
+    }
+};
+
+const runDbMethod = async (client, db, method, args) => {
+    const admin = client.db('admin');
+    switch (method) {
+        case 'runCommand':
+            return db.command(args[0]);
+        case 'adminCommand':
+            return admin.command(args[0]);
+        case 'stats':
+            return db.stats(args[0] === undefined ? undefined : typeof args[0] === 'object' ? args[0] : { scale: Number(args[0]) });
+        case 'serverStatus':
+            return admin.command({ serverStatus: 1, ...args[0] });
+        case 'hostInfo':
+            return admin.command({ hostInfo: 1 });
+        case 'version':
+            return (await admin.command({ buildInfo: 1 })).version;
+        case 'getName':
+            return db.databaseName;
+        case 'getCollectionNames':
+            return (await db.listCollections({}, { nameOnly: true }).toArray()).map(c => c.name).sort();
+        case 'getCollectionInfos':
+        case 'listCollections':
+            return db.listCollections(args[0] || {}, args[1] || {}).toArray();
+        case 'listDatabases':
+            return client.db().admin().listDatabases();
+        case 'createCollection':
+            await db.createCollection(args[0], args[1]);
+            return { ok: 1 };
+        case 'createView':
+            await db.createCollection(args[0], { ...args[3], viewOn: args[1], pipeline: args[2] });
+            return { ok: 1 };
+        case 'dropDatabase':
+            await db.dropDatabase(args[0]);
+            return { ok: 1, dropped: db.databaseName };
+        case 'dropCollection':
+            return db.collection(args[0]).drop();
+        default:
+            throw new Error(`Unsupported database method: ${method}`);
+    }
+};
+
+// find() with its chained cursor methods folded into driver options
+const runFind = async (col, args, chain) => {
+    const [filter = {}, projection, extraOptions] = args;
+    const options = { ...BSON_READ_OPTIONS, ...extraOptions };
+    if (projection) options.projection = projection;
+
+    for (const { method, args: [value] } of chain) {
+        switch (method) {
+            case 'sort':
+            case 'hint':
+            case 'collation':
+            case 'comment':
+                options[method] = value;
+                break;
+            case 'skip':
+            case 'limit':
+            case 'maxTimeMS':
+            case 'batchSize':
+                options[method] = Number(value);
+                break;
+            case 'project':
+            case 'projection':
+                options.projection = value;
+                break;
+            case 'allowDiskUse':
+                options.allowDiskUse = value === undefined ? true : Boolean(value);
+                break;
+            case 'count':
+                return col.countDocuments(filter);
+            case 'explain':
+                return col.find(filter, options).explain(value);
+            default:
+                break;
+        }
+    }
+    if (options.limit === undefined) options.limit = SHELL_DEFAULT_LIMIT;
+    return col.find(filter, options).toArray();
+};
+
+const runAggregate = async (col, args, chain) => {
+    // mongosh also accepts the stages as separate arguments
+    const pipeline = Array.isArray(args[0]) ? args[0] : args;
+    const options = { ...BSON_READ_OPTIONS, ...(Array.isArray(args[0]) ? args[1] : {}) };
+    for (const { method, args: [value] } of chain) {
+        if (method === 'maxTimeMS' || method === 'batchSize') options[method] = Number(value);
+        if (method === 'explain') return col.aggregate(pipeline, options).explain(value);
+    }
+    return col.aggregate(pipeline, options).toArray();
+};
+
+// mongosh's returnNewDocument flag corresponds to the driver's returnDocument option
+const findAndModifyOptions = (options = {}) => {
+    const { returnNewDocument, ...rest } = options;
+    if (returnNewDocument !== undefined) rest.returnDocument = returnNewDocument ? 'after' : 'before';
+    return { ...BSON_READ_OPTIONS, ...rest };
+};
+
+const runCollectionMethod = async (db, col, method, args, chain) => {
+    switch (method) {
+        case 'find':
+            return runFind(col, args, chain);
+        case 'findOne':
+            return col.findOne(args[0] || {}, { ...BSON_READ_OPTIONS, ...args[2], ...(args[1] ? { projection: args[1] } : {}) });
+        case 'countDocuments':
+        case 'count':
+            return col.countDocuments(args[0] || {}, args[1]);
+        case 'estimatedDocumentCount':
+            return col.estimatedDocumentCount(args[0]);
+        case 'aggregate':
+            return runAggregate(col, args, chain);
+        case 'distinct':
+            return col.distinct(args[0], args[1] || {}, args[2] || {});
+        case 'insertOne':
+        case 'insertMany':
+        case 'updateOne':
+        case 'updateMany':
+        case 'replaceOne':
+        case 'deleteOne':
+        case 'deleteMany':
+            return col[method](...args);
+        case 'bulkWrite':
+            return summarizeBulkWriteResult(await col.bulkWrite(args[0], args[1]));
+        case 'findOneAndUpdate':
+        case 'findOneAndReplace':
+            return col[method](args[0], args[1], findAndModifyOptions(args[2]));
+        case 'findOneAndDelete':
+            return col.findOneAndDelete(args[0], findAndModifyOptions(args[1]));
+        case 'createIndex':
+            return col.createIndex(args[0], args[1]);
+        case 'createIndexes':
+            return col.createIndexes(args[0].map(key => ({ key, ...args[1] })));
+        case 'dropIndex':
+            return db.command({ dropIndexes: col.collectionName, index: args[0] });
+        case 'dropIndexes':
+            return db.command({ dropIndexes: col.collectionName, index: args[0] ?? '*' });
+        case 'getIndexes':
+            return col.listIndexes().toArray();
+        case 'drop':
+            return col.drop();
+        case 'stats':
+            return db.command({ collStats: col.collectionName, ...(args[0] === undefined ? {} : typeof args[0] === 'object' ? args[0] : { scale: Number(args[0]) }) });
+        case 'renameCollection':
+            await col.rename(args[0], { dropTarget: Boolean(args[1]) });
+            return { ok: 1 };
+        default:
+            throw new Error(`Unsupported collection method: ${method}`);
+    }
+};
+
+// `currentDb` is the database selected in the command panel; db.getSiblingDB() overrides it
+const runShellCommand = async (client, currentDb, { kind, database, collection, method, args, chain }) => {
+    const db = client.db(database || currentDb || undefined);
+    switch (kind) {
+        case 'helper':
+            if (method === 'use') return `switched to db ${args[0]}`;
+            return runShowHelper(client, db, args[0]);
+        case 'replicaSet': {
+            const admin = client.db('admin');
+            if (method === 'status') return admin.command({ replSetGetStatus: 1 });
+            if (method === 'conf' || method === 'config') return (await admin.command({ replSetGetConfig: 1 })).config;
+            return admin.command({ hello: 1 });
+        }
+        case 'db':
+            return runDbMethod(client, db, method, args);
+        default:
+            return runCollectionMethod(db, db.collection(collection), method, args, chain);
+    }
+};
+
+// Execute a command: a JSON command document or one mongosh statement.
+// { command, database } runs against `database` (default: the connection's database);
+// the response names the active database afterwards, which `use <db>` changes.
+app.post('/api/command', withMongo, async (req, res) => {
+    try {
+        const { command, database } = req.body;
+        if (!command) return res.status(400).json({ error: 'Command is required' });
+
+        // Canonical Extended JSON documents keep working as raw database commands
+        let commandDoc = null;
+        try {
+            commandDoc = parseEJSON(command);
+        } catch (e) {
+            // Not JSON, parsed as mongosh syntax below
+        }
+
+        let parsed;
+        try {
+            parsed = commandDoc && typeof commandDoc === 'object' && !Array.isArray(commandDoc)
+                ? { kind: 'db', database: null, method: 'runCommand', args: [commandDoc], chain: [] }
+                : parseShellCommand(command);
+        } catch (e) {
+            if (e instanceof ShellSyntaxError) {
+                return res.status(400).json({ success: false, error: e.message, position: e.position });
+            }
+            throw e;
+        }
+
+        const startTime = Date.now();
+        const result = await runShellCommand(req.dbClient, database, parsed);
+        const activeDb = parsed.kind === 'helper' && parsed.method === 'use'
+            ? parsed.args[0]
+            : req.dbClient.db(database || undefined).databaseName;
+
+        sendEJSON(req, res, {
+            success: true,
+            result: result,
+            database: activeDb,
+            executionTime: Date.now() - startTime
+        });
+    } catch (e) {
+        res.status(500).json({
+            success: false,
+            error: e.message
+        });
+    }
+});
+
+// --- Jobs ---
+// Long running work (exports, imports, copies) is tracked as a job so the client can
+// poll its progress with GET /api/jobs/:jobId and cancel it with DELETE /api/jobs/:jobId.
+// Key: job ID, Value: { id, type, sessionId, status, progress, error, result, cancelled, createdAt, updatedAt }
+const jobs = new Map();
+
+// Finished (and never started) jobs are kept this long so late polls still see the outcome
+const JOB_RETENTION_MS = 10 * 60 * 1000;
+
+const createJob = (sessionId, type, progress = {}) => {
+    const now = Date.now();
+    const job = {
+        id: randomUUID(),
+        type,
+        sessionId,
+        status: 'pending',
+        progress,
+        error: null,
+        result: null,
+        cancelled: false,
+        createdAt: now,
+        updatedAt: now
+    };
+    jobs.set(job.id, job);
+    return job;
+};
+
+const updateJob = (job, changes) => {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+};
+
+const updateJobProgress = (job, progress) => {
+    Object.assign(job.progress, progress);
+    job.updatedAt = Date.now();
+};
+
+const isJobFinished = (job) => ['completed', 'failed', 'cancelled'].includes(job.status);
+
+const serializeJob = (job) => ({
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    result: job.result,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+});
+
+setInterval(() => {
+    const now = Date.now();
+    for (const [jobId, job] of jobs) {
+        if ((isJobFinished(job) || job.status === 'pending') && now - job.updatedAt > JOB_RETENTION_MS) {
+            jobs.delete(jobId);
+        }
+    }
+}, SESSION_SWEEP_INTERVAL_MS).unref();
+
+// Jobs are only visible to the session that started them
+const getSessionJob = (req) => {
+    const job = jobs.get(req.params.jobId);
+    return job && job.sessionId === req.sessionId ? job : null;
+};
+
+app.get('/api/jobs/:jobId', withMongo, (req, res) => {
+    const job = getSessionJob(req);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    sendEJSON(req, res, serializeJob(job));
+});
+
+// Cancel a job; running jobs stop at their next checkpoint
+app.delete('/api/jobs/:jobId', withMongo, (req, res) => {
+    const job = getSessionJob(req);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    if (!isJobFinished(job)) {
+        job.cancelled = true;
+        if (job.status === 'pending') updateJob(job, { status: 'cancelled' });
+    }
+    sendEJSON(req, res, serializeJob(job));
+});
+
+// --- Export ---
+// Exports never hold a collection in memory: documents are read from a cursor and piped
+// to the response (optionally through gzip), so stream backpressure throttles the
+// cursor. Starting an export only registers a job; the browser then navigates to
+// /api/export/download/:jobId so its own download manager receives the stream right
+// away, while the page polls the job for document and byte counts.
+
+const EXPORT_FORMATS = {
+    json: { extension: 'json', contentType: 'application/json' },
+    ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson' },
+    csv: { extension: 'csv', contentType: 'text/csv' }
+};
+
+// Containers for BSON database dumps (see server/dump.js)
+const DUMP_PACKAGINGS = {
+    tar: { extension: 'tar', contentType: 'application/x-tar' },
+    archive: { extension: 'archive', contentType: 'application/octet-stream' }
+};
+
+// Documents buffered to discover CSV columns when no field list is given
+const CSV_HEADER_SAMPLE = 100;
+// Serialized output is handed to the stream in chunks of roughly this size
+const EXPORT_CHUNK_SIZE = 64 * 1024;
+const EXPORT_BATCH_SIZE = 1000;
+
+// Database and collection names may hold any Unicode, which a plain header value cannot:
+// an ASCII filename for old clients plus the RFC 5987 form of the real one
+const contentDisposition = (filename) => {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    const encoded = encodeURIComponent(filename).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+const getPathValue = (doc, path) => path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), doc);
+
+async function* jsonArrayChunks(cursor, job, mode) {
+    yield '[';
+    let first = true;
+    for await (const doc of cursor) {
+        yield `${first ? '\n' : ',\n'}${JSON.stringify(toEJSON(doc, mode), null, 2)}`;
+        first = false;
+        job.progress.docs++;
+    }
+    yield first ? ']\n' : '\n]\n';
+}
+
+async function* ndjsonChunks(cursor, job, mode) {
+    for await (const doc of cursor) {
+        yield `${JSON.stringify(toEJSON(doc, mode))}\n`;
+        job.progress.docs++;
+    }
+}
+
+async function* csvChunks(cursor, job, fields) {
+    let headers = fields;
+    const buffered = [];
+    if (!headers || headers.length === 0) {
+        // Use the union of the top-level fields of the first documents as columns
+        const seen = new Set();
+        while (buffered.length < CSV_HEADER_SAMPLE) {
+            const doc = await cursor.next();
+            if (!doc) break;
+            buffered.push(doc);
+            Object.keys(doc).forEach(key => seen.add(key));
         }
+        headers = Array.from(seen);
+    }
+    if (headers.length === 0) return;
 
-        // Insert documents
-        if (data.length > 0) {
-            const result = await col.insertMany(data);
-            res.json({
-                success: true,
-                insertedCount: result.insertedCount
-            });
+    const toRow = (doc) => `${headers.map(header => toCsvCell(getPathValue(doc, header))).join(',')}\n`;
+    yield `${headers.join(',')}\n`;
+    for (const doc of buffered) {
+        yield toRow(doc);
+        job.progress.docs++;
+    }
+    for await (const doc of cursor) {
+        yield toRow(doc);
+        job.progress.docs++;
+    }
+}
+
+// Same layout as the previous in-memory database export: { database, exportedAt, collections: [{ name, documents }] }
+async function* databaseJsonChunks(db, collectionNames, job, mode) {
+    yield `{\n  "database": ${JSON.stringify(db.databaseName)},\n  "exportedAt": ${JSON.stringify(new Date().toISOString())},\n  "collections": [`;
+    for (let i = 0; i < collectionNames.length; i++) {
+        const name = collectionNames[i];
+        updateJobProgress(job, { collection: name });
+        yield `${i === 0 ? '\n' : ',\n'}    { "name": ${JSON.stringify(name)}, "documents": [`;
+        let first = true;
+        const cursor = db.collection(name).find({}, { ...BSON_READ_OPTIONS, batchSize: EXPORT_BATCH_SIZE });
+        for await (const doc of cursor) {
+            yield `${first ? '\n' : ',\n'}      ${JSON.stringify(toEJSON(doc, mode))}`;
+            first = false;
+            job.progress.docs++;
+        }
+        yield first ? '] }' : '\n    ] }';
+    }
+    yield '\n  ]\n}\n';
+}
+
+// Where the documents of a collection live: time series data is dumped from its
+// buckets collection the way mongodump does, views have no documents
+const getDumpDataCollection = (info) => {
+    if (info.type === 'view') return null;
+    return info.type === 'timeseries' ? `system.buckets.${info.name}` : info.name;
+};
+
+// BSON dump in the mongodump layout: a metadata file (options and, when requested,
+// indexes) and the raw BSON documents of each collection, packaged as a tar file or a
+// mongodump --archive stream. Documents are read from the cursor as raw BSON and
+// copied through unchanged.
+async function* databaseDumpChunks(db, infos, job, { packaging, includeIndexes }) {
+    const dbName = db.databaseName;
+    const entries = [];
+    for (const info of infos) {
+        const indexes = includeIndexes && info.type !== 'view'
+            ? await db.collection(info.name).listIndexes().toArray()
+            : [];
+        entries.push({ info, metadata: buildMetadata(info, indexes), dataCollection: getDumpDataCollection(info) });
+    }
+
+    async function* readDocuments(name) {
+        const cursor = db.collection(name).find({}, { raw: true, batchSize: EXPORT_BATCH_SIZE });
+        for await (const doc of cursor) {
+            // Spooling a tar entry produces no output to notice a cancel on
+            if (job.cancelled) throw new Error('Export cancelled');
+            job.progress.docs++;
+            yield doc;
+        }
+    }
+
+    if (packaging === 'archive') {
+        const serverVersion = await db.admin().command({ buildInfo: 1 }).then(info => info.version, () => '');
+        yield archivePrelude(entries.map(({ info, metadata }) => ({
+            db: dbName,
+            collection: info.name,
+            metadata,
+            type: info.type || 'collection'
+        })), serverVersion);
+
+        for (const { info, dataCollection } of entries) {
+            if (!dataCollection) continue;
+            updateJobProgress(job, { collection: info.name });
+            const crc = createCrc64();
+            yield archiveNamespaceHeader(dbName, dataCollection);
+            for await (const doc of readDocuments(dataCollection)) {
+                crc.update(doc);
+                yield doc;
+            }
+            yield ARCHIVE_TERMINATOR;
+            yield archiveNamespaceHeader(dbName, dataCollection, true, crc.digest());
+            yield ARCHIVE_TERMINATOR;
+        }
+        return;
+    }
+
+    // Extracting the tar gives dump/<db>/..., ready for mongorestore
+    for (const { info, metadata, dataCollection } of entries) {
+        updateJobProgress(job, { collection: info.name });
+        const metadataBytes = Buffer.from(metadata);
+        yield tarHeader(`dump/${dbName}/${escapeCollectionName(info.name)}.metadata.json`, metadataBytes.length);
+        yield metadataBytes;
+        yield tarPadding(metadataBytes.length);
+        if (dataCollection) {
+            yield* tarFileChunks(`dump/${dbName}/${escapeCollectionName(dataCollection)}.bson`, readDocuments(dataCollection));
+        }
+    }
+    yield TAR_END;
+}
+
+// Groups small string or Buffer pieces into larger chunks to keep per-write overhead low
+async function* batchChunks(source) {
+    let pending = [];
+    let size = 0;
+    const join = () => (typeof pending[0] === 'string' ? pending.join('') : Buffer.concat(pending));
+    for await (const piece of source) {
+        pending.push(piece);
+        size += piece.length;
+        if (size >= EXPORT_CHUNK_SIZE) {
+            yield join();
+            pending = [];
+            size = 0;
+        }
+    }
+    if (pending.length > 0) yield join();
+}
+
+// Counts the bytes sent, keeps the session alive and aborts the stream on cancel
+const createProgressStream = (job, session) => new Transform({
+    transform(chunk, encoding, callback) {
+        if (job.cancelled) return callback(new Error('Export cancelled'));
+        session.lastUsed = Date.now();
+        updateJobProgress(job, { bytes: job.progress.bytes + chunk.length });
+        callback(null, chunk);
+    }
+});
+
+const registerExport = (req, res, exportConfig) => {
+    const job = createJob(req.sessionId, 'export', { docs: 0, total: null, bytes: 0 });
+    job.export = exportConfig;
+    res.json({
+        jobId: job.id,
+        downloadUrl: `/api/export/download/${job.id}`,
+        filename: exportConfig.filename
+    });
+};
+
+// Export database: { dbName, collections?, format: 'json' | 'bson', jsonFormat, packaging, includeIndexes, gzip }
+app.post('/api/export/database', withMongo, async (req, res) => {
+    try {
+        const {
+            dbName,
+            collections,
+            format = 'json',
+            jsonFormat = 'relaxed',
+            packaging = 'tar',
+            includeIndexes = false,
+            gzip = false
+        } = req.body;
+        if (!dbName) return res.status(400).json({ error: 'Database name is required' });
+        if (format !== 'json' && format !== 'bson') return res.status(400).json({ error: 'Unsupported format. Use "json" or "bson"' });
+        if (format === 'bson' && !DUMP_PACKAGINGS[packaging]) {
+            return res.status(400).json({ error: 'Unsupported packaging. Use "tar" or "archive"' });
+        }
+
+        const extension = format === 'bson' ? DUMP_PACKAGINGS[packaging].extension : 'json';
+        registerExport(req, res, {
+            kind: 'database',
+            dbName,
+            collections: Array.isArray(collections) && collections.length > 0 ? collections : null,
+            format,
+            jsonFormat,
+            packaging,
+            includeIndexes: !!includeIndexes,
+            gzip: !!gzip,
+            filename: `${dbName}_${Date.now()}.${extension}${gzip ? '.gz' : ''}`
+        });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Export collection: { dbName, colName, filter, fields, format, jsonFormat, gzip }
+app.post('/api/export/collection', withMongo, async (req, res) => {
+    try {
+        const { dbName, colName, format = 'json', jsonFormat = 'relaxed', filter = {}, fields, gzip = false } = req.body;
+        if (!dbName || !colName) return res.status(400).json({ error: 'Database and collection names are required' });
+        if (!EXPORT_FORMATS[format]) return res.status(400).json({ error: 'Unsupported format. Use "json", "ndjson" or "csv"' });
+
+        registerExport(req, res, {
+            kind: 'collection',
+            dbName,
+            colName,
+            filter,
+            fields: Array.isArray(fields) ? fields : null,
+            format,
+            jsonFormat,
+            gzip: !!gzip,
+            filename: `${dbName}_${colName}_${Date.now()}.${EXPORT_FORMATS[format].extension}${gzip ? '.gz' : ''}`
+        });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Stream a registered export. Browser navigations cannot carry the session header, so
+// the unguessable job ID authorizes the download; each job can be downloaded once.
+app.get('/api/export/download/:jobId', async (req, res) => {
+    const job = jobs.get(req.params.jobId);
+    if (!job || job.type !== 'export') return res.status(404).json({ error: 'Export not found' });
+    if (job.status !== 'pending') return res.status(410).json({ error: 'Export has already been downloaded' });
+
+    const session = sessions.get(job.sessionId);
+    if (!session) return res.status(401).json({ error: 'Session expired or not found' });
+    session.lastUsed = Date.now();
+
+    const config = job.export;
+    updateJob(job, { status: 'running' });
+
+    let source;
+    try {
+        const db = session.client.db(config.dbName);
+        const mode = config.jsonFormat;
+        if (config.kind === 'database' && config.format === 'bson') {
+            const filter = config.collections ? { name: { $in: config.collections } } : {};
+            const infos = (await db.listCollections(filter).toArray())
+                .filter(info => !info.name.startsWith('system.'))
+                .sort((a, b) => a.name.localeCompare(b.name));
+            const counts = await Promise.all(infos.map(info => {
+                const dataCollection = getDumpDataCollection(info);
+                return dataCollection ? db.collection(dataCollection).estimatedDocumentCount() : 0;
+            }));
+            updateJobProgress(job, { total: counts.reduce((sum, count) => sum + count, 0) });
+            source = databaseDumpChunks(db, infos, job, config);
+        } else if (config.kind === 'database') {
+            const names = config.collections
+                || (await db.listCollections({ type: 'collection' }, { nameOnly: true }).toArray()).map(c => c.name);
+            const counts = await Promise.all(names.map(name => db.collection(name).estimatedDocumentCount()));
+            updateJobProgress(job, { total: counts.reduce((sum, count) => sum + count, 0) });
+            source = databaseJsonChunks(db, names, job, mode);
+        } else {
+            const col = db.collection(config.colName);
+            const filter = normalizeFilter(config.filter);
+            const total = Object.keys(filter).length > 0
+                ? await col.countDocuments(filter)
+                : await col.estimatedDocumentCount();
+            updateJobProgress(job, { total });
+
+            const cursor = col.find(filter, { ...BSON_READ_OPTIONS, batchSize: EXPORT_BATCH_SIZE });
+            if (config.format === 'csv') source = csvChunks(cursor, job, config.fields);
+            else if (config.format === 'ndjson') source = ndjsonChunks(cursor, job, mode);
+            else source = jsonArrayChunks(cursor, job, mode);
+        }
+
+        let contentType = EXPORT_FORMATS.json.contentType;
+        if (config.kind === 'collection') contentType = EXPORT_FORMATS[config.format].contentType;
+        else if (config.format === 'bson') contentType = DUMP_PACKAGINGS[config.packaging].contentType;
+        res.setHeader('Content-Type', config.gzip ? 'application/gzip' : contentType);
+        res.setHeader('Content-Disposition', contentDisposition(config.filename));
+    } catch (e) {
+        updateJob(job, { status: 'failed', error: e.message });
+        return res.status(500).json({ error: e.message });
+    }
+
+    const stages = [Readable.from(batchChunks(source))];
+    if (config.gzip) stages.push(createGzip());
+    stages.push(createProgressStream(job, session), res);
+
+    // pipeline() propagates backpressure from the response back to the cursor and closes
+    // the cursor if the client aborts the download
+    pipeline(stages, (err) => {
+        if (err) {
+            updateJob(job, { status: job.cancelled ? 'cancelled' : 'failed', error: err.message });
+        } else {
+            updateJob(job, { status: 'completed', result: { docs: job.progress.docs, bytes: job.progress.bytes } });
+        }
+    });
+});
+
+// --- Import ---
+// Imports are streamed as well. Starting an import registers a job describing the
+// target and the file layout; the raw file is then PUT to /api/import/upload/:jobId.
+// The body is scanned incrementally and inserted with insertMany in batches, so
+// neither the browser nor the server ever holds the whole file, while the client
+// polls the job for progress and per-document errors. BSON dumps (layout "dump") are
+// read the same way from tar, zip or mongodump --archive files.
+
+// Selectors (see server/jsonStream.js) picking the values to import for each layout
+const IMPORT_LAYOUTS = {
+    // A JSON array of documents, NDJSON or concatenated documents
+    documents: (path, firstChar) => (path.length === 0 && firstChar !== '[') || path.length === 1,
+    // The database export layout: { database, collections: [{ name, documents: [...] }] }
+    database: (path) => path[0] === 'collections'
+        && ((path.length === 3 && path[2] === 'name') || (path.length === 4 && path[2] === 'documents')),
+    // Collection names as keys: { name: [...] } or { name: { documents: [...] } }
+    collections: (path) => (path.length === 2 && typeof path[1] === 'number')
+        || (path.length === 3 && path[1] === 'documents')
+};
+
+const IMPORT_MODES = ['insert', 'overwrite', 'skip-duplicates'];
+const CSV_COLUMN_TYPES = ['string', 'int', 'double', 'bool', 'date', 'objectId', 'skip'];
+const IMPORT_DEFAULT_BATCH = 1000;
+const IMPORT_MAX_BATCH = 10000;
+// Per-document errors kept on the job; further failures are only counted
+const IMPORT_MAX_ERRORS = 1000;
+const DUPLICATE_KEY_ERROR = 11000;
+const NAMESPACE_EXISTS_ERROR = 48;
+// Databases of a full server dump that are never restored into the target database
+const DUMP_SKIPPED_DATABASES = ['admin', 'config', 'local'];
+
+// Validates CSV settings: { delimiter, header, ignoreBlanks, columns: [{ index, field, type, dateFormat }] }
+const normalizeCsvOptions = (csv) => {
+    if (!csv || !Array.isArray(csv.columns)) throw new Error('CSV imports need a column mapping');
+    const delimiter = csv.delimiter || ',';
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+        throw new Error('The CSV delimiter must be a single character other than a quote or line break');
+    }
+    const columns = csv.columns.map(column => {
+        if (!CSV_COLUMN_TYPES.includes(column.type)) throw new Error(`Unknown column type "${column.type}"`);
+        if (column.type !== 'skip' && !column.field) throw new Error(`Column ${column.index + 1} needs a target field`);
+        return { index: Number(column.index), field: column.field, type: column.type, dateFormat: column.dateFormat };
+    });
+    return { delimiter, header: csv.header !== false, ignoreBlanks: csv.ignoreBlanks !== false, columns };
+};
+
+const registerImport = (req, res, config) => {
+    const { layout = 'documents', batchSize, ordered = true, continueOnError = false, mode = 'insert', gzip = false, totalBytes = null, csv } = req.body;
+    if (!IMPORT_LAYOUTS[layout] && layout !== 'csv' && layout !== 'dump') {
+        return res.status(400).json({ error: 'Unsupported layout. Use "documents", "csv", "database", "collections" or "dump"' });
+    }
+    if (!IMPORT_MODES.includes(mode)) return res.status(400).json({ error: 'Unsupported mode. Use "insert", "overwrite" or "skip-duplicates"' });
+
+    let csvOptions = null;
+    if (layout === 'csv') {
+        try {
+            csvOptions = normalizeCsvOptions(csv);
+        } catch (e) {
+            return res.status(400).json({ error: e.message });
+        }
+    }
+
+    const job = createJob(req.sessionId, 'import', {
+        docs: 0,
+        total: null,
+        bytes: 0,
+        totalBytes,
+        inserted: 0,
+        failed: 0,
+        skipped: 0,
+        collection: config.colName || null,
+        errors: [],
+        // Problems that do not concern a single document, such as indexes that failed
+        warnings: []
+    });
+    job.import = {
+        ...config,
+        layout,
+        batchSize: Math.max(1, Math.min(Number(batchSize) || IMPORT_DEFAULT_BATCH, IMPORT_MAX_BATCH)),
+        ordered: !!ordered,
+        continueOnError: !!continueOnError,
+        mode,
+        gzip: !!gzip,
+        csv: csvOptions
+    };
+    res.json({ jobId: job.id });
+};
+
+// Start importing documents into one collection:
+// { layout: 'documents' | 'csv', csv, batchSize, ordered, continueOnError, mode, gzip, totalBytes }
+app.post('/api/import/collection/:dbName/:colName', withMongo, (req, res) => {
+    if (req.body.layout && !['documents', 'csv'].includes(req.body.layout)) {
+        return res.status(400).json({ error: 'Collection imports only support the "documents" and "csv" layouts' });
+    }
+    registerImport(req, res, { dbName: req.params.dbName, colName: req.params.colName });
+});
+
+// Start importing several collections into a database (layout "database" or "collections")
+app.post('/api/import/database/:dbName', withMongo, (req, res) => {
+    if (!['database', 'collections', 'dump'].includes(req.body.layout)) {
+        return res.status(400).json({ error: 'Database imports need the "database", "collections" or "dump" layout' });
+    }
+    registerImport(req, res, { dbName: req.params.dbName, colName: null });
+});
+
+// Turns the decoded upload into records { colName, index, build } where build() returns
+// the document to insert or throws for an invalid record. index counts records from 0.
+// Dumps also yield { colName, metadata } records with collection options and indexes.
+async function* readImportRecords(input, config, warn) {
+    let index = 0;
+    if (config.layout === 'dump') {
+        // Every collection is restored into the target database, so the dump may only
+        // hold one (user) database
+        let sourceDb = null;
+        const skipped = new Set();
+        for await (const entry of readDump(input)) {
+            const namespace = `${entry.db}.${entry.collection}`;
+            const isSystem = entry.collection.startsWith('system.') && !entry.collection.startsWith('system.buckets.');
+            if (DUMP_SKIPPED_DATABASES.includes(entry.db) || isSystem) {
+                if (!skipped.has(namespace)) warn(`Skipped ${namespace}`);
+                skipped.add(namespace);
+                continue;
+            }
+            if (sourceDb === null) sourceDb = entry.db;
+            if (entry.db !== sourceDb) {
+                throw new Error(`The dump contains more than one database (${sourceDb}, ${entry.db}); import them one at a time`);
+            }
+
+            if (entry.type === 'metadata') {
+                yield { colName: entry.collection, metadata: entry.metadata };
+            } else {
+                yield { colName: entry.collection, index: index++, build: () => BSON.deserialize(entry.data, BSON_READ_OPTIONS) };
+            }
+        }
+        return;
+    }
+
+    if (config.layout === 'csv') {
+        const { delimiter, header, ignoreBlanks, columns } = config.csv;
+        let skipHeader = header;
+        for await (const row of parseCsvRows(input, delimiter)) {
+            if (skipHeader) {
+                skipHeader = false;
+                continue;
+            }
+            yield { colName: config.colName, index: index++, build: () => csvRowToDocument(row, columns, ignoreBlanks) };
+        }
+        return;
+    }
+
+    const collectionNames = [];
+    for await (const { path, text } of scanJsonValues(input, IMPORT_LAYOUTS[config.layout])) {
+        if (config.layout === 'database' && path[2] === 'name') {
+            collectionNames[path[1]] = JSON.parse(text);
+            continue;
+        }
+        const colName = config.layout === 'documents'
+            ? config.colName
+            : config.layout === 'database' ? collectionNames[path[1]] : path[0];
+        yield {
+            colName,
+            index: index++,
+            build: () => {
+                const doc = parseEJSON(text);
+                if (!doc || typeof doc !== 'object' || Array.isArray(doc)) throw new Error('Value is not a document');
+                return doc;
+            }
+        };
+    }
+}
+
+// Upload the file of a registered import as the raw request body
+app.put('/api/import/upload/:jobId', withMongo, async (req, res) => {
+    const job = getSessionJob(req);
+    if (!job || job.type !== 'import') return res.status(404).json({ error: 'Import not found' });
+    if (job.status !== 'pending') return res.status(409).json({ error: 'Import has already been started' });
+
+    const config = job.import;
+    const progress = job.progress;
+    const db = req.dbClient.db(config.dbName);
+    const session = sessions.get(req.sessionId);
+    updateJob(job, { status: 'running' });
+
+    const countBytes = new Transform({
+        transform(chunk, encoding, callback) {
+            session.lastUsed = Date.now();
+            updateJobProgress(job, { bytes: progress.bytes + chunk.length });
+            callback(null, chunk);
+        }
+    });
+    const stages = [req, countBytes];
+    // Dumps are binary and detect gzip compression themselves
+    const isDump = config.layout === 'dump';
+    if (config.gzip && !isDump) stages.push(createGunzip());
+    const input = pipeline(stages, () => {});
+    if (!isDump) input.setEncoding('utf8');
+
+    const recordError = (error) => {
+        progress.failed++;
+        if (progress.errors.length < IMPORT_MAX_ERRORS) progress.errors.push(error);
+    };
+    const stopUnlessContinuing = () => {
+        if (!config.continueOnError) throw new Error(`Import stopped after ${progress.failed} failed document(s)`);
+    };
+    const warn = (message) => {
+        if (progress.warnings.length < IMPORT_MAX_ERRORS) progress.warnings.push(message);
+    };
+
+    const overwritten = new Set();
+    // Collections that received documents, and dump indexes to build once all data is in
+    const populated = new Set();
+    const pendingIndexes = new Map();
+    let batch = { colName: null, docs: [], indexes: [] };
+
+    const dropForOverwrite = async (colName) => {
+        if (config.mode !== 'overwrite' || overwritten.has(colName)) return;
+        overwritten.add(colName);
+        await db.collection(colName).drop().catch(() => {});
+    };
+
+    // Creates the collection with its dumped options (capped, validator, collation, time
+    // series, views, ...) unless documents were inserted into it already
+    const applyMetadata = async (colName, metadata) => {
+        await dropForOverwrite(colName);
+        if (populated.has(colName)) {
+            warn(`Options of ${colName} were not applied because its metadata came after its documents`);
         } else {
-            res.json({ success: true, insertedCount: 0 });
+            try {
+                await db.createCollection(colName, metadata.options || {});
+            } catch (e) {
+                warn(e.code === NAMESPACE_EXISTS_ERROR
+                    ? `${colName} already exists; its options were left unchanged`
+                    : `${colName} could not be created with its options: ${e.message}`);
+            }
+        }
+        // Time series data is restored into the buckets collection created along with it
+        if (metadata.type === 'timeseries') overwritten.add(`system.buckets.${colName}`);
+        const indexes = (metadata.indexes || [])
+            .filter(index => index.name !== '_id_')
+            .map(({ v, ns, ...index }) => index);
+        if (indexes.length > 0) pendingIndexes.set(colName, indexes);
+    };
+
+    const flush = async () => {
+        const { colName, docs, indexes } = batch;
+        batch = { colName, docs: [], indexes: [] };
+        if (docs.length === 0) return;
+
+        const col = db.collection(colName);
+        await dropForOverwrite(colName);
+        populated.add(colName);
+
+        // Ordered inserts stop at the first failing document; the remainder is retried
+        // from the document after it so every document gets exactly one attempt.
+        let offset = 0;
+        while (offset < docs.length) {
+            const slice = offset === 0 ? docs : docs.slice(offset);
+            try {
+                const result = await col.insertMany(slice, { ordered: config.ordered });
+                progress.inserted += result.insertedCount;
+                break;
+            } catch (e) {
+                if (!Array.isArray(e.writeErrors) || e.writeErrors.length === 0) throw e;
+                progress.inserted += e.insertedCount || 0;
+                let failures = 0;
+                for (const writeError of e.writeErrors) {
+                    if (config.mode === 'skip-duplicates' && writeError.code === DUPLICATE_KEY_ERROR) {
+                        progress.skipped++;
+                        continue;
+                    }
+                    failures++;
+                    recordError({
+                        index: indexes[offset + writeError.index],
+                        collection: colName,
+                        _id: slice[writeError.index]._id,
+                        code: writeError.code,
+                        message: writeError.errmsg
+                    });
+                }
+                if (failures > 0) stopUnlessContinuing();
+                if (!config.ordered) break;
+                offset += e.writeErrors[e.writeErrors.length - 1].index + 1;
+            }
+        }
+        job.updatedAt = Date.now();
+    };
+
+    try {
+        for await (const record of readImportRecords(input, config, warn)) {
+            if (job.cancelled) throw new Error('Import cancelled');
+
+            if (record.metadata) {
+                await flush();
+                await applyMetadata(record.colName, record.metadata);
+                continue;
+            }
+
+            let doc;
+            try {
+                if (!record.colName) throw new Error('Collection name must appear before its documents');
+                doc = record.build();
+            } catch (e) {
+                recordError({ index: record.index, collection: record.colName || null, message: e.message });
+                stopUnlessContinuing();
+                continue;
+            }
+
+            if (batch.colName !== record.colName || batch.docs.length >= config.batchSize) {
+                await flush();
+                batch.colName = record.colName;
+                updateJobProgress(job, { collection: record.colName });
+            }
+            batch.docs.push(doc);
+            batch.indexes.push(record.index);
+            progress.docs++;
+        }
+        await flush();
+
+        for (const [colName, indexes] of pendingIndexes) {
+            updateJobProgress(job, { collection: colName });
+            try {
+                await db.collection(colName).createIndexes(indexes);
+            } catch (e) {
+                warn(`Indexes of ${colName} could not be created: ${e.message}`);
+            }
+        }
+
+        updateJob(job, {
+            status: 'completed',
+            result: { inserted: progress.inserted, failed: progress.failed, skipped: progress.skipped }
+        });
+    } catch (e) {
+        let message = e.message;
+        if (e instanceof JsonScanError) message = `Invalid JSON: ${e.message}`;
+        else if (e instanceof DumpFormatError) message = `Invalid dump: ${e.message}`;
+        updateJob(job, { status: job.cancelled ? 'cancelled' : 'failed', error: message });
+    }
+    sendEJSON(req, res, serializeJob(job));
+});
+
+// --- Copy Collections ---
+// Copies (and clones, when the target database is the source one) run as jobs: the start
+// route creates the target and returns the job ID right away, the documents are copied in
+// the background and the client polls the job for progress.
+
+const COPY_BATCH_SIZE = 1000;
+
+// Collection options that describe storage rather than validation
+const COPY_OPTION_KEYS = ['capped', 'size', 'max', 'timeseries', 'expireAfterSeconds', 'clusteredIndex', 'collation', 'changeStreamPreAndPostImages'];
+const COPY_VALIDATOR_KEYS = ['validator', 'validationLevel', 'validationAction'];
+
+const pickOptions = (options, keys) => {
+    const picked = {};
+    for (const key of keys) {
+        if (options[key] !== undefined) picked[key] = options[key];
+    }
+    return picked;
+};
+
+// Recreates the source's secondary indexes on the target and returns how many. _id_ and
+// the clustered index come with the collection itself.
+const copyIndexes = async (source, target) => {
+    const indexes = (await source.indexes())
+        .filter(index => index.name !== '_id_' && !index.clustered)
+        .map(({ v, ns, ...index }) => index);
+    if (indexes.length > 0) await target.createIndexes(indexes);
+    return indexes.length;
+};
+
+const runCopy = async (job, session, source, target, { filter, includeIndexes }) => {
+    const progress = job.progress;
+    try {
+        updateJob(job, { status: 'running' });
+        updateJobProgress(job, { total: await source.countDocuments(filter) });
+
+        const cursor = source.find(filter, BSON_READ_OPTIONS);
+        let batch = [];
+        const flush = async () => {
+            if (batch.length === 0) return;
+            const docs = batch;
+            batch = [];
+            const result = await target.insertMany(docs, { ordered: true });
+            session.lastUsed = Date.now();
+            updateJobProgress(job, { inserted: progress.inserted + result.insertedCount });
+        };
+        try {
+            for await (const doc of cursor) {
+                if (job.cancelled) throw new Error('Copy cancelled');
+                batch.push(doc);
+                progress.docs++;
+                if (batch.length >= COPY_BATCH_SIZE) await flush();
+            }
+            await flush();
+        } finally {
+            await cursor.close();
+        }
+
+        if (includeIndexes) {
+            updateJobProgress(job, { phase: 'indexes' });
+            updateJobProgress(job, { indexes: await copyIndexes(source, target) });
+        }
+
+        updateJob(job, { status: 'completed', result: { inserted: progress.inserted, indexes: progress.indexes } });
+    } catch (e) {
+        updateJob(job, { status: job.cancelled ? 'cancelled' : 'failed', error: e.message });
+    }
+};
+
+// Start copying a collection:
+// { toDb, toCollection, filter, includeIndexes, includeValidator, includeOptions, dropTarget }
+app.post('/api/copy/collection/:dbName/:colName', withMongo, async (req, res) => {
+    try {
+        const { dbName, colName } = req.params;
+        const {
+            toDb = dbName,
+            toCollection,
+            filter,
+            includeIndexes = true,
+            includeValidator = true,
+            includeOptions = true,
+            dropTarget = false
+        } = req.body;
+        if (!toCollection) return res.status(400).json({ error: 'Target collection name is required' });
+        if (toDb === dbName && toCollection === colName) return res.status(400).json({ error: 'The target is the source collection' });
+
+        const sourceDb = req.dbClient.db(dbName);
+        const targetDb = req.dbClient.db(toDb);
+        const [info] = await sourceDb.listCollections({ name: colName }).toArray();
+        if (!info) return res.status(404).json({ error: 'Collection not found' });
+        if (info.type === 'view') return res.status(400).json({ error: 'Views cannot be copied; create a new view on the same source instead' });
+
+        let query;
+        try {
+            query = normalizeFilter(filter);
+        } catch (e) {
+            return res.status(400).json({ error: `Invalid filter: ${e.message}` });
+        }
+
+        const exists = await targetDb.listCollections({ name: toCollection }).hasNext();
+        if (exists && !dropTarget) return res.status(409).json({ error: `${toDb}.${toCollection} already exists` });
+        if (exists) await targetDb.collection(toCollection).drop();
+
+        const options = {
+            ...(includeOptions ? pickOptions(info.options || {}, COPY_OPTION_KEYS) : {}),
+            ...(includeValidator ? pickOptions(info.options || {}, COPY_VALIDATOR_KEYS) : {})
+        };
+        await targetDb.createCollection(toCollection, options);
+
+        const job = createJob(req.sessionId, 'copy', {
+            docs: 0,
+            total: null,
+            bytes: 0,
+            inserted: 0,
+            indexes: 0,
+            phase: 'documents',
+            collection: `${toDb}.${toCollection}`
+        });
+        runCopy(job, sessions.get(req.sessionId), sourceDb.collection(colName), targetDb.collection(toCollection), {
+            filter: query,
+            includeIndexes: !!includeIndexes
+        });
+        res.json({ jobId: job.id });
+    } catch (e) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// --- Migration ---
+// Streams collections from one connection to another through this server. The browser
+// opens both connections with /api/connect and passes their session IDs; the job itself
+// belongs to the session that started it. Every collection is copied in _id order and
+// its log entry records the last copied _id, so a failed or stopped migration resumes
+// from the returned log without copying documents twice.
+
+const MIGRATION_CONFLICT_POLICIES = ['skip', 'overwrite', 'fail'];
+
+// Turns a requested collection (or a log entry being resumed) into a fresh log entry
+const toMigrationEntry = (item) => {
+    if (!item || !item.db || !item.collection) throw new Error('Every collection needs a db and a collection name');
+    return {
+        db: item.db,
+        collection: item.collection,
+        toDb: item.toDb || item.db,
+        toCollection: item.toCollection || item.collection,
+        filter: item.filter || null,
+        status: item.status === 'completed' ? 'completed' : 'pending',
+        total: item.total ?? null,
+        copied: item.copied || 0,
+        skipped: item.skipped || 0,
+        indexes: item.indexes ?? null,
+        lastId: item.lastId === undefined || item.lastId === null ? null : fromEJSON(item.lastId),
+        error: null
+    };
+};
+
+// Writes one batch according to the conflict policy for documents whose _id already
+// exists in the target, and returns the _id of the last document that was written
+const writeMigrationBatch = async (target, docs, conflict, entry) => {
+    if (conflict === 'overwrite') {
+        const result = await target.bulkWrite(
+            docs.map(doc => ({ replaceOne: { filter: { _id: doc._id }, replacement: doc, upsert: true } })),
+            { ordered: true }
+        );
+        entry.copied += result.upsertedCount + result.matchedCount;
+        return docs[docs.length - 1]._id;
+    }
+    try {
+        const result = await target.insertMany(docs, { ordered: conflict === 'fail' });
+        entry.copied += result.insertedCount;
+        return docs[docs.length - 1]._id;
+    } catch (e) {
+        if (!Array.isArray(e.writeErrors) || e.writeErrors.length === 0) throw e;
+        entry.copied += e.insertedCount || 0;
+        if (conflict === 'fail') {
+            // Ordered inserts stop at the failing document; everything before it is in
+            const { index, code, errmsg } = e.writeErrors[0];
+            if (index > 0) entry.lastId = docs[index - 1]._id;
+            throw new Error(code === DUPLICATE_KEY_ERROR
+                ? `Document ${JSON.stringify(toEJSON(docs[index]._id, 'relaxed'))} already exists in ${entry.toDb}.${entry.toCollection}`
+                : errmsg);
+        }
+        const other = e.writeErrors.find(writeError => writeError.code !== DUPLICATE_KEY_ERROR);
+        if (other) throw new Error(other.errmsg);
+        entry.skipped += e.writeErrors.length;
+        return docs[docs.length - 1]._id;
+    }
+};
+
+// Views hold no documents of their own: the target gets the same definition, with viewOn
+// naming a collection of the target database. An existing view is only redefined with
+// the overwrite policy; an existing collection is never replaced by a view.
+const migrateView = async (targetDb, entry, info, conflict) => {
+    if (Object.keys(normalizeFilter(entry.filter)).length > 0) {
+        throw new Error(`${entry.db}.${entry.collection} is a view; its definition is copied, so it takes no filter`);
+    }
+    entry.total = 0;
+    const { viewOn, pipeline = [] } = info.options;
+    const existing = await targetDb.listCollections({ name: entry.toCollection }).next();
+    if (!existing) {
+        await targetDb.createCollection(entry.toCollection, pickOptions(info.options, ['viewOn', 'pipeline', 'collation']));
+        return;
+    }
+    if (conflict === 'skip') return;
+    if (conflict === 'fail' || existing.type !== 'view') {
+        throw new Error(`${entry.toDb}.${entry.toCollection} already exists on the target`);
+    }
+    await targetDb.command({ collMod: entry.toCollection, viewOn, pipeline });
+};
+
+const migrateCollection = async (job, entry, clients, { conflict, includeIndexes }) => {
+    const sourceDb = clients.source.db(entry.db);
+    const targetDb = clients.target.db(entry.toDb);
+    const source = sourceDb.collection(entry.collection);
+    const target = targetDb.collection(entry.toCollection);
+
+    const [info] = await sourceDb.listCollections({ name: entry.collection }).toArray();
+    if (!info) throw new Error(`${entry.db}.${entry.collection} does not exist on the source`);
+    if (info.type === 'view') return migrateView(targetDb, entry, info, conflict);
+    // A new target gets the source's options; an existing one is written into as it is
+    const targetExists = await targetDb.listCollections({ name: entry.toCollection }).hasNext();
+    if (!targetExists) {
+        await targetDb.createCollection(entry.toCollection, pickOptions(info.options || {}, [...COPY_OPTION_KEYS, ...COPY_VALIDATOR_KEYS]));
+    }
+
+    const filter = normalizeFilter(entry.filter);
+    entry.total = await source.countDocuments(filter);
+    const query = entry.lastId === null ? filter : { $and: [filter, afterIdFilter(entry.lastId)] };
+    const cursor = source.find(query, { ...BSON_READ_OPTIONS, sort: { _id: 1 } });
+    let batch = [];
+    const flush = async () => {
+        if (batch.length === 0) return;
+        const docs = batch;
+        batch = [];
+        entry.lastId = await writeMigrationBatch(target, docs, conflict, entry);
+        for (const session of clients.sessions) session.lastUsed = Date.now();
+        job.updatedAt = Date.now();
+    };
+    try {
+        for await (const doc of cursor) {
+            if (job.cancelled) throw new Error('Migration cancelled');
+            batch.push(doc);
+            job.progress.docs++;
+            if (batch.length >= COPY_BATCH_SIZE) await flush();
+        }
+        await flush();
+    } finally {
+        await cursor.close();
+    }
+
+    if (includeIndexes && entry.indexes === null) {
+        entry.indexes = await copyIndexes(source, target);
+    }
+};
+
+const runMigration = async (job, clients, options) => {
+    const { log } = job.progress;
+    updateJob(job, { status: 'running' });
+    let current = null;
+    try {
+        for (const entry of log) {
+            if (entry.status === 'completed') continue;
+            if (job.cancelled) throw new Error('Migration cancelled');
+            current = entry;
+            entry.status = 'running';
+            updateJobProgress(job, { collection: `${entry.db}.${entry.collection}` });
+            await migrateCollection(job, entry, clients, options);
+            entry.status = 'completed';
+        }
+        const copied = log.reduce((sum, entry) => sum + entry.copied, 0);
+        const skipped = log.reduce((sum, entry) => sum + entry.skipped, 0);
+        updateJob(job, { status: 'completed', result: { copied, skipped } });
+    } catch (e) {
+        // A stopped collection resumes where it was; a failed one shows why
+        if (current) {
+            current.status = job.cancelled ? 'pending' : 'failed';
+            current.error = job.cancelled ? null : e.message;
+        }
+        updateJob(job, { status: job.cancelled ? 'cancelled' : 'failed', error: e.message });
+    }
+};
+
+// Start a migration:
+// { sourceSession, targetSession, items: [{ db, collection, toDb, toCollection, filter }],
+//   conflict: 'skip' | 'overwrite' | 'fail', includeIndexes, log }
+// Passing the log of an earlier run instead of items resumes it.
+app.post('/api/migrate', withMongo, async (req, res) => {
+    try {
+        const { sourceSession, targetSession, items, log, conflict = 'fail', includeIndexes = true } = req.body;
+        const source = sessions.get(sourceSession);
+        const target = sessions.get(targetSession);
+        if (!source) return res.status(400).json({ error: 'The source connection is closed; connect it again' });
+        if (!target) return res.status(400).json({ error: 'The target connection is closed; connect it again' });
+        if (!MIGRATION_CONFLICT_POLICIES.includes(conflict)) {
+            return res.status(400).json({ error: 'Unsupported conflict policy. Use "skip", "overwrite" or "fail"' });
+        }
+
+        const requested = Array.isArray(log) ? log : items;
+        if (!Array.isArray(requested) || requested.length === 0) return res.status(400).json({ error: 'Choose at least one collection' });
+        let entries;
+        try {
+            entries = requested.map(toMigrationEntry);
+            entries.forEach(entry => normalizeFilter(entry.filter));
+        } catch (e) {
+            return res.status(400).json({ error: e.message });
+        }
+        if (sourceSession === targetSession && entries.some(entry => entry.db === entry.toDb && entry.collection === entry.toCollection)) {
+            return res.status(400).json({ error: 'A collection cannot be migrated onto itself' });
         }
+
+        const job = createJob(req.sessionId, 'migration', {
+            docs: 0,
+            // Totals are counted per collection as each one starts
+            total: null,
+            bytes: 0,
+            collection: null,
+            log: entries
+        });
+        runMigration(job, {
+            source: source.client,
+            target: target.client,
+            sessions: [source, target, sessions.get(req.sessionId)]
+        }, { conflict, includeIndexes: !!includeIndexes });
+        res.json({ jobId: job.id });
     } catch (e) {
         res.status(500).json({ error: e.message });
     }
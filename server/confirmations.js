@@ -0,0 +1,31 @@
+// Single-use confirmation tokens for access control changes. The client asks for a token
+// naming the exact request ("DELETE /api/users/app/alice") once the user has confirmed
+// it; the request then spends the token. A replayed request, one for another target or
+// one sent without asking first finds no token and is refused.
+
+import { randomUUID } from 'crypto';
+
+// How long a token waits for its request
+export const CONFIRMATION_TTL_MS = 60 * 1000;
+
+export const createConfirmations = (now = Date.now) => {
+    const pending = new Map();
+    return {
+        issue(action) {
+            for (const [token, entry] of pending) {
+                if (entry.expiresAt <= now()) pending.delete(token);
+            }
+            const token = randomUUID();
+            pending.set(token, { action, expiresAt: now() + CONFIRMATION_TTL_MS });
+            return token;
+        },
+        // True if the token was issued for this action and has not expired; either way
+        // it cannot be used again
+        consume(token, action) {
+            const entry = typeof token === 'string' ? pending.get(token) : undefined;
+            if (!entry) return false;
+            pending.delete(token);
+            return entry.action === action && entry.expiresAt > now();
+        }
+    };
+};
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createConfirmations, CONFIRMATION_TTL_MS } from './confirmations.js';
+
+const DROP_ALICE = 'DELETE /api/users/app/alice';
+
+test('a token confirms its request once', () => {
+    const confirmations = createConfirmations();
+    const token = confirmations.issue(DROP_ALICE);
+    assert.equal(confirmations.consume(token, DROP_ALICE), true);
+    assert.equal(confirmations.consume(token, DROP_ALICE), false);
+});
+
+test('a token does not confirm another request', () => {
+    const confirmations = createConfirmations();
+    const token = confirmations.issue(DROP_ALICE);
+    assert.equal(confirmations.consume(token, 'DELETE /api/users/app/bob'), false);
+    // Spent by the failed attempt as well
+    assert.equal(confirmations.consume(token, DROP_ALICE), false);
+});
+
+test('requests without a token or with an expired one are refused', () => {
+    let clock = 0;
+    const confirmations = createConfirmations(() => clock);
+    assert.equal(confirmations.consume(undefined, DROP_ALICE), false);
+    assert.equal(confirmations.consume(true, DROP_ALICE), false);
+
+    const token = confirmations.issue(DROP_ALICE);
+    clock += CONFIRMATION_TTL_MS;
+    assert.equal(confirmations.consume(token, DROP_ALICE), false);
+});
@@ -0,0 +1,195 @@
+import { Int32, Double, ObjectId } from 'bson';
+
+// Streaming CSV/TSV reader and row → document conversion for the CSV importer.
+
+// Yields every record of a delimited text stream as an array of raw cell strings.
+// Follows RFC 4180: quoted cells may contain delimiters, "" escapes and line breaks;
+// both \n and \r\n end a record.
+export async function* parseCsvRows(source, delimiter = ',') {
+    let row = [];
+    let cell = '';
+    let inQuotes = false;
+    // A quote just closed; the next char decides between "" escape and end of quoting
+    let quotePending = false;
+    let started = false;
+    let rowHasContent = false;
+
+    for await (let chunk of source) {
+        if (!started) {
+            started = true;
+            if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+        }
+        const rows = [];
+        let start = 0;
+
+        for (let i = 0; i < chunk.length; i++) {
+            const c = chunk[i];
+            if (inQuotes) {
+                if (quotePending) {
+                    quotePending = false;
+                    if (c === '"') {
+                        // Escaped quote: keep this one and stay inside the quoted section
+                        start = i;
+                        continue;
+                    }
+                    inQuotes = false;
+                } else {
+                    if (c === '"') {
+                        cell += chunk.slice(start, i);
+                        start = i + 1;
+                        quotePending = true;
+                    }
+                    continue;
+                }
+            }
+
+            if (c === '"' && cell === '' && start === i) {
+                inQuotes = true;
+                rowHasContent = true;
+                start = i + 1;
+            } else if (c === delimiter) {
+                row.push(cell + chunk.slice(start, i));
+                cell = '';
+                start = i + 1;
+                rowHasContent = true;
+            } else if (c === '\n' || c === '\r') {
+                const value = cell + chunk.slice(start, i);
+                if (rowHasContent || value !== '') {
+                    row.push(value);
+                    rows.push(row);
+                }
+                row = [];
+                cell = '';
+                rowHasContent = false;
+                start = i + 1;
+            }
+        }
+        cell += chunk.slice(start);
+        yield* rows;
+    }
+
+    if (inQuotes && !quotePending) throw new Error('Unterminated quoted cell at end of input');
+    if (rowHasContent || cell !== '') {
+        row.push(cell);
+        yield row;
+    }
+}
+
+const DATE_TOKENS = {
+    YYYY: '(\\d{4})',
+    MM: '(\\d{1,2})',
+    DD: '(\\d{1,2})',
+    HH: '(\\d{1,2})',
+    mm: '(\\d{1,2})',
+    ss: '(\\d{1,2})',
+    SSS: '(\\d{1,3})'
+};
+const DATE_TOKEN_REGEX = /YYYY|SSS|MM|DD|HH|mm|ss/g;
+const dateFormatCache = new Map();
+
+// Compiles a format such as "DD/MM/YYYY HH:mm" into a regex plus token order
+const compileDateFormat = (format) => {
+    let compiled = dateFormatCache.get(format);
+    if (compiled) return compiled;
+    const tokens = [];
+    let pattern = '';
+    let last = 0;
+    for (const match of format.matchAll(DATE_TOKEN_REGEX)) {
+        pattern += format.slice(last, match.index).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        pattern += DATE_TOKENS[match[0]];
+        tokens.push(match[0]);
+        last = match.index + match[0].length;
+    }
+    pattern += format.slice(last).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    compiled = { regex: new RegExp(`^${pattern}$`), tokens };
+    dateFormatCache.set(format, compiled);
+    return compiled;
+};
+
+// Parses a date cell. Besides token formats (interpreted as UTC) the special formats
+// "iso", "epoch_ms" and "epoch_s" are accepted.
+export const parseDateCell = (value, format = 'iso') => {
+    let date;
+    if (format === 'iso') {
+        date = new Date(value);
+    } else if (format === 'epoch_ms' || format === 'epoch_s') {
+        if (!/^-?\d+(\.\d+)?$/.test(value)) throw new Error(`"${value}" is not a timestamp`);
+        date = new Date(Number(value) * (format === 'epoch_s' ? 1000 : 1));
+    } else {
+        const { regex, tokens } = compileDateFormat(format);
+        const match = value.match(regex);
+        if (!match) throw new Error(`"${value}" does not match date format ${format}`);
+        const parts = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0, SSS: 0 };
+        tokens.forEach((token, i) => { parts[token] = Number(match[i + 1]); });
+        date = new Date(Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss, parts.SSS));
+        if (date.getUTCMonth() !== parts.MM - 1 || date.getUTCDate() !== parts.DD) {
+            throw new Error(`"${value}" is not a valid date`);
+        }
+    }
+    if (Number.isNaN(date.getTime())) throw new Error(`"${value}" is not a valid date`);
+    return date;
+};
+
+const TRUE_VALUES = ['true', 't', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'f', 'no', 'n', '0'];
+
+export const convertCsvCell = (value, column) => {
+    switch (column.type) {
+        case 'string':
+            return value;
+        case 'int': {
+            if (!/^[-+]?\d+$/.test(value.trim())) throw new Error(`"${value}" is not an integer`);
+            const number = Number(value);
+            if (number < -2147483648 || number > 2147483647) throw new Error(`${value} does not fit in a 32-bit integer`);
+            return new Int32(number);
+        }
+        case 'double': {
+            const number = Number(value.trim());
+            if (value.trim() === '' || Number.isNaN(number)) throw new Error(`"${value}" is not a number`);
+            return new Double(number);
+        }
+        case 'bool': {
+            const normalized = value.trim().toLowerCase();
+            if (TRUE_VALUES.includes(normalized)) return true;
+            if (FALSE_VALUES.includes(normalized)) return false;
+            throw new Error(`"${value}" is not a boolean`);
+        }
+        case 'date':
+            return parseDateCell(value.trim(), column.dateFormat || 'iso');
+        case 'objectId':
+            if (!ObjectId.isValid(value.trim()) || value.trim().length !== 24) throw new Error(`"${value}" is not an ObjectId`);
+            return new ObjectId(value.trim());
+        default:
+            throw new Error(`Unknown column type "${column.type}"`);
+    }
+};
+
+// Builds a document from a record; dotted field paths create nested documents.
+// Blank cells are left out when ignoreBlanks is set. Errors name the failing column.
+export const csvRowToDocument = (row, columns, ignoreBlanks = true) => {
+    const doc = {};
+    for (const column of columns) {
+        if (column.type === 'skip' || !column.field) continue;
+        const raw = row[column.index] ?? '';
+        if (raw === '' && ignoreBlanks) continue;
+
+        let value;
+        try {
+            value = convertCsvCell(raw, column);
+        } catch (e) {
+            throw new Error(`Column "${column.field}": ${e.message}`);
+        }
+
+        const keys = column.field.split('.');
+        let target = doc;
+        for (const key of keys.slice(0, -1)) {
+            if (target[key] === undefined) target[key] = {};
+            else if (typeof target[key] !== 'object' || target[key] === null || target[key] instanceof Date || target[key]._bsontype) {
+                throw new Error(`Field "${column.field}" conflicts with another mapped column`);
+            }
+            target = target[key];
+        }
+        target[keys[keys.length - 1]] = value;
+    }
+    return doc;
+};
@@ -0,0 +1,67 @@
+// Version tokens for single-document edits. The editor loads a document with its token
+// and sends the token back with the update; a different token means someone else
+// changed the document in between.
+
+import { createHash } from 'crypto';
+import { BSON } from 'bson';
+
+const EMBEDDED_DOCUMENT = 3;
+const ARRAY = 4;
+
+// Hash of the stored bytes of a document read with { raw: true }, so the token does not
+// depend on what survives the trip through JSON in the browser (field order, Int64
+// precision, numeric types)
+export const documentVersion = (raw) => createHash('sha256').update(raw).digest('base64url');
+
+// The raw document as nested Maps. JavaScript objects move integer-like field names such
+// as "2024" to the front, so only Maps serialize back to the stored bytes, which lets the
+// write match the stored document whole with $$ROOT.
+const toStoredOrder = (raw, options, isArray = false) => {
+    const bytes = Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength);
+    const entries = BSON.onDemand.parseToElements(bytes).map(([type, nameOffset, nameLength, offset, length]) => {
+        const name = bytes.toString('utf8', nameOffset, nameOffset + nameLength);
+        if (type === EMBEDDED_DOCUMENT || type === ARRAY) {
+            return [name, toStoredOrder(bytes.subarray(offset, offset + length), options, type === ARRAY)];
+        }
+        // Any other value is read on its own as a one-field document: the type byte, the
+        // name and the value, framed by a length and the terminating zero
+        const element = bytes.subarray(nameOffset - 1, offset + length);
+        const single = Buffer.alloc(element.length + 5);
+        single.writeInt32LE(single.length, 0);
+        element.copy(single, 4);
+        return [name, BSON.deserialize(single, options)[name]];
+    });
+    return isArray ? entries.map(([, value]) => value) : new Map(entries);
+};
+
+// Deserializes a raw document along with its token and `root`, the same document in its
+// stored field order for matching it with $$ROOT
+export const readVersionedDocument = (raw, options) => ({
+    document: BSON.deserialize(raw, options),
+    version: documentVersion(raw),
+    root: toStoredOrder(raw, options)
+});
+
+// Runs write(match) on document `id` if its token is still `version`. The stored document
+// is read first to compare tokens, and the write also requires the stored document itself,
+// so a change between that read and the write does not get overwritten either.
+// Resolves to { status: 'written', result }, { status: 'conflict', stored } with the
+// current document and token, or { status: 'missing' } when the document is gone.
+// Without a version the write is not guarded.
+export const writeIfVersion = async (col, id, version, write, options) => {
+    const match = { _id: id };
+    if (version !== undefined) {
+        const raw = await col.findOne(match, { raw: true });
+        if (raw) {
+            const stored = readVersionedDocument(raw, options);
+            if (stored.version !== version) return { status: 'conflict', stored };
+            // $literal keeps "$"-prefixed strings from being read as paths
+            match.$expr = { $eq: ['$$ROOT', { $literal: stored.root }] };
+        }
+    }
+    const result = await write(match);
+    if (result.matchedCount > 0) return { status: 'written', result };
+    if (version === undefined) return { status: 'missing' };
+    const raw = await col.findOne({ _id: id }, { raw: true });
+    return raw ? { status: 'conflict', stored: readVersionedDocument(raw, options) } : { status: 'missing' };
+};
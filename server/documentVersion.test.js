@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BSON, EJSON, Long } from 'bson';
+import { documentVersion, readVersionedDocument, writeIfVersion } from './documentVersion.js';
+
+const READ_OPTIONS = { promoteValues: false };
+
+// Stored as { _id: 1, name: 'x', 2024: 5, big: 2^53 + 1 }; a Map keeps the field order
+const storedBytes = () => BSON.serialize(new Map([
+    ['_id', 1],
+    ['name', 'x'],
+    ['2024', 5],
+    ['big', Long.fromString('9007199254740993')]
+]));
+
+test('the version of a document does not depend on its trip through the browser', () => {
+    const raw = storedBytes();
+    const { document, version } = readVersionedDocument(raw, READ_OPTIONS);
+
+    // What the editor sees: JSON moves "2024" to the front
+    const inBrowser = JSON.parse(JSON.stringify(EJSON.serialize(document, { relaxed: true })));
+    assert.deepEqual(Object.keys(inBrowser), ['2024', '_id', 'name', 'big']);
+
+    // The stored document is unchanged, so reading it again gives the same token
+    assert.equal(readVersionedDocument(storedBytes(), READ_OPTIONS).version, version);
+    assert.equal(document.big.toString(), '9007199254740993');
+});
+
+test('a changed document gets a new version', () => {
+    const changed = BSON.serialize(new Map([
+        ['_id', 1],
+        ['name', 'x'],
+        ['2024', 5],
+        ['big', Long.fromString('9007199254740994')]
+    ]));
+    assert.notEqual(documentVersion(changed), documentVersion(storedBytes()));
+});
+
+test('documents with integer-like field names are matched whole in their stored order', () => {
+    const nested = BSON.serialize(new Map([
+        ['_id', 1],
+        ['years', new Map([['total', 2], ['2023', 1]])],
+        ['rows', [new Map([['name', 'a'], ['7', true]])]]
+    ]));
+    for (const raw of [storedBytes(), nested]) {
+        const { root } = readVersionedDocument(raw, READ_OPTIONS);
+        assert.equal(Buffer.compare(BSON.serialize(root), raw), 0);
+    }
+});
+
+// A collection holding one stored document as raw bytes. The write applies when the
+// filter's $$ROOT literal is exactly the stored document, as the server compares it.
+// `beforeWrite` runs between the version check and the write, like a concurrent edit.
+const fakeCollection = (raw, beforeWrite = () => {}) => {
+    const col = {
+        stored: raw,
+        written: false,
+        findOne: async () => col.stored,
+        write: async (match) => {
+            beforeWrite(col);
+            const root = match.$expr?.$eq[1].$literal;
+            const matches = col.stored !== null
+                && (root === undefined || Buffer.compare(BSON.serialize(root), col.stored) === 0);
+            col.written = matches;
+            return { matchedCount: matches ? 1 : 0 };
+        }
+    };
+    return col;
+};
+
+const changeBig = (col) => {
+    col.stored = BSON.serialize(new Map([
+        ['_id', 1],
+        ['name', 'x'],
+        ['2024', 5],
+        ['big', Long.fromString('9007199254740994')]
+    ]));
+};
+
+test('an edit of the current version is written', async () => {
+    const col = fakeCollection(storedBytes());
+    const outcome = await writeIfVersion(col, 1, documentVersion(storedBytes()), col.write, READ_OPTIONS);
+    assert.equal(outcome.status, 'written');
+    assert.equal(col.written, true);
+});
+
+test('an edit of a stale version is a conflict with the current version', async () => {
+    const col = fakeCollection(storedBytes());
+    changeBig(col);
+    const outcome = await writeIfVersion(col, 1, documentVersion(storedBytes()), col.write, READ_OPTIONS);
+    assert.equal(outcome.status, 'conflict');
+    assert.equal(outcome.stored.version, documentVersion(col.stored));
+    assert.equal(outcome.stored.document.big.toString(), '9007199254740994');
+    assert.equal(col.written, false);
+});
+
+test('a change between the version check and the write is a conflict', async () => {
+    const col = fakeCollection(storedBytes(), changeBig);
+    const outcome = await writeIfVersion(col, 1, documentVersion(storedBytes()), col.write, READ_OPTIONS);
+    assert.equal(outcome.status, 'conflict');
+    assert.equal(outcome.stored.version, documentVersion(col.stored));
+    assert.equal(col.written, false);
+});
+
+test('an edit of a deleted document is missing', async () => {
+    const deletedBefore = fakeCollection(null);
+    assert.equal((await writeIfVersion(deletedBefore, 1, documentVersion(storedBytes()), deletedBefore.write, READ_OPTIONS)).status, 'missing');
+
+    const deletedDuring = fakeCollection(storedBytes(), col => { col.stored = null; });
+    assert.equal((await writeIfVersion(deletedDuring, 1, documentVersion(storedBytes()), deletedDuring.write, READ_OPTIONS)).status, 'missing');
+});
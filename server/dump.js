@@ -0,0 +1,611 @@
+import { BSON, EJSON, Long } from 'bson';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, pipeline } from 'stream';
+import { pipeline as pipelinePromise } from 'stream/promises';
+import { createGunzip, createInflateRaw } from 'zlib';
+
+// Binary dump formats shared with mongodump/mongorestore.
+//
+// A dump holds one `<db>/<collection>.bson` file (the raw BSON documents back to back)
+// and one `<db>/<collection>.metadata.json` file (options and indexes as canonical
+// Extended JSON) per collection. MongoDeck writes that layout as a tar file or as a
+// mongodump --archive stream, and reads it back from tar, zip or archive files, each
+// optionally gzipped.
+
+export class DumpFormatError extends Error {}
+
+// Largest BSON document accepted: 16MB plus the headroom the server allows internally
+const MAX_BSON_SIZE = 16 * 1024 * 1024 + 16 * 1024;
+
+// --- Byte reader ---
+
+// Pulls exact byte counts out of a stream of Buffers without copying more than needed
+export class ByteReader {
+    constructor(source) {
+        this.iterator = source[Symbol.asyncIterator]();
+        this.chunks = [];
+        this.length = 0;
+        this.done = false;
+    }
+
+    // Buffers at least n bytes; returns false if the stream ends first
+    async fill(n) {
+        while (this.length < n && !this.done) {
+            const { value, done } = await this.iterator.next();
+            if (done) {
+                this.done = true;
+            } else if (value.length > 0) {
+                const chunk = Buffer.isBuffer(value) ? value : Buffer.from(value);
+                this.chunks.push(chunk);
+                this.length += chunk.length;
+            }
+        }
+        return this.length >= n;
+    }
+
+    async atEnd() {
+        return !(await this.fill(1));
+    }
+
+    // Removes n buffered bytes
+    take(n) {
+        let result;
+        const first = this.chunks[0];
+        if (first.length >= n) {
+            result = first.subarray(0, n);
+            if (first.length === n) this.chunks.shift();
+            else this.chunks[0] = first.subarray(n);
+        } else {
+            result = Buffer.allocUnsafe(n);
+            let offset = 0;
+            while (offset < n) {
+                const chunk = this.chunks[0];
+                const count = Math.min(chunk.length, n - offset);
+                chunk.copy(result, offset, 0, count);
+                offset += count;
+                if (count === chunk.length) this.chunks.shift();
+                else this.chunks[0] = chunk.subarray(count);
+            }
+        }
+        this.length -= n;
+        return result;
+    }
+
+    async read(n) {
+        if (!(await this.fill(n))) throw new DumpFormatError('Unexpected end of file');
+        return this.take(n);
+    }
+
+    // Returns up to n bytes without consuming them
+    async peek(n) {
+        await this.fill(n);
+        const available = Math.min(n, this.length);
+        if (available === 0) return Buffer.alloc(0);
+        const bytes = this.take(available);
+        this.chunks.unshift(bytes);
+        this.length += available;
+        return bytes;
+    }
+
+    async skip(n) {
+        let remaining = n;
+        while (remaining > 0) {
+            if (!(await this.fill(1))) throw new DumpFormatError('Unexpected end of file');
+            remaining -= this.take(Math.min(remaining, this.chunks[0].length)).length;
+        }
+    }
+
+    // Iterates over the next n bytes chunk by chunk; `remaining` tracks what was not read
+    limit(n) {
+        const reader = this;
+        const body = {
+            remaining: n,
+            async *[Symbol.asyncIterator]() {
+                while (body.remaining > 0) {
+                    if (!(await reader.fill(1))) throw new DumpFormatError('Unexpected end of file');
+                    const chunk = reader.take(Math.min(body.remaining, reader.chunks[0].length));
+                    body.remaining -= chunk.length;
+                    yield chunk;
+                }
+            }
+        };
+        return body;
+    }
+
+    // Everything left in the stream, starting with the buffered bytes
+    async *rest() {
+        while (this.chunks.length > 0) {
+            const chunk = this.chunks.shift();
+            this.length -= chunk.length;
+            yield chunk;
+        }
+        while (!this.done) {
+            const { value, done } = await this.iterator.next();
+            if (done) this.done = true;
+            else yield value;
+        }
+    }
+}
+
+const gunzipReader = (reader) => new ByteReader(pipeline(Readable.from(reader.rest()), createGunzip(), () => {}));
+
+// Reads one BSON document as raw bytes. Returns null at the end of the stream, or
+// TERMINATOR for the 0xFFFFFFFF marker that closes blocks in archive files.
+const TERMINATOR = Symbol('terminator');
+
+const readBsonDocument = async (reader) => {
+    const sizeBytes = await reader.peek(4);
+    if (sizeBytes.length === 0) return null;
+    if (sizeBytes.length < 4) throw new DumpFormatError('Unexpected end of file');
+    const size = sizeBytes.readInt32LE(0);
+    if (size === -1) {
+        await reader.skip(4);
+        return TERMINATOR;
+    }
+    if (size < 5 || size > MAX_BSON_SIZE) throw new DumpFormatError(`Invalid BSON document size ${size}`);
+    return reader.read(size);
+};
+
+// --- CRC-64 ---
+
+// CRC-64 with the ECMA polynomial in reflected form, as Go's hash/crc64 computes it.
+// mongorestore checks it for every namespace of an archive. 64-bit values are kept as
+// two 32-bit halves.
+const CRC64_POLY_HI = 0xc96c5795;
+const CRC64_POLY_LO = 0xd7870f42;
+const CRC64_TABLE_HI = new Uint32Array(256);
+const CRC64_TABLE_LO = new Uint32Array(256);
+
+for (let n = 0; n < 256; n++) {
+    let hi = 0;
+    let lo = n;
+    for (let k = 0; k < 8; k++) {
+        const carry = lo & 1;
+        lo = ((lo >>> 1) | ((hi & 1) << 31)) >>> 0;
+        hi >>>= 1;
+        if (carry) {
+            hi = (hi ^ CRC64_POLY_HI) >>> 0;
+            lo = (lo ^ CRC64_POLY_LO) >>> 0;
+        }
+    }
+    CRC64_TABLE_HI[n] = hi;
+    CRC64_TABLE_LO[n] = lo;
+}
+
+export const createCrc64 = () => {
+    let hi = 0xffffffff;
+    let lo = 0xffffffff;
+    return {
+        update(bytes) {
+            for (let i = 0; i < bytes.length; i++) {
+                const index = (lo ^ bytes[i]) & 0xff;
+                lo = (((lo >>> 8) | (hi << 24)) ^ CRC64_TABLE_LO[index]) >>> 0;
+                hi = ((hi >>> 8) ^ CRC64_TABLE_HI[index]) >>> 0;
+            }
+        },
+        // Signed 64-bit value, the way the archive stores it
+        digest() {
+            return Long.fromBits((lo ^ 0xffffffff) | 0, (hi ^ 0xffffffff) | 0);
+        }
+    };
+};
+
+// --- Collection files ---
+
+// mongodump percent-escapes collection names in file names
+export const escapeCollectionName = (name) => encodeURIComponent(name);
+
+const unescapeCollectionName = (name) => {
+    try {
+        return decodeURIComponent(name);
+    } catch {
+        return name;
+    }
+};
+
+// The content of <collection>.metadata.json. `info` is the listCollections entry.
+export const buildMetadata = (info, indexes) => {
+    const metadata = {
+        options: info.options || {},
+        indexes: indexes || [],
+        collectionName: info.name,
+        type: info.type || 'collection'
+    };
+    if (info.info && info.info.uuid) metadata.uuid = info.info.uuid.toString('hex');
+    return EJSON.stringify(metadata, { relaxed: false });
+};
+
+// Splits "dump/shop/orders.bson.gz" into { db: 'shop', collection: 'orders', kind: 'bson', gzip: true }.
+// Files outside a database directory (oplog.bson, prelude.json) are not collection files.
+const parseDumpPath = (name) => {
+    const parts = name.replace(/\\/g, '/').split('/').filter(part => part && part !== '.');
+    if (parts.length < 2 || parts.some(part => part === '__MACOSX')) return null;
+    const file = parts[parts.length - 1];
+    const match = file.match(/^(.+)\.(bson|metadata\.json)(\.gz)?$/);
+    if (!match || file.startsWith('._')) return null;
+    return {
+        db: parts[parts.length - 2],
+        collection: unescapeCollectionName(match[1]),
+        kind: match[2] === 'bson' ? 'bson' : 'metadata',
+        gzip: !!match[3]
+    };
+};
+
+const readAll = async (source) => {
+    const chunks = [];
+    for await (const chunk of source) chunks.push(chunk);
+    return Buffer.concat(chunks);
+};
+
+// --- Tar ---
+
+const TAR_BLOCK = 512;
+// Largest size that fits the 11 octal digits of a ustar header
+const TAR_MAX_OCTAL_SIZE = 0o77777777777;
+export const TAR_END = Buffer.alloc(TAR_BLOCK * 2);
+
+export const tarPadding = (size) => Buffer.alloc((TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK);
+
+const writeOctal = (block, value, offset, length) => {
+    block.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+};
+
+const tarHeaderBlock = (name, size, mtime, type) => {
+    const block = Buffer.alloc(TAR_BLOCK);
+    block.write(name, 0, 100, 'utf8');
+    writeOctal(block, 0o644, 100, 8);
+    writeOctal(block, 0, 108, 8);
+    writeOctal(block, 0, 116, 8);
+    writeOctal(block, size > TAR_MAX_OCTAL_SIZE ? 0 : size, 124, 12);
+    writeOctal(block, mtime, 136, 12);
+    block.fill(' ', 148, 156);
+    block.write(type, 156, 1, 'ascii');
+    block.write('ustar\u000000', 257, 8, 'ascii');
+    let checksum = 0;
+    for (let i = 0; i < TAR_BLOCK; i++) checksum += block[i];
+    block.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+    return block;
+};
+
+// A pax record is "<length> <key>=<value>\n" where the length counts the whole record
+const paxRecord = (key, value) => {
+    const body = ` ${key}=${value}\n`;
+    let length = Buffer.byteLength(body) + 1;
+    while (String(length).length + Buffer.byteLength(body) !== length) length++;
+    return `${length}${body}`;
+};
+
+// Header block(s) for a regular file. Names over 100 bytes and sizes over 8GB go into
+// a preceding pax extended header.
+export const tarHeader = (name, size, mtime = Math.floor(Date.now() / 1000)) => {
+    const records = [];
+    if (Buffer.byteLength(name) > 100) records.push(paxRecord('path', name));
+    if (size > TAR_MAX_OCTAL_SIZE) records.push(paxRecord('size', size));
+    if (records.length === 0) return tarHeaderBlock(name, size, mtime, '0');
+
+    const pax = Buffer.from(records.join(''));
+    return Buffer.concat([
+        tarHeaderBlock('PaxHeader', pax.length, mtime, 'x'),
+        pax,
+        tarPadding(pax.length),
+        tarHeaderBlock(name.slice(0, 100), size, mtime, '0')
+    ]);
+};
+
+const readTarString = (block, offset, length) => {
+    const end = block.indexOf(0, offset);
+    return block.toString('utf8', offset, end === -1 || end > offset + length ? offset + length : end);
+};
+
+const readTarNumber = (block, offset, length) => {
+    // GNU base-256 encoding for values that do not fit in octal
+    if (block[offset] & 0x80) {
+        let value = block[offset] & 0x7f;
+        for (let i = 1; i < length; i++) value = value * 256 + block[offset + i];
+        return value;
+    }
+    const text = readTarString(block, offset, length).trim();
+    return text ? parseInt(text, 8) : 0;
+};
+
+const parsePax = (bytes) => {
+    const records = {};
+    let offset = 0;
+    while (offset < bytes.length) {
+        const space = bytes.indexOf(0x20, offset);
+        if (space === -1) break;
+        const length = parseInt(bytes.toString('ascii', offset, space), 10);
+        if (!length) break;
+        const record = bytes.toString('utf8', space + 1, offset + length - 1);
+        const equals = record.indexOf('=');
+        if (equals > 0) records[record.slice(0, equals)] = record.slice(equals + 1);
+        offset += length;
+    }
+    return records;
+};
+
+// Yields { name, body } for every regular file; each body must be consumed (or
+// abandoned) before asking for the next entry
+async function* readTarEntries(reader) {
+    let pax = {};
+    let longName = null;
+    while (await reader.fill(TAR_BLOCK)) {
+        const block = reader.take(TAR_BLOCK);
+        if (block.every(byte => byte === 0)) break;
+
+        let checksum = 0;
+        for (let i = 0; i < TAR_BLOCK; i++) checksum += i >= 148 && i < 156 ? 32 : block[i];
+        if (checksum !== readTarNumber(block, 148, 8)) throw new DumpFormatError('Invalid tar header checksum');
+
+        const type = String.fromCharCode(block[156]);
+        const size = pax.size !== undefined ? Number(pax.size) : readTarNumber(block, 124, 12);
+        const padding = (TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK;
+
+        if (type === 'x' || type === 'L') {
+            const data = await reader.read(size);
+            await reader.skip(padding);
+            if (type === 'x') pax = parsePax(data);
+            else longName = readTarString(data, 0, data.length);
+            continue;
+        }
+
+        const prefix = readTarString(block, 345, 155);
+        const shortName = readTarString(block, 0, 100);
+        const name = pax.path || longName || (prefix ? `${prefix}/${shortName}` : shortName);
+        pax = {};
+        longName = null;
+
+        if (type === '0' || type === '\0' || type === '7') {
+            const body = reader.limit(size);
+            yield { name, body };
+            await reader.skip(body.remaining + padding);
+        } else {
+            await reader.skip(size + padding);
+        }
+    }
+}
+
+// --- Zip ---
+
+// Zip files keep their directory at the end, so the upload is spooled to a temporary
+// file first. Entries are stored or deflated; ZIP64 sizes and offsets are supported.
+async function* readZipEntries(reader) {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mongodeck-'));
+    const file = path.join(dir, 'upload.zip');
+    let handle = null;
+    try {
+        await pipelinePromise(Readable.from(reader.rest()), fs.createWriteStream(file));
+        handle = await fs.promises.open(file, 'r');
+        const { size } = await handle.stat();
+
+        const readAt = async (position, length) => {
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(buffer, 0, length, position);
+            if (bytesRead < length) throw new DumpFormatError('Unexpected end of zip file');
+            return buffer;
+        };
+
+        // The end of central directory record sits within the last 64KB + 22 bytes
+        const tailLength = Math.min(size, 65557);
+        const tail = await readAt(size - tailLength, tailLength);
+        let eocd = -1;
+        for (let i = tail.length - 22; i >= 0; i--) {
+            if (tail.readUInt32LE(i) === 0x06054b50) {
+                eocd = i;
+                break;
+            }
+        }
+        if (eocd === -1) throw new DumpFormatError('Zip central directory not found');
+
+        let count = tail.readUInt16LE(eocd + 10);
+        let directoryOffset = tail.readUInt32LE(eocd + 16);
+        if (count === 0xffff || directoryOffset === 0xffffffff) {
+            const locator = eocd - 20;
+            if (locator < 0 || tail.readUInt32LE(locator) !== 0x07064b50) throw new DumpFormatError('Zip64 locator not found');
+            const record = await readAt(Number(tail.readBigUInt64LE(locator + 8)), 56);
+            count = Number(record.readBigUInt64LE(32));
+            directoryOffset = Number(record.readBigUInt64LE(48));
+        }
+
+        let position = directoryOffset;
+        for (let i = 0; i < count; i++) {
+            const header = await readAt(position, 46);
+            if (header.readUInt32LE(0) !== 0x02014b50) throw new DumpFormatError('Invalid zip central directory');
+            const method = header.readUInt16LE(10);
+            let compressedSize = header.readUInt32LE(20);
+            let localOffset = header.readUInt32LE(42);
+            const nameLength = header.readUInt16LE(28);
+            const extraLength = header.readUInt16LE(30);
+            const commentLength = header.readUInt16LE(32);
+            const variable = await readAt(position + 46, nameLength + extraLength);
+            const name = variable.toString('utf8', 0, nameLength);
+            position += 46 + nameLength + extraLength + commentLength;
+
+            // ZIP64 extra field: 64-bit values for the fields saturated above, in order
+            let extra = nameLength;
+            while (extra + 4 <= variable.length) {
+                const id = variable.readUInt16LE(extra);
+                const length = variable.readUInt16LE(extra + 2);
+                if (id === 0x0001) {
+                    let field = extra + 4;
+                    if (header.readUInt32LE(24) === 0xffffffff) field += 8;
+                    if (compressedSize === 0xffffffff) {
+                        compressedSize = Number(variable.readBigUInt64LE(field));
+                        field += 8;
+                    }
+                    if (localOffset === 0xffffffff) localOffset = Number(variable.readBigUInt64LE(field));
+                }
+                extra += 4 + length;
+            }
+
+            if (name.endsWith('/')) continue;
+            if (method !== 0 && method !== 8) throw new DumpFormatError(`Unsupported zip compression method ${method} for ${name}`);
+
+            const local = await readAt(localOffset, 30);
+            if (local.readUInt32LE(0) !== 0x04034b50) throw new DumpFormatError(`Invalid zip entry ${name}`);
+            const start = localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+            // The file is only opened once the body is read
+            const body = (async function* () {
+                if (compressedSize === 0) return;
+                const raw = fs.createReadStream(file, { start, end: start + compressedSize - 1 });
+                yield* method === 8 ? pipeline(raw, createInflateRaw(), () => {}) : raw;
+            })();
+            yield { name, body };
+        }
+    } finally {
+        if (handle) await handle.close();
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+// --- Archive ---
+
+// mongodump --archive: a magic number, then blocks of BSON documents each closed by a
+// terminator. The first block is the prelude (archive header followed by collection
+// metadata); every later block starts with a namespace header followed by documents
+// of that namespace. A header with EOF set ends a namespace and carries its CRC.
+const ARCHIVE_MAGIC = 0x8199e26d;
+export const ARCHIVE_TERMINATOR = Buffer.from([0xff, 0xff, 0xff, 0xff]);
+
+// collections: [{ db, collection, metadata (JSON text), type }]
+export const archivePrelude = (collections, serverVersion) => {
+    const magic = Buffer.alloc(4);
+    magic.writeUInt32LE(ARCHIVE_MAGIC);
+    return Buffer.concat([
+        magic,
+        BSON.serialize({
+            concurrent_collections: 1,
+            version: '0.1',
+            server_version: serverVersion,
+            tool_version: 'mongodeck'
+        }),
+        ...collections.map(({ db, collection, metadata, type }) => BSON.serialize({
+            db,
+            collection,
+            metadata,
+            size: 0,
+            type
+        })),
+        ARCHIVE_TERMINATOR
+    ]);
+};
+
+export const archiveNamespaceHeader = (db, collection, eof = false, crc = Long.ZERO) => BSON.serialize({
+    db,
+    collection,
+    EOF: eof,
+    CRC: crc
+});
+
+async function* readArchive(reader) {
+    await reader.skip(4);
+    const header = await readBsonDocument(reader);
+    if (!header || header === TERMINATOR) throw new DumpFormatError('Missing archive header');
+
+    for (;;) {
+        const raw = await readBsonDocument(reader);
+        if (raw === null) throw new DumpFormatError('Unexpected end of archive prelude');
+        if (raw === TERMINATOR) break;
+        const entry = BSON.deserialize(raw);
+        if (entry.metadata) {
+            yield { type: 'metadata', db: entry.db, collection: entry.collection, metadata: EJSON.parse(entry.metadata, { relaxed: false }) };
+        }
+    }
+
+    // Namespaces may be split over several blocks, so checksums are kept per namespace
+    const checksums = new Map();
+    for (;;) {
+        const raw = await readBsonDocument(reader);
+        if (raw === null) break;
+        if (raw === TERMINATOR) throw new DumpFormatError('Archive block without a namespace header');
+        const namespace = BSON.deserialize(raw, { promoteLongs: false });
+        const key = `${namespace.db}.${namespace.collection}`;
+        if (!checksums.has(key)) checksums.set(key, createCrc64());
+        const crc = checksums.get(key);
+        if (namespace.EOF && namespace.CRC && !Long.fromValue(namespace.CRC).isZero() && !crc.digest().equals(namespace.CRC)) {
+            throw new DumpFormatError(`Checksum mismatch for ${key}; the archive is corrupt`);
+        }
+        for (;;) {
+            const doc = await readBsonDocument(reader);
+            if (doc === null) throw new DumpFormatError(`Unexpected end of archive in ${key}`);
+            if (doc === TERMINATOR) break;
+            crc.update(doc);
+            yield { type: 'document', db: namespace.db, collection: namespace.collection, data: doc };
+        }
+    }
+}
+
+// --- Reading dumps ---
+
+// Turns the files of a dump directory into metadata and document events
+async function* readDumpFiles(entries) {
+    for await (const entry of entries) {
+        const file = parseDumpPath(entry.name);
+        if (!file) continue;
+        const body = file.gzip ? pipeline(Readable.from(entry.body), createGunzip(), () => {}) : entry.body;
+
+        if (file.kind === 'metadata') {
+            const text = (await readAll(body)).toString('utf8');
+            if (text.trim()) {
+                yield { type: 'metadata', db: file.db, collection: file.collection, metadata: EJSON.parse(text, { relaxed: false }) };
+            }
+            continue;
+        }
+
+        const reader = new ByteReader(body);
+        for (;;) {
+            const doc = await readBsonDocument(reader);
+            if (doc === null) break;
+            if (doc === TERMINATOR) throw new DumpFormatError(`Invalid BSON in ${entry.name}`);
+            yield { type: 'document', db: file.db, collection: file.collection, data: doc };
+        }
+    }
+}
+
+// Reads a tar, zip or archive dump (each optionally gzipped) from a stream of Buffers.
+// Yields { type: 'metadata', db, collection, metadata } and
+// { type: 'document', db, collection, data } where data is the raw BSON document.
+export async function* readDump(source) {
+    let reader = new ByteReader(source);
+    let magic = await reader.peek(2);
+    if (magic.length === 2 && magic[0] === 0x1f && magic[1] === 0x8b) {
+        reader = gunzipReader(reader);
+    }
+
+    magic = await reader.peek(TAR_BLOCK);
+    if (magic.length >= 4 && magic.readUInt32LE(0) === ARCHIVE_MAGIC) {
+        yield* readArchive(reader);
+    } else if (magic.length >= 4 && magic.readUInt32LE(0) === 0x04034b50) {
+        yield* readDumpFiles(readZipEntries(reader));
+    } else if (magic.length === TAR_BLOCK && magic.toString('ascii', 257, 262) === 'ustar') {
+        yield* readDumpFiles(readTarEntries(reader));
+    } else {
+        throw new DumpFormatError('Unrecognized dump. Expected a tar or zip of a mongodump directory, or a mongodump --archive file');
+    }
+}
+
+// --- Writing dumps ---
+
+// Tar headers need the entry size up front, so the content is spooled to a temporary
+// file before it is copied into the stream
+export async function* tarFileChunks(name, source) {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mongodeck-'));
+    const file = path.join(dir, 'entry');
+    try {
+        let size = 0;
+        const counted = (async function* () {
+            for await (const chunk of source) {
+                size += chunk.length;
+                yield chunk;
+            }
+        })();
+        await pipelinePromise(Readable.from(counted), fs.createWriteStream(file));
+        yield tarHeader(name, size);
+        yield* fs.createReadStream(file);
+        yield tarPadding(size);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,218 @@
+// Incremental JSON scanner used by the streaming importers.
+//
+// The scanner only tracks the structure of the input (containers, keys, strings and
+// literals) and hands back the raw text of the values selected by the caller, so a
+// multi-GB dump is never materialized: at most one selected value (e.g. one document)
+// is buffered at a time. Any number of top-level values may follow each other, which
+// covers a single JSON array as well as NDJSON and mongoexport's concatenated output.
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+
+export class JsonScanError extends SyntaxError {
+    constructor(message, position) {
+        super(`${message} at position ${position}`);
+        this.position = position;
+    }
+}
+
+export class JsonStreamScanner {
+    // select(path, firstChar) decides whether the value starting at `path` (array of
+    // object keys / array indexes) is captured whole; onValue(path, text) receives it.
+    constructor(select, onValue) {
+        this.select = select;
+        this.onValue = onValue;
+        this.stack = [{ type: 'root', expect: 'value' }];
+        this.offset = 0;
+        this.inString = false;
+        this.escaped = false;
+        this.stringRole = null;
+        this.keyParts = null;
+        this.inLiteral = false;
+        this.capture = null;
+        this.started = false;
+    }
+
+    // Path of the value about to start: one key or index per open container
+    currentPath() {
+        return this.stack.slice(1).map(frame => (frame.type === 'array' ? frame.index : frame.key));
+    }
+
+    write(chunk) {
+        let text = chunk;
+        if (!this.started) {
+            this.started = true;
+            // Strip a UTF-8 byte order mark
+            if (text.charCodeAt(0) === 0xfeff) {
+                text = text.slice(1);
+                this.offset++;
+            }
+        }
+
+        let captureStart = this.capture ? 0 : -1;
+        let keyStart = this.keyParts ? 0 : -1;
+
+        for (let i = 0; i < text.length; i++) {
+            const c = text[i];
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (c === '\\') {
+                    this.escaped = true;
+                } else if (c === '"') {
+                    this.inString = false;
+                    if (this.stringRole === 'key') {
+                        if (this.keyParts) {
+                            this.keyParts.push(text.slice(keyStart, i + 1));
+                            this.finishKey();
+                            keyStart = -1;
+                        } else {
+                            this.stack[this.stack.length - 1].expect = 'colon';
+                        }
+                    } else if (this.endValue(text, i + 1, captureStart)) {
+                        captureStart = -1;
+                    }
+                }
+                continue;
+            }
+
+            if (this.inLiteral) {
+                if (WHITESPACE.has(c) || c === ',' || c === ']' || c === '}') {
+                    this.inLiteral = false;
+                    if (this.endValue(text, i, captureStart)) captureStart = -1;
+                } else {
+                    continue;
+                }
+            }
+
+            if (WHITESPACE.has(c)) continue;
+
+            const frame = this.stack[this.stack.length - 1];
+            const position = this.offset + i;
+
+            if (frame.type === 'object' && frame.expect === 'key') {
+                if (c === '"') {
+                    this.inString = true;
+                    this.stringRole = 'key';
+                    // Keys are only decoded where they are needed to build paths
+                    if (!this.capture) {
+                        this.keyParts = [];
+                        keyStart = i;
+                    }
+                    continue;
+                }
+                if (c === '}' && !frame.hasEntries) {
+                    if (this.closeContainer(text, i, captureStart)) captureStart = -1;
+                    continue;
+                }
+                throw new JsonScanError(`Expected a property name but found "${c}"`, position);
+            }
+
+            if (frame.type === 'object' && frame.expect === 'colon') {
+                if (c !== ':') throw new JsonScanError(`Expected ":" but found "${c}"`, position);
+                frame.expect = 'value';
+                continue;
+            }
+
+            if (frame.expect === 'comma') {
+                if (c === ',') {
+                    if (frame.type === 'array') {
+                        frame.index++;
+                        frame.expect = 'value';
+                    } else {
+                        frame.expect = 'key';
+                    }
+                    continue;
+                }
+                if ((c === ']' && frame.type === 'array') || (c === '}' && frame.type === 'object')) {
+                    if (this.closeContainer(text, i, captureStart)) captureStart = -1;
+                    continue;
+                }
+                throw new JsonScanError(`Expected "," or "${frame.type === 'array' ? ']' : '}'}" but found "${c}"`, position);
+            }
+
+            // A value is expected
+            if (c === ']' && frame.type === 'array' && frame.index === 0) {
+                if (this.closeContainer(text, i, captureStart)) captureStart = -1;
+                continue;
+            }
+            if (c === ',' || c === ':' || c === ']' || c === '}') {
+                throw new JsonScanError(`Unexpected "${c}"`, position);
+            }
+
+            if (!this.capture && this.select(this.currentPath(), c)) {
+                this.capture = { depth: this.stack.length, parts: [], path: this.currentPath() };
+                captureStart = i;
+            }
+
+            if (c === '{') {
+                this.stack.push({ type: 'object', expect: 'key', key: null, hasEntries: false });
+            } else if (c === '[') {
+                this.stack.push({ type: 'array', expect: 'value', index: 0 });
+            } else if (c === '"') {
+                this.inString = true;
+                this.stringRole = 'value';
+            } else if (c === '-' || (c >= '0' && c <= '9') || c === 't' || c === 'f' || c === 'n') {
+                this.inLiteral = true;
+            } else {
+                throw new JsonScanError(`Unexpected "${c}"`, position);
+            }
+        }
+
+        if (this.capture && captureStart !== -1) this.capture.parts.push(text.slice(captureStart));
+        if (this.keyParts && keyStart !== -1) this.keyParts.push(text.slice(keyStart));
+        this.offset += text.length;
+    }
+
+    end() {
+        if (this.inLiteral) {
+            this.inLiteral = false;
+            this.endValue('', 0, this.capture ? 0 : -1);
+        }
+        if (this.inString || this.stack.length > 1) {
+            throw new JsonScanError('Unexpected end of input', this.offset);
+        }
+    }
+
+    finishKey() {
+        const frame = this.stack[this.stack.length - 1];
+        frame.key = JSON.parse(this.keyParts.join(''));
+        frame.expect = 'colon';
+        this.keyParts = null;
+    }
+
+    closeContainer(text, i, captureStart) {
+        this.stack.pop();
+        return this.endValue(text, i + 1, captureStart);
+    }
+
+    // Called when a value ends right before text[end]; emits it if it was captured.
+    // Returns true when a capture was completed.
+    endValue(text, end, captureStart) {
+        const frame = this.stack[this.stack.length - 1];
+        if (frame.type === 'object') frame.hasEntries = true;
+        frame.expect = frame.type === 'root' ? 'value' : 'comma';
+
+        if (!this.capture || this.capture.depth !== this.stack.length) return false;
+        const { parts, path } = this.capture;
+        if (captureStart !== -1) parts.push(text.slice(captureStart, end));
+        this.capture = null;
+        this.onValue(path, parts.join(''));
+        return true;
+    }
+}
+
+// Reads a text stream and yields { path, text } for every selected value. The source
+// is consumed chunk by chunk, so slow consumers apply backpressure to the upload.
+export async function* scanJsonValues(source, select) {
+    let pending = [];
+    const scanner = new JsonStreamScanner(select, (path, text) => pending.push({ path, text }));
+    for await (const chunk of source) {
+        scanner.write(chunk);
+        const values = pending;
+        pending = [];
+        yield* values;
+    }
+    scanner.end();
+    yield* pending;
+}
@@ -0,0 +1,67 @@
+// Resuming a migration after the last copied _id. Collections are copied in _id order,
+// which sorts values of different BSON types by type first (numbers before strings,
+// strings before ObjectIds, and so on), so "after lastId" means a greater value of the
+// same type bracket or any value of a later one.
+
+// $type aliases by bracket, in the order the server sorts them. Arrays cannot be _ids.
+const ID_TYPE_BRACKETS = [
+    ['minKey'],
+    ['undefined', 'null'],
+    ['double', 'int', 'long', 'decimal'],
+    ['symbol', 'string'],
+    ['object'],
+    ['binData'],
+    ['objectId'],
+    ['bool'],
+    ['date'],
+    ['timestamp'],
+    ['regex'],
+    ['maxKey']
+];
+
+const BSON_TYPE_ALIASES = {
+    MinKey: 'minKey',
+    Int32: 'int',
+    Double: 'double',
+    Long: 'long',
+    Decimal128: 'decimal',
+    BSONSymbol: 'symbol',
+    Binary: 'binData',
+    ObjectId: 'objectId',
+    Timestamp: 'timestamp',
+    BSONRegExp: 'regex',
+    MaxKey: 'maxKey'
+};
+
+// The $type alias of a deserialized value, or null for types without a known sort position
+const typeAlias = (value) => {
+    if (value === null) return 'null';
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'number' || typeof value === 'bigint') return 'double';
+    if (typeof value === 'string') return 'string';
+    if (typeof value === 'boolean') return 'bool';
+    if (value instanceof Date) return 'date';
+    if (value instanceof RegExp) return 'regex';
+    if (Array.isArray(value)) return null;
+    if (value._bsontype) return BSON_TYPE_ALIASES[value._bsontype] ?? null;
+    return 'object';
+};
+
+// Position of a value's type in the _id sort order, or -1 if it is not known
+export const idTypeBracket = (value) => {
+    const alias = typeAlias(value);
+    return ID_TYPE_BRACKETS.findIndex(bracket => bracket.includes(alias));
+};
+
+// A filter for the _ids sorting after lastId. A plain $gt only matches values of lastId's
+// own type bracket, so the later brackets are added with $type; both forms get index
+// bounds on _id. Types of unknown position fall back to the aggregation $gt, which
+// compares across brackets but has to scan the whole index.
+export const afterIdFilter = (lastId) => {
+    const bracket = idTypeBracket(lastId);
+    if (bracket === -1) return { $expr: { $gt: ['$_id', { $literal: lastId }] } };
+    const later = ID_TYPE_BRACKETS.slice(bracket + 1).flat();
+    return later.length === 0
+        ? { _id: { $gt: lastId } }
+        : { $or: [{ _id: { $gt: lastId } }, { _id: { $type: later } }] };
+};
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Binary, Double, Int32, Long, MaxKey, MinKey, ObjectId, Timestamp, BSONRegExp } from 'bson';
+import { afterIdFilter, idTypeBracket } from './migration.js';
+
+// One _id of each kind in the order { _id: 1 } sorts them, with its $type alias
+const SORTED_IDS = [
+    [new MinKey(), 'minKey'],
+    [null, 'null'],
+    [new Int32(1), 'int'],
+    [new Double(2.5), 'double'],
+    [new Long(3), 'long'],
+    ['a', 'string'],
+    ['b', 'string'],
+    [{ region: 'eu' }, 'object'],
+    [new Binary(Buffer.from('x')), 'binData'],
+    [new ObjectId('650000000000000000000000'), 'objectId'],
+    [true, 'bool'],
+    [new Date('2024-01-01'), 'date'],
+    [new Timestamp({ t: 1, i: 1 }), 'timestamp'],
+    [new BSONRegExp('x'), 'regex'],
+    [new MaxKey(), 'maxKey']
+];
+
+// Evaluates the filter on the position of an _id in SORTED_IDS: $gt holds for later
+// values of the same type bracket, $type for the listed aliases
+const matches = (filter, index) => {
+    if (filter.$or) return filter.$or.some(branch => matches(branch, index));
+    const [value, alias] = SORTED_IDS[index];
+    if (filter._id.$type) return filter._id.$type.includes(alias);
+    const lastIndex = SORTED_IDS.findIndex(([id]) => id === filter._id.$gt);
+    return index > lastIndex && idTypeBracket(value) === idTypeBracket(filter._id.$gt);
+};
+
+test('a resumed migration continues after lastId across _id types', () => {
+    SORTED_IDS.forEach(([lastId], lastIndex) => {
+        const filter = afterIdFilter(lastId);
+        const resumed = SORTED_IDS.map((_, index) => index).filter(index => matches(filter, index));
+        assert.deepEqual(resumed, SORTED_IDS.map((_, index) => index).slice(lastIndex + 1), `after ${SORTED_IDS[lastIndex][1]}`);
+    });
+});
+
+test('the resume filter uses _id ranges the index can serve', () => {
+    assert.deepEqual(afterIdFilter('b'), {
+        $or: [
+            { _id: { $gt: 'b' } },
+            { _id: { $type: ['object', 'binData', 'objectId', 'bool', 'date', 'timestamp', 'regex', 'maxKey'] } }
+        ]
+    });
+    assert.deepEqual(afterIdFilter(new MaxKey()), { _id: { $gt: new MaxKey() } });
+});
+
+test('plain numbers and Longs sort with the other numbers', () => {
+    assert.equal(idTypeBracket(7), idTypeBracket(new Int32(7)));
+    assert.equal(idTypeBracket(Long.fromString('9007199254740993')), idTypeBracket(new Double(1.5)));
+    assert.ok(idTypeBracket('7') > idTypeBracket(7));
+});
@@ -0,0 +1,83 @@
+// Groups database profiler entries (system.profile) by query shape for the slow query view.
+
+// The shape of a query keeps its field names and operators and drops the values, so
+// { age: { $gt: 30 } } and { age: { $gt: 65 } } count as the same query
+export const queryShape = (value) => {
+    if (Array.isArray(value)) {
+        // $in: [1, 2, 3] and $in: [4] share a shape; the array length is not part of it
+        return value.length > 0 && value.every(item => item !== null && typeof item === 'object' && !item._bsontype)
+            ? value.map(queryShape)
+            : value.length > 0 ? ['?'] : [];
+    }
+    if (value === null || typeof value !== 'object' || value._bsontype || value instanceof Date || value instanceof RegExp) {
+        return '?';
+    }
+    const shape = {};
+    for (const [key, item] of Object.entries(value)) shape[key] = queryShape(item);
+    return shape;
+};
+
+// The filter, sort and pipeline of a profiled operation. getMore entries describe the
+// cursor's originating command and take the shape of the find or aggregate that opened it.
+export const profiledQuery = (entry) => {
+    const command = (entry.op === 'getmore' && entry.originatingCommand) || entry.command || entry.query || {};
+    if (Array.isArray(command.pipeline)) return { pipeline: command.pipeline };
+    const filter = command.filter ?? command.q ?? command.query;
+    const query = {};
+    if (filter && typeof filter === 'object') query.filter = filter;
+    if (command.sort && typeof command.sort === 'object') query.sort = command.sort;
+    return query;
+};
+
+const numberOf = (value) => (typeof value === 'number' ? value : Number(value) || 0);
+
+// Folds profiler entries into one group per (op, namespace, query shape), the groups that
+// took the most time in total first. Each group keeps its slowest entry so the user can
+// look at or explain a concrete query.
+export const groupProfileEntries = (entries) => {
+    const groups = new Map();
+    for (const entry of entries) {
+        const query = profiledQuery(entry);
+        const shape = {};
+        if (query.filter) shape.filter = queryShape(query.filter);
+        if (query.sort) shape.sort = query.sort;
+        if (query.pipeline) shape.pipeline = queryShape(query.pipeline);
+        const key = JSON.stringify([entry.op, entry.ns, shape]);
+
+        let group = groups.get(key);
+        if (!group) {
+            group = {
+                op: entry.op,
+                ns: entry.ns,
+                shape,
+                count: 0,
+                totalMillis: 0,
+                maxMillis: -1,
+                docsExamined: 0,
+                keysExamined: 0,
+                nreturned: 0,
+                planSummaries: [],
+                lastSeen: null,
+                slowest: null
+            };
+            groups.set(key, group);
+        }
+
+        const millis = numberOf(entry.millis);
+        group.count++;
+        group.totalMillis += millis;
+        group.docsExamined += numberOf(entry.docsExamined);
+        group.keysExamined += numberOf(entry.keysExamined);
+        group.nreturned += numberOf(entry.nreturned);
+        if (entry.planSummary && !group.planSummaries.includes(entry.planSummary)) group.planSummaries.push(entry.planSummary);
+        if (entry.ts && (!group.lastSeen || entry.ts > group.lastSeen)) group.lastSeen = entry.ts;
+        if (millis > group.maxMillis) {
+            group.maxMillis = millis;
+            group.slowest = { ts: entry.ts, millis, ...query, command: entry.command };
+        }
+    }
+
+    return [...groups.values()]
+        .map(group => ({ ...group, avgMillis: group.count ? group.totalMillis / group.count : 0 }))
+        .sort((a, b) => b.totalMillis - a.totalMillis);
+};
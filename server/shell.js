@@ -0,0 +1,733 @@
+import { ObjectId, Int32, Long, Double, Decimal128, Timestamp, Binary, UUID, MinKey, MaxKey, BSONRegExp } from 'bson';
+
+// Parser for the subset of mongosh syntax accepted by the command endpoint.
+//
+// Input is tokenized and parsed into a small expression AST; nothing is ever evaluated
+// as JavaScript. The AST is then compiled into a plain command description such as
+// { kind: 'collection', collection: 'users', method: 'find', args: [...], chain: [...] }
+// that only names whitelisted methods and carries BSON values as arguments. Every
+// error reports the offset, line and column of the offending input.
+
+export class ShellSyntaxError extends SyntaxError {
+    constructor(message, position, source) {
+        const { line, column } = getLineColumn(source, position);
+        super(`${message} at line ${line}, column ${column}`);
+        this.position = { offset: position, line, column };
+    }
+}
+
+const getLineColumn = (source, offset) => {
+    const before = source.slice(0, offset);
+    const lines = before.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// --- Tokenizer ---
+
+const PUNCTUATION = new Set(['{', '}', '[', ']', '(', ')', ',', ':', '.', ';', '-', '+']);
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[\w$]/;
+const NUMBER_REGEX = /^(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/;
+const STRING_ESCAPES = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', 0: '\0' };
+
+// Tokens after which a "/" would be division rather than the start of a regex literal
+const VALUE_END_TOKENS = new Set(['identifier', 'number', 'string', 'regex']);
+
+const tokenize = (source) => {
+    const tokens = [];
+    let i = 0;
+    const fail = (message, position = i) => {
+        throw new ShellSyntaxError(message, position, source);
+    };
+
+    while (i < source.length) {
+        const c = source[i];
+        const start = i;
+
+        if (/\s/.test(c)) {
+            i++;
+            continue;
+        }
+        if (c === '/' && source[i + 1] === '/') {
+            while (i < source.length && source[i] !== '\n') i++;
+            continue;
+        }
+        if (c === '/' && source[i + 1] === '*') {
+            const end = source.indexOf('*/', i + 2);
+            if (end === -1) fail('Unterminated comment');
+            i = end + 2;
+            continue;
+        }
+
+        if (c === '"' || c === "'" || c === '`') {
+            let value = '';
+            i++;
+            for (;;) {
+                if (i >= source.length) fail('Unterminated string', start);
+                const ch = source[i];
+                if (ch === c) break;
+                if (c === '`' && ch === '$' && source[i + 1] === '{') fail('Template literal placeholders are not supported');
+                if (ch === '\n' && c !== '`') fail('Unterminated string', start);
+                if (ch !== '\\') {
+                    value += ch;
+                    i++;
+                    continue;
+                }
+                const escape = source[i + 1];
+                if (escape === undefined) fail('Unterminated string', start);
+                if (escape === 'x' || escape === 'u') {
+                    const rest = source.slice(i + 2);
+                    const match = escape === 'x' ? rest.match(/^[0-9a-fA-F]{2}/)
+                        : rest.match(/^\{([0-9a-fA-F]{1,6})\}/) || rest.match(/^[0-9a-fA-F]{4}/);
+                    const codePoint = match ? parseInt(match[1] || match[0], 16) : NaN;
+                    if (!(codePoint <= 0x10ffff)) fail('Invalid escape sequence');
+                    value += String.fromCodePoint(codePoint);
+                    i += 2 + match[0].length;
+                } else if (escape === '\n') {
+                    i += 2;
+                } else {
+                    value += STRING_ESCAPES[escape] !== undefined ? STRING_ESCAPES[escape] : escape;
+                    i += 2;
+                }
+            }
+            i++;
+            tokens.push({ type: 'string', value, start });
+            continue;
+        }
+
+        if (/\d/.test(c) || (c === '.' && /\d/.test(source[i + 1] || ''))) {
+            const match = source.slice(i).match(NUMBER_REGEX);
+            i += match[0].length;
+            if (i < source.length && IDENTIFIER_PART.test(source[i])) fail('Invalid number', start);
+            tokens.push({ type: 'number', value: Number(match[0]), start });
+            continue;
+        }
+
+        if (IDENTIFIER_START.test(c)) {
+            while (i < source.length && IDENTIFIER_PART.test(source[i])) i++;
+            tokens.push({ type: 'identifier', value: source.slice(start, i), start });
+            continue;
+        }
+
+        if (c === '/') {
+            const previous = tokens[tokens.length - 1];
+            const isDivision = previous && (VALUE_END_TOKENS.has(previous.type) || [')', ']', '}'].includes(previous.value));
+            if (isDivision) fail('Arithmetic is not supported');
+            let inClass = false;
+            i++;
+            for (;;) {
+                const ch = source[i];
+                if (ch === undefined || ch === '\n') fail('Unterminated regular expression', start);
+                if (ch === '\\') {
+                    i += 2;
+                    continue;
+                }
+                if (ch === '[') inClass = true;
+                else if (ch === ']') inClass = false;
+                else if (ch === '/' && !inClass) break;
+                i++;
+            }
+            const pattern = source.slice(start + 1, i);
+            i++;
+            const flagsStart = i;
+            while (i < source.length && IDENTIFIER_PART.test(source[i])) i++;
+            const flags = source.slice(flagsStart, i);
+            if (!/^[imsxgu]*$/.test(flags)) fail(`Invalid regular expression flags "${flags}"`, flagsStart);
+            tokens.push({ type: 'regex', pattern, flags, start });
+            continue;
+        }
+
+        if (PUNCTUATION.has(c)) {
+            tokens.push({ type: 'punctuation', value: c, start });
+            i++;
+            continue;
+        }
+
+        fail(`Unexpected character "${c}"`);
+    }
+
+    tokens.push({ type: 'end', start: source.length });
+    return tokens;
+};
+
+// --- Parser ---
+
+// Node types: Literal, Regex, Object, Array, Identifier, Member, Call, New.
+// Every node records `start`, the offset where it begins in the source.
+class Parser {
+    constructor(source) {
+        this.source = source;
+        this.tokens = tokenize(source);
+        this.index = 0;
+    }
+
+    get current() {
+        return this.tokens[this.index];
+    }
+
+    peek(offset = 1) {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+    }
+
+    next() {
+        const token = this.current;
+        if (token.type !== 'end') this.index++;
+        return token;
+    }
+
+    fail(message, token = this.current) {
+        throw new ShellSyntaxError(message, token.start, this.source);
+    }
+
+    describe(token) {
+        if (token.type === 'end') return 'end of input';
+        if (token.type === 'string') return 'string';
+        if (token.type === 'regex') return 'regular expression';
+        return `"${token.value}"`;
+    }
+
+    isPunctuation(value, token = this.current) {
+        return token.type === 'punctuation' && token.value === value;
+    }
+
+    expect(value) {
+        if (!this.isPunctuation(value)) this.fail(`Expected "${value}" but found ${this.describe(this.current)}`);
+        return this.next();
+    }
+
+    // A statement is either a shell helper ("show dbs") or one expression
+    parseStatement() {
+        let statement;
+        const first = this.current;
+        const second = this.peek();
+        if (first.type === 'identifier' && (second.type === 'identifier' || second.type === 'string') && first.value !== 'new') {
+            this.next();
+            this.next();
+            statement = { type: 'Helper', name: first.value, argument: second.value, start: first.start, argumentStart: second.start };
+        } else {
+            statement = this.parseExpression();
+        }
+        while (this.isPunctuation(';')) this.next();
+        if (this.current.type !== 'end') this.fail(`Unexpected ${this.describe(this.current)}; only one command can be run at a time`);
+        return statement;
+    }
+
+    parseExpression() {
+        const token = this.current;
+        if (this.isPunctuation('-') || this.isPunctuation('+')) {
+            this.next();
+            const operand = this.current;
+            const isNumber = operand.type === 'number' || (operand.type === 'identifier' && (operand.value === 'Infinity' || operand.value === 'NaN'));
+            if (!isNumber) this.fail(`Expected a number after "${token.value}"`, operand);
+            const value = this.parsePrimary().value;
+            return { type: 'Literal', value: token.value === '-' ? -value : value, start: token.start };
+        }
+        return this.parsePostfix();
+    }
+
+    parsePostfix() {
+        let node = this.parsePrimary();
+        for (;;) {
+            if (this.isPunctuation('.')) {
+                this.next();
+                const property = this.current;
+                if (property.type !== 'identifier') this.fail(`Expected a property name but found ${this.describe(property)}`);
+                this.next();
+                node = { type: 'Member', object: node, property: property.value, start: property.start };
+            } else if (this.isPunctuation('[')) {
+                const open = this.next();
+                const property = this.parseExpression();
+                this.expect(']');
+                if (property.type !== 'Literal' || typeof property.value !== 'string') {
+                    this.fail('Expected a string property name', this.tokens.find(t => t.start === property.start) || open);
+                }
+                node = { type: 'Member', object: node, property: property.value, start: property.start };
+            } else if (this.isPunctuation('(')) {
+                const open = this.next();
+                node = { type: 'Call', callee: node, args: this.parseArguments(), start: open.start };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    // Parses "a, b, c)" after the opening parenthesis
+    parseArguments() {
+        const args = [];
+        while (!this.isPunctuation(')')) {
+            args.push(this.parseExpression());
+            if (this.isPunctuation(',')) this.next();
+            else if (!this.isPunctuation(')')) this.fail(`Expected "," or ")" but found ${this.describe(this.current)}`);
+        }
+        this.next();
+        return args;
+    }
+
+    parsePrimary() {
+        const token = this.current;
+        switch (token.type) {
+            case 'string':
+                this.next();
+                return { type: 'Literal', value: token.value, start: token.start };
+            case 'number':
+                this.next();
+                return { type: 'Literal', value: token.value, start: token.start };
+            case 'regex':
+                this.next();
+                return { type: 'Regex', pattern: token.pattern, flags: token.flags, start: token.start };
+            case 'identifier':
+                return this.parseIdentifier();
+            case 'punctuation':
+                if (token.value === '{') return this.parseObject();
+                if (token.value === '[') return this.parseArray();
+                if (token.value === '(') {
+                    this.next();
+                    const inner = this.parseExpression();
+                    this.expect(')');
+                    return inner;
+                }
+                break;
+            default:
+                break;
+        }
+        return this.fail(`Unexpected ${this.describe(token)}`);
+    }
+
+    parseIdentifier() {
+        const token = this.next();
+        switch (token.value) {
+            case 'true':
+                return { type: 'Literal', value: true, start: token.start };
+            case 'false':
+                return { type: 'Literal', value: false, start: token.start };
+            case 'null':
+                return { type: 'Literal', value: null, start: token.start };
+            case 'undefined':
+                return { type: 'Literal', value: undefined, start: token.start };
+            case 'Infinity':
+                return { type: 'Literal', value: Infinity, start: token.start };
+            case 'NaN':
+                return { type: 'Literal', value: NaN, start: token.start };
+            case 'new': {
+                const callee = this.current;
+                if (callee.type !== 'identifier') this.fail(`Expected a constructor name after "new"`);
+                this.next();
+                let args = [];
+                if (this.isPunctuation('(')) {
+                    this.next();
+                    args = this.parseArguments();
+                }
+                return { type: 'New', callee: callee.value, args, start: token.start };
+            }
+            default:
+                return { type: 'Identifier', name: token.value, start: token.start };
+        }
+    }
+
+    parseObject() {
+        const open = this.next();
+        const properties = [];
+        while (!this.isPunctuation('}')) {
+            const keyToken = this.current;
+            let key;
+            if (keyToken.type === 'identifier' || keyToken.type === 'string') key = keyToken.value;
+            else if (keyToken.type === 'number') key = String(keyToken.value);
+            else this.fail(`Expected a property name but found ${this.describe(keyToken)}`);
+            this.next();
+            if (!this.isPunctuation(':')) this.fail(`Expected ":" after property name "${key}"`);
+            this.next();
+            properties.push({ key, value: this.parseExpression(), start: keyToken.start });
+            if (this.isPunctuation(',')) this.next();
+            else if (!this.isPunctuation('}')) this.fail(`Expected "," or "}" but found ${this.describe(this.current)}`);
+        }
+        this.next();
+        return { type: 'Object', properties, start: open.start };
+    }
+
+    parseArray() {
+        const open = this.next();
+        const elements = [];
+        while (!this.isPunctuation(']')) {
+            elements.push(this.parseExpression());
+            if (this.isPunctuation(',')) this.next();
+            else if (!this.isPunctuation(']')) this.fail(`Expected "," or "]" but found ${this.describe(this.current)}`);
+        }
+        this.next();
+        return { type: 'Array', elements, start: open.start };
+    }
+}
+
+// --- Values ---
+
+// ISODate() strings without an offset are UTC, as in mongosh
+const parseIsoDate = (value) => {
+    const text = /T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value) ? `${value}Z` : value;
+    const date = new Date(text);
+    if (Number.isNaN(date.getTime())) throw new Error(`"${value}" is not a valid date`);
+    return date;
+};
+
+const toNumber = (value) => (isNumeric(value) ? Number(value.valueOf()) : Number(value));
+
+const isNumeric = (value) => typeof value === 'number'
+    || (value !== null && typeof value === 'object' && ['Int32', 'Double', 'Long'].includes(value._bsontype));
+
+// BSON constructors callable with or without "new"
+const CONSTRUCTORS = {
+    ObjectId: (args) => (args.length === 0 ? new ObjectId() : new ObjectId(String(args[0]))),
+    ISODate: (args) => (args.length === 0 ? new Date() : parseIsoDate(String(args[0]))),
+    Date: (args) => {
+        if (args.length === 0) return new Date();
+        const date = args.length === 1 && typeof args[0] === 'string' ? parseIsoDate(args[0]) : new Date(...args.map(toNumber));
+        if (Number.isNaN(date.getTime())) throw new Error('Invalid date');
+        return date;
+    },
+    NumberInt: (args) => new Int32(toNumber(args[0] ?? 0)),
+    Int32: (args) => new Int32(toNumber(args[0] ?? 0)),
+    NumberLong: (args) => Long.fromString(String(args[0] ?? 0)),
+    Long: (args) => Long.fromString(String(args[0] ?? 0)),
+    Double: (args) => new Double(toNumber(args[0] ?? 0)),
+    NumberDecimal: (args) => Decimal128.fromString(String(args[0] ?? 0)),
+    Decimal128: (args) => Decimal128.fromString(String(args[0] ?? 0)),
+    Timestamp: (args) => {
+        if (args.length === 1 && args[0] && typeof args[0] === 'object') return new Timestamp({ t: toNumber(args[0].t), i: toNumber(args[0].i) });
+        return new Timestamp({ t: toNumber(args[0] ?? 0), i: toNumber(args[1] ?? 0) });
+    },
+    BinData: (args) => new Binary(Buffer.from(String(args[1] ?? ''), 'base64'), toNumber(args[0] ?? 0)),
+    HexData: (args) => new Binary(Buffer.from(String(args[1] ?? ''), 'hex'), toNumber(args[0] ?? 0)),
+    UUID: (args) => (args.length === 0 ? new UUID() : new UUID(String(args[0]))),
+    MinKey: () => new MinKey(),
+    MaxKey: () => new MaxKey(),
+    RegExp: (args) => new BSONRegExp(String(args[0] ?? ''), String(args[1] ?? ''))
+};
+
+// --- Compiler ---
+
+// Argument types: object, array, string, number, any, or alternatives joined with "|".
+// A trailing "?" marks an optional argument; "..." accepts any number of them.
+const DB_METHODS = {
+    runCommand: ['object'],
+    adminCommand: ['object'],
+    stats: ['any?'],
+    serverStatus: ['object?'],
+    hostInfo: [],
+    version: [],
+    getName: [],
+    getCollectionNames: [],
+    getCollectionInfos: ['object?', 'object?'],
+    listCollections: ['object?', 'object?'],
+    listDatabases: [],
+    createCollection: ['string', 'object?'],
+    createView: ['string', 'string', 'array', 'object?'],
+    dropDatabase: ['object?'],
+    dropCollection: ['string']
+};
+
+// Methods that switch to another database or collection instead of running anything
+const DB_NAVIGATION = {
+    getSiblingDB: ['string'],
+    getCollection: ['string']
+};
+
+const COLLECTION_METHODS = {
+    find: ['object?', 'object?', 'object?'],
+    findOne: ['object?', 'object?', 'object?'],
+    countDocuments: ['object?', 'object?'],
+    estimatedDocumentCount: ['object?'],
+    count: ['object?', 'object?'],
+    aggregate: ['array|object...'],
+    distinct: ['string', 'object?', 'object?'],
+    insertOne: ['object', 'object?'],
+    insertMany: ['array', 'object?'],
+    updateOne: ['object', 'object|array', 'object?'],
+    updateMany: ['object', 'object|array', 'object?'],
+    replaceOne: ['object', 'object', 'object?'],
+    deleteOne: ['object', 'object?'],
+    deleteMany: ['object', 'object?'],
+    findOneAndUpdate: ['object', 'object|array', 'object?'],
+    findOneAndReplace: ['object', 'object', 'object?'],
+    findOneAndDelete: ['object', 'object?'],
+    bulkWrite: ['array', 'object?'],
+    createIndex: ['object', 'object?'],
+    createIndexes: ['array', 'object?'],
+    dropIndex: ['string|object'],
+    dropIndexes: ['string|array?'],
+    getIndexes: [],
+    drop: [],
+    stats: ['any?'],
+    renameCollection: ['string', 'any?']
+};
+
+// Methods that may follow each cursor-returning method
+const CURSOR_METHODS = {
+    find: {
+        sort: ['object'],
+        skip: ['number'],
+        limit: ['number'],
+        project: ['object'],
+        projection: ['object'],
+        hint: ['string|object'],
+        collation: ['object'],
+        maxTimeMS: ['number'],
+        batchSize: ['number'],
+        comment: ['any'],
+        allowDiskUse: ['any?'],
+        explain: ['string?'],
+        count: [],
+        toArray: [],
+        pretty: []
+    },
+    aggregate: {
+        maxTimeMS: ['number'],
+        batchSize: ['number'],
+        explain: ['string?'],
+        toArray: [],
+        pretty: []
+    }
+};
+
+const REPLICA_SET_METHODS = {
+    status: [],
+    conf: [],
+    config: [],
+    hello: [],
+    isMaster: []
+};
+
+// Characters MongoDB does not allow in database names
+const INVALID_DATABASE_NAME = /[/\\. "$*<>:|?]/;
+
+const SHOW_TARGETS = ['dbs', 'databases', 'collections', 'tables', 'users', 'roles', 'profile'];
+
+// Shell statements without parentheses that older versions of the console accepted
+const LEGACY_COMMANDS = {
+    stats: 'stats',
+    dbstats: 'stats',
+    serverstatus: 'serverStatus',
+    listdatabases: 'listDatabases',
+    listcollections: 'listCollections',
+    dropdatabase: 'dropDatabase'
+};
+
+// Method tables are looked up by user input, so inherited names such as "constructor" must not match
+const lookup = (table, name) => (Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined);
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value)
+    && !(value instanceof Date) && value._bsontype === undefined;
+
+const matchesType = (value, type) => {
+    switch (type) {
+        case 'any': return true;
+        case 'object': return isPlainObject(value);
+        case 'array': return Array.isArray(value);
+        case 'string': return typeof value === 'string';
+        case 'number': return isNumeric(value);
+        default: return false;
+    }
+};
+
+class Compiler {
+    constructor(source) {
+        this.source = source;
+    }
+
+    fail(message, position) {
+        throw new ShellSyntaxError(message, position, this.source);
+    }
+
+    value(node) {
+        switch (node.type) {
+            case 'Literal':
+                return node.value;
+            case 'Regex':
+                return new BSONRegExp(node.pattern, node.flags.replace('g', ''));
+            case 'Object': {
+                const object = {};
+                for (const property of node.properties) {
+                    // defineProperty so a "__proto__" key stays an ordinary field
+                    Object.defineProperty(object, property.key, { value: this.value(property.value), enumerable: true, writable: true, configurable: true });
+                }
+                return object;
+            }
+            case 'Array':
+                return node.elements.map(element => this.value(element));
+            case 'Call':
+            case 'New': {
+                const name = node.type === 'New' ? node.callee : node.callee.type === 'Identifier' ? node.callee.name : null;
+                const construct = name && lookup(CONSTRUCTORS, name);
+                if (!construct) this.fail(name ? `Unknown function ${name}()` : 'Only BSON constructors can be called inside values', node.start);
+                const args = node.args.map(arg => this.value(arg));
+                try {
+                    return construct(args);
+                } catch (e) {
+                    return this.fail(`${name}(): ${e.message}`, node.start);
+                }
+            }
+            case 'Identifier':
+                return this.fail(`Unknown identifier "${node.name}"`, node.start);
+            default:
+                return this.fail('Unsupported expression', node.start);
+        }
+    }
+
+    // Converts and checks call arguments against a signature such as ['object', 'object?']
+    args(call, signature, name) {
+        const values = call.args.map(arg => this.value(arg));
+        const variadic = signature.length > 0 && signature[signature.length - 1].endsWith('...');
+        const required = signature.filter(type => !type.endsWith('?') && !type.endsWith('...')).length;
+        if (values.length < required || (!variadic && values.length > signature.length)) {
+            const expected = variadic ? `at least ${required}` : required === signature.length ? `${required}` : `${required} to ${signature.length}`;
+            this.fail(`${name}() takes ${expected} argument${signature.length === 1 && !variadic ? '' : 's'} but got ${values.length}`, call.start);
+        }
+        values.forEach((value, i) => {
+            const type = signature[Math.min(i, signature.length - 1)].replace(/\?|\.\.\./g, '');
+            if (value === undefined && signature[i] && signature[i].endsWith('?')) return;
+            if (!type.split('|').some(option => matchesType(value, option))) {
+                this.fail(`Argument ${i + 1} of ${name}() must be ${type.split('|').map(t => (t === 'array' ? 'an array' : t === 'object' ? 'an object' : `a ${t}`)).join(' or ')}`, call.args[i].start);
+            }
+        });
+        return values;
+    }
+
+    // Splits a.b.c(x).d(y) into its root and a list of member / call segments
+    flatten(node) {
+        const segments = [];
+        while (node.type === 'Member' || node.type === 'Call') {
+            if (node.type === 'Member') {
+                segments.unshift({ kind: 'member', name: node.property, start: node.start });
+                node = node.object;
+            } else {
+                segments.unshift({ kind: 'call', call: node, start: node.start });
+                node = node.callee;
+            }
+        }
+        return { root: node, segments };
+    }
+
+    compile(statement) {
+        if (statement.type === 'Helper') return this.compileHelper(statement);
+        if (statement.type === 'Object') {
+            return { kind: 'db', database: null, method: 'runCommand', args: [this.value(statement)], chain: [] };
+        }
+
+        const { root, segments } = this.flatten(statement);
+        if (root.type === 'Identifier' && segments.length === 0) {
+            const legacy = lookup(LEGACY_COMMANDS, root.name.toLowerCase());
+            if (legacy) return { kind: 'db', database: null, method: legacy, args: [], chain: [] };
+        }
+        if (root.type !== 'Identifier' || !['db', 'rs'].includes(root.name)) {
+            this.fail('Expected a command starting with "db.", "rs." or a shell helper such as "show dbs"', root.start);
+        }
+        if (root.name === 'rs') return this.compileReplicaSet(segments, root);
+
+        let database = null;
+        // Set by db.getCollection(name); member names are appended to it as in mongosh
+        let collection = null;
+        // Member names seen since the last call
+        let path = [];
+        let command = null;
+
+        for (const segment of segments) {
+            if (segment.kind === 'member') {
+                path.push(segment);
+                continue;
+            }
+
+            const call = segment.call;
+            const method = path.pop();
+            if (!method) this.fail('Only methods can be called', call.start);
+
+            if (command) {
+                if (path.length > 0) this.fail(`Unknown property "${path[0].name}"`, path[0].start);
+                command.chain.push(this.compileChained(command, method, call));
+                continue;
+            }
+
+            const names = [...(collection === null ? [] : [collection]), ...path.map(part => part.name)];
+            path = [];
+            if (names.length === 0) {
+                if (lookup(DB_NAVIGATION, method.name)) {
+                    const [name] = this.args(call, DB_NAVIGATION[method.name], method.name);
+                    if (method.name === 'getSiblingDB') database = name;
+                    else collection = name;
+                    continue;
+                }
+                if (!lookup(DB_METHODS, method.name)) {
+                    this.fail(`Unknown database method db.${method.name}(). Supported: ${Object.keys(DB_METHODS).join(', ')}`, method.start);
+                }
+                command = { kind: 'db', database, method: method.name, args: this.args(call, lookup(DB_METHODS, method.name), method.name), chain: [] };
+                continue;
+            }
+
+            if (!lookup(COLLECTION_METHODS, method.name)) {
+                this.fail(`Unknown collection method ${method.name}(). Supported: ${Object.keys(COLLECTION_METHODS).join(', ')}`, method.start);
+            }
+            command = {
+                kind: 'collection',
+                database,
+                collection: names.join('.'),
+                method: method.name,
+                args: this.args(call, lookup(COLLECTION_METHODS, method.name), method.name),
+                chain: []
+            };
+        }
+
+        if (!command || path.length > 0) {
+            const last = path[path.length - 1] || segments[segments.length - 1] || root;
+            this.fail('Expected a method call such as db.collection.find()', last.start);
+        }
+        return command;
+    }
+
+    compileChained(command, member, call) {
+        const methods = lookup(CURSOR_METHODS, command.method);
+        if (!methods) this.fail(`${command.method}() does not return a cursor, so ${member.name}() cannot follow it`, member.start);
+        if (!lookup(methods, member.name)) {
+            this.fail(`Unknown cursor method ${member.name}(). Supported after ${command.method}(): ${Object.keys(methods).join(', ')}`, member.start);
+        }
+        const previous = command.chain[command.chain.length - 1];
+        if (previous && ['explain', 'count', 'toArray'].includes(previous.method)) {
+            this.fail(`${member.name}() cannot follow ${previous.method}()`, member.start);
+        }
+        return { method: member.name, args: this.args(call, methods[member.name], member.name) };
+    }
+
+    compileReplicaSet(segments, root) {
+        const [member, call] = segments;
+        if (!member || member.kind !== 'member' || !call || call.kind !== 'call' || segments.length > 2) {
+            this.fail('Expected rs.status(), rs.conf() or rs.hello()', (member || root).start);
+        }
+        if (!lookup(REPLICA_SET_METHODS, member.name)) {
+            this.fail(`Unknown replica set method rs.${member.name}(). Supported: ${Object.keys(REPLICA_SET_METHODS).join(', ')}`, member.start);
+        }
+        return { kind: 'replicaSet', database: null, method: member.name, args: this.args(call.call, lookup(REPLICA_SET_METHODS, member.name), member.name), chain: [] };
+    }
+
+    compileHelper({ name, argument, start, argumentStart }) {
+        if (name === 'show') {
+            if (!SHOW_TARGETS.includes(argument)) this.fail(`Unknown "show" target. Supported: ${SHOW_TARGETS.join(', ')}`, argumentStart);
+            return { kind: 'helper', database: null, method: 'show', args: [argument], chain: [] };
+        }
+        if (name === 'use') {
+            const invalid = argument.match(INVALID_DATABASE_NAME);
+            if (invalid) this.fail(`Database names cannot contain "${invalid[0]}"`, argumentStart + invalid.index);
+            return { kind: 'helper', database: null, method: 'use', args: [argument], chain: [] };
+        }
+        if (name === 'createCollection' || name === 'dropCollection') {
+            return { kind: 'db', database: null, method: name, args: [argument], chain: [] };
+        }
+        return this.fail(`Unknown shell helper "${name}"`, start);
+    }
+}
+
+// Parses one mongosh statement into a command description (see the top of this file)
+export const parseShellCommand = (source) => {
+    // "use" takes the rest of the line as the database name, which need not be an identifier
+    const use = source.match(/^(\s*)use(\s+)([^\s;]+)\s*;?\s*$/);
+    if (use) {
+        const start = use[1].length;
+        return new Compiler(source).compileHelper({ name: 'use', argument: use[3], start, argumentStart: start + 3 + use[2].length });
+    }
+    const statement = new Parser(source).parseStatement();
+    return new Compiler(source).compile(statement);
+};
@@ -0,0 +1,73 @@
+// Builds a starting $jsonSchema validator from the schema analyzer's field statistics.
+
+// Analyzer type names → $jsonSchema bsonType aliases
+const BSON_TYPE_ALIASES = {
+    Double: 'double',
+    String: 'string',
+    Object: 'object',
+    Array: 'array',
+    Binary: 'binData',
+    UUID: 'binData',
+    Undefined: 'undefined',
+    ObjectId: 'objectId',
+    Boolean: 'bool',
+    Date: 'date',
+    Null: 'null',
+    RegExp: 'regex',
+    DBRef: 'object',
+    Code: 'javascript',
+    Symbol: 'symbol',
+    Int32: 'int',
+    Timestamp: 'timestamp',
+    Long: 'long',
+    Decimal128: 'decimal',
+    MinKey: 'minKey',
+    MaxKey: 'maxKey'
+};
+
+// "name" below "address." is a direct child; "geo.lat" and "tags[]" are not
+const isDirectChild = (rest) => rest.length > 0 && !rest.includes('.') && !rest.includes('[]');
+
+// `fields` are the analyzer's per-path entries ("a", "a.b", "a[]", "a[].b"), `sampled`
+// the number of documents they came from. A field is required when every sampled
+// document that has its parent has it too; inside arrays nothing is marked required,
+// because the analyzer counts documents rather than array elements.
+export const buildJsonSchema = (fields, sampled) => {
+    const byPath = new Map(fields.map(field => [field.path, field]));
+
+    const bsonTypesOf = (field) => [...new Set(field.types.map(({ type }) => BSON_TYPE_ALIASES[type]).filter(Boolean))];
+
+    const objectSchema = (prefix, parentCount, inArray) => {
+        const properties = {};
+        const required = [];
+        for (const child of fields) {
+            if (!child.path.startsWith(prefix)) continue;
+            const name = child.path.slice(prefix.length);
+            if (!isDirectChild(name)) continue;
+            properties[name] = fieldSchema(child, inArray);
+            if (!inArray && child.count === parentCount) required.push(name);
+        }
+        return { properties, required };
+    };
+
+    const fieldSchema = (field, inArray) => {
+        const types = bsonTypesOf(field);
+        const schema = { bsonType: types.length === 1 ? types[0] : types };
+        if (types.includes('object')) {
+            const { properties, required } = objectSchema(`${field.path}.`, field.count, inArray);
+            if (required.length) schema.required = required;
+            if (Object.keys(properties).length) schema.properties = properties;
+        }
+        if (types.includes('array')) {
+            const items = byPath.get(`${field.path}[]`);
+            if (items) schema.items = fieldSchema(items, true);
+        }
+        return schema;
+    };
+
+    const { properties, required } = objectSchema('', sampled, false);
+    const schema = { bsonType: 'object' };
+    if (required.length) schema.required = required;
+    schema.properties = properties;
+    return { $jsonSchema: schema };
+};
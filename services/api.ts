@@ -1,41 +1,49 @@
-import { Database, Document, ServerStatus, QueryOptions, ConnectionConfig, CommandResult, DbExportConfig, CollectionExportConfig } from '../types';
+import { Database, CreateCollectionOptions, Document, DocumentId, DocumentUpdate, VersionedDocument, BulkDocumentRequest, BulkDocumentResult, UpdateManyOptions, UpdateManyPreview, UpdateManyResult, DeleteManyPreview, ServerStatus, ServerMetricsSample, QueryOptions, ConnectionConfig, CommandResult, DbExportConfig, CollectionExportConfig, RenameCollectionConfig, CollectionCopyConfig, MigrationConfig, IndexInfo, IndexKeyType, IndexOptions, AggregateOptions, AggregateResult, StagePreview, ExplainResult, SchemaAnalysis, ChangeEvent, CurrentOperation, CurrentOpFilter, ProfilingSettings, ProfileFilter, ProfileSummary, DbUser, DbRole, RoleRef, Privilege, ValidationRules, ValidationTestResult, JobInfo, ExportStart, ImportConfig } from '../types';
+import { encodeId } from './ejson';
 
 const API_URL = '/api';
 
-// Store the active configuration in memory to maintain connection context
-let activeConfig: ConnectionConfig | null = null;
-
-const getHeaders = () => {
-    if (!activeConfig) throw new Error("Not connected");
-    
-    let uri = '';
-    if (activeConfig.mode === 'uri' && activeConfig.uri) {
-        uri = activeConfig.uri;
-    } else {
-        const auth = activeConfig.username ? `${activeConfig.username}:${activeConfig.password}@` : '';
-        uri = `mongodb://${auth}${activeConfig.host || 'localhost'}:${activeConfig.port || '27017'}/${activeConfig.authDatabase || 'admin'}`;
+// Opaque server-side session ID returned by /api/connect. Credentials are only sent
+// once when connecting; every later request is authorized by this ID alone.
+let sessionId: string | null = null;
+let onSessionExpired: (() => void) | null = null;
+
+const buildUri = (config: ConnectionConfig): string => {
+    if (config.mode === 'uri' && config.uri) {
+        return config.uri;
     }
+    const auth = config.username ? `${encodeURIComponent(config.username)}:${encodeURIComponent(config.password || '')}@` : '';
+    return `mongodb://${auth}${config.host || 'localhost'}:${config.port || '27017'}/${config.authDatabase || 'admin'}`;
+};
+
+const getHeaders = (): Record<string, string> => {
+    if (!sessionId) throw new Error("Not connected");
 
     return {
         'Content-Type': 'application/json',
-        'x-mongo-uri': uri
+        'x-session-id': sessionId
     };
 };
 
-export const connect = async (config: ConnectionConfig): Promise<void> => {
-    // Construct URI for testing connection
-    let uri = '';
-    if (config.mode === 'uri' && config.uri) {
-        uri = config.uri;
-    } else {
-        const auth = config.username ? `${config.username}:${config.password}@` : '';
-        uri = `mongodb://${auth}${config.host || 'localhost'}:${config.port || '27017'}/${config.authDatabase || 'admin'}`;
+// fetch wrapper that drops the session when the server reports it expired
+const apiFetch = async (input: string, init?: RequestInit): Promise<Response> => {
+    const res = await fetch(input, init);
+    if (res.status === 401 && sessionId) {
+        sessionId = null;
+        onSessionExpired?.();
     }
+    return res;
+};
+
+export const setSessionExpiredHandler = (handler: (() => void) | null): void => {
+    onSessionExpired = handler;
+};
 
+export const connect = async (config: ConnectionConfig): Promise<void> => {
     const res = await fetch(`${API_URL}/connect`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ uri })
+        body: JSON.stringify({ uri: buildUri(config) })
     });
 
     if (!res.ok) {
@@ -43,38 +51,85 @@ export const connect = async (config: ConnectionConfig): Promise<void> => {
         throw new Error(err.error || 'Connection failed');
     }
 
-    activeConfig = config;
+    const data = await res.json();
+    sessionId = data.sessionId;
+};
+
+// Opens an additional connection (e.g. the source and target of a migration) without
+// replacing the current one; the returned session ID is passed to the server explicitly
+export const openSession = async (config: ConnectionConfig): Promise<string> => {
+    const res = await fetch(`${API_URL}/connect`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ uri: buildUri(config) })
+    });
+    if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Connection failed');
+    }
+    const data = await res.json();
+    return data.sessionId;
+};
+
+export const closeSession = async (id: string): Promise<void> => {
+    await fetch(`${API_URL}/disconnect`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-session-id': id }
+    });
+};
+
+// Databases of an additional connection. Its expiry must not end the current session,
+// so this bypasses apiFetch.
+export const getSessionDatabases = async (id: string): Promise<Database[]> => {
+    const res = await fetch(`${API_URL}/databases`, { headers: { 'Content-Type': 'application/json', 'x-session-id': id } });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const disconnect = async (): Promise<void> => {
+    if (!sessionId) return;
+    try {
+        await fetch(`${API_URL}/disconnect`, { method: 'POST', headers: getHeaders() });
+    } finally {
+        sessionId = null;
+    }
 };
 
 export const getDatabases = async (): Promise<Database[]> => {
-    const res = await fetch(`${API_URL}/databases`, { headers: getHeaders() });
+    const res = await apiFetch(`${API_URL}/databases`, { headers: getHeaders() });
     if (!res.ok) throw new Error(await res.text());
     return res.json();
 };
 
 export const getServerStatus = async (): Promise<ServerStatus> => {
-    const res = await fetch(`${API_URL}/status`, { headers: getHeaders() });
+    const res = await apiFetch(`${API_URL}/status`, { headers: getHeaders() });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const getServerMetrics = async (): Promise<ServerMetricsSample> => {
+    const res = await apiFetch(`${API_URL}/status/metrics`, { headers: getHeaders() });
     if (!res.ok) throw new Error(await res.text());
     return res.json();
 };
 
 export const getCollections = async (dbName: string): Promise<any[]> => {
-    const res = await fetch(`${API_URL}/collections/${dbName}`, { headers: getHeaders() });
+    const res = await apiFetch(`${API_URL}/collections/${dbName}`, { headers: getHeaders() });
     if (!res.ok) throw new Error(await res.text());
     return res.json();
 };
 
-export const createCollection = async (dbName: string, colName: string): Promise<void> => {
-    const res = await fetch(`${API_URL}/collection/${dbName}`, { 
+export const createCollection = async (dbName: string, colName: string, options: CreateCollectionOptions = {}): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/collection/${dbName}`, { 
         method: 'POST',
         headers: getHeaders(),
-        body: JSON.stringify({ collectionName: colName })
+        body: JSON.stringify({ collectionName: colName, options })
     });
     if (!res.ok) throw new Error(await res.text());
 };
 
 export const dropDatabase = async (dbName: string): Promise<void> => {
-    const res = await fetch(`${API_URL}/database/${dbName}`, { 
+    const res = await apiFetch(`${API_URL}/database/${dbName}`, { 
         method: 'DELETE',
         headers: getHeaders()
     });
@@ -82,7 +137,7 @@ export const dropDatabase = async (dbName: string): Promise<void> => {
 };
 
 export const dropCollection = async (dbName: string, colName: string): Promise<void> => {
-    const res = await fetch(`${API_URL}/collection/${dbName}/${colName}`, {
+    const res = await apiFetch(`${API_URL}/collection/${dbName}/${colName}`, {
         method: 'DELETE',
         headers: getHeaders()
     });
@@ -90,7 +145,7 @@ export const dropCollection = async (dbName: string, colName: string): Promise<v
 };
 
 export const truncateCollection = async (dbName: string, colName: string): Promise<void> => {
-    const res = await fetch(`${API_URL}/collection/${dbName}/${colName}/truncate`, {
+    const res = await apiFetch(`${API_URL}/collection/${dbName}/${colName}/truncate`, {
         method: 'POST',
         headers: getHeaders()
     });
@@ -98,7 +153,7 @@ export const truncateCollection = async (dbName: string, colName: string): Promi
 };
 
 export const bulkCollectionsAction = async (dbName: string, action: 'drop' | 'truncate', collections: string[]): Promise<any> => {
-    const res = await fetch(`${API_URL}/collections/${dbName}/bulk`, {
+    const res = await apiFetch(`${API_URL}/collections/${dbName}/bulk`, {
         method: 'POST',
         headers: getHeaders(),
         body: JSON.stringify({ action, collections })
@@ -113,7 +168,7 @@ export const getDocuments = async (
     filter: any = {}, 
     options: QueryOptions = {}
 ): Promise<{docs: Document[], total: number}> => {
-    const res = await fetch(`${API_URL}/documents/${dbName}/${colName}`, {
+    const res = await apiFetch(`${API_URL}/documents/${dbName}/${colName}`, {
         method: 'POST',
         headers: getHeaders(),
         body: JSON.stringify({ filter, ...options })
@@ -122,84 +177,589 @@ export const getDocuments = async (
     return res.json();
 };
 
+// Write rejected by the collection's validator; `details` is the server's errInfo
+export class DocumentValidationError extends Error {
+    details: any;
+
+    constructor(message: string, details: any) {
+        super(message);
+        this.details = details;
+    }
+}
+
+// Edit rejected because the stored document changed after the editor loaded it;
+// `current` is the document as it is now, with its version token
+export class DocumentConflictError extends Error {
+    current: VersionedDocument;
+
+    constructor(message: string, current: VersionedDocument) {
+        super(message);
+        this.current = current;
+    }
+}
+
+const throwWriteError = async (res: Response): Promise<never> => {
+    const text = await res.text();
+    let body: any = null;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        // Not a JSON error body; report it as is
+    }
+    if (res.status === 400 && body && 'validation' in body) throw new DocumentValidationError(body.error, body.validation);
+    if (res.status === 409 && body && 'current' in body) {
+        throw new DocumentConflictError(body.error, { document: body.current, version: body.version });
+    }
+    throw new Error(text);
+};
+
 export const insertDocument = async (dbName: string, colName: string, doc: any): Promise<void> => {
-    const res = await fetch(`${API_URL}/document/${dbName}/${colName}`, {
+    const res = await apiFetch(`${API_URL}/document/${dbName}/${colName}`, {
         method: 'POST',
         headers: getHeaders(),
         body: JSON.stringify({ doc })
     });
+    if (!res.ok) await throwWriteError(res);
+};
+
+export const getDocument = async (dbName: string, colName: string, id: DocumentId): Promise<VersionedDocument> => {
+    const res = await apiFetch(`${API_URL}/document/${dbName}/${colName}/${encodeId(id)}`, { headers: getHeaders() });
     if (!res.ok) throw new Error(await res.text());
+    return res.json();
 };
 
-export const updateDocument = async (dbName: string, colName: string, id: string, newDoc: any): Promise<void> => {
-    const res = await fetch(`${API_URL}/document/${dbName}/${colName}/${id}`, {
+// update is the editor's diff ({ set, unset }) or a whole-document { replacement }. When
+// `version` (from getDocument) is given the update only applies if the stored document
+// still has it, and a DocumentConflictError carries the current version otherwise.
+export const updateDocument = async (dbName: string, colName: string, id: DocumentId, update: DocumentUpdate, version?: string): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/document/${dbName}/${colName}/${encodeId(id)}`, {
         method: 'PUT',
         headers: getHeaders(),
-        body: JSON.stringify({ update: newDoc })
+        body: JSON.stringify({ ...update, version })
     });
-    if (!res.ok) throw new Error(await res.text());
+    if (!res.ok) await throwWriteError(res);
 };
 
-export const deleteDocument = async (dbName: string, colName: string, id: string): Promise<void> => {
-    const res = await fetch(`${API_URL}/document/${dbName}/${colName}/${id}`, {
+export const deleteDocument = async (dbName: string, colName: string, id: DocumentId): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/document/${dbName}/${colName}/${encodeId(id)}`, {
         method: 'DELETE',
         headers: getHeaders()
     });
     if (!res.ok) throw new Error(await res.text());
 };
 
-export const executeCommand = async (command: string): Promise<CommandResult> => {
-    const res = await fetch(`${API_URL}/command`, {
+export const bulkDocuments = async (dbName: string, colName: string, request: BulkDocumentRequest): Promise<BulkDocumentResult> => {
+    const res = await apiFetch(`${API_URL}/documents/${dbName}/${colName}/bulk`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(request)
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+const postModifyMany = async (path: string, body: object): Promise<any> => {
+    const res = await apiFetch(`${API_URL}/documents/${path}`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(body)
+    });
+    if (!res.ok) await throwWriteError(res);
+    return res.json();
+};
+
+// With `scratch` the sample is updated in a temporary collection of the mongodeck_scratch
+// database, for servers that cannot roll back a transaction
+export const previewUpdateMany = (dbName: string, colName: string, filter: any, update: any, options: UpdateManyOptions = {}, scratch = false): Promise<UpdateManyPreview> =>
+    postModifyMany(`${dbName}/${colName}/update-many`, { filter, update, ...options, dryRun: true, scratch });
+
+export const updateMany = (dbName: string, colName: string, filter: any, update: any, options: UpdateManyOptions = {}): Promise<UpdateManyResult> =>
+    postModifyMany(`${dbName}/${colName}/update-many`, { filter, update, ...options });
+
+export const previewDeleteMany = (dbName: string, colName: string, filter: any): Promise<DeleteManyPreview> =>
+    postModifyMany(`${dbName}/${colName}/delete-many`, { filter, dryRun: true });
+
+export const deleteMany = async (dbName: string, colName: string, filter: any): Promise<number> => {
+    const result = await postModifyMany(`${dbName}/${colName}/delete-many`, { filter });
+    return result.deletedCount;
+};
+
+// Runs a mongosh command against `database`, or the connection's default database
+export const executeCommand = async (command: string, database?: string): Promise<CommandResult> => {
+    const res = await apiFetch(`${API_URL}/command`, {
         method: 'POST',
         headers: getHeaders(),
-        body: JSON.stringify({ command })
+        body: JSON.stringify({ command, database: database || undefined })
     });
+    // Syntax errors are answered with 400 and the position of the offending input
+    if (res.status === 400) {
+        const body = await res.json().catch(() => null);
+        if (body?.position) return body;
+        throw new Error(body?.error || 'Invalid command');
+    }
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+const JOB_POLL_INTERVAL_MS = 500;
+
+export const getJob = async (jobId: string): Promise<JobInfo> => {
+    const res = await apiFetch(`${API_URL}/jobs/${jobId}`, { headers: getHeaders() });
     if (!res.ok) throw new Error(await res.text());
     return res.json();
 };
 
-export const exportDatabase = async (config: DbExportConfig): Promise<Blob> => {
-    const res = await fetch(`${API_URL}/export/database`, {
+export const cancelJob = async (jobId: string): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/jobs/${jobId}`, {
+        method: 'DELETE',
+        headers: getHeaders()
+    });
+    if (!res.ok) throw new Error(await res.text());
+};
+
+// Polls a job until it completes, fails or is cancelled
+export const waitForJob = async (jobId: string, onProgress?: (job: JobInfo) => void): Promise<JobInfo> => {
+    while (true) {
+        const job = await getJob(jobId);
+        onProgress?.(job);
+        if (job.status === 'completed') return job;
+        if (job.status === 'failed' || job.status === 'cancelled') {
+            throw new Error(job.error || `Job ${job.status}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+};
+
+// Hands the download URL to the browser so the file streams straight to disk
+const startDownload = (start: ExportStart) => {
+    const a = document.createElement('a');
+    a.href = start.downloadUrl;
+    a.download = start.filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+};
+
+const runExport = async (endpoint: string, config: DbExportConfig | CollectionExportConfig, onProgress?: (job: JobInfo) => void): Promise<JobInfo> => {
+    const res = await apiFetch(`${API_URL}/export/${endpoint}`, {
         method: 'POST',
         headers: getHeaders(),
         body: JSON.stringify(config)
     });
     if (!res.ok) throw new Error(await res.text());
-    return res.blob();
+    const start: ExportStart = await res.json();
+    startDownload(start);
+    return waitForJob(start.jobId, onProgress);
 };
 
-export const exportCollection = async (config: CollectionExportConfig): Promise<Blob> => {
-    const res = await fetch(`${API_URL}/export/collection`, {
+export const exportDatabase = (config: DbExportConfig, onProgress?: (job: JobInfo) => void): Promise<JobInfo> =>
+    runExport('database', config, onProgress);
+
+export const exportCollection = (config: CollectionExportConfig, onProgress?: (job: JobInfo) => void): Promise<JobInfo> =>
+    runExport('collection', config, onProgress);
+
+// Job that ended in a failed or cancelled state; the job carries progress and errors
+export class JobError extends Error {
+    job: JobInfo;
+
+    constructor(job: JobInfo) {
+        super(job.error || `Job ${job.status}`);
+        this.job = job;
+    }
+}
+
+export const renameCollection = async (dbName: string, colName: string, config: RenameCollectionConfig): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/collection/${dbName}/${colName}/rename`, {
         method: 'POST',
         headers: getHeaders(),
         body: JSON.stringify(config)
     });
     if (!res.ok) throw new Error(await res.text());
-    return res.blob();
 };
 
-export const importCollection = async (dbName: string, colName: string, data: File | any[]): Promise<void> => {
-    let body: FormData | string;
-    let headers: Record<string, string>;
+// Creates the target collection, then copies the documents in a server-side job
+export const copyCollection = async (
+    dbName: string,
+    colName: string,
+    config: CollectionCopyConfig,
+    onStart?: (jobId: string) => void,
+    onProgress?: (job: JobInfo) => void
+): Promise<JobInfo> => {
+    const res = await apiFetch(`${API_URL}/copy/collection/${dbName}/${colName}`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(config)
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const { jobId } = await res.json();
+    onStart?.(jobId);
+    return waitForJob(jobId, onProgress);
+};
 
-    if (data instanceof File) {
-        // File upload
-        const formData = new FormData();
-        formData.append('file', data);
-        body = formData;
-        headers = getHeaders();
-        // Remove Content-Type for FormData (browser sets it with boundary)
-        delete headers['Content-Type'];
-    } else {
-        // JSON data (for batch imports)
-        body = JSON.stringify({ data });
-        headers = getHeaders();
+// Starts a migration between two sessions opened with openSession; pass the log of an
+// earlier run instead of items to resume it
+export const startMigration = async (config: MigrationConfig): Promise<string> => {
+    const res = await apiFetch(`${API_URL}/migrate`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(config)
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const { jobId } = await res.json();
+    return jobId;
+};
+
+// Streams a file into a collection (layouts "documents" / "csv") or a database (layouts
+// "database" / "collections" / "dump"). The file is sent as the raw request body so the
+// browser reads it from disk as it uploads; progress is polled from the import job meanwhile.
+export const importFile = async (
+    target: { dbName: string; colName?: string },
+    file: File,
+    config: ImportConfig,
+    onProgress?: (job: JobInfo) => void
+): Promise<JobInfo> => {
+    const startUrl = target.colName
+        ? `${API_URL}/import/collection/${target.dbName}/${target.colName}`
+        : `${API_URL}/import/database/${target.dbName}`;
+    const startRes = await apiFetch(startUrl, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ ...config, gzip: file.name.endsWith('.gz'), totalBytes: file.size })
+    });
+    if (!startRes.ok) throw new Error(await startRes.text());
+    const { jobId } = await startRes.json();
+
+    let uploading = true;
+    const poll = async () => {
+        while (uploading) {
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+            if (!uploading) break;
+            // A missed poll only delays the next progress update
+            const job = await getJob(jobId).catch(() => null);
+            if (job && uploading) onProgress?.(job);
+        }
+    };
+    poll();
+
+    let job: JobInfo;
+    try {
+        const res = await apiFetch(`${API_URL}/import/upload/${jobId}`, {
+            method: 'PUT',
+            headers: { ...getHeaders(), 'Content-Type': 'application/octet-stream' },
+            body: file
+        });
+        if (!res.ok) throw new Error(await res.text());
+        job = await res.json();
+    } catch (error) {
+        // The server drops the connection when it stops an import early; the job
+        // still records why
+        job = await getJob(jobId).catch(() => { throw error; });
+        if (job.status === 'pending' || job.status === 'running') throw error;
+    } finally {
+        uploading = false;
     }
 
-    const res = await fetch(`${API_URL}/import/collection/${dbName}/${colName}`, {
+    onProgress?.(job);
+    if (job.status !== 'completed') throw new JobError(job);
+    return job;
+};
+
+export const getIndexes = async (dbName: string, colName: string): Promise<IndexInfo[]> => {
+    const res = await apiFetch(`${API_URL}/indexes/${dbName}/${colName}`, { headers: getHeaders() });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const createIndex = async (
+    dbName: string,
+    colName: string,
+    keys: { [field: string]: IndexKeyType },
+    options: IndexOptions = {}
+): Promise<string> => {
+    const res = await apiFetch(`${API_URL}/indexes/${dbName}/${colName}`, {
         method: 'POST',
-        headers,
-        body
+        headers: getHeaders(),
+        body: JSON.stringify({ keys, options })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json();
+    return data.name;
+};
+
+export const setIndexHidden = async (dbName: string, colName: string, indexName: string, hidden: boolean): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/indexes/${dbName}/${colName}/${encodeURIComponent(indexName)}`, {
+        method: 'PATCH',
+        headers: getHeaders(),
+        body: JSON.stringify({ hidden })
+    });
+    if (!res.ok) throw new Error(await res.text());
+};
+
+export const dropIndex = async (dbName: string, colName: string, indexName: string): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/indexes/${dbName}/${colName}/${encodeURIComponent(indexName)}`, {
+        method: 'DELETE',
+        headers: getHeaders()
     });
     if (!res.ok) throw new Error(await res.text());
-};
\ No newline at end of file
+};
+
+export const aggregate = async (
+    dbName: string,
+    colName: string,
+    pipeline: any[],
+    options: AggregateOptions = {}
+): Promise<AggregateResult> => {
+    const res = await apiFetch(`${API_URL}/aggregate/${dbName}/${colName}`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ pipeline, ...options })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const previewPipelineStages = async (
+    dbName: string,
+    colName: string,
+    pipeline: any[],
+    options: AggregateOptions = {}
+): Promise<StagePreview[]> => {
+    const res = await apiFetch(`${API_URL}/aggregate/${dbName}/${colName}`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ pipeline, ...options, previewStages: true })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json();
+    return data.previews;
+};
+
+export const explainQuery = async (
+    dbName: string,
+    colName: string,
+    filter: any = {},
+    options: QueryOptions = {}
+): Promise<ExplainResult> => {
+    const res = await apiFetch(`${API_URL}/explain/${dbName}/${colName}`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ filter, ...options })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const getValidation = async (dbName: string, colName: string): Promise<ValidationRules> => {
+    const res = await apiFetch(`${API_URL}/validation/${dbName}/${colName}`, { headers: getHeaders() });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const setValidation = async (dbName: string, colName: string, rules: ValidationRules): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/validation/${dbName}/${colName}`, {
+        method: 'PUT',
+        headers: getHeaders(),
+        body: JSON.stringify(rules)
+    });
+    if (!res.ok) throw new Error(await res.text());
+};
+
+export const testValidator = async (dbName: string, colName: string, validator: any): Promise<ValidationTestResult> => {
+    const res = await apiFetch(`${API_URL}/validation/${dbName}/${colName}/test`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ validator })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const generateValidator = async (
+    dbName: string,
+    colName: string,
+    sampleSize?: number
+): Promise<{ validator: any; sampled: number }> => {
+    const res = await apiFetch(`${API_URL}/validation/${dbName}/${colName}/generate`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ sampleSize })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const getCurrentOps = async (filter: CurrentOpFilter): Promise<{ operations: CurrentOperation[]; executionTime: number }> => {
+    const res = await apiFetch(`${API_URL}/currentop`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(filter)
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const killOp = async (opid: number | string): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/currentop/kill`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ opid })
+    });
+    if (!res.ok) throw new Error(await res.text());
+};
+
+export const getProfilingSettings = async (dbName: string): Promise<ProfilingSettings> => {
+    const res = await apiFetch(`${API_URL}/profile/${dbName}`, { headers: getHeaders() });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const setProfilingSettings = async (
+    dbName: string,
+    settings: Omit<ProfilingSettings, 'filter'>
+): Promise<ProfilingSettings> => {
+    const res = await apiFetch(`${API_URL}/profile/${dbName}`, {
+        method: 'PUT',
+        headers: getHeaders(),
+        body: JSON.stringify(settings)
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const getProfileSummary = async (dbName: string, filter: ProfileFilter = {}): Promise<ProfileSummary> => {
+    const res = await apiFetch(`${API_URL}/profile/${dbName}/entries`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(filter)
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const clearProfile = async (dbName: string): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/profile/${dbName}/entries`, {
+        method: 'DELETE',
+        headers: getHeaders()
+    });
+    if (!res.ok) throw new Error(await res.text());
+};
+
+// User and role changes must be confirmed: callers ask the user first, then a single-use
+// token for exactly this request is fetched and sent along. The server answers 428 without it.
+const sendSecurityCommand = async (url: string, method: string, body: object = {}): Promise<void> => {
+    const confirmation = await apiFetch(`${API_URL}/confirmations`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ method, path: new URL(url, window.location.origin).pathname })
+    });
+    if (!confirmation.ok) throw new Error(await confirmation.text());
+    const { token } = await confirmation.json();
+
+    const res = await apiFetch(url, {
+        method,
+        headers: getHeaders(),
+        body: JSON.stringify({ ...body, confirmation: token })
+    });
+    if (!res.ok) throw new Error(await res.text());
+};
+
+export const getUsers = async (dbName: string): Promise<DbUser[]> => {
+    const res = await apiFetch(`${API_URL}/users/${dbName}`, { headers: getHeaders() });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const getRoles = async (dbName: string, includeBuiltin = false): Promise<DbRole[]> => {
+    const res = await apiFetch(`${API_URL}/roles/${dbName}?builtin=${includeBuiltin}`, { headers: getHeaders() });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
+
+export const createUser = (dbName: string, user: string, pwd: string, roles: RoleRef[]): Promise<void> =>
+    sendSecurityCommand(`${API_URL}/users/${dbName}`, 'POST', { user, pwd, roles });
+
+export const changeUserPassword = (dbName: string, user: string, pwd: string): Promise<void> =>
+    sendSecurityCommand(`${API_URL}/users/${dbName}/${encodeURIComponent(user)}/password`, 'PUT', { pwd });
+
+export const updateUserRoles = (dbName: string, user: string, grant: RoleRef[], revoke: RoleRef[]): Promise<void> =>
+    sendSecurityCommand(`${API_URL}/users/${dbName}/${encodeURIComponent(user)}/roles`, 'POST', { grant, revoke });
+
+export const dropUser = (dbName: string, user: string): Promise<void> =>
+    sendSecurityCommand(`${API_URL}/users/${dbName}/${encodeURIComponent(user)}`, 'DELETE');
+
+export const createRole = (dbName: string, role: string, privileges: Privilege[], roles: RoleRef[]): Promise<void> =>
+    sendSecurityCommand(`${API_URL}/roles/${dbName}`, 'POST', { role, privileges, roles });
+
+export const updateRole = (dbName: string, role: string, privileges: Privilege[], roles: RoleRef[]): Promise<void> =>
+    sendSecurityCommand(`${API_URL}/roles/${dbName}/${encodeURIComponent(role)}`, 'PUT', { privileges, roles });
+
+export const dropRole = (dbName: string, role: string): Promise<void> =>
+    sendSecurityCommand(`${API_URL}/roles/${dbName}/${encodeURIComponent(role)}`, 'DELETE');
+
+export interface WatchHandlers {
+    // The stream is open; the token marks its starting point even before any change arrives
+    onOpen: (resumeToken: any) => void;
+    onChange: (event: ChangeEvent) => void;
+}
+
+// Tails a collection's change stream until the server ends it or `signal` aborts it.
+// The server answers in the server-sent events format, read here from the fetch body
+// because EventSource cannot send the session header.
+export const watchCollection = async (
+    dbName: string,
+    colName: string,
+    options: { match?: any; resumeAfter?: any },
+    handlers: WatchHandlers,
+    signal: AbortSignal
+): Promise<void> => {
+    const res = await apiFetch(`${API_URL}/watch/${dbName}/${colName}`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(options),
+        signal
+    });
+    if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || `Change stream failed (${res.status})`);
+    }
+    if (!res.body) throw new Error('Streaming responses are not supported by this browser');
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value;
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            let event = 'message';
+            const data: string[] = [];
+            for (const line of frame.split('\n')) {
+                if (line.startsWith('event: ')) event = line.slice(7);
+                else if (line.startsWith('data: ')) data.push(line.slice(6));
+            }
+            if (data.length === 0) continue;
+            const payload = JSON.parse(data.join('\n'));
+            if (event === 'open') handlers.onOpen(payload.resumeToken);
+            else if (event === 'change') handlers.onChange(payload);
+            else if (event === 'error') throw new Error(payload.error);
+        }
+    }
+};
+
+export const analyzeSchema = async (
+    dbName: string,
+    colName: string,
+    filter: any = {},
+    sampleSize: number = 1000
+): Promise<SchemaAnalysis> => {
+    const res = await apiFetch(`${API_URL}/schema/${dbName}/${colName}`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ filter, sampleSize })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    return res.json();
+};
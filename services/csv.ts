@@ -0,0 +1,122 @@
+import { CsvColumn, CsvFieldType } from '../types';
+
+// Client-side helpers for the CSV import preview. The server parses the full file with
+// the same quoting rules; only the first rows are read here to build the mapping.
+
+export const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const CSV_FIELD_TYPES: { value: CsvFieldType; label: string }[] = [
+  { value: 'string', label: 'String' },
+  { value: 'int', label: 'Int32' },
+  { value: 'double', label: 'Double' },
+  { value: 'bool', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+  { value: 'objectId', label: 'ObjectId' },
+  { value: 'skip', label: 'Skip' }
+];
+
+// Parses delimited text into rows (RFC 4180 quoting). When the text is only the start
+// of a file, pass truncated so the possibly incomplete last record is dropped.
+export const parseCsv = (text: string, delimiter: string, truncated = false): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let rowHasContent = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (inQuotes) {
+      if (c === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      inQuotes = true;
+      rowHasContent = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = '';
+      rowHasContent = true;
+    } else if (c === '\n' || c === '\r') {
+      if (rowHasContent || cell !== '') {
+        row.push(cell);
+        rows.push(row);
+      }
+      row = [];
+      cell = '';
+      rowHasContent = false;
+    } else {
+      cell += c;
+    }
+  }
+  if (!truncated && (rowHasContent || cell !== '')) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Picks the candidate delimiter that occurs most often in the first line
+export const detectDelimiter = (text: string, fileName: string): string => {
+  if (/\.tsv$/i.test(fileName)) return '\t';
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  let best = ',';
+  let bestCount = 0;
+  for (const { value } of DELIMITERS) {
+    const count = firstLine.split(value).length - 1;
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+const INT_REGEX = /^[-+]?\d+$/;
+const NUMBER_REGEX = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOL_VALUES = ['true', 'false', 'yes', 'no', 't', 'f'];
+const OBJECT_ID_REGEX = /^[0-9a-fA-F]{24}$/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Suggests a type from sample values; blanks are ignored and anything ambiguous stays a string
+export const inferColumnType = (values: string[]): Pick<CsvColumn, 'type' | 'dateFormat'> => {
+  const samples = values.map(v => v.trim()).filter(v => v !== '');
+  if (samples.length === 0) return { type: 'string' };
+  const all = (test: (v: string) => boolean) => samples.every(test);
+
+  if (all(v => OBJECT_ID_REGEX.test(v))) return { type: 'objectId' };
+  if (all(v => INT_REGEX.test(v) && Math.abs(Number(v)) <= 2147483647)) {
+    // Leading zeros usually mean codes (zip codes, ids) rather than numbers
+    if (samples.some(v => /^[-+]?0\d/.test(v))) return { type: 'string' };
+    return { type: 'int' };
+  }
+  if (all(v => NUMBER_REGEX.test(v))) return { type: 'double' };
+  if (all(v => BOOL_VALUES.includes(v.toLowerCase()))) return { type: 'bool' };
+  if (all(v => ISO_DATE_REGEX.test(v) && !Number.isNaN(new Date(v).getTime()))) return { type: 'date', dateFormat: 'iso' };
+  return { type: 'string' };
+};
+
+// Default mapping: header names (or field1, field2, ...) with inferred types
+export const buildColumns = (rows: string[][], header: boolean): CsvColumn[] => {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const dataRows = header ? rows.slice(1) : rows;
+  return Array.from({ length: width }, (_, index) => {
+    const name = header ? (rows[0]?.[index] || '').trim() : '';
+    return {
+      index,
+      field: name || `field${index + 1}`,
+      ...inferColumnType(dataRows.map(row => row[index] ?? ''))
+    };
+  });
+};
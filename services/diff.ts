@@ -0,0 +1,109 @@
+import { Document, DocumentDiff, DocumentMerge, DocumentMergeConflict } from '../types';
+import { isWrapper } from './ejson';
+
+// Turns an edit of a document into $set / $unset on dotted paths, so fields removed in
+// the editor are unset and untouched fields are left as stored. Sub-documents are
+// compared field by field; arrays and EJSON wrappers such as { $date: ... } are single
+// values and are set whole when anything in them changes.
+
+const isSubDocument = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !isWrapper(value);
+
+// Dotted paths cannot address empty names, names with dots or $-prefixed names
+const isAddressable = (key: string): boolean => key !== '' && !key.includes('.') && !key.startsWith('$');
+
+const sameValue = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const collect = (before: any, after: any, prefix: string, diff: DocumentDiff) => {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  const changed = keys.filter(key => !(Object.hasOwn(before, key) && Object.hasOwn(after, key) && sameValue(before[key], after[key])));
+
+  // A nested field that has no path is written by setting its parent whole
+  if (prefix && changed.some(key => !isAddressable(key))) {
+    diff.set[prefix] = after;
+    diff.changes.push({ path: prefix, kind: 'changed', before, after });
+    return;
+  }
+
+  for (const key of changed) {
+    if (!prefix && !isAddressable(key)) diff.pathSafe = false;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (!Object.hasOwn(after, key)) {
+      diff.unset.push(path);
+      diff.changes.push({ path, kind: 'removed', before: before[key] });
+    } else if (!Object.hasOwn(before, key)) {
+      diff.set[path] = after[key];
+      diff.changes.push({ path, kind: 'added', after: after[key] });
+    } else if (isSubDocument(before[key]) && isSubDocument(after[key])) {
+      collect(before[key], after[key], path, diff);
+    } else {
+      diff.set[path] = after[key];
+      diff.changes.push({ path, kind: 'changed', before: before[key], after: after[key] });
+    }
+  }
+};
+
+// Throws if the edit changes the _id, which MongoDB does not allow
+export const diffDocuments = (original: any, edited: any): DocumentDiff => {
+  if (!sameValue(original._id, edited._id)) throw new Error('The _id of a document cannot be changed');
+  const diff: DocumentDiff = { set: {}, unset: [], changes: [], pathSafe: true };
+  collect(original, edited, '', diff);
+  return diff;
+};
+
+// A field of one side of a merge; absent fields are distinct from any value
+interface Field {
+  present: boolean;
+  value?: any;
+}
+
+const field = (doc: any, key: string): Field =>
+  isSubDocument(doc) && Object.hasOwn(doc, key) ? { present: true, value: doc[key] } : { present: false };
+
+const sameField = (a: Field, b: Field): boolean => a.present === b.present && (!a.present || sameValue(a.value, b.value));
+
+const mergeLevel = (
+  base: any,
+  mine: any,
+  theirs: any,
+  prefix: string,
+  resolutions: Record<string, 'mine' | 'theirs'>,
+  conflicts: DocumentMergeConflict[]
+): Record<string, any> => {
+  const out: Record<string, any> = {};
+  // Their field order first, as that is how the document is stored now
+  for (const key of new Set([...Object.keys(theirs), ...Object.keys(mine)])) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const b = field(base, key);
+    const m = field(mine, key);
+    const t = field(theirs, key);
+    let result: Field;
+    if (sameField(m, t) || sameField(t, b)) {
+      result = m;
+    } else if (sameField(m, b)) {
+      result = t;
+    } else if (isSubDocument(m.value) && isSubDocument(t.value)) {
+      result = { present: true, value: mergeLevel(b.value, m.value, t.value, path, resolutions, conflicts) };
+    } else {
+      conflicts.push({ path, base: b.value, mine: m.value, theirs: t.value });
+      result = resolutions[path] === 'theirs' ? t : m;
+    }
+    if (result.present) out[key] = result.value;
+  }
+  return out;
+};
+
+// Three-way merge of an edit (mine) with a concurrent change (theirs) to the same base
+// document. A field changed on one side only takes that side's value; a field changed
+// differently on both sides is a conflict, resolved to mine unless `resolutions` picks
+// theirs for its path.
+export const mergeDocuments = (
+  base: Document,
+  mine: Document,
+  theirs: Document,
+  resolutions: Record<string, 'mine' | 'theirs'> = {}
+): DocumentMerge => {
+  const conflicts: DocumentMergeConflict[] = [];
+  const merged = mergeLevel(base, mine, theirs, '', resolutions, conflicts) as Document;
+  return { merged, conflicts };
+};
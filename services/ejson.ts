@@ -0,0 +1,120 @@
+import { EJSON } from 'bson';
+import { DocumentId } from '../types';
+
+// Documents, filters and command results are exchanged with the server as relaxed
+// Extended JSON, so BSON types show up in the browser as wrapper objects such as
+// { $oid: '...' }, { $date: '...' } or { $numberDecimal: '...' }. These helpers keep
+// those wrappers intact and know how to display and validate them.
+
+const WRAPPER_LABELS: Record<string, string> = {
+  $oid: 'ObjectId',
+  $date: 'Date',
+  $numberDecimal: 'Decimal128',
+  $numberLong: 'Long',
+  $numberInt: 'Int32',
+  $numberDouble: 'Double',
+  $binary: 'Binary',
+  $uuid: 'UUID',
+  $timestamp: 'Timestamp',
+  $regularExpression: 'RegExp',
+  $symbol: 'Symbol',
+  $code: 'Code',
+  $dbPointer: 'DBPointer',
+  $minKey: 'MinKey',
+  $maxKey: 'MaxKey',
+  $undefined: 'Undefined'
+};
+
+// Returns the EJSON wrapper key of a value (e.g. '$oid'), or null for plain values
+export const getWrapperKey = (value: any): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const keys = Object.keys(value);
+  if (keys.length === 0 || !WRAPPER_LABELS[keys[0]]) return null;
+  // $code may carry a $scope alongside it
+  if (keys.length > 1 && !(keys[0] === '$code' && keys.length === 2 && keys[1] === '$scope')) return null;
+  return keys[0];
+};
+
+export const isWrapper = (value: any): boolean => getWrapperKey(value) !== null;
+
+// Human readable BSON type name of a value
+export const getTypeName = (value: any): string => {
+  const key = getWrapperKey(value);
+  if (key === '$binary' && (value.$binary.subType === '04' || value.$binary.subType === '4')) return 'UUID';
+  if (key) return WRAPPER_LABELS[key];
+  if (value === null) return 'Null';
+  if (Array.isArray(value)) return 'Array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'Int32' : 'Double';
+  if (typeof value === 'boolean') return 'Boolean';
+  if (typeof value === 'string') return 'String';
+  return 'Object';
+};
+
+const dateToString = (date: any): string => {
+  if (typeof date === 'string') return date;
+  if (date && typeof date === 'object' && date.$numberLong) return new Date(Number(date.$numberLong)).toISOString();
+  return String(date);
+};
+
+// Shell-style rendering of a single value, e.g. ObjectId("...") or ISODate("...")
+export const formatValue = (value: any): string => {
+  const key = getWrapperKey(value);
+  switch (key) {
+    case '$oid': return `ObjectId("${value.$oid}")`;
+    case '$date': return `ISODate("${dateToString(value.$date)}")`;
+    case '$numberDecimal': return `NumberDecimal("${value.$numberDecimal}")`;
+    case '$numberLong': return `NumberLong("${value.$numberLong}")`;
+    case '$numberInt': return value.$numberInt;
+    case '$numberDouble': return value.$numberDouble;
+    case '$uuid': return `UUID("${value.$uuid}")`;
+    case '$binary': return `BinData(${parseInt(value.$binary.subType, 16)}, "${value.$binary.base64}")`;
+    case '$timestamp': return `Timestamp(${value.$timestamp.t}, ${value.$timestamp.i})`;
+    case '$regularExpression': return `/${value.$regularExpression.pattern}/${value.$regularExpression.options}`;
+    case '$minKey': return 'MinKey()';
+    case '$maxKey': return 'MaxKey()';
+    default: return JSON.stringify(value);
+  }
+};
+
+// Stable string form of a document _id, used for React keys and display
+export const idToString = (id: DocumentId): string => {
+  if (typeof id === 'string') return id;
+  const key = getWrapperKey(id);
+  if (key === '$oid') return (id as any).$oid;
+  if (key) return formatValue(id);
+  return JSON.stringify(id);
+};
+
+// Path segment for document routes: the _id is sent as EJSON so non-ObjectId ids keep their type
+export const encodeId = (id: DocumentId): string => encodeURIComponent(JSON.stringify(id));
+
+// Throws if the value contains malformed wrappers (e.g. an invalid $oid or $date)
+export const validateEJSON = (value: any): void => {
+  EJSON.deserialize(value, { relaxed: false });
+};
+
+// JSON typed into an optional form field: undefined when left empty, otherwise the parsed
+// value, or an error naming the field
+export const parseJsonOption = (label: string, text: string): any => {
+  if (!text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${label} must be valid JSON`);
+  }
+};
+
+// Counts the BSON wrapper types that appear anywhere in a value
+export const countWrapperTypes = (value: any, counts: Record<string, number> = {}): Record<string, number> => {
+  if (Array.isArray(value)) {
+    value.forEach(item => countWrapperTypes(item, counts));
+  } else if (value && typeof value === 'object') {
+    if (isWrapper(value)) {
+      const name = getTypeName(value);
+      counts[name] = (counts[name] || 0) + 1;
+    } else {
+      Object.values(value).forEach(item => countWrapperTypes(item, counts));
+    }
+  }
+  return counts;
+};
@@ -0,0 +1,126 @@
+import { ExplainResult, PlanNode } from '../types';
+
+// Turns the raw explain('executionStats') output into stage trees the visualizer can
+// render. Handles the classic engine (stage/inputStage/inputStages), slot-based engine
+// output (where the readable plan lives under winningPlan.queryPlan) and sharded
+// clusters (where each shard reports its own plan).
+
+// Fields shown as stage details; everything else is noise for the tree view
+const DETAIL_KEYS = [
+  'indexName', 'keyPattern', 'direction', 'indexBounds', 'filter', 'sortPattern',
+  'limitAmount', 'skipAmount', 'memLimit', 'usedDisk', 'spills', 'isMultiKey', 'shardName',
+  'transformBy', 'totalDataSizeSorted'
+];
+
+const toNumber = (value: any): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') {
+    const wrapped = value.$numberLong ?? value.$numberInt ?? value.$numberDouble;
+    return wrapped !== undefined ? Number(wrapped) : undefined;
+  }
+  return Number(value);
+};
+
+const stageWarning = (stage: string, raw: any): string | undefined => {
+  if (stage === 'COLLSCAN') return 'Collection scan: every document is read. Consider an index on the filtered fields.';
+  if (stage === 'SORT') {
+    return raw.usedDisk
+      ? 'In-memory sort spilled to disk. Add an index that matches the sort.'
+      : 'In-memory (blocking) sort. An index matching the sort avoids it.';
+  }
+  return undefined;
+};
+
+const childPlans = (raw: any): any[] => {
+  if (raw.inputStage) return [raw.inputStage];
+  if (Array.isArray(raw.inputStages)) return raw.inputStages;
+  if (Array.isArray(raw.shards)) {
+    return raw.shards.map((shard: any) => ({
+      stage: 'SHARD',
+      shardName: shard.shardName,
+      nReturned: shard.nReturned,
+      totalKeysExamined: shard.totalKeysExamined,
+      totalDocsExamined: shard.totalDocsExamined,
+      executionTimeMillis: shard.executionTimeMillis,
+      inputStage: shard.executionStages ?? shard.winningPlan?.queryPlan ?? shard.winningPlan
+    }));
+  }
+  return [];
+};
+
+export const buildPlanTree = (raw: any): PlanNode | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  // SBE winning plans wrap the readable tree in queryPlan
+  if (!raw.stage && raw.queryPlan) return buildPlanTree(raw.queryPlan);
+  const stage = raw.stage || 'UNKNOWN';
+
+  const details: { [key: string]: any } = {};
+  for (const key of DETAIL_KEYS) {
+    if (raw[key] !== undefined) details[key] = raw[key];
+  }
+
+  return {
+    stage,
+    details,
+    nReturned: toNumber(raw.nReturned),
+    keysExamined: toNumber(raw.keysExamined ?? raw.totalKeysExamined),
+    docsExamined: toNumber(raw.docsExamined ?? raw.totalDocsExamined),
+    executionTimeMillis: toNumber(raw.executionTimeMillisEstimate ?? raw.executionTimeMillis),
+    warning: stageWarning(stage, raw),
+    children: childPlans(raw).map(buildPlanTree).filter((node): node is PlanNode => node !== null)
+  };
+};
+
+// Classic executionStages use upper-case stage names; SBE trees use lower-case slot
+// stages that are hard to read, so fall back to the winning plan shape for those.
+const isClassicTree = (raw: any): boolean =>
+  !!raw && typeof raw.stage === 'string' && raw.stage === raw.stage.toUpperCase();
+
+export interface ExplainSummary {
+  winningPlan: PlanNode | null;
+  rejectedPlans: PlanNode[];
+  nReturned?: number;
+  totalKeysExamined?: number;
+  totalDocsExamined?: number;
+  executionTimeMillis?: number;
+  hasStageStats: boolean;
+  warnings: string[];
+  namespace?: string;
+  indexFilterSet?: boolean;
+}
+
+const collectWarnings = (node: PlanNode | null, warnings: Set<string>) => {
+  if (!node) return;
+  if (node.warning) warnings.add(`${node.stage}: ${node.warning}`);
+  node.children.forEach(child => collectWarnings(child, warnings));
+};
+
+export const summarizeExplain = (explain: ExplainResult): ExplainSummary => {
+  const planner = explain.queryPlanner || {};
+  const stats = explain.executionStats || {};
+  const executionStages = stats.executionStages;
+  const hasStageStats = isClassicTree(executionStages);
+
+  const winningPlan = hasStageStats ? buildPlanTree(executionStages) : buildPlanTree(planner.winningPlan);
+  const warnings = new Set<string>();
+  collectWarnings(winningPlan, warnings);
+
+  const nReturned = toNumber(stats.nReturned);
+  const totalDocsExamined = toNumber(stats.totalDocsExamined);
+  if (nReturned !== undefined && totalDocsExamined !== undefined && totalDocsExamined > 0 && totalDocsExamined > nReturned * 10) {
+    warnings.add(`Examined ${totalDocsExamined} documents to return ${nReturned}. The query is not selective on the index used.`);
+  }
+
+  return {
+    winningPlan,
+    rejectedPlans: (planner.rejectedPlans || []).map(buildPlanTree).filter((node: PlanNode | null): node is PlanNode => node !== null),
+    nReturned,
+    totalKeysExamined: toNumber(stats.totalKeysExamined),
+    totalDocsExamined,
+    executionTimeMillis: toNumber(stats.executionTimeMillis),
+    hasStageStats,
+    warnings: Array.from(warnings),
+    namespace: planner.namespace,
+    indexFilterSet: planner.indexFilterSet
+  };
+};
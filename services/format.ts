@@ -0,0 +1,43 @@
+import { JobInfo, RoleRef } from '../types';
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+};
+
+// Percentage of documents processed, or null while the total is unknown
+export const getJobPercent = (job: JobInfo): number | null => {
+  const { docs, total, bytes, totalBytes } = job.progress;
+  if (total === null || total === undefined) {
+    // Imports only know how much of the file has been read
+    return totalBytes ? Math.min(100, (bytes / totalBytes) * 100) : null;
+  }
+  if (total === 0) return job.status === 'completed' ? 100 : 0;
+  return Math.min(100, (docs / total) * 100);
+};
+
+// e.g. "1,200 / 50,000 docs · 3.4 MB" or, for imports, "1,200 docs · 3.4 MB / 80 MB"
+export const formatJobProgress = (job: JobInfo): string => {
+  const { docs, total, bytes, totalBytes } = job.progress;
+  const count = total === null || total === undefined
+    ? `${docs.toLocaleString()} docs`
+    : `${docs.toLocaleString()} / ${total.toLocaleString()} docs`;
+  if (!bytes) return count;
+  return totalBytes ? `${count} · ${formatBytes(bytes)} / ${formatBytes(totalBytes)}` : `${count} · ${formatBytes(bytes)}`;
+};
+
+// e.g. "980 inserted, 20 failed, 3 skipped"
+export const formatImportCounts = (job: JobInfo): string => {
+  const { inserted = 0, failed = 0, skipped = 0 } = job.progress;
+  const parts = [`${inserted.toLocaleString()} inserted`];
+  if (failed) parts.push(`${failed.toLocaleString()} failed`);
+  if (skipped) parts.push(`${skipped.toLocaleString()} skipped`);
+  return parts.join(', ');
+};
+
+export const formatRole = (role: RoleRef): string => `${role.role}@${role.db}`;
+
+export const sameRole = (a: RoleRef, b: RoleRef): boolean => a.role === b.role && a.db === b.db;
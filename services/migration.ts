@@ -0,0 +1,25 @@
+import { SavedMigration } from '../types';
+
+const STORAGE_KEY = 'mongodeck_last_migration';
+
+export const loadSavedMigration = (): SavedMigration | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load the last migration:', error);
+    return null;
+  }
+};
+
+export const saveMigration = (migration: SavedMigration): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(migration));
+};
+
+export const clearSavedMigration = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// A migration can be resumed while any of its collections is not completed
+export const isResumable = (migration: SavedMigration | null): boolean =>
+  !!migration && migration.log.some(entry => entry.status !== 'completed');
@@ -0,0 +1,39 @@
+import { SavedPipeline } from '../types';
+
+const STORAGE_KEY = 'mongodeck_saved_pipelines';
+
+// Saved pipelines are kept per namespace: { "db.collection": SavedPipeline[] }
+const loadAll = (): Record<string, SavedPipeline[]> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to load saved pipelines:', error);
+    return {};
+  }
+};
+
+const namespace = (dbName: string, colName: string) => `${dbName}.${colName}`;
+
+export const loadSavedPipelines = (dbName: string, colName: string): SavedPipeline[] => {
+  return loadAll()[namespace(dbName, colName)] || [];
+};
+
+// Saves a pipeline, replacing any existing pipeline with the same name
+export const savePipeline = (dbName: string, colName: string, pipeline: SavedPipeline): SavedPipeline[] => {
+  const all = loadAll();
+  const ns = namespace(dbName, colName);
+  const pipelines = (all[ns] || []).filter(p => p.name !== pipeline.name);
+  all[ns] = [...pipelines, pipeline].sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  return all[ns];
+};
+
+export const deleteSavedPipeline = (dbName: string, colName: string, name: string): SavedPipeline[] => {
+  const all = loadAll();
+  const ns = namespace(dbName, colName);
+  all[ns] = (all[ns] || []).filter(p => p.name !== name);
+  if (all[ns].length === 0) delete all[ns];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  return all[ns] || [];
+};
@@ -0,0 +1,49 @@
+// Turns the errInfo of a write rejected by a collection validator into readable lines.
+// Since MongoDB 5.0 errInfo.details explains which rules failed: $jsonSchema failures
+// nest schemaRulesNotSatisfied → propertiesNotSatisfied → details, query operator
+// failures nest clausesNotSatisfied. Each failed rule becomes one "path: reason" line.
+
+// Keys that describe the rule itself rather than nested failures
+const RULE_KEYS = new Set(['specifiedAs', 'consideredValue', 'consideredType', 'missingProperties', 'additionalProperties']);
+
+const formatConsidered = (value: any): string => {
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const collect = (node: any, path: string, lines: string[]) => {
+  if (Array.isArray(node)) {
+    node.forEach(child => collect(child, path, lines));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  const here = node.propertyName ? (path ? `${path}.${node.propertyName}` : node.propertyName) : path;
+  const label = here || 'document';
+  if (Array.isArray(node.missingProperties)) {
+    lines.push(`${label}: missing required ${node.missingProperties.join(', ')}`);
+  }
+  if (Array.isArray(node.additionalProperties)) {
+    lines.push(`${label}: unexpected ${node.additionalProperties.join(', ')}`);
+  }
+  if (node.reason) {
+    let line = `${label}: ${node.operatorName ? `${node.operatorName} ` : ''}${node.reason}`;
+    if (node.specifiedAs) line += ` (expected ${formatConsidered(node.specifiedAs)}`;
+    if (node.consideredValue !== undefined) {
+      line += `${node.specifiedAs ? ', ' : ' ('}got ${formatConsidered(node.consideredValue)}`;
+      if (node.consideredType) line += ` of type ${node.consideredType}`;
+    }
+    if (node.specifiedAs || node.consideredValue !== undefined) line += ')';
+    lines.push(line);
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (!RULE_KEYS.has(key) && value && typeof value === 'object') collect(value, here, lines);
+  }
+};
+
+export const describeValidationFailure = (errInfo: any): string[] => {
+  const lines: string[] = [];
+  collect(errInfo?.details ?? errInfo, '', lines);
+  return lines;
+};
@@ -1,13 +1,40 @@
+// Documents are exchanged as relaxed Extended JSON, so _id may be a wrapper like { $oid: '...' }
+export type DocumentId = string | number | { [key: string]: any };
+
 export interface Document {
-  _id: string;
+  _id: DocumentId;
   [key: string]: any;
 }
 
+export type CollectionKind = 'collection' | 'capped' | 'timeseries' | 'clustered' | 'view';
+
 export interface Collection {
   name: string;
+  kind?: CollectionKind;
   docs: Document[];
 }
 
+// Options of the create command; a view takes only viewOn, pipeline and collation
+export interface CreateCollectionOptions {
+  capped?: boolean;
+  size?: number;
+  max?: number;
+  timeseries?: {
+    timeField: string;
+    metaField?: string;
+    granularity?: 'seconds' | 'minutes' | 'hours';
+  };
+  expireAfterSeconds?: number;
+  clusteredIndex?: { key: { _id: 1 }; unique: true; name?: string };
+  collation?: { locale: string; strength?: number; [key: string]: any };
+  validator?: object;
+  validationLevel?: ValidationLevel;
+  validationAction?: ValidationAction;
+  changeStreamPreAndPostImages?: { enabled: boolean };
+  viewOn?: string;
+  pipeline?: object[];
+}
+
 export interface Database {
   name: string;
   collections: Collection[];
@@ -34,7 +61,9 @@ export interface QueryOptions {
 export enum ViewMode {
   TABLE = 'TABLE',
   JSON = 'JSON',
-  CARD = 'CARD'
+  CARD = 'CARD',
+  SCHEMA = 'SCHEMA',
+  LIVE = 'LIVE'
 }
 
 export interface ServerStatus {
@@ -44,6 +73,19 @@ export interface ServerStatus {
   memoryUsage: number;
 }
 
+// Cumulative serverStatus counters at one point in time (see /api/status/metrics)
+export interface ServerMetricsSample {
+  time: number;
+  uptime: number;
+  opcounters: { insert: number; query: number; update: number; delete: number; getmore: number; command: number };
+  network: { bytesIn: number; bytesOut: number; numRequests: number };
+  connections: { current: number; available: number; active: number };
+  cache: { usedBytes: number; dirtyBytes: number; maxBytes: number } | null;
+  document: { inserted: number; returned: number; updated: number; deleted: number };
+  queryExecutor: { scanned: number; scannedObjects: number };
+  memory: { residentMb: number; virtualMb: number };
+}
+
 export interface SavedConnection {
   name: string;
   config: ConnectionConfig;
@@ -56,24 +98,506 @@ export interface EncryptionKey {
   iv: string;
 }
 
+// Where a command failed to parse; line and column are 1-based
+export interface CommandErrorPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
 export interface CommandResult {
   success: boolean;
   result?: any;
   data?: any;
   error?: string;
+  position?: CommandErrorPosition;
+  // Database the panel is using after the command (changed by `use <db>`)
+  database?: string;
   executionTime?: number;
 }
 
+// tar: a mongodump directory (<db>/<collection>.bson + .metadata.json); archive: mongodump --archive
+export type DumpPackaging = 'tar' | 'archive';
+
 export interface DbExportConfig {
   dbName: string;
   collections?: string[];
   includeIndexes?: boolean;
   format: 'json' | 'bson';
+  jsonFormat?: 'relaxed' | 'canonical';
+  // Container of a BSON export
+  packaging?: DumpPackaging;
+  gzip?: boolean;
 }
 
+export type CollectionExportFormat = 'json' | 'ndjson' | 'csv';
+
 export interface CollectionExportConfig {
   dbName: string;
   colName: string;
   filter?: any;
-  format: 'json' | 'csv';
-}
\ No newline at end of file
+  // CSV columns (dotted paths allowed); defaults to the fields of the first documents
+  fields?: string[];
+  format: CollectionExportFormat;
+  jsonFormat?: 'relaxed' | 'canonical';
+  gzip?: boolean;
+}
+
+export interface RenameCollectionConfig {
+  // Defaults to the source database
+  toDb?: string;
+  toCollection: string;
+  // Replace an existing collection of the new name
+  dropTarget?: boolean;
+}
+
+// Copying within the source database clones the collection
+export interface CollectionCopyConfig extends RenameCollectionConfig {
+  filter?: any;
+  includeIndexes?: boolean;
+  includeValidator?: boolean;
+  // Capped, time series, clustered, collation and pre/post images settings
+  includeOptions?: boolean;
+}
+
+// What happens to a document whose _id already exists in the target collection
+export type MigrationConflictPolicy = 'skip' | 'overwrite' | 'fail';
+
+export interface MigrationItem {
+  db: string;
+  collection: string;
+  toDb?: string;
+  toCollection?: string;
+  filter?: any;
+}
+
+// Progress of one collection; the log of a stopped or failed run resumes it
+export interface MigrationLogEntry extends MigrationItem {
+  toDb: string;
+  toCollection: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  total: number | null;
+  copied: number;
+  skipped: number;
+  // Indexes created on the target, null until they are copied
+  indexes: number | null;
+  // Last _id written, in Extended JSON; copying resumes after it
+  lastId: any;
+  error: string | null;
+}
+
+export interface MigrationConfig {
+  sourceSession: string;
+  targetSession: string;
+  items?: MigrationItem[];
+  log?: MigrationLogEntry[];
+  conflict: MigrationConflictPolicy;
+  includeIndexes: boolean;
+}
+
+// Last migration, kept in the browser so it can be resumed after a reload
+export interface SavedMigration {
+  // Names of the saved connections
+  source: string;
+  target: string;
+  conflict: MigrationConflictPolicy;
+  includeIndexes: boolean;
+  log: MigrationLogEntry[];
+  updatedAt: string;
+}
+
+export type BulkDocumentAction = 'delete' | 'duplicate' | 'update';
+
+// Documents are picked by _id, or by filter for "select all matching"
+export interface BulkDocumentRequest {
+  action: BulkDocumentAction;
+  ids?: DocumentId[];
+  filter?: any;
+  // Update operator document or pipeline, for the update action
+  update?: any;
+}
+
+export interface BulkDocumentResult {
+  action: BulkDocumentAction;
+  results: {
+    _id: DocumentId;
+    status: 'deleted' | 'updated' | 'duplicated' | 'missing' | 'failed';
+    // _id of the copy made by duplicate
+    insertedId?: DocumentId;
+    error?: string;
+  }[];
+  succeeded: number;
+  failed: number;
+  missing: number;
+}
+
+export interface UpdateManyOptions {
+  upsert?: boolean;
+  arrayFilters?: any[];
+}
+
+// Dry run of updateMany: nothing is written to the collection
+export interface UpdateManyPreview {
+  matched: number;
+  sample: { before: Document; after: Document | null }[];
+  // Document an upsert would insert when nothing matches
+  upserted: Document | null;
+  // How the after side was computed; null when the server could not do it without
+  // writing (no transactions) and no scratch copy was requested
+  simulatedWith: 'pipeline' | 'transaction' | 'scratch' | null;
+  executionTime: number;
+}
+
+export interface UpdateManyResult {
+  matchedCount: number;
+  modifiedCount: number;
+  upsertedCount: number;
+  upsertedId: DocumentId | null;
+  executionTime: number;
+}
+
+export interface DeleteManyPreview {
+  matched: number;
+  sample: Document[];
+  executionTime: number;
+}
+
+// One field of an edited document, addressed by its dotted path
+export interface DocumentFieldChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+// Edit of a single document as $set / $unset on dotted paths
+export interface DocumentDiff {
+  set: Record<string, any>;
+  unset: string[];
+  changes: DocumentFieldChange[];
+  // False when a changed top-level field name contains '.' or starts with '$', which
+  // only a whole-document replacement can write
+  pathSafe: boolean;
+}
+
+export type DocumentUpdate = { set: Record<string, any>; unset: string[] } | { replacement: Document };
+
+// A document with the token of its stored version, sent back with an edit of it
+export interface VersionedDocument {
+  document: Document;
+  version: string;
+}
+
+// A field both sides of a concurrent edit changed differently; undefined means removed
+export interface DocumentMergeConflict {
+  path: string;
+  base?: any;
+  mine?: any;
+  theirs?: any;
+}
+
+export interface DocumentMerge {
+  merged: Document;
+  conflicts: DocumentMergeConflict[];
+}
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Server-side background job (exports, imports, copies) polled through /api/jobs/:id
+export interface JobInfo {
+  id: string;
+  type: string;
+  status: JobStatus;
+  progress: {
+    docs: number;
+    total: number | null;
+    bytes: number;
+    [key: string]: any;
+  };
+  error: string | null;
+  result: any;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ImportLayout = 'documents' | 'csv' | 'database' | 'collections' | 'dump';
+
+export type CsvFieldType = 'string' | 'int' | 'double' | 'bool' | 'date' | 'objectId' | 'skip';
+
+export interface CsvColumn {
+  index: number;
+  // Target field; dotted paths create nested documents
+  field: string;
+  type: CsvFieldType;
+  // For dates: 'iso', 'epoch_ms', 'epoch_s' or a pattern such as 'DD/MM/YYYY HH:mm'
+  dateFormat?: string;
+}
+
+export interface CsvImportOptions {
+  delimiter: string;
+  header: boolean;
+  ignoreBlanks: boolean;
+  columns: CsvColumn[];
+}
+
+export interface ImportConfig {
+  // documents: JSON array / NDJSON; csv: delimited text; database: database export; collections: { name: [docs] };
+  // dump: BSON dump as tar, zip or mongodump archive
+  layout: ImportLayout;
+  csv?: CsvImportOptions;
+  batchSize?: number;
+  ordered?: boolean;
+  continueOnError?: boolean;
+  mode?: 'insert' | 'overwrite' | 'skip-duplicates';
+}
+
+export interface ImportError {
+  index: number;
+  collection: string | null;
+  _id?: DocumentId;
+  code?: number;
+  message: string;
+}
+
+export interface ExportStart {
+  jobId: string;
+  downloadUrl: string;
+  filename: string;
+}
+
+export type IndexKeyType = 1 | -1 | 'text' | '2dsphere' | '2d' | 'hashed';
+
+export interface IndexOptions {
+  name?: string;
+  unique?: boolean;
+  sparse?: boolean;
+  hidden?: boolean;
+  expireAfterSeconds?: number;
+  partialFilterExpression?: any;
+  collation?: { locale: string; strength?: number; [key: string]: any };
+  wildcardProjection?: { [field: string]: 0 | 1 };
+  weights?: { [field: string]: number };
+  default_language?: string;
+}
+
+export interface IndexInfo extends IndexOptions {
+  name: string;
+  key: { [field: string]: IndexKeyType };
+  v?: number;
+  size: number | null;
+  usage: { ops: number; since: { $date: string } } | null;
+}
+
+export interface AggregateOptions {
+  allowDiskUse?: boolean;
+  maxTimeMS?: number;
+  previewLimit?: number;
+}
+
+export interface AggregateResult {
+  docs: Document[];
+  executionTime: number;
+  wroteOutput: boolean;
+}
+
+export interface StagePreview {
+  stage: number;
+  operator: string;
+  docs?: Document[];
+  error?: string;
+  skipped?: string;
+  executionTime?: number;
+}
+
+// A stage in the pipeline builder; body is the JSON text of the stage value
+export interface PipelineStage {
+  id: string;
+  operator: string;
+  body: string;
+  enabled: boolean;
+}
+
+export interface SavedPipeline {
+  name: string;
+  stages: PipelineStage[];
+  options: AggregateOptions;
+  updatedAt: string;
+}
+
+// Raw output of explain('executionStats')
+export interface ExplainResult {
+  queryPlanner: any;
+  executionStats?: any;
+  [key: string]: any;
+}
+
+export interface PlanNode {
+  stage: string;
+  details: { [key: string]: any };
+  nReturned?: number;
+  keysExamined?: number;
+  docsExamined?: number;
+  executionTimeMillis?: number;
+  warning?: string;
+  children: PlanNode[];
+}
+
+export interface SchemaTypeStat {
+  type: string;
+  count: number;
+  percentage: number;
+}
+
+export interface SchemaField {
+  path: string;
+  count: number;
+  presence: number;
+  types: SchemaTypeStat[];
+  cardinality: number;
+  cardinalityCapped: boolean;
+  examples: any[];
+}
+
+export interface SchemaAnalysis {
+  sampleSize: number;
+  sampled: number;
+  totalDocuments: number;
+  fields: SchemaField[];
+  executionTime: number;
+}
+
+// One entry of $currentOp (the fields shown by the current operations page)
+export interface CurrentOperation {
+  opid?: number | string;
+  connectionId?: number;
+  type?: string;
+  op?: string;
+  ns?: string;
+  desc?: string;
+  active?: boolean;
+  secs_running?: number;
+  microsecs_running?: number;
+  client?: string;
+  client_s?: string;
+  appName?: string;
+  planSummary?: string;
+  waitingForLock?: boolean;
+  killPending?: boolean;
+  effectiveUsers?: { user: string; db: string }[];
+  command?: any;
+  [key: string]: any;
+}
+
+export interface CurrentOpFilter {
+  minSeconds?: number;
+  ns?: string;
+  op?: string;
+  includeIdle?: boolean;
+}
+
+export type ValidationLevel = 'off' | 'strict' | 'moderate';
+export type ValidationAction = 'error' | 'warn';
+
+export interface ValidationRules {
+  validator: any;
+  validationLevel: ValidationLevel;
+  validationAction: ValidationAction;
+}
+
+// Existing documents that a proposed validator would reject
+export interface ValidationTestResult {
+  failing: number;
+  total: number;
+  docs: Document[];
+  executionTime: number;
+}
+
+export type ProfilingLevel = 0 | 1 | 2;
+
+export interface ProfilingSettings {
+  level: ProfilingLevel;
+  slowms: number;
+  sampleRate: number;
+  filter?: any;
+}
+
+export interface ProfileFilter {
+  ns?: string;
+  op?: string;
+  minMillis?: number;
+}
+
+// Profiled operations sharing an op, namespace and query shape (values replaced by "?")
+export interface ProfileGroup {
+  op: string;
+  ns: string;
+  shape: { filter?: any; sort?: any; pipeline?: any[] };
+  count: number;
+  totalMillis: number;
+  avgMillis: number;
+  maxMillis: number;
+  docsExamined: number;
+  keysExamined: number;
+  nreturned: number;
+  planSummaries: string[];
+  lastSeen: any;
+  slowest: { ts: any; millis: number; filter?: any; sort?: any; pipeline?: any[]; command?: any } | null;
+}
+
+export interface ProfileSummary {
+  groups: ProfileGroup[];
+  entries: number;
+  truncated: boolean;
+  executionTime: number;
+}
+
+export interface RoleRef {
+  role: string;
+  db: string;
+}
+
+export interface DbUser {
+  _id: string;
+  user: string;
+  db: string;
+  roles: RoleRef[];
+  mechanisms?: string[];
+  customData?: any;
+}
+
+// A privilege resource is a database/collection pair ("" matches any), the cluster or any resource
+export interface PrivilegeResource {
+  db?: string;
+  collection?: string;
+  cluster?: true;
+  anyResource?: true;
+}
+
+export interface Privilege {
+  resource: PrivilegeResource;
+  actions: string[];
+}
+
+export interface DbRole {
+  role: string;
+  db: string;
+  isBuiltin: boolean;
+  roles: RoleRef[];
+  inheritedRoles?: RoleRef[];
+  privileges?: Privilege[];
+}
+
+// A change stream event as sent by /api/watch; _id is the resume token
+export interface ChangeEvent {
+  _id: any;
+  operationType: string;
+  documentKey?: { _id: DocumentId };
+  fullDocument?: Document | null;
+  updateDescription?: {
+    updatedFields: Record<string, any>;
+    removedFields: string[];
+    truncatedArrays?: { field: string; newSize: number }[];
+  };
+  clusterTime?: any;
+  wallTime?: any;
+}